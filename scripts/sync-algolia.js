@@ -100,6 +100,7 @@ function transformForAlgolia(entry) {
     is_virtual: entry.is_virtual || false,
     contribution_types: entry.contribution_types || [],
     status: entry.status || 'upcoming',
+    cancellation_reason: entry.cancellation_reason || '',
     
     // Organizer
     organizer_name: entry.organizer_name || '',
@@ -0,0 +1,324 @@
+'use client';
+
+/**
+ * Admin Audit Log Client Component
+ * Filters the audit log by action, actor, target and date, shows each record's
+ * before/after snapshots, and exports the filtered records as CSV.
+ */
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import type { AuditEvent } from '@/lib/audit';
+import styles from './audit.module.css';
+
+interface Filters {
+  action: string;
+  actor: string;
+  target: string;
+  from: string;
+  to: string;
+  q: string;
+}
+
+const EMPTY_FILTERS: Filters = { action: '', actor: '', target: '', from: '', to: '', q: '' };
+
+const ACTOR_LABELS: Record<AuditEvent['actor']['type'], string> = {
+  organizer: 'Organizer',
+  admin: 'Admin',
+  review_link: 'Review link',
+  system: 'System',
+};
+
+/**
+ * Query string for the non-empty filters
+ */
+function toQueryString(filters: Filters): string {
+  const params = new URLSearchParams();
+  for (const [name, value] of Object.entries(filters)) {
+    if (value.trim()) params.set(name, value.trim());
+  }
+  return params.toString();
+}
+
+function formatTimestamp(timestamp: string): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+}
+
+function formatSnapshot(value: Record<string, unknown> | null): string {
+  return value ? JSON.stringify(value, null, 2) : '—';
+}
+
+export function AdminAuditClient() {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [actions, setActions] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [access, setAccess] = useState<'granted' | 'signed_out' | 'forbidden'>('granted');
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadEvents(EMPTY_FILTERS);
+  }, []);
+
+  const loadEvents = async (nextFilters: Filters) => {
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      const response = await fetch(`/api/admin/audit?${toQueryString(nextFilters)}`);
+      if (response.status === 401) {
+        setAccess('signed_out');
+        return;
+      }
+      if (response.status === 403) {
+        setAccess('forbidden');
+        return;
+      }
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load the audit log');
+      }
+
+      setAccess('granted');
+      setEvents(data.events || []);
+      setTotal(data.total || 0);
+      setActions(data.actions || []);
+      setAppliedFilters(nextFilters);
+    } catch (error) {
+      console.error('Failed to load audit log:', error);
+      setLoadError(error instanceof Error ? error.message : 'Failed to load the audit log');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateFilter = (name: keyof Filters, value: string) => {
+    setFilters((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    loadEvents(filters);
+  };
+
+  const handleReset = () => {
+    setFilters(EMPTY_FILTERS);
+    loadEvents(EMPTY_FILTERS);
+  };
+
+  if (isLoading && events.length === 0 && actions.length === 0) {
+    return (
+      <div className={styles.page}>
+        <div className={styles.loading}>Loading audit log...</div>
+      </div>
+    );
+  }
+
+  if (access !== 'granted') {
+    return (
+      <div className={styles.page}>
+        <div className={styles.accessCard}>
+          <h1 className={styles.title}>Audit Log</h1>
+          <p className={styles.subtitle}>
+            {access === 'forbidden'
+              ? 'This account does not have admin access.'
+              : 'Sign in with your admin email to view the audit log.'}
+          </p>
+          <Link href="/admin/submissions" className={styles.secondaryButton}>
+            {access === 'forbidden' ? 'Switch account' : 'Sign in'}
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  // The export uses the filters of the records on screen
+  const exportQuery = toQueryString(appliedFilters);
+  const exportHref = `/api/admin/audit?${exportQuery ? `${exportQuery}&` : ''}format=csv`;
+
+  return (
+    <div className={styles.page}>
+      <header className={styles.header}>
+        <div>
+          <h1 className={styles.title}>Audit Log</h1>
+          <p className={styles.subtitle}>Who changed what, when and why</p>
+        </div>
+        <div className={styles.headerActions}>
+          <Link href="/admin/submissions" className={styles.secondaryButton}>
+            Submissions
+          </Link>
+          <a href={exportHref} className={styles.secondaryButton} download>
+            Export CSV
+          </a>
+        </div>
+      </header>
+
+      <form onSubmit={handleSubmit} className={styles.filters}>
+        <label className={styles.field}>
+          <span>Action</span>
+          <select
+            value={filters.action}
+            onChange={(e) => updateFilter('action', e.target.value)}
+            className={styles.input}
+          >
+            <option value="">All actions</option>
+            {actions.map((action) => (
+              <option key={action} value={action}>{action}</option>
+            ))}
+          </select>
+        </label>
+        <label className={styles.field}>
+          <span>Actor email</span>
+          <input
+            type="text"
+            value={filters.actor}
+            onChange={(e) => updateFilter('actor', e.target.value)}
+            placeholder="name@example.com"
+            className={styles.input}
+          />
+        </label>
+        <label className={styles.field}>
+          <span>Target ID</span>
+          <input
+            type="text"
+            value={filters.target}
+            onChange={(e) => updateFilter('target', e.target.value)}
+            placeholder="Submission, entry or request ID"
+            className={styles.input}
+          />
+        </label>
+        <label className={styles.field}>
+          <span>From</span>
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => updateFilter('from', e.target.value)}
+            className={styles.input}
+          />
+        </label>
+        <label className={styles.field}>
+          <span>To</span>
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => updateFilter('to', e.target.value)}
+            className={styles.input}
+          />
+        </label>
+        <label className={styles.field}>
+          <span>Search</span>
+          <input
+            type="search"
+            value={filters.q}
+            onChange={(e) => updateFilter('q', e.target.value)}
+            placeholder="Title or reason"
+            className={styles.input}
+          />
+        </label>
+        <div className={styles.filterActions}>
+          <button type="submit" className={styles.primaryButton} disabled={isLoading}>
+            {isLoading ? 'Loading...' : 'Apply'}
+          </button>
+          <button type="button" onClick={handleReset} className={styles.secondaryButton}>
+            Reset
+          </button>
+        </div>
+      </form>
+
+      {loadError && <p className={styles.errorText}>{loadError}</p>}
+
+      {total > events.length && (
+        <p className={styles.note}>
+          Showing the newest {events.length} of {total} records. Narrow the filters or export CSV for all of them.
+        </p>
+      )}
+
+      {events.length === 0 ? (
+        <p className={styles.emptyText}>No audit records match.</p>
+      ) : (
+        <table className={styles.table}>
+          <thead>
+            <tr>
+              <th>When</th>
+              <th>Action</th>
+              <th>Actor</th>
+              <th>Target</th>
+              <th>Reason</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {events.map((event) => (
+              <AuditRow
+                key={event.id}
+                event={event}
+                isExpanded={expandedId === event.id}
+                onToggle={() => setExpandedId(expandedId === event.id ? null : event.id)}
+              />
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+function AuditRow({
+  event,
+  isExpanded,
+  onToggle,
+}: {
+  event: AuditEvent;
+  isExpanded: boolean;
+  onToggle: () => void;
+}) {
+  return (
+    <>
+      <tr>
+        <td className={styles.nowrap}>{formatTimestamp(event.timestamp)}</td>
+        <td><code className={styles.action}>{event.action}</code></td>
+        <td>
+          <div>{ACTOR_LABELS[event.actor.type]}</div>
+          {event.actor.email && <div className={styles.muted}>{event.actor.email}</div>}
+          {event.sourceIp && <div className={styles.muted}>{event.sourceIp}</div>}
+        </td>
+        <td>
+          <div>{event.target.title || event.target.id}</div>
+          <div className={styles.muted}>
+            {event.target.type} · {event.target.id}
+          </div>
+        </td>
+        <td className={styles.reason}>{event.reason || '—'}</td>
+        <td>
+          <button type="button" onClick={onToggle} className={styles.linkButton} aria-expanded={isExpanded}>
+            {isExpanded ? 'Hide' : 'Details'}
+          </button>
+        </td>
+      </tr>
+      {isExpanded && (
+        <tr className={styles.detailRow}>
+          <td colSpan={6}>
+            <div className={styles.snapshots}>
+              <div>
+                <h3 className={styles.snapshotTitle}>Before</h3>
+                <pre className={styles.snapshot}>{formatSnapshot(event.before)}</pre>
+              </div>
+              <div>
+                <h3 className={styles.snapshotTitle}>After</h3>
+                <pre className={styles.snapshot}>{formatSnapshot(event.after)}</pre>
+              </div>
+            </div>
+            {event.userAgent && <p className={styles.muted}>User agent: {event.userAgent}</p>}
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
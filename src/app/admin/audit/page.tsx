@@ -0,0 +1,20 @@
+/**
+ * Admin Audit Log Page
+ *
+ * Who changed what, when and why: moderation decisions, edits, cancellations and removals
+ * Access is checked by the API with the signed-in admin's session
+ */
+
+import type { Metadata } from 'next';
+import { AdminAuditClient } from './AdminAuditClient';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Audit Log | ImpactConnect Admin',
+  robots: { index: false },
+};
+
+export default function AdminAuditPage() {
+  return <AdminAuditClient />;
+}
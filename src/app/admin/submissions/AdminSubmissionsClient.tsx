@@ -0,0 +1,769 @@
+'use client';
+
+/**
+ * Admin Submissions Client Component
+ * Lists event submissions with a preview of the published page, and approves
+ * or rejects them with a reason that is emailed to the organizer, or sends them
+ * back with per-field comments. Resubmissions show what changed since the last revision,
+ * and screening scores help triage (high-risk submissions are held without review emails).
+ * Approvals show each publishing step, and ones that stopped partway can be retried.
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
+import { OpportunityDetail } from '@/components/opportunities';
+import { formatDisplayDate } from '@/lib/utils';
+import type { Opportunity } from '@/types';
+import styles from './admin.module.css';
+
+type SubmissionStatus =
+  | 'pending'
+  | 'held'
+  | 'processing'
+  | 'approved'
+  | 'rejected'
+  | 'changes_requested';
+
+type ScreeningRisk = 'low' | 'medium' | 'high';
+
+/**
+ * Field a moderator can comment on
+ */
+interface CommentField {
+  field: string;
+  label: string;
+}
+
+interface FieldComment {
+  field: string;
+  label: string;
+  comment: string;
+}
+
+/**
+ * Field change since the previous revision, with display values
+ */
+interface RevisionChange {
+  field: string;
+  label: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * One step of publishing an approved submission
+ */
+interface PublishingStep {
+  step: string;
+  label: string;
+  status: 'pending' | 'completed' | 'skipped' | 'failed';
+  at: string | null;
+  error: string | null;
+}
+
+interface Submission {
+  submissionId: string;
+  status: SubmissionStatus;
+  submittedAt: string;
+  reviewedAt: string | null;
+  reviewedBy: string | null;
+  reviewReason: string | null;
+  entryUid: string | null;
+  revision: number;
+  changeRequest: {
+    comments: FieldComment[];
+    note: string | null;
+    requestedAt: string;
+  } | null;
+  screening: {
+    score: number;
+    risk: ScreeningRisk;
+    reasons: string[];
+  } | null;
+  publishing: {
+    steps: PublishingStep[];
+    failedStep: string | null;
+    attempts: number;
+    running: boolean;
+    completedAt: string | null;
+  } | null;
+  revisionChanges: RevisionChange[];
+  title: string;
+  organizerName: string;
+  organizerEmail: string;
+  location: string;
+  startDate: string;
+  preview: Opportunity;
+}
+
+type StatusFilter = 'all' | 'pending' | 'held' | 'changes_requested' | 'approved' | 'rejected';
+
+type SortOrder = 'newest' | 'risk';
+
+const FILTERS: Array<{ value: StatusFilter; label: string }> = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'held', label: 'Held' },
+  { value: 'changes_requested', label: 'Changes Requested' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: 'all', label: 'All' },
+];
+
+const PUBLISH_STATUS_LABELS: Record<PublishingStep['status'], string> = {
+  pending: 'Not run',
+  completed: 'Done',
+  skipped: 'Skipped',
+  failed: 'Failed',
+};
+
+const STATUS_LABELS: Record<SubmissionStatus, string> = {
+  pending: 'Pending',
+  held: 'Held',
+  processing: 'Processing',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  changes_requested: 'Changes Requested',
+};
+
+/**
+ * Whether a submission belongs under a filter tab (in-flight ones count as pending)
+ */
+function matchesFilter(submission: Submission, filter: StatusFilter): boolean {
+  if (filter === 'all') return true;
+  if (filter === 'pending') return submission.status === 'pending' || submission.status === 'processing';
+  return submission.status === filter;
+}
+
+export function AdminSubmissionsClient() {
+  const [submissions, setSubmissions] = useState<Submission[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [access, setAccess] = useState<'granted' | 'signed_out' | 'forbidden'>('granted');
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('pending');
+  const [search, setSearch] = useState('');
+  const [sortOrder, setSortOrder] = useState<SortOrder>('newest');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const [reason, setReason] = useState('');
+  const [commentFields, setCommentFields] = useState<CommentField[]>([]);
+  const [fieldComments, setFieldComments] = useState<FieldComment[]>([]);
+  const [commentField, setCommentField] = useState('');
+  const [commentText, setCommentText] = useState('');
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [reviewError, setReviewError] = useState<string | null>(null);
+  const [reviewMessage, setReviewMessage] = useState<string | null>(null);
+
+  // Sign-in (magic link)
+  const [emailInput, setEmailInput] = useState('');
+  const [loginMessage, setLoginMessage] = useState<string | null>(null);
+  const [loginError, setLoginError] = useState<string | null>(null);
+  const [isSendingLink, setIsSendingLink] = useState(false);
+
+  useEffect(() => {
+    loadSubmissions();
+  }, []);
+
+  const loadSubmissions = async () => {
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      const response = await fetch('/api/admin/submissions');
+      if (response.status === 401) {
+        setAccess('signed_out');
+        return;
+      }
+      if (response.status === 403) {
+        setAccess('forbidden');
+        return;
+      }
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load submissions');
+      }
+
+      setAccess('granted');
+      setSubmissions(data.submissions || []);
+      setCommentFields(data.commentFields || []);
+    } catch (error) {
+      console.error('Failed to load submissions:', error);
+      setLoadError(error instanceof Error ? error.message : 'Failed to load submissions');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const visibleSubmissions = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const matching = submissions
+      .filter((s) => matchesFilter(s, statusFilter))
+      .filter((s) => !query || [s.title, s.organizerName, s.organizerEmail, s.location]
+        .some((value) => value?.toLowerCase().includes(query)));
+
+    // The API lists newest first
+    return sortOrder === 'risk'
+      ? [...matching].sort((a, b) => (b.screening?.score || 0) - (a.screening?.score || 0))
+      : matching;
+  }, [submissions, statusFilter, search, sortOrder]);
+
+  const selected = submissions.find((s) => s.submissionId === selectedId) || null;
+
+  const handleSelect = (submissionId: string) => {
+    setSelectedId(submissionId);
+    setReason('');
+    setFieldComments([]);
+    setCommentField('');
+    setCommentText('');
+    setReviewError(null);
+    setReviewMessage(null);
+  };
+
+  /**
+   * Add (or replace) the comment on one field of the change request
+   */
+  const handleAddComment = () => {
+    const field = commentFields.find((f) => f.field === commentField);
+    if (!field || !commentText.trim()) return;
+
+    setFieldComments((prev) => [
+      ...prev.filter((c) => c.field !== field.field),
+      { field: field.field, label: field.label, comment: commentText.trim() },
+    ]);
+    setCommentField('');
+    setCommentText('');
+  };
+
+  const handleRemoveComment = (field: string) => {
+    setFieldComments((prev) => prev.filter((c) => c.field !== field));
+  };
+
+  const handleReview = async (action: 'approve' | 'reject' | 'request_changes') => {
+    if (!selected) return;
+
+    if (action === 'reject' && !reason.trim()) {
+      setReviewError('Please explain to the organizer why the event was rejected.');
+      return;
+    }
+
+    if (action === 'request_changes' && fieldComments.length === 0 && !reason.trim()) {
+      setReviewError('Add a comment on a field or a message telling the organizer what to change.');
+      return;
+    }
+
+    setIsReviewing(true);
+    setReviewError(null);
+    setReviewMessage(null);
+    try {
+      const response = await fetch('/api/admin/submissions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          submissionId: selected.submissionId,
+          action,
+          reason,
+          revision: selected.revision,
+          ...(action === 'request_changes'
+            ? { comments: fieldComments.map(({ field, comment }) => ({ field, comment })) }
+            : {}),
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to review submission');
+      }
+
+      setSubmissions((prev) => prev.map((s) => (
+        s.submissionId === selected.submissionId
+          ? {
+              ...s,
+              status: result.data.status,
+              reviewedAt: result.data.reviewedAt,
+              reviewedBy: result.data.reviewedBy,
+              entryUid: result.data.entryUid,
+              reviewReason: reason.trim() || null,
+              changeRequest: action === 'request_changes'
+                ? { comments: fieldComments, note: reason.trim() || null, requestedAt: result.data.reviewedAt }
+                : s.changeRequest,
+            }
+          : s
+      )));
+      setReason('');
+      setFieldComments([]);
+      setReviewMessage(
+        action === 'approve'
+          ? 'Approved and published. The organizer has been notified.'
+          : action === 'reject'
+          ? 'Rejected. The organizer has been emailed your reason.'
+          : 'Changes requested. The organizer has been emailed a link to revise the event.'
+      );
+    } catch (error) {
+      setReviewError(error instanceof Error ? error.message : 'Failed to review submission');
+      // Someone else may have decided it in the meantime
+      loadSubmissions();
+    } finally {
+      setIsReviewing(false);
+    }
+  };
+
+  /**
+   * Re-run the failed and remaining publishing steps of an approved submission
+   */
+  const handleResumePublishing = async () => {
+    if (!selected) return;
+
+    setIsReviewing(true);
+    setReviewError(null);
+    setReviewMessage(null);
+    try {
+      const response = await fetch('/api/admin/submissions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ submissionId: selected.submissionId, action: 'resume_publishing' }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to resume publishing');
+      }
+      setReviewMessage('Published. Every step has now completed.');
+    } catch (error) {
+      setReviewError(error instanceof Error ? error.message : 'Failed to resume publishing');
+    } finally {
+      setIsReviewing(false);
+      // Pick up the recorded step states either way
+      loadSubmissions();
+    }
+  };
+
+  const handleEmailSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!emailInput.trim()) return;
+
+    setIsSendingLink(true);
+    setLoginError(null);
+    setLoginMessage(null);
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: emailInput.trim(), redirect: '/admin/submissions' }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send sign-in link');
+      }
+      setLoginMessage(data.message);
+    } catch (err) {
+      setLoginError(err instanceof Error ? err.message : 'Failed to send sign-in link');
+    } finally {
+      setIsSendingLink(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } finally {
+      setSubmissions([]);
+      setAccess('signed_out');
+    }
+  };
+
+  if (isLoading && submissions.length === 0) {
+    return (
+      <div className={styles.page}>
+        <div className={styles.loading}>Loading submissions...</div>
+      </div>
+    );
+  }
+
+  if (access !== 'granted') {
+    return (
+      <div className={styles.page}>
+        <div className={styles.accessCard}>
+          <h1 className={styles.title}>Event Submissions</h1>
+          {access === 'forbidden' ? (
+            <>
+              <p className={styles.subtitle}>
+                This account does not have admin access. Sign in with an admin email to moderate submissions.
+              </p>
+              <button type="button" onClick={handleSignOut} className={styles.secondaryButton}>
+                Sign out
+              </button>
+            </>
+          ) : (
+            <>
+              <p className={styles.subtitle}>
+                Sign in with your admin email. We will email you a one-time sign-in link.
+              </p>
+              {loginError && <p className={styles.errorText}>{loginError}</p>}
+              {loginMessage && <p className={styles.successText}>{loginMessage}</p>}
+              <form onSubmit={handleEmailSubmit} className={styles.signInForm}>
+                <input
+                  type="email"
+                  value={emailInput}
+                  onChange={(e) => setEmailInput(e.target.value)}
+                  placeholder="admin@example.com"
+                  className={styles.input}
+                  required
+                />
+                <button type="submit" className={styles.primaryButton} disabled={isSendingLink}>
+                  {isSendingLink ? 'Sending...' : 'Email Me a Sign-in Link'}
+                </button>
+              </form>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.page}>
+      <header className={styles.header}>
+        <div>
+          <h1 className={styles.title}>Event Submissions</h1>
+          <p className={styles.subtitle}>Review new events before they are published</p>
+        </div>
+        <div className={styles.headerActions}>
+          <Link href="/admin/audit" className={styles.secondaryButton}>
+            Audit Log
+          </Link>
+          <button type="button" onClick={loadSubmissions} className={styles.secondaryButton} disabled={isLoading}>
+            {isLoading ? 'Refreshing...' : 'Refresh'}
+          </button>
+          <button type="button" onClick={handleSignOut} className={styles.secondaryButton}>
+            Sign out
+          </button>
+        </div>
+      </header>
+
+      {loadError && <p className={styles.errorText}>{loadError}</p>}
+
+      <div className={styles.layout}>
+        {/* Queue */}
+        <aside className={styles.queue}>
+          <div className={styles.filterTabs} role="tablist" aria-label="Filter by status">
+            {FILTERS.map((filter) => (
+              <button
+                key={filter.value}
+                type="button"
+                role="tab"
+                aria-selected={statusFilter === filter.value}
+                onClick={() => setStatusFilter(filter.value)}
+                className={`${styles.filterTab} ${statusFilter === filter.value ? styles.filterTabActive : ''}`}
+              >
+                {filter.label}
+                <span className={styles.filterCount}>
+                  {submissions.filter((s) => matchesFilter(s, filter.value)).length}
+                </span>
+              </button>
+            ))}
+          </div>
+
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search title, organizer or location"
+            className={styles.input}
+            aria-label="Search submissions"
+          />
+
+          <select
+            value={sortOrder}
+            onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+            className={styles.input}
+            aria-label="Sort submissions"
+          >
+            <option value="newest">Newest first</option>
+            <option value="risk">Highest risk first</option>
+          </select>
+
+          {visibleSubmissions.length === 0 ? (
+            <p className={styles.emptyText}>No submissions match.</p>
+          ) : (
+            <ul className={styles.submissionList}>
+              {visibleSubmissions.map((submission) => (
+                <li key={submission.submissionId}>
+                  <button
+                    type="button"
+                    onClick={() => handleSelect(submission.submissionId)}
+                    className={`${styles.submissionItem} ${
+                      submission.submissionId === selectedId ? styles.submissionItemActive : ''
+                    }`}
+                  >
+                    <span className={styles.submissionTitle}>{submission.title}</span>
+                    <span className={styles.submissionMeta}>
+                      {submission.organizerName} · {submission.location}
+                    </span>
+                    <span className={styles.submissionMeta}>
+                      Submitted {formatDisplayDate(submission.submittedAt)} · Starts {formatDisplayDate(submission.startDate)}
+                      {submission.revision > 1 && ` · Revision ${submission.revision}`}
+                    </span>
+                    <span className={styles.badges}>
+                      <span className={`${styles.statusBadge} ${styles[submission.status]}`}>
+                        {STATUS_LABELS[submission.status]}
+                      </span>
+                      {submission.screening && submission.screening.risk !== 'low' && (
+                        <span className={`${styles.statusBadge} ${styles[`risk_${submission.screening.risk}`]}`}>
+                          Risk {submission.screening.score}
+                        </span>
+                      )}
+                      {submission.publishing?.failedStep && (
+                        <span className={`${styles.statusBadge} ${styles.publishFailed}`}>
+                          Publish failed
+                        </span>
+                      )}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </aside>
+
+        {/* Preview and decision */}
+        <section className={styles.detail}>
+          {!selected ? (
+            <p className={styles.emptyText}>Select a submission to preview it.</p>
+          ) : (
+            <>
+              <div className={styles.reviewPanel}>
+                <div className={styles.reviewHeader}>
+                  <div>
+                    <h2 className={styles.reviewTitle}>{selected.title}</h2>
+                    <p className={styles.submissionMeta}>
+                      {selected.submissionId} · {selected.organizerName} &lt;{selected.organizerEmail}&gt;
+                      {selected.revision > 1 && ` · Revision ${selected.revision}`}
+                    </p>
+                  </div>
+                  <span className={`${styles.statusBadge} ${styles[selected.status]}`}>
+                    {STATUS_LABELS[selected.status]}
+                  </span>
+                </div>
+
+                {reviewMessage && <p className={styles.successText}>{reviewMessage}</p>}
+                {reviewError && <p className={styles.errorText}>{reviewError}</p>}
+
+                {selected.screening && (
+                  <div className={styles.screening}>
+                    <p className={styles.label}>
+                      Screening: {selected.screening.risk} risk ({selected.screening.score}/100)
+                      {selected.status === 'held' && ' · held without review emails'}
+                    </p>
+                    {selected.screening.reasons.length === 0 ? (
+                      <p className={styles.submissionMeta}>No automated checks matched.</p>
+                    ) : (
+                      <ul className={styles.screeningReasons}>
+                        {selected.screening.reasons.map((reason) => (
+                          <li key={reason}>{reason}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
+                {selected.publishing && (
+                  <div className={styles.publishing}>
+                    <p className={styles.label}>
+                      Publishing
+                      {selected.publishing.attempts > 1 && ` · ${selected.publishing.attempts} attempts`}
+                      {selected.publishing.running && ' · in progress'}
+                    </p>
+                    <ol className={styles.publishSteps}>
+                      {selected.publishing.steps.map((step) => (
+                        <li key={step.step} className={styles.publishStep}>
+                          <span>{step.label}</span>
+                          <span className={`${styles.statusBadge} ${styles[`publish_${step.status}`]}`}>
+                            {PUBLISH_STATUS_LABELS[step.status]}
+                          </span>
+                          {step.error && <span className={styles.publishError}>{step.error}</span>}
+                        </li>
+                      ))}
+                    </ol>
+                    {selected.status === 'approved' && !selected.publishing.completedAt && !selected.publishing.running && (
+                      <button
+                        type="button"
+                        onClick={handleResumePublishing}
+                        className={styles.primaryButton}
+                        disabled={isReviewing}
+                      >
+                        {isReviewing ? 'Working...' : 'Retry Publishing'}
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                {selected.revision > 1 && (
+                  <div className={styles.revisionChanges}>
+                    <p className={styles.label}>Changes since revision {selected.revision - 1}</p>
+                    {selected.revisionChanges.length === 0 ? (
+                      <p className={styles.submissionMeta}>The organizer resubmitted without changing any fields.</p>
+                    ) : (
+                      <table className={styles.changesTable}>
+                        <thead>
+                          <tr>
+                            <th>Field</th>
+                            <th>Before</th>
+                            <th>After</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {selected.revisionChanges.map((change) => (
+                            <tr key={change.field}>
+                              <td>{change.label}</td>
+                              <td className={styles.changeFrom}>{change.from}</td>
+                              <td className={styles.changeTo}>{change.to}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                )}
+
+                {selected.status === 'pending' || selected.status === 'held' ? (
+                  <>
+                    <label htmlFor="reviewReason" className={styles.label}>
+                      Message for the organizer
+                    </label>
+                    <textarea
+                      id="reviewReason"
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      placeholder="Required to reject: explain why. Optional when approving or requesting changes."
+                      className={styles.textarea}
+                      maxLength={2000}
+                    />
+
+                    <span className={styles.label}>Comments on specific fields</span>
+                    {fieldComments.length > 0 && (
+                      <ul className={styles.commentList}>
+                        {fieldComments.map((item) => (
+                          <li key={item.field} className={styles.commentItem}>
+                            <span>
+                              <strong>{item.label}:</strong> {item.comment}
+                            </span>
+                            <button
+                              type="button"
+                              onClick={() => handleRemoveComment(item.field)}
+                              className={styles.secondaryButton}
+                            >
+                              Remove
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    <div className={styles.commentForm}>
+                      <select
+                        value={commentField}
+                        onChange={(e) => setCommentField(e.target.value)}
+                        className={styles.input}
+                        aria-label="Field to comment on"
+                      >
+                        <option value="">Choose a field</option>
+                        {commentFields.map((item) => (
+                          <option key={item.field} value={item.field}>{item.label}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="text"
+                        value={commentText}
+                        onChange={(e) => setCommentText(e.target.value)}
+                        placeholder="What should the organizer change?"
+                        className={styles.input}
+                        maxLength={2000}
+                        aria-label="Comment"
+                      />
+                      <button
+                        type="button"
+                        onClick={handleAddComment}
+                        className={styles.secondaryButton}
+                        disabled={!commentField || !commentText.trim()}
+                      >
+                        Add
+                      </button>
+                    </div>
+                    <div className={styles.reviewActions}>
+                      <button
+                        type="button"
+                        onClick={() => handleReview('approve')}
+                        className={styles.approveButton}
+                        disabled={isReviewing}
+                      >
+                        {isReviewing ? 'Working...' : 'Approve & Publish'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleReview('request_changes')}
+                        className={styles.changesButton}
+                        disabled={isReviewing}
+                      >
+                        Request Changes
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleReview('reject')}
+                        className={styles.rejectButton}
+                        disabled={isReviewing}
+                      >
+                        Reject
+                      </button>
+                    </div>
+                  </>
+                ) : selected.status === 'processing' ? (
+                  <p className={styles.submissionMeta}>
+                    This submission is being processed from another link. Refresh in a moment.
+                  </p>
+                ) : (
+                  <div className={styles.decision}>
+                    <p>
+                      {STATUS_LABELS[selected.status]}
+                      {selected.reviewedAt && ` on ${formatDisplayDate(selected.reviewedAt)}`}
+                      {selected.reviewedBy ? ` by ${selected.reviewedBy}` : ' from the email link'}
+                    </p>
+                    {selected.reviewReason && (
+                      <blockquote className={styles.reason}>{selected.reviewReason}</blockquote>
+                    )}
+                    {selected.status === 'changes_requested' && selected.changeRequest && (
+                      <>
+                        {selected.changeRequest.comments.length > 0 && (
+                          <ul className={styles.commentList}>
+                            {selected.changeRequest.comments.map((item) => (
+                              <li key={item.field} className={styles.commentItem}>
+                                <span>
+                                  <strong>{item.label}:</strong> {item.comment}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                        <p className={styles.submissionMeta}>
+                          Waiting for the organizer to revise and resubmit the event.
+                        </p>
+                      </>
+                    )}
+                    {selected.status === 'approved' && !selected.publishing?.failedStep && (
+                      <Link href={`/opportunities/${selected.preview.slug}`} className={styles.secondaryButton}>
+                        View Published Event
+                      </Link>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              <div className={styles.preview}>
+                <p className={styles.previewLabel}>Preview</p>
+                <OpportunityDetail opportunity={selected.preview} onRegisterClick={() => undefined} />
+              </div>
+            </>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+/**
+ * Admin Submissions Page
+ *
+ * Moderation queue for new event submissions: list, filter, preview, approve or reject
+ * Access is checked by the API with the signed-in admin's session
+ */
+
+import type { Metadata } from 'next';
+import { AdminSubmissionsClient } from './AdminSubmissionsClient';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Event Submissions | ImpactConnect Admin',
+  robots: { index: false },
+};
+
+export default function AdminSubmissionsPage() {
+  return <AdminSubmissionsClient />;
+}
@@ -0,0 +1,98 @@
+/**
+ * Admin Audit Log API Route
+ * Who changed what, when and why (admins only)
+ * - GET: audit records, newest first, filtered by ?action=&actor=&target=&from=&to=&q=
+ * - GET ?format=csv: the same records as a CSV download
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminSession, getOrganizerSession } from '@/lib/auth';
+import { AUDIT_ACTIONS, buildAuditCsv, listAuditEvents } from '@/lib/audit';
+import type { AuditAction, AuditFilters } from '@/lib/audit';
+
+/**
+ * Most records returned to the admin page (the CSV export has no limit)
+ */
+const MAX_LISTED_EVENTS = 500;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * 401 when signed out, 403 when signed in without admin access
+ */
+function getAccessError(request: NextRequest): NextResponse {
+  return getOrganizerSession(request)
+    ? NextResponse.json({ error: 'This account does not have admin access' }, { status: 403 })
+    : NextResponse.json({ error: 'Please sign in to view the audit log' }, { status: 401 });
+}
+
+/**
+ * Filters from the query string, or an error message
+ */
+function parseFilters(params: URLSearchParams): { filters: AuditFilters; error?: string } {
+  const get = (name: string) => params.get(name)?.trim() || undefined;
+  const filters: AuditFilters = {
+    action: get('action') as AuditAction | undefined,
+    actor: get('actor'),
+    targetId: get('target'),
+    from: get('from'),
+    to: get('to'),
+    search: get('q'),
+  };
+
+  if (filters.action && !AUDIT_ACTIONS.includes(filters.action)) {
+    return { filters, error: 'Invalid action filter' };
+  }
+  if ((filters.from && !DATE_PATTERN.test(filters.from)) || (filters.to && !DATE_PATTERN.test(filters.to))) {
+    return { filters, error: 'Dates must be in YYYY-MM-DD format' };
+  }
+
+  return { filters };
+}
+
+/**
+ * GET /api/admin/audit[?action=...&actor=...&target=...&from=YYYY-MM-DD&to=YYYY-MM-DD&q=...&format=csv]
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = getAdminSession(request);
+    if (!session) {
+      return getAccessError(request);
+    }
+
+    const { filters, error } = parseFilters(request.nextUrl.searchParams);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    if (request.nextUrl.searchParams.get('format') === 'csv') {
+      const { events } = await listAuditEvents(filters);
+      const filename = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+
+      // BOM so spreadsheet apps detect UTF-8
+      return new NextResponse(`\uFEFF${buildAuditCsv(events)}`, {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+          'Cache-Control': 'private, no-store',
+        },
+      });
+    }
+
+    const { events, total } = await listAuditEvents(filters, { limit: MAX_LISTED_EVENTS });
+
+    return NextResponse.json({
+      events,
+      total,
+      truncated: total > events.length,
+      actions: AUDIT_ACTIONS,
+    }, { headers: { 'Cache-Control': 'private, no-store' } });
+
+  } catch (error) {
+    console.error('[AdminAudit] Error listing audit events:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,355 @@
+/**
+ * Admin Submissions API Route
+ * Moderation queue for new event submissions (admins only)
+ * - GET: list submissions (optionally ?status=...), each with a preview of the published event,
+ *   its screening score and reasons and, for resubmissions, the changes since the previous revision
+ * - POST: approve or reject a submission with a written reason for the organizer,
+ *   request changes with per-field comments, or resume publishing an approved
+ *   submission whose publishing stopped at a failed step
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminSession, getOrganizerSession } from '@/lib/auth';
+import { getAuditContext } from '@/lib/audit';
+import {
+  EVENT_FIELD_LABELS,
+  PUBLISH_STEPS,
+  PUBLISH_STEP_LABELS,
+  formatFieldValue,
+  getRevisionChanges,
+  getSubmissionRevision,
+  listSubmissions,
+  requestSubmissionChanges,
+  resumeSubmissionPublishing,
+  reviewSubmission,
+  submissionToOpportunity,
+} from '@/lib/events';
+import type {
+  EditableEventField,
+  EventSubmissionStatus,
+  SubmissionFieldComment,
+} from '@/lib/events';
+
+const STATUSES: EventSubmissionStatus[] = [
+  'pending',
+  'held',
+  'processing',
+  'approved',
+  'rejected',
+  'changes_requested',
+];
+
+/**
+ * Fields moderators can comment on (the cover image URL follows the image)
+ */
+const COMMENT_FIELDS: EditableEventField[] = (Object.keys(EVENT_FIELD_LABELS) as EditableEventField[])
+  .filter((field) => field !== 'coverImageUrl');
+
+/**
+ * Longest accepted review reason
+ */
+const MAX_REASON_LENGTH = 2000;
+
+/**
+ * Per-field comments from the request body, or an error message
+ */
+function parseFieldComments(
+  value: unknown
+): { comments: SubmissionFieldComment[]; error?: string } {
+  if (value === undefined) {
+    return { comments: [] };
+  }
+  if (!Array.isArray(value)) {
+    return { comments: [], error: 'Comments must be a list' };
+  }
+
+  const comments: SubmissionFieldComment[] = [];
+  for (const item of value) {
+    const field = item?.field as EditableEventField;
+    const comment = typeof item?.comment === 'string' ? item.comment.trim() : '';
+    if (!COMMENT_FIELDS.includes(field)) {
+      return { comments: [], error: 'Comment on an unknown field' };
+    }
+    if (!comment) continue;
+    if (comment.length > MAX_REASON_LENGTH) {
+      return { comments: [], error: `Comments must be ${MAX_REASON_LENGTH} characters or fewer` };
+    }
+    if (comments.some((c) => c.field === field)) {
+      return { comments: [], error: `Only one comment per field (${EVENT_FIELD_LABELS[field]})` };
+    }
+    comments.push({ field, comment });
+  }
+
+  return { comments };
+}
+
+/**
+ * 401 when signed out, 403 when signed in without admin access
+ */
+function getAccessError(request: NextRequest): NextResponse {
+  return getOrganizerSession(request)
+    ? NextResponse.json({ error: 'This account does not have admin access' }, { status: 403 })
+    : NextResponse.json({ error: 'Please sign in to moderate submissions' }, { status: 401 });
+}
+
+/**
+ * GET /api/admin/submissions[?status=pending|held|processing|approved|rejected|changes_requested]
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = getAdminSession(request);
+    if (!session) {
+      return getAccessError(request);
+    }
+
+    const status = request.nextUrl.searchParams.get('status');
+    if (status && !STATUSES.includes(status as EventSubmissionStatus)) {
+      return NextResponse.json(
+        { error: 'Invalid status filter' },
+        { status: 400 }
+      );
+    }
+
+    const submissions = await listSubmissions((status as EventSubmissionStatus) || undefined);
+
+    return NextResponse.json({
+      submissions: submissions.map((submission) => ({
+        submissionId: submission.submissionId,
+        status: submission.status,
+        submittedAt: submission.submittedAt,
+        reviewedAt: submission.reviewedAt || null,
+        reviewedBy: submission.reviewedBy || null,
+        reviewReason: submission.reviewReason || null,
+        entryUid: submission.entryUid || null,
+        revision: getSubmissionRevision(submission),
+        changeRequest: submission.changeRequest
+          ? {
+              comments: submission.changeRequest.comments.map(({ field, comment }) => ({
+                field,
+                label: EVENT_FIELD_LABELS[field],
+                comment,
+              })),
+              note: submission.changeRequest.note || null,
+              requestedAt: submission.changeRequest.requestedAt,
+            }
+          : null,
+        screening: submission.screening
+          ? {
+              score: submission.screening.score,
+              risk: submission.screening.risk,
+              reasons: submission.screening.flags.map((flag) => flag.reason),
+            }
+          : null,
+        publishing: submission.publishing
+          ? {
+              steps: PUBLISH_STEPS.map((step) => ({
+                step,
+                label: PUBLISH_STEP_LABELS[step],
+                status: submission.publishing?.steps[step]?.status || 'pending',
+                at: submission.publishing?.steps[step]?.at || null,
+                error: submission.publishing?.steps[step]?.error || null,
+              })),
+              failedStep: submission.publishing.failedStep || null,
+              attempts: submission.publishing.attempts,
+              running: !!submission.publishing.runningSince,
+              completedAt: submission.publishing.completedAt || null,
+            }
+          : null,
+        revisionChanges: getRevisionChanges(submission).map((change) => ({
+          field: change.field,
+          label: change.label,
+          from: formatFieldValue(change.from),
+          to: formatFieldValue(change.to),
+        })),
+        title: submission.event.title,
+        organizerName: submission.event.organizerName,
+        organizerEmail: submission.event.organizerEmail,
+        location: submission.event.location,
+        startDate: submission.event.startDate,
+        preview: submissionToOpportunity(submission),
+      })),
+      commentFields: COMMENT_FIELDS.map((field) => ({ field, label: EVENT_FIELD_LABELS[field] })),
+    }, { headers: { 'Cache-Control': 'private, no-store' } });
+
+  } catch (error) {
+    console.error('[AdminSubmissions] Error listing submissions:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/submissions
+ * Body: { submissionId, action: 'approve' | 'reject' | 'request_changes' | 'resume_publishing', reason, comments?, revision? }
+ * A reason is required to reject and optional to approve. Requesting changes needs
+ * at least one field comment ({ field, comment }) or a reason. The revision the
+ * moderator reviewed guards against deciding a newer one from a stale queue.
+ * Resuming publishing re-runs the failed and remaining steps of an approval.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = getAdminSession(request);
+    if (!session) {
+      return getAccessError(request);
+    }
+
+    let body: {
+      submissionId?: string;
+      action?: string;
+      reason?: string;
+      comments?: unknown;
+      revision?: number;
+    };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    const { submissionId, action } = body;
+    const revision = typeof body.revision === 'number' ? body.revision : undefined;
+    const reason = typeof body.reason === 'string' ? body.reason.trim() : '';
+
+    if (!submissionId) {
+      return NextResponse.json(
+        { success: false, error: 'Submission ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      action !== 'approve'
+      && action !== 'reject'
+      && action !== 'request_changes'
+      && action !== 'resume_publishing'
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid action. Must be approve, reject, request_changes or resume_publishing.' },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'reject' && !reason) {
+      return NextResponse.json(
+        { success: false, error: 'Please explain to the organizer why the event was rejected' },
+        { status: 400 }
+      );
+    }
+
+    if (reason.length > MAX_REASON_LENGTH) {
+      return NextResponse.json(
+        { success: false, error: `Reason must be ${MAX_REASON_LENGTH} characters or fewer` },
+        { status: 400 }
+      );
+    }
+
+    const { comments, error: commentsError } = parseFieldComments(body.comments);
+    if (commentsError) {
+      return NextResponse.json(
+        { success: false, error: commentsError },
+        { status: 400 }
+      );
+    }
+
+    if (action === 'request_changes' && comments.length === 0 && !reason) {
+      return NextResponse.json(
+        { success: false, error: 'Please tell the organizer what to change' },
+        { status: 400 }
+      );
+    }
+
+    const audit = getAuditContext(request, { type: 'admin', email: session.email });
+    const result = action === 'resume_publishing'
+      ? await resumeSubmissionPublishing(submissionId)
+      : action === 'request_changes'
+      ? await requestSubmissionChanges(submissionId, {
+          comments,
+          note: reason,
+          reviewedBy: session.email,
+          revision,
+          audit,
+        })
+      : await reviewSubmission(submissionId, action, {
+          reason,
+          reviewedBy: session.email,
+          revision,
+          audit,
+        });
+
+    if (!result.success) {
+      if (result.error === 'not_found') {
+        return NextResponse.json(
+          { success: false, error: 'Submission not found' },
+          { status: 404 }
+        );
+      }
+      if (result.error === 'already_processed' && action === 'resume_publishing') {
+        return NextResponse.json(
+          {
+            success: false,
+            error: result.submission?.publishing?.runningSince
+              ? 'Publishing is already in progress'
+              : 'This submission has nothing left to publish',
+          },
+          { status: 409 }
+        );
+      }
+      if (result.error === 'already_processed') {
+        return NextResponse.json(
+          {
+            success: false,
+            error: result.submission && revision !== undefined
+              && getSubmissionRevision(result.submission) !== revision
+              ? 'The organizer has resubmitted this event since you opened it'
+              : result.submission?.status === 'changes_requested'
+              ? 'This submission is waiting for the organizer to make changes'
+              : `This submission was already ${result.submission?.status || 'processed'}`,
+          },
+          { status: 409 }
+        );
+      }
+      if (result.error === 'publish_failed') {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Approved, but publishing stopped. ${result.message || ''} Retry publishing once the problem is fixed.`,
+          },
+          { status: 502 }
+        );
+      }
+      return NextResponse.json(
+        { success: false, error: `Failed to create event: ${result.message || 'unknown error'}` },
+        { status: 502 }
+      );
+    }
+
+    console.log('[AdminSubmissions] Reviewed:', {
+      submissionId,
+      action,
+      reviewedBy: session.email,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        submissionId,
+        status: result.submission.status,
+        reviewedAt: result.submission.reviewedAt || null,
+        reviewedBy: result.submission.reviewedBy || null,
+        entryUid: result.submission.entryUid || null,
+      },
+    });
+
+  } catch (error) {
+    console.error('[AdminSubmissions] Error reviewing submission:', error);
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
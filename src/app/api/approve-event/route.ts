@@ -1,274 +1,244 @@
 /**
  * Approve/Reject Event API Route
  * Called when admin clicks approve/reject link in email
- * - Approve: Creates entry via Management API, then notifies organizer
+ * - Approve: Creates and publishes the entry via Management API, indexes it, then notifies organizer
  * - Reject: Notifies organizer to update details
+ *
+ * Links carry a signed token naming the stored submission, the action and the
+ * revision. Opening a link only shows a confirmation page (mail scanners and
+ * prefetchers open links too); the decision is made when that page POSTs the
+ * token back. Each submission is processed once; replayed links show it was
+ * already handled, and links for an earlier revision no longer act on it.
+ * Confirming an approve link again after publishing stopped partway resumes it.
+ * Admins can also decide from the moderation queue (/admin/submissions).
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { getAuditContext } from '@/lib/audit';
+import {
+  getSubmission,
+  getSubmissionRevision,
+  hasUnfinishedPublishSteps,
+  reviewSubmission,
+  verifySubmissionReviewToken,
+} from '@/lib/events';
+import type { StoredEventSubmission } from '@/lib/events';
 
-interface EventData {
-  submissionId?: string;
-  title: string;
-  slug: string;
-  description?: string;
-  summary?: string;
-  coverImageUid?: string;
-  coverImageUrl?: string;
-  country?: string;
-  state?: string;
-  city?: string;
-  address?: string;
-  isVirtual?: boolean;
-  causeSlugs?: string[];
-  contributionTypes?: string[];
-  startDate: string;
-  endDate?: string;
-  startTime?: string;
-  endTime?: string;
-  organizerName?: string;
-  organizerEmail: string;
-  spotsAvailable?: number;
-  requirements?: string;
+/**
+ * Error page for an invalid or expired link
+ */
+function invalidLinkResponse(error: string): NextResponse {
+  return htmlResponse(
+    generateHtmlResponse(
+      'Error',
+      error === 'expired'
+        ? 'This approval link has expired.'
+        : 'This approval link is invalid.',
+      'error'
+    ),
+    400
+  );
 }
 
 /**
- * Create opportunity entry via Contentstack Management API
+ * Page for a link whose submission can no longer be decided with it
  */
-async function createOpportunityEntry(eventData: EventData): Promise<{ success: boolean; uid?: string; error?: string }> {
-  const apiKey = process.env.CONTENTSTACK_API_KEY;
-  const managementToken = process.env.CONTENTSTACK_MANAGEMENT_TOKEN;
-
-  if (!apiKey || !managementToken) {
-    return { success: false, error: 'Missing API credentials' };
-  }
-
-  // Build entry data
-  const entryData: { entry: Record<string, unknown> } = {
-    entry: {
-      title: eventData.title,
-      slug: eventData.slug,
-      summary: eventData.summary || '',
-      description: eventData.description || '',
-      status: 'upcoming',
-      is_virtual: eventData.isVirtual || false,
-      country: eventData.country || '',
-      state: eventData.state || '',
-      city: eventData.city || '',
-      address: eventData.address || '',
-      cause_slugs: eventData.causeSlugs || [],
-      contribution_types: eventData.contributionTypes || [],
-      start_date: eventData.startDate,
-      end_date: eventData.endDate || eventData.startDate,
-      start_time: eventData.startTime || '',
-      end_time: eventData.endTime || '',
-      organizer_name: eventData.organizerName || '',
-      organizer_email: eventData.organizerEmail,
-      spots_available: eventData.spotsAvailable || 50,
-      requirements: eventData.requirements || '',
-    },
-  };
-
-  // Add cover image if provided
-  if (eventData.coverImageUid) {
-    entryData.entry.cover_image = eventData.coverImageUid;
+function alreadyProcessedResponse(submission: StoredEventSubmission, revision: number): NextResponse {
+  if (getSubmissionRevision(submission) !== revision) {
+    return htmlResponse(
+      generateHtmlResponse(
+        'Outdated Link',
+        `This link is for an earlier version of "${escapeHtml(submission.event.title)}". The organizer has since resubmitted it; use the latest review email or the moderation queue.`,
+        'warning'
+      ),
+      409
+    );
   }
+  return htmlResponse(
+    generateAlreadyProcessedPage(submission.event.title, submission.status),
+    409
+  );
+}
 
-  console.log('[ApproveEvent] Creating entry:', JSON.stringify(entryData, null, 2));
-
+/**
+ * GET /api/approve-event?token=...
+ * Shows a confirmation page that POSTs the token back
+ */
+export async function GET(request: NextRequest) {
   try {
-    // Create entry
-    const createResponse = await fetch(
-      'https://api.contentstack.io/v3/content_types/opportunity/entries?locale=en-us',
-      {
-        method: 'POST',
-        headers: {
-          'api_key': apiKey,
-          'authorization': managementToken,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(entryData),
-      }
-    );
-
-    const createResult = await createResponse.json();
-
-    if (!createResponse.ok) {
-      console.error('[ApproveEvent] Create failed:', createResult);
-      return { success: false, error: createResult.error_message || 'Failed to create entry' };
+    const token = request.nextUrl.searchParams.get('token') || '';
+    const verification = verifySubmissionReviewToken(token);
+    if (!verification.valid) {
+      return invalidLinkResponse(verification.error);
     }
 
-    const entryUid = createResult.entry?.uid;
-    console.log('[ApproveEvent] Entry created:', entryUid);
-
-    // Publish entry
-    const publishResponse = await fetch(
-      `https://api.contentstack.io/v3/content_types/opportunity/entries/${entryUid}/publish`,
-      {
-        method: 'POST',
-        headers: {
-          'api_key': apiKey,
-          'authorization': managementToken,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          entry: {
-            environments: ['production'],
-            locales: ['en-us'],
-          },
-        }),
-      }
-    );
-
-    if (!publishResponse.ok) {
-      const publishResult = await publishResponse.json();
-      console.error('[ApproveEvent] Publish failed:', publishResult);
-      // Entry was created but not published - still return success
-      return { success: true, uid: entryUid };
+    const { submissionId, action, revision } = verification;
+    const submission = await getSubmission(submissionId);
+    if (!submission) {
+      return htmlResponse(generateHtmlResponse('Error', 'Event submission not found.', 'error'), 404);
     }
 
-    console.log('[ApproveEvent] Entry published successfully');
-    return { success: true, uid: entryUid };
-
-  } catch (error) {
-    console.error('[ApproveEvent] API error:', error);
-    return { success: false, error: 'API request failed' };
-  }
-}
+    const waiting = submission.status === 'pending' || submission.status === 'held';
+    const resumable = action === 'approve'
+      && submission.status === 'approved'
+      && hasUnfinishedPublishSteps(submission);
+    if (getSubmissionRevision(submission) !== revision || (!waiting && !resumable)) {
+      return alreadyProcessedResponse(submission, revision);
+    }
 
-/**
- * Send notification email via Automate webhook
- */
-async function sendNotificationEmail(
-  webhookUrl: string,
-  eventData: EventData,
-  action: 'approve' | 'reject'
-): Promise<boolean> {
-  try {
-    const response = await fetch(webhookUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        action,
-        title: eventData.title,
-        organizerName: eventData.organizerName || 'Organizer',
-        organizerEmail: eventData.organizerEmail,
-        startDate: eventData.startDate,
-        city: eventData.city,
-        state: eventData.state,
-        country: eventData.country,
-        isVirtual: eventData.isVirtual,
-        processedAt: new Date().toISOString(),
-      }),
-    });
+    return htmlResponse(generateConfirmationPage(submission, action, token, resumable), 200);
 
-    return response.ok;
   } catch (error) {
-    console.error('[ApproveEvent] Webhook error:', error);
-    return false;
+    console.error('[ApproveEvent] Unexpected error:', error);
+    return htmlResponse(
+      generateHtmlResponse('Error', 'An unexpected error occurred.', 'error'),
+      500
+    );
   }
 }
 
 /**
- * GET /api/approve-event?action=approve|reject&data=base64EncodedEventData
- * Handles admin approval/rejection of event submissions
+ * POST /api/approve-event
+ * Form body: token
+ * Approves or rejects the submission named in the token
  */
-export async function GET(request: NextRequest) {
+export async function POST(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url);
-    const action = searchParams.get('action') as 'approve' | 'reject' | null;
-    const encodedData = searchParams.get('data');
-
-    // Validate action
-    if (!action || !['approve', 'reject'].includes(action)) {
-      return new NextResponse(
-        generateHtmlResponse('Error', 'Invalid action. Must be approve or reject.', 'error'),
-        { status: 400, headers: { 'Content-Type': 'text/html' } }
-      );
+    const formData = await request.formData().catch(() => null);
+    const token = formData?.get('token');
+    const verification = verifySubmissionReviewToken(typeof token === 'string' ? token : '');
+    if (!verification.valid) {
+      return invalidLinkResponse(verification.error);
     }
 
-    // Validate and decode event data
-    if (!encodedData) {
-      return new NextResponse(
-        generateHtmlResponse('Error', 'Missing event data', 'error'),
-        { status: 400, headers: { 'Content-Type': 'text/html' } }
-      );
-    }
-
-    let eventData: EventData;
-    try {
-      const decodedData = Buffer.from(decodeURIComponent(encodedData), 'base64').toString('utf-8');
-      eventData = JSON.parse(decodedData);
-    } catch {
-      return new NextResponse(
-        generateHtmlResponse('Error', 'Invalid event data', 'error'),
-        { status: 400, headers: { 'Content-Type': 'text/html' } }
-      );
-    }
-
-    console.log('[ApproveEvent] Processing:', {
-      action,
-      title: eventData.title,
-      organizerEmail: eventData.organizerEmail,
+    const { submissionId, action, revision } = verification;
+    const result = await reviewSubmission(submissionId, action, {
+      revision,
+      audit: getAuditContext(request, { type: 'review_link' }),
     });
 
-    if (action === 'approve') {
-      // Create and publish entry
-      const result = await createOpportunityEntry(eventData);
-
-      if (!result.success) {
-        return new NextResponse(
-          generateHtmlResponse('Error', `Failed to create event: ${result.error}`, 'error'),
-          { status: 500, headers: { 'Content-Type': 'text/html' } }
+    if (!result.success) {
+      if (result.error === 'not_found' || !result.submission) {
+        return htmlResponse(generateHtmlResponse('Error', 'Event submission not found.', 'error'), 404);
+      }
+      if (result.error === 'already_processed') {
+        return alreadyProcessedResponse(result.submission, revision);
+      }
+      if (result.error === 'publish_failed') {
+        return htmlResponse(
+          generateHtmlResponse(
+            'Publishing Incomplete',
+            `The event "${escapeHtml(result.submission.event.title)}" was approved, but publishing stopped. ${escapeHtml(result.message || '')} Open this link again to retry, or retry from the moderation queue.`,
+            'warning'
+          ),
+          502
         );
       }
+      return htmlResponse(
+        generateHtmlResponse('Error', `Failed to create event: ${escapeHtml(result.message || '')}`, 'error'),
+        500
+      );
+    }
 
-      // Send approval notification email
-      const approveWebhook = process.env.CONTENTSTACK_AUTOMATE_APPROVE_WEBHOOK;
-      if (approveWebhook) {
-        await sendNotificationEmail(approveWebhook, eventData, 'approve');
-      }
+    const { title } = result.submission.event;
 
-      return new NextResponse(
+    if (action === 'approve') {
+      return htmlResponse(
         generateHtmlResponse(
           '✅ Event Approved',
-          `The event "${eventData.title}" has been approved and published! The organizer will be notified.`,
+          `The event "${escapeHtml(title)}" has been approved and published! The organizer will be notified.`,
           'success'
         ),
-        { status: 200, headers: { 'Content-Type': 'text/html' } }
-      );
-
-    } else {
-      // Reject: Just send notification email
-      const rejectWebhook = process.env.CONTENTSTACK_AUTOMATE_REJECT_WEBHOOK;
-      
-      if (rejectWebhook) {
-        await sendNotificationEmail(rejectWebhook, eventData, 'reject');
-      }
-
-      return new NextResponse(
-        generateHtmlResponse(
-          '❌ Event Rejected',
-          `The event "${eventData.title}" has been rejected. The organizer will be notified to update the details.`,
-          'warning'
-        ),
-        { status: 200, headers: { 'Content-Type': 'text/html' } }
+        200
       );
     }
 
+    return htmlResponse(
+      generateHtmlResponse(
+        '❌ Event Rejected',
+        `The event "${escapeHtml(title)}" has been rejected. The organizer will be notified to update the details.`,
+        'warning'
+      ),
+      200
+    );
+
   } catch (error) {
     console.error('[ApproveEvent] Unexpected error:', error);
-    return new NextResponse(
+    return htmlResponse(
       generateHtmlResponse('Error', 'An unexpected error occurred.', 'error'),
-      { status: 500, headers: { 'Content-Type': 'text/html' } }
+      500
     );
   }
 }
 
+function htmlResponse(html: string, status: number): NextResponse {
+  return new NextResponse(html, { status, headers: { 'Content-Type': 'text/html' } });
+}
+
+/**
+ * Escape user-supplied text for HTML output
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Page shown when a link is used after the submission was decided
+ */
+function generateAlreadyProcessedPage(title: string, status: string): string {
+  const message = status === 'processing'
+    ? `The event "${escapeHtml(title)}" is being processed from another link. Refresh in a moment to see the result.`
+    : status === 'changes_requested'
+    ? `Changes were already requested on the event "${escapeHtml(title)}". It will come back for review once the organizer resubmits it.`
+    : `The event "${escapeHtml(title)}" was already ${status}. No further changes were made.`;
+
+  return generateHtmlResponse('Already Processed', message, 'warning');
+}
+
+/**
+ * Confirmation page whose button POSTs the review token
+ */
+function generateConfirmationPage(
+  submission: StoredEventSubmission,
+  action: 'approve' | 'reject',
+  token: string,
+  resuming: boolean
+): string {
+  const title = escapeHtml(submission.event.title);
+  const message = resuming
+    ? `Publishing the approved event "${title}" stopped partway. Resume it from the first unfinished step?`
+    : action === 'approve'
+    ? `Approve and publish the event "${title}"? The organizer will be notified.`
+    : `Reject the event "${title}"? The organizer will be notified to update the details.`;
+  const label = resuming ? 'Resume Publishing' : action === 'approve' ? 'Approve &amp; Publish' : 'Reject Event';
+
+  return generateHtmlResponse(
+    action === 'approve' ? 'Confirm Approval' : 'Confirm Rejection',
+    message,
+    action === 'approve' ? 'success' : 'warning',
+    `
+      <form method="post" action="/api/approve-event">
+        <input type="hidden" name="token" value="${escapeHtml(token)}">
+        <button type="submit" class="button">${label}</button>
+      </form>`
+  );
+}
+
 /**
  * Generate HTML response page
+ * `actions` replaces the default "Browse Opportunities" link
  */
-function generateHtmlResponse(title: string, message: string, type: 'success' | 'warning' | 'error'): string {
+function generateHtmlResponse(
+  title: string,
+  message: string,
+  type: 'success' | 'warning' | 'error',
+  actions = '<a href="/opportunities" class="button">Browse Opportunities</a>'
+): string {
   const colors = {
     success: { bg: '#10b981', light: '#d1fae5' },
     warning: { bg: '#f59e0b', light: '#fef3c7' },
@@ -325,8 +295,11 @@ function generateHtmlResponse(title: string, message: string, type: 'success' |
       padding: 12px 24px;
       background: ${color.bg};
       color: white;
+      font: inherit;
       text-decoration: none;
+      border: none;
       border-radius: 6px;
+      cursor: pointer;
     }
   </style>
 </head>
@@ -337,7 +310,7 @@ function generateHtmlResponse(title: string, message: string, type: 'success' |
     </div>
     <div class="content">
       <p>${message}</p>
-      <a href="/opportunities" class="button">Browse Opportunities</a>
+      ${actions}
     </div>
   </div>
 </body>
@@ -0,0 +1,64 @@
+/**
+ * Organizer Login API Route
+ * Emails a one-time sign-in link
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createLoginUrl, LOGIN_LINK_MINUTES } from '@/lib/auth';
+import { sendOrganizerLoginLink } from '@/lib/email';
+
+/**
+ * Validate email format
+ */
+function isValidEmail(email: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+}
+
+/**
+ * POST /api/auth/login
+ * Body: { email: string, redirect?: string }
+ * Always responds the same way so it cannot be used to probe for organizers
+ */
+export async function POST(request: NextRequest) {
+  let body: { email?: string; redirect?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+  }
+
+  const email = body.email?.trim() || '';
+  if (!isValidEmail(email)) {
+    return NextResponse.json({ error: 'Please enter a valid email address' }, { status: 400 });
+  }
+
+  try {
+    const { url, expiresAt } = createLoginUrl(email, body.redirect);
+
+    const result = await sendOrganizerLoginLink({
+      recipient: { email },
+      loginUrl: url,
+      expiresAt: expiresAt.toISOString(),
+    });
+
+    if (!result.success) {
+      console.error('[Auth] Failed to send sign-in link:', result.error);
+      return NextResponse.json(
+        { error: 'Could not send the sign-in email. Please try again.' },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Check your inbox for a sign-in link. It expires in ${LOGIN_LINK_MINUTES} minutes.`,
+    });
+
+  } catch (error) {
+    console.error('[Auth] Login error:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
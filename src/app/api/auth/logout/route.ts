@@ -0,0 +1,13 @@
+/**
+ * Logout API Route
+ * Clears the organizer session cookie
+ */
+
+import { NextResponse } from 'next/server';
+import { clearSessionCookie } from '@/lib/auth';
+
+export async function POST() {
+  const response = NextResponse.json({ success: true });
+  clearSessionCookie(response);
+  return response;
+}
@@ -0,0 +1,18 @@
+/**
+ * Session API Route
+ * Reports the signed-in organizer (if any)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrganizerSession } from '@/lib/auth';
+
+export async function GET(request: NextRequest) {
+  const session = getOrganizerSession(request);
+
+  return NextResponse.json(
+    session
+      ? { authenticated: true, email: session.email, expiresAt: session.expiresAt }
+      : { authenticated: false },
+    { headers: { 'Cache-Control': 'private, no-store' } }
+  );
+}
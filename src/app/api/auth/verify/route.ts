@@ -0,0 +1,171 @@
+/**
+ * Magic Link Verification Route
+ * Confirms a sign-in link, sets the session cookie and redirects
+ *
+ * Opening a link only shows a confirmation page (mail scanners and prefetchers
+ * open links too, which would use up a one-time link); the link is consumed
+ * when that page POSTs the token back.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  consumeLoginToken,
+  DEFAULT_LOGIN_REDIRECT,
+  setSessionCookie,
+  verifyLoginToken,
+} from '@/lib/auth';
+
+/**
+ * Back to the sign-in page with ?login=<error> so it can explain
+ */
+function loginErrorRedirect(request: NextRequest, error: string): NextResponse {
+  return NextResponse.redirect(
+    new URL(`${DEFAULT_LOGIN_REDIRECT}?login=${error}`, request.url),
+    303
+  );
+}
+
+/**
+ * GET /api/auth/verify?token=...
+ * Shows a confirmation page that POSTs the token back
+ * Failures redirect back to /my-events with ?login=<error> so the page can explain
+ */
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token') || '';
+
+  try {
+    const result = await verifyLoginToken(token);
+
+    if (!result.valid) {
+      console.warn('[Auth] Rejected sign-in link:', result.error);
+      return loginErrorRedirect(request, result.error);
+    }
+
+    return new NextResponse(generateConfirmationPage(result.email, token), {
+      status: 200,
+      headers: { 'Content-Type': 'text/html', 'Cache-Control': 'no-store' },
+    });
+
+  } catch (error) {
+    console.error('[Auth] Verification error:', error);
+    return loginErrorRedirect(request, 'error');
+  }
+}
+
+/**
+ * POST /api/auth/verify
+ * Form body: token
+ * Consumes the sign-in link, sets the session cookie and redirects
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData().catch(() => null);
+    const token = formData?.get('token');
+    const result = await consumeLoginToken(typeof token === 'string' ? token : '');
+
+    if (!result.valid) {
+      console.warn('[Auth] Rejected sign-in link:', result.error);
+      return loginErrorRedirect(request, result.error);
+    }
+
+    // 303 so the browser follows up with a GET
+    const response = NextResponse.redirect(new URL(result.redirectTo, request.url), 303);
+    setSessionCookie(response, result.email);
+
+    console.log('[Auth] Organizer signed in:', result.email);
+    return response;
+
+  } catch (error) {
+    console.error('[Auth] Verification error:', error);
+    return loginErrorRedirect(request, 'error');
+  }
+}
+
+/**
+ * Escape user-supplied text for HTML output
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Confirmation page whose button POSTs the sign-in token
+ */
+function generateConfirmationPage(email: string, token: string): string {
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Sign In - ImpactConnect</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      background: #f3f4f6;
+      min-height: 100vh;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      padding: 20px;
+    }
+    .card {
+      background: white;
+      border-radius: 12px;
+      box-shadow: 0 4px 6px rgba(0,0,0,0.1);
+      max-width: 500px;
+      width: 100%;
+      overflow: hidden;
+    }
+    .header {
+      background: #10b981;
+      color: white;
+      padding: 30px;
+      text-align: center;
+    }
+    .header h1 { font-size: 24px; }
+    .content {
+      padding: 30px;
+      text-align: center;
+    }
+    .content p {
+      color: #4b5563;
+      font-size: 16px;
+      line-height: 1.6;
+    }
+    .button {
+      display: inline-block;
+      margin-top: 20px;
+      padding: 12px 24px;
+      background: #10b981;
+      color: white;
+      font: inherit;
+      border: none;
+      border-radius: 6px;
+      cursor: pointer;
+    }
+  </style>
+</head>
+<body>
+  <div class="card">
+    <div class="header">
+      <h1>Sign In</h1>
+    </div>
+    <div class="content">
+      <p>Sign in to ImpactConnect as <strong>${escapeHtml(email)}</strong>?</p>
+      <form method="post" action="/api/auth/verify">
+        <input type="hidden" name="token" value="${escapeHtml(token)}">
+        <button type="submit" class="button">Sign In</button>
+      </form>
+    </div>
+  </div>
+</body>
+</html>
+  `;
+}
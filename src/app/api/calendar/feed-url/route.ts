@@ -0,0 +1,102 @@
+/**
+ * Calendar Feed URL API Route
+ * Issues a volunteer's personal calendar feed URL
+ *
+ * The feed URL is only returned to a signed-in volunteer. Anyone else gets it
+ * emailed to the address they give, so knowing an email alone is not enough.
+ * Signed-in volunteers can also rotate it, which revokes the old URL.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrganizerSession } from '@/lib/auth';
+import { getFeedUrl, getOrCreateFeedToken, rotateFeedToken } from '@/lib/calendar';
+import { sendCalendarFeedLink } from '@/lib/email';
+import { getRegistrationStore, normalizeEmail } from '@/lib/registrations';
+
+interface FeedUrlRequest {
+  email?: string;
+  rotate?: boolean;
+}
+
+/**
+ * Validate email format
+ */
+function isValidEmail(email: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+}
+
+/**
+ * Feed and webcal:// URLs for a feed token
+ */
+function getFeedUrls(token: string): { feedUrl: string; webcalUrl: string } {
+  const feedUrl = getFeedUrl(token);
+  return { feedUrl, webcalUrl: feedUrl.replace(/^https?:/, 'webcal:') };
+}
+
+/**
+ * POST /api/calendar/feed-url
+ * Signed in: returns { feedUrl, webcalUrl }; with body { rotate: true } the feed
+ * gets a new URL first and the old one stops working
+ * Signed out, body { email }: emails the feed URL and always responds the same
+ * way, so it cannot be used to probe for volunteers
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = getOrganizerSession(request);
+    const body = (await request.json().catch(() => ({}))) as FeedUrlRequest;
+
+    if (session) {
+      if (body.rotate === true) {
+        console.log('[CalendarFeedUrl] Rotated feed URL for:', session.email);
+        return NextResponse.json(getFeedUrls(await rotateFeedToken(session.email)));
+      }
+      return NextResponse.json(getFeedUrls(await getOrCreateFeedToken(session.email)));
+    }
+
+    if (body.rotate === true) {
+      return NextResponse.json(
+        { error: 'Please sign in to reset your calendar feed link' },
+        { status: 401 }
+      );
+    }
+
+    if (!body.email) {
+      return NextResponse.json(
+        { error: 'Please sign in to see your calendar feed' },
+        { status: 401 }
+      );
+    }
+
+    const email = normalizeEmail(body.email);
+    if (!isValidEmail(email)) {
+      return NextResponse.json(
+        { error: 'Please enter a valid email address' },
+        { status: 400 }
+      );
+    }
+
+    const registrations = await getRegistrationStore().listByEmail(email);
+    if (registrations.length > 0) {
+      const result = await sendCalendarFeedLink({
+        recipient: { email },
+        ...getFeedUrls(await getOrCreateFeedToken(email)),
+      });
+      // Not reported to the caller, which would reveal that the email has registrations
+      if (!result.success) {
+        console.error('[CalendarFeedUrl] Failed to send feed link:', result.error);
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'If you have registrations with that email, we have sent it a link to your calendar feed.',
+    });
+
+  } catch (error) {
+    console.error('[CalendarFeedUrl] Error:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Calendar Feed API Route
+ * Subscribable iCalendar feed of all of a volunteer's registrations
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { Opportunity } from '@/types';
+import { getOpportunityById } from '@/lib/contentstack';
+import { getRegistrationStore } from '@/lib/registrations';
+import { buildCalendar, getFeedEmail, registrationToCalendarEvents } from '@/lib/calendar';
+
+/**
+ * GET /api/calendar/feed?token=...
+ */
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token') || '';
+
+  try {
+    const email = token ? await getFeedEmail(token) : null;
+    if (!email) {
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 });
+    }
+
+    const registrations = await getRegistrationStore().listByEmail(email);
+
+    // Several registrations can point at the same opportunity (e.g. cancelled then re-registered)
+    const opportunities = new Map<string, Opportunity | null>();
+    await Promise.all(
+      Array.from(new Set(registrations.map((r) => r.opportunityId))).map(async (id) => {
+        opportunities.set(id, await getOpportunityById(id).catch(() => null));
+      })
+    );
+
+    const events = registrations.flatMap((registration) => {
+      const opportunity = opportunities.get(registration.opportunityId);
+      return opportunity ? registrationToCalendarEvents(registration, opportunity) : [];
+    });
+
+    const calendar = buildCalendar(events, {
+      name: 'My Volunteer Opportunities',
+      refreshIntervalHours: 6,
+    });
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="volunteer-calendar.ics"',
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('[Calendar] Failed to build calendar feed:', error);
+    return NextResponse.json({ error: 'Failed to generate calendar feed' }, { status: 500 });
+  }
+}
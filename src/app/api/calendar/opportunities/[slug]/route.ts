@@ -0,0 +1,39 @@
+/**
+ * Opportunity Calendar API Route
+ * Downloads a single opportunity as an .ics file
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getOpportunityBySlug } from '@/lib/contentstack';
+import { buildCalendar, opportunityToCalendarEvents } from '@/lib/calendar';
+
+interface RouteContext {
+  params: Promise<{ slug: string }>;
+}
+
+/**
+ * GET /api/calendar/opportunities/[slug]
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  const { slug } = await params;
+
+  try {
+    const opportunity = await getOpportunityBySlug(slug);
+    if (!opportunity) {
+      return NextResponse.json({ error: 'Opportunity not found' }, { status: 404 });
+    }
+
+    const calendar = buildCalendar(opportunityToCalendarEvents(opportunity));
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${opportunity.slug}.ics"`,
+        'Cache-Control': 'public, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('[Calendar] Failed to build opportunity calendar:', error);
+    return NextResponse.json({ error: 'Failed to generate calendar file' }, { status: 500 });
+  }
+}
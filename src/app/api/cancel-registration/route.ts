@@ -0,0 +1,127 @@
+/**
+ * Cancel Registration API Route
+ * Cancels a registration using the signed link from the confirmation email
+ * Frees the spot (promoting the waitlist) and notifies the organizer
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { getOpportunityById } from '@/lib/contentstack';
+import { sendOrganizerCancellationNotice } from '@/lib/email';
+import {
+  cancelRegistration,
+  getPartySize,
+  getRegistrationStore,
+  verifyCancellationToken,
+} from '@/lib/registrations';
+
+/**
+ * Format error response
+ */
+function errorResponse(message: string, status = 400): NextResponse {
+  return NextResponse.json({ success: false, message }, { status });
+}
+
+/**
+ * POST /api/cancel-registration
+ * Body: { token: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let token: string | undefined;
+    try {
+      ({ token } = await request.json());
+    } catch {
+      return errorResponse('Invalid JSON in request body');
+    }
+
+    if (!token) {
+      return errorResponse('Cancellation token is required');
+    }
+
+    const verification = verifyCancellationToken(token);
+    if (!verification.valid) {
+      return verification.error === 'expired'
+        ? errorResponse('This cancellation link has expired.', 410)
+        : errorResponse('This cancellation link is invalid.', 400);
+    }
+
+    const registrationId = verification.payload.sub;
+    const existing = await getRegistrationStore().getById(registrationId);
+
+    if (!existing) {
+      return errorResponse('Registration not found', 404);
+    }
+
+    // Already cancelled - report success so the link is safe to click twice
+    if (existing.status === 'cancelled') {
+      return NextResponse.json({
+        success: true,
+        message: 'This registration was already cancelled.',
+        data: { registrationId, opportunityTitle: existing.opportunityTitle, alreadyCancelled: true },
+      });
+    }
+
+    const result = await cancelRegistration(registrationId);
+    if (!result) {
+      return errorResponse('Registration not found', 404);
+    }
+
+    console.log('[CancelRegistration] Cancelled:', {
+      registrationId,
+      opportunityId: existing.opportunityId,
+      promoted: result.promoted.map((r) => r.registrationId),
+    });
+
+    // Notify the organizer
+    const opportunity = await getOpportunityById(existing.opportunityId).catch(() => null);
+    if (opportunity?.organizerEmail) {
+      await sendOrganizerCancellationNotice({
+        recipient: {
+          name: opportunity.organizerName || 'Organizer',
+          email: opportunity.organizerEmail,
+        },
+        participant: {
+          name: existing.name,
+          email: existing.email,
+        },
+        partySize: getPartySize(existing),
+        opportunity: {
+          id: opportunity.uid,
+          title: opportunity.title,
+          slug: opportunity.slug,
+          date: opportunity.startDate,
+        },
+        registrationId,
+        cancelledAt: result.cancelled.cancelledAt || new Date().toISOString(),
+        promotedParticipants: result.promoted.map((r) => ({
+          name: r.name,
+          email: r.email,
+          partySize: getPartySize(r),
+        })),
+      });
+    }
+
+    // Refresh cached pages that show remaining spots
+    try {
+      revalidatePath(`/opportunities/${existing.opportunitySlug}`);
+      revalidatePath('/opportunities');
+    } catch (revalidateError) {
+      console.warn('[CancelRegistration] Revalidation failed:', revalidateError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Your registration has been cancelled.',
+      data: {
+        registrationId,
+        opportunityTitle: existing.opportunityTitle,
+        alreadyCancelled: false,
+      },
+    });
+
+  } catch (error) {
+    console.error('[CancelRegistration] Unexpected error:', error);
+    return errorResponse('An unexpected error occurred. Please try again later.', 500);
+  }
+}
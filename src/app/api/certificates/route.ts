@@ -0,0 +1,51 @@
+/**
+ * Certificate API Route
+ * Downloads a volunteer hours certificate as PDF using a signed link
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getHoursEntry,
+  renderCertificatePdf,
+  verifyCertificateToken,
+} from '@/lib/hours';
+
+/**
+ * GET /api/certificates?token=...
+ */
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token') || '';
+
+  const verification = verifyCertificateToken(token);
+  if (!verification.valid) {
+    return NextResponse.json(
+      {
+        error: verification.error === 'expired'
+          ? 'This certificate link has expired. Download it again from My Registrations.'
+          : 'This certificate link is invalid.',
+      },
+      { status: verification.error === 'expired' ? 410 : 400 }
+    );
+  }
+
+  try {
+    const entry = await getHoursEntry(verification.payload.sub);
+    if (!entry) {
+      return NextResponse.json({ error: 'Certificate not found' }, { status: 404 });
+    }
+
+    const pdf = await renderCertificatePdf(entry);
+    const filename = `volunteer-certificate-${entry.opportunitySlug || entry.entryId}.pdf`;
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('[Certificates] Failed to render certificate:', error);
+    return NextResponse.json({ error: 'Failed to generate certificate' }, { status: 500 });
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Check-In API Route
+ * Marks attendance from scanned or typed ticket codes
+ * Every request must carry the organizer's signed check-in token
+ *
+ * On recurring opportunities, whole-series tickets check in to today's session,
+ * so attendance (and the hours credited for it) is recorded per session, and
+ * single-session tickets only check in on the day of their session.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getOpportunityById } from '@/lib/contentstack';
+import { creditHoursIfCompleted } from '@/lib/hours';
+import { getScheduleRule, isOccurrenceOf, today } from '@/lib/recurrence';
+import {
+  getCheckInCounts,
+  getPartySize,
+  getRegistrationStore,
+  RegistrationStoreError,
+  resolveTicketCode,
+  verifyCheckInToken,
+} from '@/lib/registrations';
+
+/**
+ * Format error response
+ */
+function errorResponse(message: string, status = 400, code?: string): NextResponse {
+  return NextResponse.json({ success: false, message, code }, { status });
+}
+
+/**
+ * Resolve the opportunity ID from a check-in token, or an error response
+ */
+function authorize(token: string | null | undefined): { opportunityId: string } | NextResponse {
+  if (!token) {
+    return errorResponse('Check-in token is required', 401);
+  }
+
+  const verification = verifyCheckInToken(token);
+  if (!verification.valid) {
+    return verification.error === 'expired'
+      ? errorResponse('This check-in link has expired.', 410)
+      : errorResponse('This check-in link is invalid.', 401);
+  }
+
+  return { opportunityId: verification.payload.sub };
+}
+
+/**
+ * Whether the opportunity repeats, and today's session when it has one
+ */
+async function getTodaysSession(
+  opportunityId: string
+): Promise<{ recurring: boolean; sessionDate?: string }> {
+  const opportunity = await getOpportunityById(opportunityId);
+  if (!opportunity || !getScheduleRule(opportunity)) {
+    return { recurring: false };
+  }
+
+  const date = today();
+  return { recurring: true, sessionDate: isOccurrenceOf(opportunity, date) ? date : undefined };
+}
+
+/**
+ * GET /api/check-in?token=...
+ * Live checked-in vs registered counts (for today's session of a recurring opportunity)
+ */
+export async function GET(request: NextRequest) {
+  const auth = authorize(request.nextUrl.searchParams.get('token'));
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const { sessionDate } = await getTodaysSession(auth.opportunityId);
+    const counts = await getCheckInCounts(auth.opportunityId, sessionDate);
+    return NextResponse.json({ success: true, data: counts });
+  } catch (error) {
+    console.error('[CheckIn] Failed to load counts:', error);
+    return errorResponse('Failed to load check-in counts', 500);
+  }
+}
+
+/**
+ * POST /api/check-in
+ * Body: { token: string, code: string }
+ */
+export async function POST(request: NextRequest) {
+  let body: { token?: string; code?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid JSON in request body');
+  }
+
+  const auth = authorize(body.token);
+  if (auth instanceof NextResponse) return auth;
+
+  const registrationId = resolveTicketCode(body.code || '');
+  if (!registrationId) {
+    return errorResponse('This is not a valid ticket.', 400, 'invalid_ticket');
+  }
+
+  try {
+    const store = getRegistrationStore();
+    const existing = await store.getById(registrationId);
+
+    // Tickets for other events are treated as unknown
+    if (!existing || existing.opportunityId !== auth.opportunityId) {
+      return errorResponse('No registration for this event matches that ticket.', 404, 'not_found');
+    }
+
+    const session = await getTodaysSession(auth.opportunityId);
+    const wholeSeries = session.recurring && !existing.occurrenceDate;
+    if (wholeSeries && !session.sessionDate) {
+      return errorResponse('This event has no session today.', 409, 'no_session');
+    }
+
+    // Single-session tickets are only valid on the day of their session
+    if (session.recurring && existing.occurrenceDate && existing.occurrenceDate !== session.sessionDate) {
+      return errorResponse(
+        `This ticket is for the session on ${existing.occurrenceDate}, not today's.`,
+        409,
+        'wrong_session'
+      );
+    }
+
+    const result = await store.checkIn(registrationId, wholeSeries ? session.sessionDate : undefined);
+    if (!result) {
+      return errorResponse('No registration for this event matches that ticket.', 404, 'not_found');
+    }
+
+    const { registration, alreadyCheckedIn } = result;
+    console.log('[CheckIn] Checked in:', {
+      registrationId,
+      sessionDate: session.sessionDate,
+      alreadyCheckedIn,
+    });
+
+    // Check-ins recorded after the event was marked completed are credited right away
+    if (!alreadyCheckedIn) {
+      try {
+        await creditHoursIfCompleted(auth.opportunityId);
+      } catch (error) {
+        console.error('[CheckIn] Hours crediting failed:', error);
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: alreadyCheckedIn ? 'Already checked in' : 'Checked in',
+      data: {
+        registrationId,
+        name: registration.name,
+        groupName: registration.groupName || null,
+        partySize: getPartySize(registration),
+        checkedInAt: registration.checkedInAt,
+        alreadyCheckedIn,
+        counts: await getCheckInCounts(auth.opportunityId, session.sessionDate),
+      },
+    });
+  } catch (error) {
+    if (error instanceof RegistrationStoreError && error.code === 'not_confirmed') {
+      const status = error.existing?.status;
+      return errorResponse(
+        status === 'cancelled'
+          ? 'This registration was cancelled.'
+          : 'This participant is still on the waitlist.',
+        409,
+        'not_confirmed'
+      );
+    }
+
+    console.error('[CheckIn] Unexpected error:', error);
+    return errorResponse('An unexpected error occurred', 500);
+  }
+}
@@ -0,0 +1,469 @@
+/**
+ * Event Edit Review API Route
+ * Opened from the signed links in the admin edit-request email
+ * - GET: shows the field-level diff with approve/reject buttons
+ * - POST approve: updates and re-publishes the entry, then notifies registrants
+ *   of date, time or location changes
+ * - POST reject: closes the request without touching the entry
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { getOpportunityById } from '@/lib/contentstack';
+import { getAuditContext, recordAuditEvent } from '@/lib/audit';
+import {
+  applyEventChanges,
+  claimEditRequest,
+  createEditReviewToken,
+  formatFieldValue,
+  getChangeSnapshots,
+  getEditRequest,
+  getScheduleChanges,
+  releaseEditRequest,
+  resolveEditRequest,
+  updateOpportunityEntry,
+  verifyEditReviewToken,
+} from '@/lib/events';
+import type { EditReviewAction, EventEditRequest } from '@/lib/events';
+import { notifyRegistrantsOfUpdate } from '@/lib/registrations';
+
+/**
+ * Record the decision on an edit request in the audit log
+ */
+async function recordEditReview(
+  request: NextRequest,
+  editRequest: EventEditRequest,
+  action: 'edit.approved' | 'edit.rejected',
+  reason?: string
+): Promise<void> {
+  await recordAuditEvent(getAuditContext(request, { type: 'review_link' }), {
+    action,
+    target: {
+      type: 'edit_request',
+      id: editRequest.requestId,
+      title: editRequest.opportunityTitle,
+      opportunityId: editRequest.opportunityId,
+    },
+    ...getChangeSnapshots(editRequest.changes),
+    reason,
+  });
+}
+
+/**
+ * GET /api/event-edits/review?token=...
+ * Shows the diff with approve/reject buttons. Opening a link never applies a
+ * decision (mail scanners and prefetchers open links too); a link for one action
+ * shows only that action's button, which POSTs the signed token back here.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const review = verifyEditReviewToken(request.nextUrl.searchParams.get('token') || '');
+    if (!review) {
+      return htmlResponse(
+        generateHtmlResponse('Error', 'This review link is invalid or has expired.', 'error'),
+        400
+      );
+    }
+
+    const editRequest = await getEditRequest(review.requestId);
+    if (!editRequest) {
+      return htmlResponse(generateHtmlResponse('Error', 'Edit request not found.', 'error'), 404);
+    }
+
+    if (editRequest.status !== 'pending') {
+      return alreadyReviewedResponse(editRequest);
+    }
+
+    return htmlResponse(generateReviewPage(editRequest, review.action), 200);
+
+  } catch (error) {
+    console.error('[EventEditReview] Unexpected error:', error);
+    return htmlResponse(
+      generateHtmlResponse('Error', 'An unexpected error occurred.', 'error'),
+      500
+    );
+  }
+}
+
+/**
+ * POST /api/event-edits/review
+ * Form body: token (signed with the action to apply)
+ */
+export async function POST(request: NextRequest) {
+  let claimedId: string | null = null;
+
+  try {
+    const formData = await request.formData().catch(() => null);
+    const token = formData?.get('token');
+    const review = verifyEditReviewToken(typeof token === 'string' ? token : '');
+    if (!review) {
+      return htmlResponse(
+        generateHtmlResponse('Error', 'This review link is invalid or has expired.', 'error'),
+        400
+      );
+    }
+
+    const { requestId, action } = review;
+    if (!action) {
+      return htmlResponse(
+        generateHtmlResponse('Error', 'Invalid action. Must be approve or reject.', 'error'),
+        400
+      );
+    }
+
+    const editRequest = await getEditRequest(requestId);
+    if (!editRequest) {
+      return htmlResponse(generateHtmlResponse('Error', 'Edit request not found.', 'error'), 404);
+    }
+
+    // Only one review can act on the request; a repeated or concurrent submit stops here
+    if (!(await claimEditRequest(requestId))) {
+      return alreadyReviewedResponse((await getEditRequest(requestId)) || editRequest);
+    }
+    claimedId = requestId;
+
+    console.log('[EventEditReview] Processing:', {
+      action,
+      requestId,
+      opportunityId: editRequest.opportunityId,
+    });
+
+    if (action === 'reject') {
+      await resolveEditRequest(requestId, 'rejected');
+      await recordEditReview(request, editRequest, 'edit.rejected');
+
+      return htmlResponse(
+        generateHtmlResponse(
+          '❌ Changes Rejected',
+          `The changes to "${escapeHtml(editRequest.opportunityTitle)}" were rejected. The published event is unchanged.`,
+          'warning'
+        ),
+        200
+      );
+    }
+
+    const opportunity = await getOpportunityById(editRequest.opportunityId);
+    if (!opportunity) {
+      await releaseEditRequest(requestId);
+      return htmlResponse(
+        generateHtmlResponse('Error', 'The event no longer exists.', 'error'),
+        404
+      );
+    }
+
+    if (opportunity.status === 'cancelled') {
+      await resolveEditRequest(requestId, 'rejected');
+      await recordEditReview(request, editRequest, 'edit.rejected', 'The event was cancelled');
+      return htmlResponse(
+        generateHtmlResponse('Event Cancelled', 'The event has been cancelled, so these changes were not applied.', 'warning'),
+        409
+      );
+    }
+
+    // Return the request to pending on failure so the link can be retried
+    const result = await updateOpportunityEntry(opportunity.uid, editRequest.changes);
+    if (!result.success) {
+      await releaseEditRequest(requestId);
+      return htmlResponse(
+        generateHtmlResponse('Error', `Failed to update event: ${escapeHtml(result.error || '')}`, 'error'),
+        500
+      );
+    }
+
+    // The entry is updated; from here on a retry would apply and announce it twice
+    claimedId = null;
+
+    const scheduleChanges = getScheduleChanges(editRequest.changes);
+    let notified = 0;
+
+    if (scheduleChanges.length > 0) {
+      const updated = applyEventChanges(opportunity, editRequest.changes);
+      const notice = await notifyRegistrantsOfUpdate(
+        updated,
+        scheduleChanges.map((change) => ({
+          label: change.label,
+          from: formatFieldValue(change.from),
+          to: formatFieldValue(change.to),
+        }))
+      );
+      notified = notice.sent;
+    }
+
+    await resolveEditRequest(requestId, 'approved', { notifiedRegistrants: notified });
+    await recordEditReview(request, editRequest, 'edit.approved');
+
+    try {
+      revalidatePath(`/opportunities/${opportunity.slug}`);
+      revalidatePath('/opportunities');
+      revalidatePath(`/my-events/${opportunity.uid}`);
+    } catch (revalidateError) {
+      console.warn('[EventEditReview] Revalidation failed:', revalidateError);
+    }
+
+    const notifiedText = scheduleChanges.length > 0
+      ? ` ${notified} registrant${notified === 1 ? '' : 's'} were notified of the schedule or location change.`
+      : '';
+
+    return htmlResponse(
+      generateHtmlResponse(
+        '✅ Changes Approved',
+        `The changes to "${escapeHtml(editRequest.opportunityTitle)}" have been published.${notifiedText}`,
+        'success'
+      ),
+      200
+    );
+
+  } catch (error) {
+    console.error('[EventEditReview] Unexpected error:', error);
+    if (claimedId) {
+      await releaseEditRequest(claimedId).catch(() => undefined);
+    }
+    return htmlResponse(
+      generateHtmlResponse('Error', 'An unexpected error occurred.', 'error'),
+      500
+    );
+  }
+}
+
+/**
+ * Page for a request that is no longer pending
+ */
+function alreadyReviewedResponse(editRequest: EventEditRequest): NextResponse {
+  const title = escapeHtml(editRequest.opportunityTitle);
+  return htmlResponse(
+    generateHtmlResponse(
+      'Already Reviewed',
+      editRequest.status === 'processing'
+        ? `The changes to "${title}" are being applied by another review.`
+        : `The changes to "${title}" were already ${editRequest.status}.`,
+      'warning'
+    ),
+    409
+  );
+}
+
+function htmlResponse(html: string, status: number): NextResponse {
+  return new NextResponse(html, { status, headers: { 'Content-Type': 'text/html' } });
+}
+
+/**
+ * Escape user-supplied text for HTML output
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Button that POSTs an action-bound review token
+ */
+function generateActionForm(requestId: string, action: EditReviewAction): string {
+  const token = escapeHtml(createEditReviewToken(requestId, action));
+  const label = action === 'approve' ? 'Approve &amp; Publish' : 'Reject';
+
+  return `
+        <form method="post" action="/api/event-edits/review">
+          <input type="hidden" name="token" value="${token}">
+          <button type="submit" class="button ${action}">${label}</button>
+        </form>`;
+}
+
+/**
+ * Diff table with approve/reject buttons (only the linked action's, when the link has one)
+ */
+function generateReviewPage(editRequest: EventEditRequest, action?: EditReviewAction): string {
+  const rows = editRequest.changes
+    .map((change) => `
+      <tr>
+        <th>${escapeHtml(change.label)}</th>
+        <td class="from">${escapeHtml(formatFieldValue(change.from))}</td>
+        <td class="to">${escapeHtml(formatFieldValue(change.to))}</td>
+      </tr>`)
+    .join('');
+
+  const notice = getScheduleChanges(editRequest.changes).length > 0
+    ? '<p class="notice">Date, time or location changes: registrants will be emailed when you approve.</p>'
+    : '';
+
+  const actions = (action ? [action] : (['approve', 'reject'] as const))
+    .map((a) => generateActionForm(editRequest.requestId, a))
+    .join('');
+  const confirm = action
+    ? `<p class="confirm">Confirm that you want to ${action} these changes.</p>`
+    : '';
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Review Changes - ImpactConnect</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      background: #f3f4f6;
+      min-height: 100vh;
+      padding: 40px 20px;
+    }
+    .card {
+      background: white;
+      border-radius: 12px;
+      box-shadow: 0 4px 6px rgba(0,0,0,0.1);
+      max-width: 760px;
+      margin: 0 auto;
+      overflow: hidden;
+    }
+    .header {
+      background: #3b82f6;
+      color: white;
+      padding: 24px 30px;
+    }
+    .header h1 { font-size: 22px; }
+    .header p { margin-top: 6px; opacity: 0.9; font-size: 14px; }
+    .content { padding: 30px; }
+    table { width: 100%; border-collapse: collapse; font-size: 14px; }
+    th, td {
+      padding: 10px 12px;
+      border-bottom: 1px solid #e5e7eb;
+      text-align: left;
+      vertical-align: top;
+      white-space: pre-wrap;
+      word-break: break-word;
+    }
+    thead th { color: #6b7280; font-weight: 600; font-size: 12px; text-transform: uppercase; }
+    tbody th { color: #111827; width: 22%; }
+    .from { color: #991b1b; background: #fef2f2; }
+    .to { color: #166534; background: #f0fdf4; }
+    .notice {
+      margin-top: 20px;
+      padding: 12px 14px;
+      color: #92400e;
+      background: #fef3c7;
+      border-radius: 8px;
+      font-size: 14px;
+    }
+    .confirm { margin-top: 20px; color: #111827; font-size: 15px; }
+    .actions { display: flex; gap: 12px; margin-top: 24px; }
+    .button {
+      display: inline-block;
+      padding: 12px 24px;
+      color: white;
+      font: inherit;
+      border: none;
+      border-radius: 6px;
+      cursor: pointer;
+    }
+    .approve { background: #10b981; }
+    .reject { background: #ef4444; }
+  </style>
+</head>
+<body>
+  <div class="card">
+    <div class="header">
+      <h1>Review changes to "${escapeHtml(editRequest.opportunityTitle)}"</h1>
+      <p>Requested by ${escapeHtml(editRequest.organizerEmail)} on ${escapeHtml(new Date(editRequest.submittedAt).toUTCString())}</p>
+    </div>
+    <div class="content">
+      <table>
+        <thead>
+          <tr><th>Field</th><th>Current</th><th>Proposed</th></tr>
+        </thead>
+        <tbody>${rows}
+        </tbody>
+      </table>
+      ${notice}
+      ${confirm}
+      <div class="actions">${actions}
+      </div>
+    </div>
+  </div>
+</body>
+</html>
+  `;
+}
+
+/**
+ * Generate HTML response page
+ */
+function generateHtmlResponse(title: string, message: string, type: 'success' | 'warning' | 'error'): string {
+  const colors = {
+    success: { bg: '#10b981', light: '#d1fae5' },
+    warning: { bg: '#f59e0b', light: '#fef3c7' },
+    error: { bg: '#ef4444', light: '#fee2e2' },
+  };
+
+  const color = colors[type];
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${title} - ImpactConnect</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      background: #f3f4f6;
+      min-height: 100vh;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      padding: 20px;
+    }
+    .card {
+      background: white;
+      border-radius: 12px;
+      box-shadow: 0 4px 6px rgba(0,0,0,0.1);
+      max-width: 500px;
+      width: 100%;
+      overflow: hidden;
+    }
+    .header {
+      background: ${color.bg};
+      color: white;
+      padding: 30px;
+      text-align: center;
+    }
+    .header h1 { font-size: 24px; }
+    .content {
+      padding: 30px;
+      text-align: center;
+    }
+    .content p {
+      color: #4b5563;
+      font-size: 16px;
+      line-height: 1.6;
+    }
+    .button {
+      display: inline-block;
+      margin-top: 20px;
+      padding: 12px 24px;
+      background: ${color.bg};
+      color: white;
+      text-decoration: none;
+      border-radius: 6px;
+    }
+  </style>
+</head>
+<body>
+  <div class="card">
+    <div class="header">
+      <h1>${title}</h1>
+    </div>
+    <div class="content">
+      <p>${message}</p>
+      <a href="/opportunities" class="button">Browse Opportunities</a>
+    </div>
+  </div>
+</body>
+</html>
+  `;
+}
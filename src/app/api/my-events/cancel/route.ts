@@ -0,0 +1,144 @@
+/**
+ * Cancel Event API Route
+ * Lets an organizer cancel their published event
+ * Marks the entry cancelled (it stays published so its page explains why),
+ * then emails everyone still registered
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { getOrganizerOpportunity, getOrganizerSession } from '@/lib/auth';
+import { getAuditContext, recordAuditEvent } from '@/lib/audit';
+import {
+  cancelOpportunityEntry,
+  getChangeSnapshots,
+  getPendingEditRequest,
+  resolveEditRequest,
+} from '@/lib/events';
+import { notifyRegistrantsOfCancellation } from '@/lib/registrations';
+
+/**
+ * Longest cancellation reason shown on the event page and in emails
+ */
+const MAX_REASON_LENGTH = 1000;
+
+/**
+ * POST /api/my-events/cancel
+ * Body: { opportunityId, reason }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = getOrganizerSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Please sign in to manage your events' },
+        { status: 401 }
+      );
+    }
+
+    let body: { opportunityId?: string; reason?: string };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const reason = body.reason?.trim() || '';
+
+    if (!body.opportunityId) {
+      return NextResponse.json({ error: 'Opportunity ID is required' }, { status: 400 });
+    }
+    if (!reason || reason.length > MAX_REASON_LENGTH) {
+      return NextResponse.json(
+        { error: `A reason is required (max ${MAX_REASON_LENGTH} characters)` },
+        { status: 400 }
+      );
+    }
+
+    // Only the event's organizer may cancel it
+    const opportunity = await getOrganizerOpportunity(body.opportunityId, session.email);
+    if (!opportunity) {
+      return NextResponse.json(
+        { error: 'Event not found' },
+        { status: 404 }
+      );
+    }
+
+    if (opportunity.status === 'cancelled') {
+      return NextResponse.json(
+        { error: 'This event is already cancelled' },
+        { status: 409 }
+      );
+    }
+    if (opportunity.status === 'completed') {
+      return NextResponse.json(
+        { error: 'Completed events cannot be cancelled' },
+        { status: 400 }
+      );
+    }
+
+    const result = await cancelOpportunityEntry(opportunity.uid, reason);
+    if (!result.success) {
+      console.error('[CancelEvent] Entry update failed:', result.error);
+      return NextResponse.json(
+        { error: 'Failed to cancel the event. Please try again.' },
+        { status: 502 }
+      );
+    }
+
+    const cancelledAt = new Date().toISOString();
+    const audit = getAuditContext(request, { type: 'organizer', email: session.email });
+    await recordAuditEvent(audit, {
+      action: 'event.cancelled',
+      target: { type: 'opportunity', id: opportunity.uid, title: opportunity.title, opportunityId: opportunity.uid },
+      before: { status: opportunity.status },
+      after: { status: 'cancelled', cancelledAt },
+      reason,
+    });
+
+    const notified = await notifyRegistrantsOfCancellation(opportunity, reason, cancelledAt);
+
+    // Pending changes no longer apply to a cancelled event
+    const pendingEdit = await getPendingEditRequest(opportunity.uid);
+    if (pendingEdit) {
+      await resolveEditRequest(pendingEdit.requestId, 'rejected');
+      await recordAuditEvent({ ...audit, actor: { type: 'system' } }, {
+        action: 'edit.rejected',
+        target: {
+          type: 'edit_request',
+          id: pendingEdit.requestId,
+          title: opportunity.title,
+          opportunityId: opportunity.uid,
+        },
+        ...getChangeSnapshots(pendingEdit.changes),
+        reason: 'The event was cancelled',
+      });
+    }
+
+    console.log('[CancelEvent] Cancelled:', {
+      opportunityId: opportunity.uid,
+      ...notified,
+    });
+
+    try {
+      revalidatePath(`/opportunities/${opportunity.slug}`);
+      revalidatePath('/opportunities');
+      revalidatePath('/');
+    } catch (revalidateError) {
+      console.warn('[CancelEvent] Revalidation failed:', revalidateError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      cancelledAt,
+      notified,
+    });
+
+  } catch (error) {
+    console.error('[CancelEvent] Error:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Check-In Link API Route
+ * Issues the organizer-scoped link that opens check-in mode for an event
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrganizerOpportunity, getOrganizerSession } from '@/lib/auth';
+import { createCheckInUrl } from '@/lib/registrations';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = getOrganizerSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Please sign in to manage your events' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const opportunityId = searchParams.get('opportunityId');
+
+    if (!opportunityId) {
+      return NextResponse.json(
+        { error: 'Opportunity ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // Only the event's organizer may open check-in mode
+    const opportunity = await getOrganizerOpportunity(opportunityId, session.email);
+    if (!opportunity) {
+      return NextResponse.json(
+        { error: 'Event not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      url: createCheckInUrl(
+        opportunity.uid,
+        session.email,
+        opportunity.endDate || opportunity.startDate
+      ),
+    });
+
+  } catch (error) {
+    console.error('[CheckInLink] Error:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Event Drafts API Route
+ * Server copies of the signed-in organizer's unsubmitted event forms
+ * - GET: list drafts, or one draft with ?draftId=...
+ * - PUT: create or replace a draft
+ * - DELETE: remove a draft (?draftId=...)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrganizerSession } from '@/lib/auth';
+import {
+  MAX_DRAFTS_PER_ORGANIZER,
+  MAX_DRAFT_SIZE,
+  deleteDraft,
+  getDraft,
+  isValidDraftId,
+  listDrafts,
+  saveDraft,
+} from '@/lib/events';
+
+/**
+ * GET /api/my-events/drafts[?draftId=...]
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = getOrganizerSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Please sign in to see your drafts' },
+        { status: 401 }
+      );
+    }
+
+    const draftId = request.nextUrl.searchParams.get('draftId');
+    if (draftId) {
+      const draft = await getDraft(draftId, session.email);
+      if (!draft) {
+        return NextResponse.json(
+          { error: 'Draft not found' },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ draft });
+    }
+
+    return NextResponse.json({ drafts: await listDrafts(session.email) });
+
+  } catch (error) {
+    console.error('[Drafts] Error loading drafts:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/my-events/drafts
+ * Body: { draftId, title, fields }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const session = getOrganizerSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Please sign in to save drafts to your account' },
+        { status: 401 }
+      );
+    }
+
+    let body: { draftId?: unknown; title?: unknown; fields?: unknown };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidDraftId(body.draftId)) {
+      return NextResponse.json(
+        { success: false, error: 'A valid draft ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const fields = body.fields;
+    if (!fields || typeof fields !== 'object' || Array.isArray(fields)) {
+      return NextResponse.json(
+        { success: false, error: 'Draft fields are required' },
+        { status: 400 }
+      );
+    }
+
+    if (JSON.stringify(fields).length > MAX_DRAFT_SIZE) {
+      return NextResponse.json(
+        { success: false, error: 'Draft is too large to save' },
+        { status: 413 }
+      );
+    }
+
+    const draft = await saveDraft({
+      draftId: body.draftId,
+      organizerEmail: session.email,
+      title: typeof body.title === 'string' ? body.title.trim().slice(0, 100) : '',
+      fields: fields as Record<string, unknown>,
+    });
+
+    if (!draft) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `You can keep up to ${MAX_DRAFTS_PER_ORGANIZER} drafts. Delete one to save another.`,
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { draftId: draft.draftId, updatedAt: draft.updatedAt },
+    });
+
+  } catch (error) {
+    console.error('[Drafts] Error saving draft:', error);
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/my-events/drafts?draftId=...
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = getOrganizerSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Please sign in to manage your drafts' },
+        { status: 401 }
+      );
+    }
+
+    const draftId = request.nextUrl.searchParams.get('draftId');
+    if (!draftId) {
+      return NextResponse.json(
+        { success: false, error: 'Draft ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await deleteDraft(draftId, session.email);
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: 'Draft not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('[Drafts] Error deleting draft:', error);
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
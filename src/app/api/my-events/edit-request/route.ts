@@ -0,0 +1,243 @@
+/**
+ * Event Edit Request API Route
+ * Lets an organizer propose changes to their published event for admin review
+ * - GET: current values to prefill the event form, plus any pending request
+ * - POST: validate the changes, store a field-level diff and notify admins
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrganizerOpportunity, getOrganizerSession } from '@/lib/auth';
+import { getAuditContext, recordAuditEvent } from '@/lib/audit';
+import {
+  createEditRequest,
+  createEditReviewUrl,
+  diffEventFields,
+  formatFieldValue,
+  getChangeSnapshots,
+  getEditableFields,
+  getPendingEditRequest,
+  hasScheduleChanges,
+  parseEventEditInput,
+} from '@/lib/events';
+import type { EventEditInput } from '@/lib/events';
+
+/**
+ * GET /api/my-events/edit-request?opportunityId=...
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = getOrganizerSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Please sign in to manage your events' },
+        { status: 401 }
+      );
+    }
+
+    const opportunityId = request.nextUrl.searchParams.get('opportunityId');
+    if (!opportunityId) {
+      return NextResponse.json(
+        { error: 'Opportunity ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // Only the event's organizer may edit it
+    const opportunity = await getOrganizerOpportunity(opportunityId, session.email);
+    if (!opportunity) {
+      return NextResponse.json(
+        { error: 'Event not found' },
+        { status: 404 }
+      );
+    }
+
+    const pending = await getPendingEditRequest(opportunity.uid);
+
+    return NextResponse.json({
+      event: {
+        uid: opportunity.uid,
+        title: opportunity.title,
+        slug: opportunity.slug,
+        organizerEmail: opportunity.organizerEmail || session.email,
+      },
+      fields: getEditableFields(opportunity),
+      pendingRequest: pending
+        ? {
+            requestId: pending.requestId,
+            submittedAt: pending.submittedAt,
+            changes: pending.changes,
+          }
+        : null,
+    });
+
+  } catch (error) {
+    console.error('[EditRequest] Error loading event:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/my-events/edit-request
+ * Body: { opportunityId, ...event form fields }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = getOrganizerSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'Please sign in to manage your events' },
+        { status: 401 }
+      );
+    }
+
+    let body: EventEditInput & { opportunityId?: string };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      );
+    }
+
+    if (!body.opportunityId) {
+      return NextResponse.json(
+        { success: false, error: 'Opportunity ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const opportunity = await getOrganizerOpportunity(body.opportunityId, session.email);
+    if (!opportunity) {
+      return NextResponse.json(
+        { success: false, error: 'Event not found' },
+        { status: 404 }
+      );
+    }
+
+    if (opportunity.status === 'cancelled' || opportunity.status === 'completed') {
+      return NextResponse.json(
+        { success: false, error: `This event is ${opportunity.status} and can no longer be edited` },
+        { status: 400 }
+      );
+    }
+
+    const current = getEditableFields(opportunity);
+    const { fields, errors } = parseEventEditInput(body, current);
+
+    if (errors.length > 0) {
+      console.log('[EditRequest] Validation failed:', errors);
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: errors },
+        { status: 400 }
+      );
+    }
+
+    const changes = diffEventFields(current, fields);
+    if (changes.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'No changes to submit' },
+        { status: 400 }
+      );
+    }
+
+    // Admin review goes through the same Automate flow as new submissions
+    const webhookUrl = process.env.CONTENTSTACK_AUTOMATE_EVENT_WEBHOOK;
+    if (!webhookUrl) {
+      console.error('[EditRequest] CONTENTSTACK_AUTOMATE_EVENT_WEBHOOK not configured');
+      return NextResponse.json(
+        { success: false, error: 'Event editing is not configured' },
+        { status: 500 }
+      );
+    }
+
+    const editRequest = await createEditRequest({
+      opportunity,
+      organizerEmail: session.email,
+      changes,
+    });
+
+    await recordAuditEvent(
+      getAuditContext(request, { type: 'organizer', email: session.email }),
+      {
+        action: 'edit.requested',
+        target: {
+          type: 'edit_request',
+          id: editRequest.requestId,
+          title: opportunity.title,
+          opportunityId: opportunity.uid,
+        },
+        ...getChangeSnapshots(changes),
+      }
+    );
+
+    const payload = {
+      type: 'event_edit_request',
+      requestId: editRequest.requestId,
+      opportunityId: opportunity.uid,
+      slug: opportunity.slug,
+      title: opportunity.title,
+      organizerName: opportunity.organizerName || 'Community Member',
+      organizerEmail: editRequest.organizerEmail,
+      changes: changes.map((change) => ({
+        field: change.field,
+        label: change.label,
+        from: formatFieldValue(change.from),
+        to: formatFieldValue(change.to),
+      })),
+      notifiesRegistrants: hasScheduleChanges(changes),
+      submittedAt: editRequest.submittedAt,
+      reviewUrl: createEditReviewUrl(editRequest.requestId),
+      approveUrl: createEditReviewUrl(editRequest.requestId, 'approve'),
+      rejectUrl: createEditReviewUrl(editRequest.requestId, 'reject'),
+    };
+
+    // The request is stored and pending review, so the review email is best effort:
+    // failing here would make the organizer submit the same changes again
+    try {
+      const response = await fetch(webhookUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(payload),
+      });
+
+      if (!response.ok) {
+        console.error('[EditRequest] Automate webhook failed:', {
+          requestId: editRequest.requestId,
+          status: response.status,
+          error: await response.text(),
+        });
+      }
+    } catch (webhookError) {
+      console.error('[EditRequest] Automate webhook error:', { requestId: editRequest.requestId, error: webhookError });
+    }
+
+    console.log('[EditRequest] Submitted for review:', {
+      requestId: editRequest.requestId,
+      opportunityId: opportunity.uid,
+      fields: changes.map((change) => change.field),
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Changes submitted for review! They will go live once approved.',
+      data: {
+        requestId: editRequest.requestId,
+        changes,
+        submittedAt: editRequest.submittedAt,
+      },
+    });
+
+  } catch (error) {
+    console.error('[EditRequest] Unexpected error:', error);
+    return NextResponse.json(
+      { success: false, error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Event Hours API Route
+ * Lets organizers review and override volunteer hours for their events
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrganizerOpportunity, getOrganizerSession } from '@/lib/auth';
+import {
+  calculateEventHours,
+  creditHoursIfCompleted,
+  listHoursByOpportunity,
+  setHoursOverride,
+} from '@/lib/hours';
+import type { Opportunity } from '@/types';
+
+/**
+ * Maximum hours an organizer can credit for one event
+ */
+const MAX_HOURS = 1000;
+
+/**
+ * Load the opportunity if the signed-in organizer owns it
+ */
+async function authorize(
+  request: NextRequest,
+  opportunityId: string | null | undefined
+): Promise<Opportunity | NextResponse> {
+  const session = getOrganizerSession(request);
+  if (!session) {
+    return NextResponse.json(
+      { error: 'Please sign in to manage your events' },
+      { status: 401 }
+    );
+  }
+
+  if (!opportunityId) {
+    return NextResponse.json(
+      { error: 'Opportunity ID is required' },
+      { status: 400 }
+    );
+  }
+
+  // Only the event's organizer may manage its hours
+  const opportunity = await getOrganizerOpportunity(opportunityId, session.email);
+  if (!opportunity) {
+    return NextResponse.json(
+      { error: 'Event not found' },
+      { status: 404 }
+    );
+  }
+
+  return opportunity;
+}
+
+/**
+ * Hours summary returned by both GET and POST
+ */
+async function buildResponse(opportunity: Opportunity) {
+  const { entries, eventOverride } = await listHoursByOpportunity(opportunity.uid);
+
+  return NextResponse.json({
+    status: opportunity.status,
+    calculatedHours: calculateEventHours(opportunity),
+    eventOverride: eventOverride?.hours ?? null,
+    totalHours: entries.reduce((total, e) => total + e.hours, 0),
+    entries: entries.map((entry) => ({
+      entryId: entry.entryId,
+      registrationId: entry.registrationId,
+      volunteerName: entry.volunteerName,
+      email: entry.email,
+      hours: entry.hours,
+      overrideHours: entry.overrideHours ?? null,
+    })),
+  });
+}
+
+/**
+ * GET /api/my-events/hours?opportunityId=...
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const opportunity = await authorize(request, searchParams.get('opportunityId'));
+    if (opportunity instanceof NextResponse) return opportunity;
+
+    // Make sure check-ins made since completion are credited
+    await creditHoursIfCompleted(opportunity.uid);
+
+    return buildResponse(opportunity);
+
+  } catch (error) {
+    console.error('[EventHours] Error:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/my-events/hours
+ * Body: { opportunityId, hours: number | null, registrationId?: string }
+ * Without registrationId the override applies to every volunteer of the event
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: {
+      opportunityId?: string;
+      hours?: number | null;
+      registrationId?: string;
+    };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const opportunity = await authorize(request, body.opportunityId);
+    if (opportunity instanceof NextResponse) return opportunity;
+
+    const hours = body.hours ?? null;
+    if (hours !== null && (typeof hours !== 'number' || isNaN(hours) || hours < 0 || hours > MAX_HOURS)) {
+      return NextResponse.json(
+        { error: `Hours must be a number between 0 and ${MAX_HOURS}` },
+        { status: 400 }
+      );
+    }
+
+    await setHoursOverride(opportunity.uid, hours, body.registrationId || undefined);
+
+    console.log('[EventHours] Override set:', {
+      opportunityId: opportunity.uid,
+      registrationId: body.registrationId || 'all',
+      hours,
+    });
+
+    return buildResponse(opportunity);
+
+  } catch (error) {
+    console.error('[EventHours] Error:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
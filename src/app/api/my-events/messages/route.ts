@@ -0,0 +1,118 @@
+/**
+ * Registrant Messages API Route
+ * Lets an organizer email registrants of their event
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrganizerOpportunity, getOrganizerSession } from '@/lib/auth';
+import { getRegistrationStore, messageRegistrants } from '@/lib/registrations';
+
+const MAX_SUBJECT_LENGTH = 150;
+const MAX_MESSAGE_LENGTH = 5000;
+
+/**
+ * Who a message goes to (ignored when registrationIds is given)
+ */
+type MessageAudience = 'all' | 'confirmed' | 'waitlisted' | 'checked_in' | 'not_checked_in';
+
+const AUDIENCES: MessageAudience[] = ['all', 'confirmed', 'waitlisted', 'checked_in', 'not_checked_in'];
+
+/**
+ * POST /api/my-events/messages
+ * Body: { opportunityId, subject, message, audience?: MessageAudience, registrationIds?: string[] }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = getOrganizerSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Please sign in to manage your events' },
+        { status: 401 }
+      );
+    }
+
+    let body: {
+      opportunityId?: string;
+      subject?: string;
+      message?: string;
+      audience?: MessageAudience;
+      registrationIds?: string[];
+    };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const subject = body.subject?.trim() || '';
+    const message = body.message?.trim() || '';
+    const audience = body.audience || 'all';
+
+    if (!body.opportunityId) {
+      return NextResponse.json({ error: 'Opportunity ID is required' }, { status: 400 });
+    }
+    if (!subject || subject.length > MAX_SUBJECT_LENGTH) {
+      return NextResponse.json(
+        { error: `Subject is required (max ${MAX_SUBJECT_LENGTH} characters)` },
+        { status: 400 }
+      );
+    }
+    if (!message || message.length > MAX_MESSAGE_LENGTH) {
+      return NextResponse.json(
+        { error: `Message is required (max ${MAX_MESSAGE_LENGTH} characters)` },
+        { status: 400 }
+      );
+    }
+    if (!AUDIENCES.includes(audience)) {
+      return NextResponse.json({ error: 'Invalid audience' }, { status: 400 });
+    }
+
+    // Only the event's organizer may message its registrants
+    const opportunity = await getOrganizerOpportunity(body.opportunityId, session.email);
+    if (!opportunity) {
+      return NextResponse.json(
+        { error: 'Event not found' },
+        { status: 404 }
+      );
+    }
+
+    const active = (await getRegistrationStore().listByOpportunity(opportunity.uid))
+      .filter((r) => r.status !== 'cancelled');
+
+    const selectedIds = Array.isArray(body.registrationIds) ? body.registrationIds : null;
+    const recipients = active.filter((r) => {
+      if (selectedIds) return selectedIds.includes(r.registrationId);
+      switch (audience) {
+        case 'confirmed': return r.status === 'confirmed';
+        case 'waitlisted': return r.status === 'waitlisted';
+        case 'checked_in': return r.status === 'confirmed' && !!r.checkedInAt;
+        case 'not_checked_in': return r.status === 'confirmed' && !r.checkedInAt;
+        default: return true;
+      }
+    });
+
+    if (recipients.length === 0) {
+      return NextResponse.json(
+        { error: 'No registrants match the selected recipients' },
+        { status: 400 }
+      );
+    }
+
+    const result = await messageRegistrants(opportunity, recipients, { subject, message });
+
+    console.log('[RegistrantMessages] Sent:', {
+      opportunityId: opportunity.uid,
+      audience: selectedIds ? 'selected' : audience,
+      ...result,
+    });
+
+    return NextResponse.json({ success: result.failed === 0, ...result });
+
+  } catch (error) {
+    console.error('[RegistrantMessages] Error:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
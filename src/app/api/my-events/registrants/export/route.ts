@@ -0,0 +1,104 @@
+/**
+ * Registrant Export API Route
+ * Downloads all registrants for an organizer's event as CSV or JSON
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrganizerOpportunity, getOrganizerSession } from '@/lib/auth';
+import {
+  buildRegistrantCsv,
+  buildRegistrantExport,
+  getRegistrantExportFilename,
+  getRegistrantsWithPositions,
+} from '@/lib/registrations';
+import type { RegistrantExportFormat } from '@/lib/registrations';
+
+const FORMATS: RegistrantExportFormat[] = ['csv', 'json'];
+
+/**
+ * GET /api/my-events/registrants/export?opportunityId=...&format=csv|json
+ * Cancelled registrations are included (with their status) unless includeCancelled=false
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = getOrganizerSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Please sign in to manage your events' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const opportunityId = searchParams.get('opportunityId');
+    const format = (searchParams.get('format') || 'csv') as RegistrantExportFormat;
+    const includeCancelled = searchParams.get('includeCancelled') !== 'false';
+
+    if (!opportunityId) {
+      return NextResponse.json(
+        { error: 'Opportunity ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: 'Format must be csv or json' },
+        { status: 400 }
+      );
+    }
+
+    // Only the event's organizer may export its registrants
+    const opportunity = await getOrganizerOpportunity(opportunityId, session.email);
+    if (!opportunity) {
+      return NextResponse.json(
+        { error: 'Event not found' },
+        { status: 404 }
+      );
+    }
+
+    const registrants = (await getRegistrantsWithPositions(opportunityId))
+      .filter((r) => includeCancelled || r.status !== 'cancelled');
+
+    const filename = getRegistrantExportFilename(opportunity, format);
+    const headers = {
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'private, no-store',
+    };
+
+    if (format === 'json') {
+      const body = JSON.stringify(
+        {
+          opportunity: {
+            id: opportunity.uid,
+            title: opportunity.title,
+            slug: opportunity.slug,
+            startDate: opportunity.startDate,
+            endDate: opportunity.endDate || null,
+            capacity: opportunity.spotsAvailable ?? null,
+          },
+          exportedAt: new Date().toISOString(),
+          registrants: buildRegistrantExport(opportunity, registrants),
+        },
+        null,
+        2
+      );
+
+      return new NextResponse(body, {
+        headers: { ...headers, 'Content-Type': 'application/json; charset=utf-8' },
+      });
+    }
+
+    // BOM so spreadsheet apps detect UTF-8
+    return new NextResponse(`\uFEFF${buildRegistrantCsv(opportunity, registrants)}`, {
+      headers: { ...headers, 'Content-Type': 'text/csv; charset=utf-8' },
+    });
+
+  } catch (error) {
+    console.error('[RegistrantExport] Error:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
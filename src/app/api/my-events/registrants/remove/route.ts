@@ -0,0 +1,134 @@
+/**
+ * Remove Registrant API Route
+ * Lets an organizer cancel someone's registration for their event
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { getOrganizerOpportunity, getOrganizerSession } from '@/lib/auth';
+import { getAuditContext, recordAuditEvent } from '@/lib/audit';
+import { getRegistrationStore, removeRegistrant } from '@/lib/registrations';
+
+/**
+ * Longest removal reason passed on to the participant
+ */
+const MAX_REASON_LENGTH = 500;
+
+/**
+ * POST /api/my-events/registrants/remove
+ * Body: { opportunityId, registrationId, reason?: string }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = getOrganizerSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Please sign in to manage your events' },
+        { status: 401 }
+      );
+    }
+
+    let body: { opportunityId?: string; registrationId?: string; reason?: string };
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    if (!body.opportunityId || !body.registrationId) {
+      return NextResponse.json(
+        { error: 'Opportunity ID and registration ID are required' },
+        { status: 400 }
+      );
+    }
+
+    const reason = body.reason?.trim() || undefined;
+    if (reason && reason.length > MAX_REASON_LENGTH) {
+      return NextResponse.json(
+        { error: `Reason must be ${MAX_REASON_LENGTH} characters or less` },
+        { status: 400 }
+      );
+    }
+
+    // Only the event's organizer may remove its registrants
+    const opportunity = await getOrganizerOpportunity(body.opportunityId, session.email);
+    if (!opportunity) {
+      return NextResponse.json(
+        { error: 'Event not found' },
+        { status: 404 }
+      );
+    }
+
+    const registration = await getRegistrationStore().getById(body.registrationId);
+    if (!registration || registration.opportunityId !== opportunity.uid) {
+      return NextResponse.json(
+        { error: 'Registration not found' },
+        { status: 404 }
+      );
+    }
+
+    if (registration.status === 'cancelled') {
+      return NextResponse.json(
+        { error: 'This registration is already cancelled' },
+        { status: 409 }
+      );
+    }
+
+    const result = await removeRegistrant(registration, opportunity, reason);
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Registration not found' },
+        { status: 404 }
+      );
+    }
+
+    await recordAuditEvent(
+      getAuditContext(request, { type: 'organizer', email: session.email }),
+      {
+        action: 'registration.removed',
+        target: {
+          type: 'registration',
+          id: registration.registrationId,
+          title: opportunity.title,
+          opportunityId: opportunity.uid,
+        },
+        before: { status: registration.status },
+        after: {
+          status: 'cancelled',
+          promoted: result.promoted.map((r) => r.registrationId),
+        },
+        reason,
+      }
+    );
+
+    console.log('[RemoveRegistrant] Removed by organizer:', {
+      registrationId: registration.registrationId,
+      opportunityId: opportunity.uid,
+      promoted: result.promoted.map((r) => r.registrationId),
+    });
+
+    // Refresh cached pages that show remaining spots
+    try {
+      revalidatePath(`/opportunities/${opportunity.slug}`);
+      revalidatePath('/opportunities');
+    } catch (revalidateError) {
+      console.warn('[RemoveRegistrant] Revalidation failed:', revalidateError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      registrationId: registration.registrationId,
+      promoted: result.promoted.map((r) => ({
+        registrationId: r.registrationId,
+        name: r.name,
+      })),
+    });
+
+  } catch (error) {
+    console.error('[RemoveRegistrant] Error:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
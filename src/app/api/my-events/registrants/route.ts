@@ -0,0 +1,78 @@
+/**
+ * Event Registrants API Route
+ * Lists confirmed and waitlisted registrants for an organizer's event
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrganizerOpportunity, getOrganizerSession } from '@/lib/auth';
+import {
+  formatAnswers,
+  getPartySize,
+  getRegistrantsWithPositions,
+} from '@/lib/registrations';
+import { getScheduleRule } from '@/lib/recurrence';
+import { getShiftsById } from '@/lib/shifts';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = getOrganizerSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Please sign in to manage your events' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const opportunityId = searchParams.get('opportunityId');
+
+    if (!opportunityId) {
+      return NextResponse.json(
+        { error: 'Opportunity ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // Only the event's organizer may see its registrants
+    const opportunity = await getOrganizerOpportunity(opportunityId, session.email);
+    if (!opportunity) {
+      return NextResponse.json(
+        { error: 'Event not found' },
+        { status: 404 }
+      );
+    }
+
+    const questions = opportunity.registrationQuestions ?? [];
+    const registrants = (await getRegistrantsWithPositions(opportunityId))
+      .filter((r) => r.status !== 'cancelled')
+      .map((r) => ({
+        registrationId: r.registrationId,
+        name: r.name,
+        email: r.email,
+        status: r.status,
+        waitlistPosition: r.waitlistPosition,
+        registeredAt: r.registeredAt,
+        answers: formatAnswers(questions, r.answers),
+        partySize: getPartySize(r),
+        groupName: r.groupName || null,
+        members: r.members || [],
+        checkedInAt: r.checkedInAt || null,
+        shifts: getShiftsById(opportunity.shifts, r.shiftIds).map((shift) => shift.label),
+        occurrenceDate: r.occurrenceDate || null,
+      }));
+
+    return NextResponse.json({
+      registrants,
+      // Shifts are counted per shift (see /api/my-events/stats)
+      capacity: opportunity.shifts?.length ? null : opportunity.spotsAvailable ?? null,
+      recurring: Boolean(getScheduleRule(opportunity)),
+    });
+
+  } catch (error) {
+    console.error('[Registrants] Error:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
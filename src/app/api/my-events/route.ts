@@ -1,21 +1,23 @@
 /**
  * My Events API Route
- * Fetches events from Contentstack by organizer email
+ * Fetches the signed-in organizer's events from Contentstack
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { getOrganizerSession } from '@/lib/auth';
+import { getRegistrationStats, getRegistrationStore } from '@/lib/registrations';
+import type { RegistrationStats } from '@/lib/registrations';
 
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url);
-    const email = searchParams.get('email');
-
-    if (!email) {
+    const session = getOrganizerSession(request);
+    if (!session) {
       return NextResponse.json(
-        { error: 'Email is required' },
-        { status: 400 }
+        { error: 'Please sign in to see your events' },
+        { status: 401 }
       );
     }
+    const email = session.email;
 
     const apiKey = process.env.CONTENTSTACK_API_KEY;
     const deliveryToken = process.env.CONTENTSTACK_DELIVERY_TOKEN;
@@ -55,15 +57,30 @@ export async function GET(request: NextRequest) {
     const data = await response.json();
     const entries = data.entries || [];
 
-    // Transform to simplified format
-    const events = entries.map((entry: Record<string, unknown>) => ({
-      uid: entry.uid,
-      title: entry.title,
-      slug: entry.slug || entry.uid,
-      startDate: entry.start_date,
-      city: entry.city,
-      status: entry.status || 'upcoming',
-    }));
+    // Transform to simplified format, with registration counts for the dashboard
+    const store = getRegistrationStore();
+    const events = await Promise.all(
+      entries.map(async (entry: Record<string, unknown>) => {
+        const capacity = typeof entry.spots_available === 'number' ? entry.spots_available : undefined;
+        let stats: RegistrationStats | null = null;
+        try {
+          stats = getRegistrationStats(await store.listByOpportunity(entry.uid as string), capacity);
+        } catch (statsError) {
+          console.error('[MyEvents] Failed to load registration stats:', statsError);
+        }
+
+        return {
+          uid: entry.uid,
+          title: entry.title,
+          slug: entry.slug || entry.uid,
+          startDate: entry.start_date,
+          endDate: entry.end_date || null,
+          city: entry.city,
+          status: entry.status || 'upcoming',
+          stats,
+        };
+      })
+    );
 
     return NextResponse.json({ events });
 
@@ -0,0 +1,78 @@
+/**
+ * Event Stats API Route
+ * Capacity, waitlist, check-in and shift coverage counts plus the registration trend for one event
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrganizerOpportunity, getOrganizerSession } from '@/lib/auth';
+import {
+  getRegistrationStats,
+  getRegistrationStore,
+  getRegistrationTimeline,
+  getShiftCoverage,
+} from '@/lib/registrations';
+
+/**
+ * GET /api/my-events/stats?opportunityId=...
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = getOrganizerSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Please sign in to manage your events' },
+        { status: 401 }
+      );
+    }
+
+    const opportunityId = request.nextUrl.searchParams.get('opportunityId');
+    if (!opportunityId) {
+      return NextResponse.json(
+        { error: 'Opportunity ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // Only the event's organizer may see its stats
+    const opportunity = await getOrganizerOpportunity(opportunityId, session.email);
+    if (!opportunity) {
+      return NextResponse.json(
+        { error: 'Event not found' },
+        { status: 404 }
+      );
+    }
+
+    const registrations = await getRegistrationStore().listByOpportunity(opportunityId);
+    // Shifts have their own capacities instead of the opportunity-wide one
+    const shifts = opportunity.shifts ?? [];
+
+    return NextResponse.json({
+      event: {
+        uid: opportunity.uid,
+        title: opportunity.title,
+        slug: opportunity.slug,
+        startDate: opportunity.startDate,
+        endDate: opportunity.endDate || null,
+        startTime: opportunity.startTime || null,
+        endTime: opportunity.endTime || null,
+        city: opportunity.city || null,
+        isVirtual: opportunity.isVirtual || false,
+        status: opportunity.status || 'upcoming',
+        cancellationReason: opportunity.cancellationReason || null,
+      },
+      stats: getRegistrationStats(
+        registrations,
+        shifts.length > 0 ? undefined : opportunity.spotsAvailable
+      ),
+      timeline: getRegistrationTimeline(registrations),
+      shifts: getShiftCoverage(shifts, registrations),
+    });
+
+  } catch (error) {
+    console.error('[EventStats] Error:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * My Hours API Route
+ * Returns the signed-in volunteer's credited hours with certificate download links
+ * Hours are credited at check-in and when an opportunity is completed, not here
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrganizerSession } from '@/lib/auth';
+import { createCertificateUrl, getVolunteerHours } from '@/lib/hours';
+
+export async function GET(request: NextRequest) {
+  try {
+    // The ledger is only shown to someone who has proven they own the email
+    const session = getOrganizerSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Please sign in to see your volunteer hours' },
+        { status: 401 }
+      );
+    }
+
+    const { entries, totalHours } = await getVolunteerHours(session.email);
+
+    return NextResponse.json({
+      email: session.email,
+      totalHours,
+      entries: entries.map((entry) => ({
+        entryId: entry.entryId,
+        registrationId: entry.registrationId,
+        opportunityId: entry.opportunityId,
+        opportunityTitle: entry.opportunityTitle,
+        opportunitySlug: entry.opportunitySlug,
+        organizerName: entry.organizerName,
+        eventDate: entry.eventDate,
+        hours: entry.hours,
+        certificateUrl: createCertificateUrl(entry.entryId),
+      })),
+    });
+
+  } catch (error) {
+    console.error('[MyHours] Error:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
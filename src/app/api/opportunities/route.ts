@@ -5,6 +5,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getOpportunities } from '@/lib/contentstack';
+import { withRemainingSpots } from '@/lib/registrations';
 import type { OpportunityFilters, OpportunitySortOption, ContributionType } from '@/types';
 import { OpportunityStatus } from '@/types';
 
@@ -68,7 +69,10 @@ export async function GET(request: NextRequest) {
       sort,
     });
 
-    return NextResponse.json(result);
+    return NextResponse.json({
+      ...result,
+      opportunities: await withRemainingSpots(result.opportunities),
+    });
   } catch (error) {
     console.error('Error fetching opportunities:', error);
 
@@ -1,10 +1,33 @@
 /**
  * Registration API Route
  * Handles opportunity registration form submissions
+ * Records registrations in the registration store (enforcing capacity)
  * Sends data to Automate webhook for confirmation email
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { revalidatePath } from 'next/cache';
+import { getOpportunityById } from '@/lib/contentstack';
+import type { TicketAttachment } from '@/lib/email';
+import { getAppUrl } from '@/lib/config';
+import type { GroupMember, RegistrationAnswers, RegistrationQuestion } from '@/types';
+import {
+  createCancellationUrl,
+  createTicketAttachment,
+  formatAnswers,
+  getPartySize,
+  getRegistrationEndDate,
+  getRegistrationStore,
+  getWaitlistPosition,
+  MAX_GROUP_SIZE,
+  normalizeEmail,
+  RegistrationStoreError,
+  resendConfirmation,
+  validateRegistrationAnswers,
+} from '@/lib/registrations';
+import { describeRecurrence, getNextOccurrence, getScheduleRule, isOccurrenceOf } from '@/lib/recurrence';
+import { describeShift, getShiftCapacities, getShiftsById } from '@/lib/shifts';
+import { isPast } from '@/lib/utils/dates';
 
 /**
  * Registration request body
@@ -18,6 +41,12 @@ interface RegistrationRequest {
   opportunityTime?: string;
   opportunityLocation?: string;
   isVirtual?: boolean;
+
+  // Session (YYYY-MM-DD) of a recurring opportunity; the whole series when omitted
+  occurrenceDate?: string;
+
+  // Shifts chosen (required when the opportunity has shifts)
+  shiftIds?: string[];
   
   // Organizer info
   organizerName: string;
@@ -29,6 +58,16 @@ interface RegistrationRequest {
   phone?: string;
   message?: string;
   agreeToTerms: boolean;
+
+  // Answers to the opportunity's custom questions, keyed by question ID
+  answers?: Record<string, unknown>;
+
+  // Group registration: additional participants besides the submitter
+  groupName?: string;
+  members?: Array<{ name?: string; email?: string }>;
+
+  // Join the waitlist if the opportunity is full
+  joinWaitlist?: boolean;
 }
 
 /**
@@ -72,9 +111,61 @@ function sanitize(value: string | undefined): string {
 }
 
 /**
- * Validate registration data
+ * Validate group members
+ * Returns the sanitized members alongside any errors
+ */
+function validateMembers(
+  data: Partial<RegistrationRequest>
+): { errors: ValidationError[]; members: GroupMember[] } {
+  const errors: ValidationError[] = [];
+  const rawMembers = Array.isArray(data.members) ? data.members : [];
+
+  if (rawMembers.length + 1 > MAX_GROUP_SIZE) {
+    errors.push({
+      field: 'members',
+      message: `Groups can have at most ${MAX_GROUP_SIZE} participants`,
+    });
+    return { errors, members: [] };
+  }
+
+  const seenEmails = new Set<string>();
+  const leadEmail = sanitize(data.email);
+  if (leadEmail) seenEmails.add(normalizeEmail(leadEmail));
+
+  const members = rawMembers.map((member, index) => {
+    const name = sanitize(typeof member?.name === 'string' ? member.name : '');
+    const email = sanitize(typeof member?.email === 'string' ? member.email : '');
+
+    if (!name) {
+      errors.push({ field: `members.${index}.name`, message: 'Name is required' });
+    } else if (name.length < 2) {
+      errors.push({ field: `members.${index}.name`, message: 'Name must be at least 2 characters' });
+    }
+
+    if (email) {
+      if (!isValidEmail(email)) {
+        errors.push({ field: `members.${index}.email`, message: 'Please enter a valid email address' });
+      } else if (seenEmails.has(normalizeEmail(email))) {
+        errors.push({ field: `members.${index}.email`, message: 'Each participant needs a different email' });
+      }
+      seenEmails.add(normalizeEmail(email));
+    }
+
+    return { name, email: email ? normalizeEmail(email) : undefined };
+  });
+
+  return { errors, members };
+}
+
+/**
+ * Validate registration data, including the opportunity's custom questions
+ * and group members
+ * Returns the sanitized answers and members alongside any errors
  */
-function validateRegistration(data: Partial<RegistrationRequest>): ValidationError[] {
+function validateRegistration(
+  data: Partial<RegistrationRequest>,
+  questions: RegistrationQuestion[] = []
+): { errors: ValidationError[]; answers: RegistrationAnswers; members: GroupMember[] } {
   const errors: ValidationError[] = [];
 
   if (!data.opportunityId) {
@@ -108,7 +199,16 @@ function validateRegistration(data: Partial<RegistrationRequest>): ValidationErr
     errors.push({ field: 'agreeToTerms', message: 'You must agree to the terms' });
   }
 
-  return errors;
+  const rawAnswers = data.answers && typeof data.answers === 'object' ? data.answers : {};
+  const { errors: answerErrors, answers } = validateRegistrationAnswers(questions, rawAnswers);
+  answerErrors.forEach((err) => {
+    errors.push({ field: `answers.${err.questionId}`, message: err.message });
+  });
+
+  const { errors: memberErrors, members } = validateMembers(data);
+  errors.push(...memberErrors);
+
+  return { errors, answers, members };
 }
 
 /**
@@ -117,13 +217,17 @@ function validateRegistration(data: Partial<RegistrationRequest>): ValidationErr
 function errorResponse(
   message: string,
   errors: ValidationError[] = [],
-  status = 400
+  status = 400,
+  code?: string,
+  data?: Record<string, unknown>
 ): NextResponse {
   return NextResponse.json(
     {
       success: false,
       message,
+      code,
       errors: errors.length > 0 ? errors : undefined,
+      data,
     },
     { status }
   );
@@ -144,8 +248,70 @@ export async function POST(request: NextRequest) {
       return errorResponse('Invalid JSON in request body');
     }
 
+    if (!body?.opportunityId) {
+      return errorResponse('Validation failed', [
+        { field: 'opportunityId', message: 'Opportunity ID is required' },
+      ]);
+    }
+
+    // Look up the opportunity to get its capacity and custom questions
+    let opportunity;
+    try {
+      opportunity = await getOpportunityById(body.opportunityId);
+    } catch (lookupError) {
+      console.error('[Registration] Opportunity lookup failed:', lookupError);
+      return errorResponse('Unable to check availability. Please try again later.', [], 503);
+    }
+
+    if (!opportunity) {
+      return errorResponse('Opportunity not found', [], 404);
+    }
+
+    if (opportunity.status === 'cancelled') {
+      return errorResponse('This event has been cancelled.', [], 410, 'event_cancelled');
+    }
+
+    // Recurring opportunities take registrations for one upcoming session or the whole series
+    const recurrence = getScheduleRule(opportunity);
+    const occurrenceDate = recurrence && typeof body.occurrenceDate === 'string' && body.occurrenceDate
+      ? body.occurrenceDate.slice(0, 10)
+      : undefined;
+
+    if (occurrenceDate && (!isOccurrenceOf(opportunity, occurrenceDate) || isPast(occurrenceDate))) {
+      return errorResponse('Validation failed', [
+        { field: 'occurrenceDate', message: 'Please choose one of the upcoming sessions' },
+      ]);
+    }
+
+    if (recurrence && !occurrenceDate && getNextOccurrence(opportunity) === null) {
+      return errorResponse('This series has no upcoming sessions left.', [], 410, 'series_ended');
+    }
+
+    // Opportunities with shifts take registrations for one or more upcoming shifts,
+    // each with its own capacity instead of the opportunity-wide one
+    const shifts = opportunity.shifts ?? [];
+    const shiftIds = shifts.length > 0 && Array.isArray(body.shiftIds)
+      ? Array.from(new Set(body.shiftIds.filter((id): id is string => typeof id === 'string')))
+      : [];
+    const chosenShifts = getShiftsById(shifts, shiftIds);
+
+    if (shifts.length > 0) {
+      if (chosenShifts.length === 0) {
+        return errorResponse('Validation failed', [
+          { field: 'shiftIds', message: 'Please choose at least one shift' },
+        ]);
+      }
+      if (chosenShifts.length !== shiftIds.length || chosenShifts.some((shift) => isPast(shift.date))) {
+        return errorResponse('Validation failed', [
+          { field: 'shiftIds', message: 'Please choose from the upcoming shifts' },
+        ]);
+      }
+    }
+    const lastShiftDate = chosenShifts.length > 0 ? chosenShifts[chosenShifts.length - 1].date : undefined;
+
     // Validate the registration data
-    const validationErrors = validateRegistration(body);
+    const questions = opportunity.registrationQuestions ?? [];
+    const { errors: validationErrors, answers, members } = validateRegistration(body, questions);
     if (validationErrors.length > 0) {
       return errorResponse('Validation failed', validationErrors);
     }
@@ -156,10 +322,155 @@ export async function POST(request: NextRequest) {
     // Sanitize inputs
     const sanitizedData = {
       name: sanitize(body.name),
-      email: sanitize(body.email).toLowerCase(),
+      email: normalizeEmail(sanitize(body.email)),
       phone: sanitize(body.phone) || '',
       message: sanitize(body.message) || '',
+      groupName: members.length > 0 ? sanitize(body.groupName) || undefined : undefined,
     };
+    const partySize = 1 + members.length;
+
+    // Record the registration (waitlisted or rejected when the opportunity is full)
+    const store = getRegistrationStore();
+    const registeredAt = new Date().toISOString();
+    let registration;
+    try {
+      registration = await store.create(
+        {
+          registrationId,
+          opportunityId: opportunity.uid,
+          opportunityTitle: opportunity.title,
+          opportunitySlug: opportunity.slug,
+          occurrenceDate,
+          shiftIds: shiftIds.length > 0 ? shiftIds : undefined,
+          name: sanitizedData.name,
+          email: sanitizedData.email,
+          phone: sanitizedData.phone,
+          message: sanitizedData.message,
+          answers,
+          groupName: sanitizedData.groupName,
+          members: members.length > 0 ? members : undefined,
+          registeredAt,
+          updatedAt: registeredAt,
+        },
+        {
+          capacity: shifts.length > 0 ? undefined : opportunity.spotsAvailable,
+          shiftCapacities: getShiftCapacities(shifts),
+          allowWaitlist: body.joinWaitlist === true,
+        }
+      );
+    } catch (storeError) {
+      if (
+        storeError instanceof RegistrationStoreError &&
+        storeError.code === 'already_registered' &&
+        storeError.existing
+      ) {
+        const existing = storeError.existing;
+        const isLeadEmail = storeError.email === sanitizedData.email;
+        const target = existing.occurrenceDate
+          ? 'this session'
+          : existing.shiftIds?.length ? 'one of these shifts' : 'this opportunity';
+        const isOwnRegistration = isLeadEmail && normalizeEmail(existing.email) === sanitizedData.email;
+
+        // The registration ID is not returned: anyone who knows an email address could
+        // otherwise look up (and, with the ID, manage) that person's registration.
+        // Instead the confirmation is emailed again to the address it was made with.
+        let confirmationResent = false;
+        if (isOwnRegistration) {
+          try {
+            confirmationResent = await resendConfirmation(existing, opportunity);
+          } catch (resendError) {
+            console.error('[Registration] Confirmation resend failed:', resendError);
+          }
+        }
+
+        return errorResponse(
+          isLeadEmail
+            ? `You are already registered for ${target}.`
+            : `${storeError.email} is already registered for ${target}.`,
+          [],
+          409,
+          'already_registered',
+          {
+            status: existing.status,
+            registeredAt: existing.registeredAt,
+            occurrenceDate: existing.occurrenceDate,
+            email: storeError.email,
+            // Only the submitter's own registration is theirs to look up
+            isOwnRegistration,
+            confirmationResent,
+          }
+        );
+      }
+      if (
+        storeError instanceof RegistrationStoreError &&
+        storeError.code === 'group_too_large' &&
+        storeError.shiftIds
+      ) {
+        const [shift] = getShiftsById(shifts, storeError.shiftIds);
+        return errorResponse(
+          `${shift?.label || 'This shift'} only has ${shift?.spots} spots in total, so your group of ${partySize} cannot be registered together.`,
+          [],
+          409,
+          'group_too_large',
+          { shiftIds: storeError.shiftIds }
+        );
+      }
+      if (storeError instanceof RegistrationStoreError && storeError.code === 'group_too_large') {
+        return errorResponse(
+          `This opportunity only has ${opportunity.spotsAvailable} spots in total, so your group of ${partySize} cannot be registered together.`,
+          [],
+          409,
+          'group_too_large'
+        );
+      }
+      if (storeError instanceof RegistrationStoreError && storeError.code === 'capacity_reached') {
+        return errorResponse(
+          partySize > 1
+            ? 'Sorry, there are not enough spots left for your whole group. You can join the waitlist instead.'
+            : `Sorry, ${occurrenceDate ? 'this session' : 'this opportunity'} is full. You can join the waitlist instead.`,
+          [],
+          409,
+          'opportunity_full'
+        );
+      }
+      if (storeError instanceof RegistrationStoreError && storeError.code === 'shift_full') {
+        const labels = getShiftsById(shifts, storeError.shiftIds).map((shift) => shift.label);
+        return errorResponse(
+          `Sorry, there are not enough spots left in ${labels.join(', ') || 'your chosen shift'}. Choose other shifts or join the waitlist instead.`,
+          [],
+          409,
+          'shift_full',
+          { shiftIds: storeError.shiftIds }
+        );
+      }
+      throw storeError;
+    }
+
+    const isWaitlisted = registration.status === 'waitlisted';
+    const waitlistPosition = isWaitlisted
+      ? getWaitlistPosition(await store.listByOpportunity(opportunity.uid), registrationId)
+      : null;
+
+    // Refresh cached pages that show remaining spots
+    try {
+      revalidatePath(`/opportunities/${opportunity.slug}`);
+      revalidatePath('/opportunities');
+    } catch (revalidateError) {
+      console.warn('[Registration] Revalidation failed:', revalidateError);
+    }
+
+    // Confirmed registrations get a QR ticket for check-in (waitlisted ones on promotion)
+    let ticket: TicketAttachment | null = null;
+    if (registration.status === 'confirmed') {
+      try {
+        ticket = await createTicketAttachment(
+          registrationId,
+          occurrenceDate || lastShiftDate || opportunity.endDate || opportunity.startDate
+        );
+      } catch (ticketError) {
+        console.error('[Registration] Ticket generation failed:', ticketError);
+      }
+    }
 
     // Location is either Virtual OR physical address (never empty)
     const isVirtual = body.isVirtual === true;
@@ -171,13 +482,26 @@ export async function POST(request: NextRequest) {
     const webhookPayload = {
       // Registration info
       registrationId,
-      registeredAt: new Date().toISOString(),
+      registeredAt,
+      registrationStatus: registration.status,
+      waitlistPosition,
       
       // Participant info
       participantName: sanitizedData.name,
       participantEmail: sanitizedData.email,
       participantPhone: sanitizedData.phone,
       message: sanitizedData.message,
+
+      // Custom question answers (raw values and readable pairs for email templates)
+      answers,
+      answersFormatted: formatAnswers(questions, answers),
+
+      // Group info (partySize is 1 for individual registrations)
+      partySize,
+      groupName: sanitizedData.groupName || '',
+      groupLeadName: sanitizedData.name,
+      groupMembers: members,
+      isGroupMember: false,
       
       // Opportunity info
       opportunityId: body.opportunityId,
@@ -187,14 +511,32 @@ export async function POST(request: NextRequest) {
       opportunityTime: body.opportunityTime || '',
       opportunityLocation: opportunityLocation,
       isVirtual: isVirtual,
+
+      // Recurring opportunities: the chosen session ('' for the whole series) and the schedule
+      occurrenceDate: occurrenceDate || '',
+      recurrence: recurrence ? describeRecurrence(recurrence, opportunity.startDate) : '',
+
+      // Shifts signed up for, e.g. "Water station 3 (Sat, Oct 5 · 7:00 AM – 11:00 AM)"
+      shifts: chosenShifts.map(describeShift),
       
       // Organizer info
       organizerName: body.organizerName || 'Organizer',
       organizerEmail: body.organizerEmail || '',
+
+      // Self-service cancellation link (series and shift registrations can cancel until their last session)
+      cancelUrl: createCancellationUrl(registrationId, getRegistrationEndDate(registration, opportunity)),
+
+      // QR ticket for check-in (null while waitlisted)
+      ticket,
+
+      // "Add to calendar" download
+      calendarUrl: `${getAppUrl()}/api/calendar/opportunities/${encodeURIComponent(opportunity.slug)}`,
     };
 
     console.log('[Registration] Processing registration:', {
       registrationId,
+      status: registration.status,
+      partySize: getPartySize(registration),
       opportunityTitle: body.opportunityTitle,
       participantEmail: sanitizedData.email,
     });
@@ -203,21 +545,40 @@ export async function POST(request: NextRequest) {
     const webhookUrl = process.env.CONTENTSTACK_AUTOMATE_REGISTRATION_WEBHOOK;
 
     if (webhookUrl) {
-      try {
-        const response = await fetch(webhookUrl, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(webhookPayload),
-        });
-
-        if (!response.ok) {
-          console.error('[Registration] Webhook failed:', await response.text());
-        } else {
-          console.log('[Registration] Webhook sent successfully');
+      // One confirmation for the submitter, plus one per group member with an email.
+      // Members don't get the cancellation link since it cancels the whole group.
+      const payloads = [
+        webhookPayload,
+        ...members
+          .filter((member) => member.email)
+          .map((member) => ({
+            ...webhookPayload,
+            participantName: member.name,
+            participantEmail: member.email as string,
+            participantPhone: '',
+            message: '',
+            isGroupMember: true,
+            cancelUrl: '',
+          })),
+      ];
+
+      for (const payload of payloads) {
+        try {
+          const response = await fetch(webhookUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(payload),
+          });
+
+          if (!response.ok) {
+            console.error('[Registration] Webhook failed:', await response.text());
+          } else {
+            console.log('[Registration] Webhook sent successfully to', payload.participantEmail);
+          }
+        } catch (webhookError) {
+          console.error('[Registration] Webhook error:', webhookError);
+          // Don't fail the registration if webhook fails
         }
-      } catch (webhookError) {
-        console.error('[Registration] Webhook error:', webhookError);
-        // Don't fail the registration if webhook fails
       }
     } else {
       console.warn('[Registration] CONTENTSTACK_AUTOMATE_REGISTRATION_WEBHOOK not configured');
@@ -226,13 +587,23 @@ export async function POST(request: NextRequest) {
     // Return success response
     return NextResponse.json({
       success: true,
-      message: 'Registration submitted successfully! A confirmation email will be sent shortly.',
+      message: isWaitlisted
+        ? `${chosenShifts.length > 0 ? 'A chosen shift' : 'This opportunity'} is full. You are #${waitlistPosition} on the waitlist and will be emailed if a spot opens up.`
+        : 'Registration submitted successfully! A confirmation email will be sent shortly.',
       data: {
         registrationId,
+        status: registration.status,
+        waitlistPosition,
+        occurrenceDate: occurrenceDate ?? null,
+        shiftIds,
+        partySize,
+        groupName: sanitizedData.groupName,
+        members,
+        ticketCode: ticket?.code ?? null,
         opportunityTitle: body.opportunityTitle,
         participantName: sanitizedData.name,
         participantEmail: sanitizedData.email,
-        submittedAt: new Date().toISOString(),
+        submittedAt: registeredAt,
       },
     });
 
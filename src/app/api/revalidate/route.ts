@@ -2,10 +2,13 @@
  * Revalidation Webhook API
  * Handles Contentstack publish/update/unpublish events
  * Triggers on-demand ISR revalidation for affected pages
+ * Credits volunteer hours when an opportunity is published as completed
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { revalidatePath, revalidateTag } from 'next/cache';
+import { creditHoursIfCompleted } from '@/lib/hours';
+import { OpportunityStatus } from '@/types';
 
 /**
  * Contentstack webhook payload structure
@@ -20,6 +23,7 @@ interface ContentstackWebhookPayload {
       title?: string;
       slug?: string;
       locale?: string;
+      status?: string;
       _content_type_uid?: string;
     };
     content_type?: {
@@ -183,6 +187,22 @@ export async function POST(request: NextRequest) {
     const slug = getSlug(payload);
     const result = await revalidateForContentType(contentType, slug);
 
+    // Completed opportunities credit hours to checked-in volunteers
+    const entry = payload.data?.entry;
+    if (
+      contentType === 'opportunity' &&
+      entry?.uid &&
+      entry.status === OpportunityStatus.COMPLETED &&
+      (event === 'entry.publish' || event === 'entry.update')
+    ) {
+      try {
+        await creditHoursIfCompleted(entry.uid);
+      } catch (error) {
+        // Later check-ins and the organizer's hours view credit them too, so don't fail the webhook
+        console.error('[Revalidate] Hours crediting failed:', error);
+      }
+    }
+
     // Also revalidate by tag if available
     try {
       if (slug) {
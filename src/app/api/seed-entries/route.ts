@@ -6,6 +6,8 @@
  */
 
 import { NextResponse } from 'next/server';
+import { ContentTypes, getManagementClient } from '@/lib/contentstack';
+import type { ManagementClient } from '@/lib/contentstack';
 
 const ENTRIES = [
   {
@@ -172,60 +174,32 @@ const ENTRIES = [
   }
 ];
 
-async function createEntry(entry: typeof ENTRIES[0]) {
-  const apiKey = process.env.CONTENTSTACK_API_KEY;
-  const token = process.env.CONTENTSTACK_MANAGEMENT_TOKEN;
-  
-  const response = await fetch(
-    'https://api.contentstack.io/v3/content_types/opportunity/entries?locale=en-us',
-    {
-      method: 'POST',
-      headers: {
-        'api_key': apiKey!,
-        'authorization': token!,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ entry }),
-    }
-  );
-  
-  const result = await response.json();
-  return { 
-    success: response.ok, 
-    title: entry.title,
-    uid: result.entry?.uid,
-    error: result.error_message 
-  };
+async function createEntry(client: ManagementClient, entry: typeof ENTRIES[0]) {
+  try {
+    const created = await client.createEntry(ContentTypes.OPPORTUNITY, entry);
+    return { success: true, title: entry.title, uid: created.uid, error: undefined };
+  } catch (error) {
+    return {
+      success: false,
+      title: entry.title,
+      uid: undefined,
+      error: error instanceof Error ? error.message : 'Failed to create entry',
+    };
+  }
 }
 
-async function publishEntry(uid: string) {
-  const apiKey = process.env.CONTENTSTACK_API_KEY;
-  const token = process.env.CONTENTSTACK_MANAGEMENT_TOKEN;
-  
-  await fetch(
-    `https://api.contentstack.io/v3/content_types/opportunity/entries/${uid}/publish`,
-    {
-      method: 'POST',
-      headers: {
-        'api_key': apiKey!,
-        'authorization': token!,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        entry: {
-          environments: ['production'],
-          locales: ['en-us']
-        }
-      }),
-    }
-  );
+async function publishEntry(client: ManagementClient, uid: string) {
+  try {
+    await client.publishEntry(ContentTypes.OPPORTUNITY, uid);
+  } catch (error) {
+    console.error('[SeedEntries] Publish failed:', uid, error);
+  }
 }
 
 export async function GET() {
-  const apiKey = process.env.CONTENTSTACK_API_KEY;
-  const token = process.env.CONTENTSTACK_MANAGEMENT_TOKEN;
+  const client = getManagementClient();
   
-  if (!apiKey || !token) {
+  if (!client) {
     return NextResponse.json({ 
       error: 'Missing CONTENTSTACK_API_KEY or CONTENTSTACK_MANAGEMENT_TOKEN' 
     }, { status: 500 });
@@ -234,12 +208,12 @@ export async function GET() {
   const results = [];
   
   for (const entry of ENTRIES) {
-    const result = await createEntry(entry);
+    const result = await createEntry(client, entry);
     results.push(result);
     
     // Publish if created successfully
     if (result.success && result.uid) {
-      await publishEntry(result.uid);
+      await publishEntry(client, result.uid);
     }
     
     // Small delay to avoid rate limiting
@@ -0,0 +1,81 @@
+/**
+ * Submission Revision API Route
+ * Loads a submission a moderator sent back, so the organizer can revise it
+ * - GET ?token=...: current fields plus the moderator's comments
+ * The revised event is resubmitted through POST /api/submit-event with the same token
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  EVENT_FIELD_LABELS,
+  getEditableFields,
+  getSubmission,
+  getSubmissionRevision,
+  submissionToOpportunity,
+  verifySubmissionRevisionToken,
+} from '@/lib/events';
+
+/**
+ * GET /api/submit-event/revision?token=...
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get('token');
+    const verification = token ? verifySubmissionRevisionToken(token) : null;
+    if (!verification?.valid) {
+      return NextResponse.json(
+        {
+          error: verification?.error === 'expired'
+            ? 'This revise link has expired. Please submit the event again.'
+            : 'This revise link is invalid',
+        },
+        { status: 400 }
+      );
+    }
+
+    const submission = await getSubmission(verification.submissionId);
+    if (!submission) {
+      return NextResponse.json(
+        { error: 'Submission not found' },
+        { status: 404 }
+      );
+    }
+
+    if (
+      submission.status !== 'changes_requested'
+      || getSubmissionRevision(submission) !== verification.revision
+    ) {
+      return NextResponse.json(
+        { error: 'This submission has already been resubmitted or reviewed' },
+        { status: 409 }
+      );
+    }
+
+    const changeRequest = submission.changeRequest;
+
+    return NextResponse.json({
+      submission: {
+        submissionId: submission.submissionId,
+        revision: verification.revision,
+        organizerEmail: submission.event.organizerEmail,
+      },
+      fields: getEditableFields(submissionToOpportunity(submission)),
+      changeRequest: {
+        comments: (changeRequest?.comments || []).map(({ field, comment }) => ({
+          field,
+          label: EVENT_FIELD_LABELS[field],
+          comment,
+        })),
+        note: changeRequest?.note || null,
+        requestedAt: changeRequest?.requestedAt || submission.reviewedAt || null,
+      },
+    }, { headers: { 'Cache-Control': 'private, no-store' } });
+
+  } catch (error) {
+    console.error('[SubmissionRevision] Error loading submission:', error);
+    return NextResponse.json(
+      { error: 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,39 @@
 /**
  * Submit Event API Route
- * Sends event data to Contentstack Automate webhook for admin approval
+ * Stores the submission and sends it to the Contentstack Automate webhook for
+ * admin approval, with signed single-use approve/reject links
+ *
+ * A request with a reviseToken (from a moderator's change request) resubmits an
+ * existing submission as its next revision instead of creating a new one.
+ *
+ * Every submission is screened first; the risk score and reasons go to moderators,
+ * and high-risk submissions are held in the queue instead of emailed.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import {
+  describeRecurrence,
+  getSeriesEndDate,
+  parseRecurrenceRule,
+  serializeRecurrenceRule,
+  validateRecurrenceRule,
+} from '@/lib/recurrence';
+import { describeShift, parseShiftInput } from '@/lib/shifts';
+import type { ShiftInput } from '@/lib/shifts';
+import {
+  createSubmission,
+  createSubmissionReviewUrl,
+  formatFieldValue,
+  getRevisionChanges,
+  getSubmission,
+  getSubmissionRevision,
+  reviseSubmission,
+  screenSubmission,
+  verifySubmissionRevisionToken,
+} from '@/lib/events';
+import type { StoredEventSubmission, SubmittedEvent } from '@/lib/events';
+import { getAppUrl } from '@/lib/config';
+import { getAuditContext, recordAuditEvent } from '@/lib/audit';
 
 /**
  * Event submission request body
@@ -29,12 +59,16 @@ interface EventSubmission {
   endDate?: string;
   startTime?: string;
   endTime?: string;
+  recurrenceRule?: string; // RRULE for repeating events
+  shifts?: ShiftInput[]; // Time slots or roles with their own capacity
   // Organizer
   organizerEmail: string;
   organizerName?: string;
   // Other
   spotsAvailable?: number;
   requirements?: string;
+  // Revise link token when resubmitting after a change request
+  reviseToken?: string;
 }
 
 /**
@@ -104,6 +138,34 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Resubmission after a change request: the token names the submission and revision
+    let revising: { existing: StoredEventSubmission; revision: number } | null = null;
+    if (body.reviseToken) {
+      const verification = verifySubmissionRevisionToken(body.reviseToken);
+      if (!verification.valid) {
+        return NextResponse.json(
+          { success: false, error: 'This revise link is invalid or has expired' },
+          { status: 400 }
+        );
+      }
+
+      const existing = await getSubmission(verification.submissionId);
+      if (
+        !existing
+        || existing.status !== 'changes_requested'
+        || getSubmissionRevision(existing) !== verification.revision
+      ) {
+        return NextResponse.json(
+          { success: false, error: 'This submission has already been resubmitted or reviewed' },
+          { status: 409 }
+        );
+      }
+
+      revising = { existing, revision: verification.revision };
+      // The submission stays with the organizer it was made by
+      body.organizerEmail = existing.event.organizerEmail;
+    }
+
     // Validate required fields
     const errors: string[] = [];
 
@@ -135,6 +197,25 @@ export async function POST(request: NextRequest) {
       errors.push('At least one cause is required');
     }
 
+    // Repeating events: the start date is the first session and the end date the last
+    const recurrence = body.recurrenceRule ? parseRecurrenceRule(body.recurrenceRule) : null;
+    if (body.recurrenceRule && !recurrence) {
+      errors.push('Repeat schedule is not valid');
+    }
+    if (recurrence && body.startDate) {
+      errors.push(...validateRecurrenceRule(recurrence, body.startDate));
+    }
+
+    // Shifts replace the event-wide capacity and fall within the event dates
+    const { shifts, errors: shiftErrors } = parseShiftInput(body.shifts, {
+      startDate: body.startDate,
+      endDate: body.endDate || body.startDate,
+    });
+    errors.push(...shiftErrors);
+    if (recurrence && shifts.length > 0) {
+      errors.push('Repeating events cannot have shifts');
+    }
+
     if (errors.length > 0) {
       console.log('[SubmitEvent] Validation failed:', errors);
       return NextResponse.json(
@@ -143,20 +224,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Generate IDs
-    const submissionId = generateSubmissionId();
-    const slug = generateSlug(body.title);
-
-    // Get webhook URL from environment
-    const webhookUrl = process.env.CONTENTSTACK_AUTOMATE_EVENT_WEBHOOK;
-
-    if (!webhookUrl) {
-      console.error('[SubmitEvent] CONTENTSTACK_AUTOMATE_EVENT_WEBHOOK not configured');
-      return NextResponse.json(
-        { success: false, error: 'Event submission is not configured' },
-        { status: 500 }
-      );
-    }
+    // Generate IDs (a revision keeps the original ones)
+    const submissionId = revising?.existing.submissionId || generateSubmissionId();
+    const slug = revising?.existing.event.slug || generateSlug(body.title);
 
     // Build formatted location string for email
     let formattedLocation = 'Virtual / Online';
@@ -170,7 +240,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Prepare payload for Automate (matches Opportunity content type)
-    const payload = {
+    const payload: SubmittedEvent = {
       submissionId,
       slug,
       title: sanitize(body.title),
@@ -192,66 +262,139 @@ export async function POST(request: NextRequest) {
       causeSlugs: body.causes,
       // Date & Time
       startDate: body.startDate,
-      endDate: body.endDate || body.startDate,
+      endDate: (recurrence ? getSeriesEndDate(recurrence, body.startDate) : body.endDate) || body.startDate,
       startTime: body.startTime || '',
       endTime: body.endTime || '',
+      recurrenceRule: recurrence ? serializeRecurrenceRule(recurrence) : '',
+      // Readable schedule for the review email
+      recurrence: recurrence ? describeRecurrence(recurrence, body.startDate) : '',
+      shifts,
+      // Readable shifts for the review email
+      shiftsFormatted: shifts.map(describeShift),
       // Organizer
       organizerEmail: sanitize(body.organizerEmail).toLowerCase(),
       organizerName: sanitize(body.organizerName) || 'Community Member',
       // Other
-      spotsAvailable: body.spotsAvailable || null,
+      spotsAvailable: shifts.length > 0 ? null : body.spotsAvailable || null,
       requirements: sanitize(body.requirements),
       // Metadata
       submittedAt: new Date().toISOString(),
     };
 
-    // Encode event data for approval URLs
-    const eventDataEncoded = Buffer.from(JSON.stringify(payload)).toString('base64');
-    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
-    
-    // Add approval URLs with encoded data
-    (payload as Record<string, unknown>).approveUrl = `${baseUrl}/api/approve-event?action=approve&data=${encodeURIComponent(eventDataEncoded)}`;
-    (payload as Record<string, unknown>).rejectUrl = `${baseUrl}/api/approve-event?action=reject&data=${encodeURIComponent(eventDataEncoded)}`;
+    // Rule-based screening for moderator triage
+    const screening = await screenSubmission(payload);
+
+    // Approval links reference the stored submission rather than carrying its content
+    const stored = revising
+      ? await reviseSubmission(submissionId, revising.revision, payload, screening)
+      : await createSubmission(payload, screening);
+
+    if (!stored) {
+      return NextResponse.json(
+        { success: false, error: 'This submission has already been resubmitted or reviewed' },
+        { status: 409 }
+      );
+    }
+
+    const revision = getSubmissionRevision(stored);
+
+    const submitted = {
+      status: stored.status,
+      revision,
+      screening: { score: screening.score, risk: screening.risk },
+      event: payload,
+    };
+    await recordAuditEvent(
+      getAuditContext(request, { type: 'organizer', email: payload.organizerEmail }),
+      {
+        action: revising ? 'submission.revised' : 'submission.created',
+        target: { type: 'submission', id: submissionId, title: payload.title },
+        before: revising ? { revision: revising.revision, event: revising.existing.event } : null,
+        after: submitted,
+      }
+    );
+    const successMessage = revising
+      ? 'Changes resubmitted for review! You will receive an email once approved.'
+      : 'Event submitted for review! You will receive an email once approved.';
+    const responseData = {
+      submissionId,
+      revision,
+      title: payload.title,
+      organizerEmail: payload.organizerEmail,
+      submittedAt: payload.submittedAt,
+    };
+
+    // Held submissions wait in the moderation queue; the organizer sees the usual response
+    if (screening.held) {
+      console.log('[SubmitEvent] Held after screening:', {
+        submissionId,
+        revision,
+        score: screening.score,
+        reasons: screening.flags.map((flag) => flag.reason),
+      });
+      return NextResponse.json({ success: true, message: successMessage, data: responseData });
+    }
+
+    // Like a failed webhook, a missing one only loses the review email; the queue still has it
+    const webhookUrl = process.env.CONTENTSTACK_AUTOMATE_EVENT_WEBHOOK;
+    if (!webhookUrl) {
+      console.error('[SubmitEvent] CONTENTSTACK_AUTOMATE_EVENT_WEBHOOK not configured, review email not sent:', submissionId);
+      return NextResponse.json({ success: true, message: successMessage, data: responseData });
+    }
 
     console.log('[SubmitEvent] Sending to Automate:', {
       submissionId,
+      revision,
       title: payload.title,
       city: payload.city,
       country: payload.country,
       organizerEmail: payload.organizerEmail,
+      risk: screening.risk,
     });
 
-    // Send to Contentstack Automate webhook
-    const response = await fetch(webhookUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(payload),
-    });
+    // The submission is stored and in the moderation queue, so the review email is
+    // best effort: failing the request here would make the organizer submit it again
+    try {
+      const response = await fetch(webhookUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...payload,
+          // Later revisions list what changed since the one moderators last saw
+          revision,
+          revisionChanges: getRevisionChanges(stored).map((change) => ({
+            label: change.label,
+            from: formatFieldValue(change.from),
+            to: formatFieldValue(change.to),
+          })),
+          screening: {
+            score: screening.score,
+            risk: screening.risk,
+            reasons: screening.flags.map((flag) => flag.reason),
+          },
+          approveUrl: createSubmissionReviewUrl(submissionId, 'approve', revision),
+          rejectUrl: createSubmissionReviewUrl(submissionId, 'reject', revision),
+          queueUrl: `${getAppUrl()}/admin/submissions`,
+        }),
+      });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('[SubmitEvent] Automate webhook failed:', errorText);
-      return NextResponse.json(
-        { success: false, error: 'Failed to submit event for review' },
-        { status: 500 }
-      );
+      if (response.ok) {
+        console.log('[SubmitEvent] Successfully sent to Automate:', submissionId);
+      } else {
+        console.error('[SubmitEvent] Automate webhook failed:', {
+          submissionId,
+          status: response.status,
+          error: await response.text(),
+        });
+      }
+    } catch (webhookError) {
+      console.error('[SubmitEvent] Automate webhook error:', { submissionId, error: webhookError });
     }
 
-    console.log('[SubmitEvent] Successfully sent to Automate:', submissionId);
-
-    // Return success
-    return NextResponse.json({
-      success: true,
-      message: 'Event submitted for review! You will receive an email once approved.',
-      data: {
-        submissionId,
-        title: payload.title,
-        organizerEmail: payload.organizerEmail,
-        submittedAt: payload.submittedAt,
-      },
-    });
+    // Return success (moderators see the submission in the queue either way)
+    return NextResponse.json({ success: true, message: successMessage, data: responseData });
 
   } catch (error) {
     console.error('[SubmitEvent] Unexpected error:', error);
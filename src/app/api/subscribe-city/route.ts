@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { ManagementApiError, getManagementClient } from '@/lib/contentstack';
 
 /**
  * API Route: Subscribe to City Notifications
@@ -28,74 +29,60 @@ export async function POST(request: NextRequest) {
 
     const cityName = citySlug.charAt(0).toUpperCase() + citySlug.slice(1).replace(/-/g, ' ');
 
+    // Subscriptions only ever use the token scoped to the newsletter content type
+    const client = getManagementClient({ tokenEnv: 'CONTENTSTACK_NEWSLETTER_TOKEN' });
+    if (!client) {
+      console.error('[Subscribe] Missing API credentials');
+      return NextResponse.json(
+        { error: 'Missing API credentials' },
+        { status: 500 }
+      );
+    }
+
     // Create entry in Contentstack
-    const createResponse = await fetch(
-      `https://api.contentstack.io/v3/content_types/newsletter_subscription/entries`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'api_key': process.env.CONTENTSTACK_API_KEY!,
-          'authorization': process.env.CONTENTSTACK_NEWSLETTER_TOKEN!,
-        },
-        body: JSON.stringify({
-          entry: {
-            title: `${email} - ${cityName}`,
-            email,
-            city: cityName,
-            city_slug: citySlug,
-            subscribed: true,
-            subscribed_at: new Date().toISOString(),
-          },
-        }),
+    let entryUid: string;
+    try {
+      const entry = await client.createEntry('newsletter_subscription', {
+        title: `${email} - ${cityName}`,
+        email,
+        city: cityName,
+        city_slug: citySlug,
+        subscribed: true,
+        subscribed_at: new Date().toISOString(),
+      });
+      entryUid = entry.uid;
+    } catch (error) {
+      if (!(error instanceof ManagementApiError)) {
+        throw error;
       }
-    );
 
-    const createData = await createResponse.json();
+      console.error('[Subscribe] Contentstack create error:', {
+        status: error.statusCode,
+        errorCode: error.errorCode,
+        message: error.message,
+        errors: error.errors,
+      });
 
-    if (!createResponse.ok) {
-      console.error('[Subscribe] Contentstack create error:', createData);
-      console.error('[Subscribe] Status:', createResponse.status);
-      console.error('[Subscribe] Error code:', createData.error_code);
-      console.error('[Subscribe] Error message:', createData.error_message);
-      
       // Check SPECIFICALLY for duplicate entry errors (error code 119)
-      if (createData.error_code === 119) {
+      if (error.errorCode === '119') {
         return NextResponse.json(
           { error: 'This email is already subscribed to this city' },
           { status: 409 }
         );
       }
-      
+
       // For other errors, return the actual error message
       return NextResponse.json(
-        { error: createData.error_message || 'Subscription failed. Please try again later.' },
-        { status: createResponse.status }
+        { error: error.message || 'Subscription failed. Please try again later.' },
+        { status: error.statusCode }
       );
     }
 
     // Publish the entry
-    const publishResponse = await fetch(
-      `https://api.contentstack.io/v3/content_types/newsletter_subscription/entries/${createData.entry.uid}/publish`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'api_key': process.env.CONTENTSTACK_API_KEY!,
-          'authorization': process.env.CONTENTSTACK_NEWSLETTER_TOKEN!,
-        },
-        body: JSON.stringify({
-          entry: {
-            environments: [process.env.CONTENTSTACK_ENVIRONMENT || 'production'],
-            locales: ['en-us'],
-          },
-        }),
-      }
-    );
-
-    if (!publishResponse.ok) {
-      const publishData = await publishResponse.json();
-      console.error('[Subscribe] Contentstack publish error:', publishData);
+    try {
+      await client.publishEntry('newsletter_subscription', entryUid);
+    } catch (error) {
+      console.error('[Subscribe] Contentstack publish error:', error);
       // Entry created but not published - that's okay, user is still subscribed
     }
 
@@ -10,48 +10,17 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { ALGOLIA_INDEX_NAME } from '@/lib/algolia';
+import {
+  deleteAlgoliaRecord,
+  isAlgoliaIndexingConfigured,
+  upsertAlgoliaRecord,
+} from '@/lib/algolia/indexing';
 
-const ALGOLIA_APP_ID = process.env.NEXT_PUBLIC_ALGOLIA_APP_ID;
-const ALGOLIA_ADMIN_KEY = process.env.ALGOLIA_ADMIN_API_KEY;
-const ALGOLIA_INDEX_NAME = 'impactconnect_events';
 const WEBHOOK_SECRET = process.env.CONTENTSTACK_WEBHOOK_SECRET;
 const WEBHOOK_USERNAME = process.env.CONTENTSTACK_WEBHOOK_USERNAME || 'algolia';
 const WEBHOOK_PASSWORD = process.env.CONTENTSTACK_WEBHOOK_PASSWORD || 'sync2026';
 
-// Transform Contentstack entry to Algolia record
-function transformForAlgolia(entry: Record<string, unknown>) {
-  const coverImage = entry.cover_image as { url?: string; title?: string } | undefined;
-  
-  return {
-    objectID: entry.uid as string,
-    title: (entry.title as string) || '',
-    description: (entry.description as string) || '',
-    summary: (entry.summary as string) || '',
-    cause: ((entry.cause_slugs as string[]) || [])[0] || '',
-    causes: (entry.cause_slugs as string[]) || [],
-    tags: (entry.cause_slugs as string[]) || [],
-    city: (entry.city as string) || '',
-    state: (entry.state as string) || '',
-    country: (entry.country as string) || '',
-    slug: (entry.slug as string) || (entry.uid as string),
-    cover_image: coverImage ? {
-      url: coverImage.url,
-      title: coverImage.title || (entry.title as string),
-    } : null,
-    event_date: (entry.start_date as string) || null,
-    start_date: (entry.start_date as string) || null,
-    end_date: (entry.end_date as string) || null,
-    start_time: (entry.start_time as string) || null,
-    end_time: (entry.end_time as string) || null,
-    is_virtual: (entry.is_virtual as boolean) || false,
-    contribution_types: (entry.contribution_types as string[]) || [],
-    status: (entry.status as string) || 'upcoming',
-    organizer_name: (entry.organizer_name as string) || '',
-    spots_available: (entry.spots_available as number) || null,
-    requirements: (entry.requirements as string) || '',
-  };
-}
-
 export async function POST(request: NextRequest) {
   try {
     // Validate Basic Auth
@@ -73,7 +42,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Check Algolia configuration
-    if (!ALGOLIA_APP_ID || !ALGOLIA_ADMIN_KEY) {
+    if (!isAlgoliaIndexingConfigured()) {
       console.error('Algolia credentials not configured');
       return NextResponse.json(
         { error: 'Algolia not configured' },
@@ -101,33 +70,13 @@ export async function POST(request: NextRequest) {
     // Handle different event types
     if (event === 'publish' || event === 'entry.publish') {
       // Add or update record in Algolia
-      const record = transformForAlgolia(entry);
-      
-      const response = await fetch(
-        `https://${ALGOLIA_APP_ID}-dsn.algolia.net/1/indexes/${ALGOLIA_INDEX_NAME}/${record.objectID}`,
-        {
-          method: 'PUT',
-          headers: {
-            'X-Algolia-API-Key': ALGOLIA_ADMIN_KEY,
-            'X-Algolia-Application-Id': ALGOLIA_APP_ID,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(record),
-        }
-      );
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Algolia update failed: ${error}`);
-      }
-
-      const result = await response.json();
+      const result = await upsertAlgoliaRecord(entry);
       console.log(`Synced to Algolia: ${entry.title} (${result.taskID})`);
       
       return NextResponse.json({
         success: true,
         action: 'upsert',
-        objectID: record.objectID,
+        objectID: result.objectID,
         taskID: result.taskID,
       });
 
@@ -140,23 +89,7 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({ error: 'No entry UID found' }, { status: 400 });
       }
 
-      const response = await fetch(
-        `https://${ALGOLIA_APP_ID}-dsn.algolia.net/1/indexes/${ALGOLIA_INDEX_NAME}/${objectID}`,
-        {
-          method: 'DELETE',
-          headers: {
-            'X-Algolia-API-Key': ALGOLIA_ADMIN_KEY,
-            'X-Algolia-Application-Id': ALGOLIA_APP_ID,
-          },
-        }
-      );
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Algolia delete failed: ${error}`);
-      }
-
-      const result = await response.json();
+      const result = await deleteAlgoliaRecord(objectID);
       console.log(`Removed from Algolia: ${objectID} (${result.taskID})`);
       
       return NextResponse.json({
@@ -188,6 +121,6 @@ export async function GET() {
   return NextResponse.json({
     status: 'Algolia sync webhook is active',
     index: ALGOLIA_INDEX_NAME,
-    configured: !!(ALGOLIA_APP_ID && ALGOLIA_ADMIN_KEY),
+    configured: isAlgoliaIndexingConfigured(),
   });
 }
@@ -0,0 +1,33 @@
+/**
+ * Ticket QR Code API Route
+ * Renders a ticket's QR code as PNG (linked from confirmation emails)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { renderTicketQrPng, verifyTicketCode } from '@/lib/registrations';
+
+/**
+ * GET /api/tickets/qr?code=...
+ */
+export async function GET(request: NextRequest) {
+  const code = request.nextUrl.searchParams.get('code') || '';
+
+  // Only render codes we signed, never arbitrary input
+  if (!verifyTicketCode(code).valid) {
+    return NextResponse.json({ error: 'Invalid ticket code' }, { status: 400 });
+  }
+
+  try {
+    const png = await renderTicketQrPng(code);
+
+    return new NextResponse(new Uint8Array(png), {
+      headers: {
+        'Content-Type': 'image/png',
+        'Cache-Control': 'private, max-age=86400',
+      },
+    });
+  } catch (error) {
+    console.error('[Tickets] QR render failed:', error);
+    return NextResponse.json({ error: 'Failed to render ticket' }, { status: 500 });
+  }
+}
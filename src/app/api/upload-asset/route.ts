@@ -4,6 +4,8 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { ManagementApiError, getManagementClient } from '@/lib/contentstack';
+import type { ManagementAsset } from '@/lib/contentstack';
 
 export async function POST(request: NextRequest) {
   try {
@@ -35,11 +37,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const apiKey = process.env.CONTENTSTACK_API_KEY;
-    const managementToken = process.env.CONTENTSTACK_MANAGEMENT_TOKEN;
+    const client = getManagementClient();
     const folderUid = process.env.CONTENTSTACK_ASSETS_FOLDER_UID;
 
-    if (!apiKey || !managementToken) {
+    if (!client) {
       console.error('[UploadAsset] Missing API credentials');
       return NextResponse.json(
         { success: false, error: 'Server configuration error' },
@@ -51,70 +52,37 @@ export async function POST(request: NextRequest) {
     const bytes = await file.arrayBuffer();
     const buffer = Buffer.from(bytes);
 
-    // Create form data for Contentstack
-    const csFormData = new FormData();
-    csFormData.append('asset[upload]', new Blob([buffer], { type: file.type }), file.name);
-    csFormData.append('asset[title]', file.name);
-    csFormData.append('asset[description]', 'Event cover image');
-    
     // Add to specific folder if configured
     if (folderUid) {
-      csFormData.append('asset[parent_uid]', folderUid);
       console.log('[UploadAsset] Uploading to folder:', folderUid);
     }
 
     // Upload to Contentstack
-    const response = await fetch('https://api.contentstack.io/v3/assets', {
-      method: 'POST',
-      headers: {
-        'api_key': apiKey,
-        'authorization': managementToken,
-      },
-      body: csFormData,
-    });
-
-    const result = await response.json();
-
-    if (!response.ok) {
-      console.error('[UploadAsset] Upload failed:', result);
+    let asset: ManagementAsset;
+    try {
+      asset = await client.uploadAsset(new Blob([buffer], { type: file.type }), {
+        filename: file.name,
+        title: file.name,
+        description: 'Event cover image',
+        parentUid: folderUid,
+      });
+    } catch (error) {
+      console.error('[UploadAsset] Upload failed:', error);
       return NextResponse.json(
-        { success: false, error: result.error_message || 'Failed to upload image' },
+        {
+          success: false,
+          error: error instanceof ManagementApiError ? error.message : 'Failed to upload image',
+        },
         { status: 500 }
       );
     }
 
-    console.log('[UploadAsset] Upload successful:', result.asset?.uid);
+    console.log('[UploadAsset] Upload successful:', asset.uid);
 
     // Publish the asset to make it available
-    const assetUid = result.asset.uid;
-    const environment = process.env.CONTENTSTACK_ENVIRONMENT || 'production';
-    
     try {
-      const publishResponse = await fetch(
-        `https://api.contentstack.io/v3/assets/${assetUid}/publish`,
-        {
-          method: 'POST',
-          headers: {
-            'api_key': apiKey,
-            'authorization': managementToken,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            asset: {
-              environments: [environment],
-              locales: ['en-us'],
-            },
-          }),
-        }
-      );
-
-      if (publishResponse.ok) {
-        console.log('[UploadAsset] Asset published successfully');
-      } else {
-        const publishError = await publishResponse.text();
-        console.warn('[UploadAsset] Publish warning:', publishError);
-        // Don't fail - asset is uploaded, just not published
-      }
+      await client.publishAsset(asset.uid);
+      console.log('[UploadAsset] Asset published successfully');
     } catch (publishError) {
       console.warn('[UploadAsset] Publish error:', publishError);
       // Don't fail - asset is uploaded, just not published
@@ -123,10 +91,10 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       asset: {
-        uid: result.asset.uid,
-        url: result.asset.url,
-        filename: result.asset.filename,
-        title: result.asset.title,
+        uid: asset.uid,
+        url: asset.url,
+        filename: asset.filename,
+        title: asset.title,
       },
     });
 
@@ -0,0 +1,118 @@
+'use client';
+
+/**
+ * Cancel Registration Client Component
+ * Confirms and submits a registration cancellation
+ */
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { removeRegistration } from '@/lib/user';
+import styles from './cancel-registration.module.css';
+
+interface RegistrationSummary {
+  registrationId: string;
+  opportunityTitle: string;
+  opportunitySlug: string;
+  name: string;
+  status: 'confirmed' | 'waitlisted' | 'cancelled';
+}
+
+interface Props {
+  token: string;
+  registration?: RegistrationSummary;
+  error?: string;
+}
+
+type CancelStatus = 'idle' | 'submitting' | 'cancelled' | 'error';
+
+export function CancelRegistrationClient({ token, registration, error }: Props) {
+  const [status, setStatus] = useState<CancelStatus>(
+    registration?.status === 'cancelled' ? 'cancelled' : 'idle'
+  );
+  const [message, setMessage] = useState<string | null>(error || null);
+
+  const handleCancel = async () => {
+    setStatus('submitting');
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/cancel-registration', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.message || 'Could not cancel your registration');
+      }
+
+      // Keep "My Registrations" on this device in sync
+      removeRegistration(result.data.registrationId);
+
+      setStatus('cancelled');
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Could not cancel your registration');
+      setStatus('error');
+    }
+  };
+
+  return (
+    <div className={styles.page}>
+      <div className={styles.card}>
+        {!registration ? (
+          <>
+            <h1 className={styles.title}>Unable to Cancel</h1>
+            <p className={styles.text}>{message}</p>
+            <Link href="/opportunities" className={styles.secondaryButton}>
+              Browse Opportunities
+            </Link>
+          </>
+        ) : status === 'cancelled' ? (
+          <>
+            <h1 className={styles.title}>Registration Cancelled</h1>
+            <p className={styles.text}>
+              Your registration for <strong>{registration.opportunityTitle}</strong> has been
+              cancelled and the organizer has been notified. Thank you for letting us know.
+            </p>
+            <Link href="/opportunities" className={styles.secondaryButton}>
+              Find Another Opportunity
+            </Link>
+          </>
+        ) : (
+          <>
+            <h1 className={styles.title}>Cancel Your Registration?</h1>
+            <p className={styles.text}>
+              Hi {registration.name}, you are about to cancel your{' '}
+              {registration.status === 'waitlisted' ? 'waitlist spot' : 'registration'} for{' '}
+              <strong>{registration.opportunityTitle}</strong>. Your spot will be given to
+              someone else.
+            </p>
+
+            {message && (
+              <p className={styles.error} role="alert">{message}</p>
+            )}
+
+            <div className={styles.actions}>
+              <button
+                type="button"
+                onClick={handleCancel}
+                className={styles.dangerButton}
+                disabled={status === 'submitting'}
+              >
+                {status === 'submitting' ? 'Cancelling...' : 'Yes, Cancel Registration'}
+              </button>
+              <Link
+                href={`/opportunities/${registration.opportunitySlug}`}
+                className={styles.secondaryButton}
+              >
+                Keep My Spot
+              </Link>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
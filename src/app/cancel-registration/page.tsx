@@ -0,0 +1,57 @@
+/**
+ * Cancel Registration Page
+ *
+ * Landing page for the signed cancellation link in confirmation emails
+ * Verifies the token and asks the participant to confirm before cancelling
+ */
+
+import type { Metadata } from 'next';
+import { getRegistrationStore, verifyCancellationToken } from '@/lib/registrations';
+import { CancelRegistrationClient } from './CancelRegistrationClient';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Cancel Registration | ImpactConnect',
+  robots: { index: false },
+};
+
+interface PageProps {
+  searchParams: Promise<{
+    token?: string;
+  }>;
+}
+
+export default async function CancelRegistrationPage({ searchParams }: PageProps) {
+  const { token } = await searchParams;
+
+  if (!token) {
+    return <CancelRegistrationClient token="" error="This cancellation link is invalid." />;
+  }
+
+  const verification = verifyCancellationToken(token);
+  if (!verification.valid) {
+    const error = verification.error === 'expired'
+      ? 'This cancellation link has expired. Please contact the organizer directly.'
+      : 'This cancellation link is invalid.';
+    return <CancelRegistrationClient token="" error={error} />;
+  }
+
+  const registration = await getRegistrationStore().getById(verification.payload.sub);
+  if (!registration) {
+    return <CancelRegistrationClient token="" error="We could not find this registration." />;
+  }
+
+  return (
+    <CancelRegistrationClient
+      token={token}
+      registration={{
+        registrationId: registration.registrationId,
+        opportunityTitle: registration.opportunityTitle,
+        opportunitySlug: registration.opportunitySlug,
+        name: registration.name,
+        status: registration.status,
+      }}
+    />
+  );
+}
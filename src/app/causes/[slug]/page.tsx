@@ -8,6 +8,7 @@ import Link from 'next/link';
 import type { Metadata } from 'next';
 import { RevalidationTimes } from '@/lib/config';
 import { getCauseBySlug, getOpportunitiesByCause } from '@/lib/contentstack';
+import { withRemainingSpots } from '@/lib/registrations';
 import { OpportunityCard } from '@/components/opportunities';
 
 // Configure ISR
@@ -46,7 +47,7 @@ export default async function CauseListingPage({ params }: PageProps) {
     if (!cause) {
       notFound();
     }
-    opportunities = await getOpportunitiesByCause(slug, 24);
+    opportunities = await withRemainingSpots(await getOpportunitiesByCause(slug, 24));
   } catch (error) {
     console.error('Error fetching cause data:', error);
     notFound();
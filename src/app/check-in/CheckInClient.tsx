@@ -0,0 +1,280 @@
+'use client';
+
+/**
+ * Check-In Client Component
+ * Scans or accepts typed ticket codes and shows live attendance counts
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { CheckInCounts } from '@/lib/registrations/check-in';
+import styles from './check-in.module.css';
+
+/**
+ * How often counts refresh so several scanners at the door stay in sync
+ */
+const COUNTS_REFRESH_MS = 10000;
+
+/**
+ * Minimal typing for the browser BarcodeDetector API (Chromium, Android)
+ */
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorInstance;
+
+interface CheckInEntry {
+  id: string;
+  tone: 'success' | 'warning' | 'error';
+  title: string;
+  detail?: string;
+}
+
+interface Props {
+  token: string;
+  eventTitle: string;
+  initialCounts: CheckInCounts;
+}
+
+function getBarcodeDetector(): BarcodeDetectorConstructor | null {
+  if (typeof window === 'undefined') return null;
+  return (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector || null;
+}
+
+export function CheckInClient({ token, eventTitle, initialCounts }: Props) {
+  const [counts, setCounts] = useState<CheckInCounts>(initialCounts);
+  const [code, setCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [entries, setEntries] = useState<CheckInEntry[]>([]);
+  const [isScanning, setIsScanning] = useState(false);
+  const [canScan, setCanScan] = useState(false);
+
+  const inputRef = useRef<HTMLInputElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const lastScanRef = useRef<{ value: string; at: number } | null>(null);
+
+  useEffect(() => {
+    setCanScan(!!getBarcodeDetector() && !!navigator.mediaDevices?.getUserMedia);
+  }, []);
+
+  // Keep counts live
+  useEffect(() => {
+    const refresh = async () => {
+      try {
+        const response = await fetch(`/api/check-in?token=${encodeURIComponent(token)}`);
+        const result = await response.json();
+        if (response.ok && result.success) {
+          setCounts(result.data);
+        }
+      } catch {
+        // Try again on the next tick
+      }
+    };
+
+    const interval = setInterval(refresh, COUNTS_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [token]);
+
+  const addEntry = (entry: Omit<CheckInEntry, 'id'>) => {
+    setEntries((prev) => [{ ...entry, id: `${Date.now()}-${Math.random()}` }, ...prev].slice(0, 20));
+  };
+
+  const submitCode = useCallback(
+    async (value: string) => {
+      const trimmed = value.trim();
+      if (!trimmed) return;
+
+      setIsSubmitting(true);
+      try {
+        const response = await fetch('/api/check-in', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token, code: trimmed }),
+        });
+        const result = await response.json();
+
+        if (response.ok && result.success) {
+          const { name, groupName, partySize, alreadyCheckedIn, checkedInAt } = result.data;
+          const who = partySize > 1
+            ? `${name} (${groupName ? `${groupName}, ` : ''}group of ${partySize})`
+            : name;
+
+          setCounts(result.data.counts);
+          addEntry(
+            alreadyCheckedIn
+              ? {
+                  tone: 'warning',
+                  title: `${who} already checked in`,
+                  detail: `at ${new Date(checkedInAt).toLocaleTimeString()}`,
+                }
+              : { tone: 'success', title: `${who} checked in` }
+          );
+        } else {
+          addEntry({ tone: 'error', title: result.message || 'Check-in failed' });
+        }
+      } catch {
+        addEntry({ tone: 'error', title: 'Network error. Please try again.' });
+      } finally {
+        setIsSubmitting(false);
+        setCode('');
+        inputRef.current?.focus();
+      }
+    },
+    [token]
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submitCode(code);
+  };
+
+  const stopScanning = useCallback(() => {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    setIsScanning(false);
+  }, []);
+
+  // Camera scanning loop
+  useEffect(() => {
+    if (!isScanning) return;
+
+    const Detector = getBarcodeDetector();
+    if (!Detector) return;
+
+    const detector = new Detector({ formats: ['qr_code'] });
+    let cancelled = false;
+    let frame: number;
+
+    const start = async () => {
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'environment' },
+        });
+        if (cancelled) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play();
+        }
+      } catch {
+        addEntry({ tone: 'error', title: 'Could not access the camera' });
+        stopScanning();
+        return;
+      }
+
+      const scan = async () => {
+        if (cancelled || !videoRef.current) return;
+        try {
+          const [barcode] = await detector.detect(videoRef.current);
+          const last = lastScanRef.current;
+          // The same code stays in frame for a while - only submit it once
+          if (barcode && (!last || last.value !== barcode.rawValue || Date.now() - last.at > 5000)) {
+            lastScanRef.current = { value: barcode.rawValue, at: Date.now() };
+            await submitCode(barcode.rawValue);
+          }
+        } catch {
+          // Frame not ready yet
+        }
+        frame = requestAnimationFrame(scan);
+      };
+      frame = requestAnimationFrame(scan);
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frame);
+      streamRef.current?.getTracks().forEach((track) => track.stop());
+      streamRef.current = null;
+    };
+  }, [isScanning, submitCode, stopScanning]);
+
+  const percent = counts.registered > 0
+    ? Math.round((counts.checkedIn / counts.registered) * 100)
+    : 0;
+
+  return (
+    <main className={styles.page}>
+      <div className={styles.container}>
+        <header className={styles.header}>
+          <p className={styles.eyebrow}>Check-in mode</p>
+          <h1 className={styles.title}>{eventTitle}</h1>
+        </header>
+
+        {/* Live Counts */}
+        <section className={styles.counts} aria-live="polite">
+          <div className={styles.countValue}>
+            {counts.checkedIn}
+            <span className={styles.countTotal}> / {counts.registered}</span>
+          </div>
+          <p className={styles.countLabel}>checked in</p>
+          <div className={styles.progress}>
+            <div className={styles.progressBar} style={{ width: `${percent}%` }} />
+          </div>
+        </section>
+
+        {/* Code Entry */}
+        <form className={styles.form} onSubmit={handleSubmit}>
+          <label htmlFor="ticket-code" className={styles.label}>
+            Scan a ticket or paste its ticket link
+          </label>
+          <div className={styles.inputRow}>
+            <input
+              ref={inputRef}
+              id="ticket-code"
+              type="text"
+              className={styles.input}
+              placeholder="Ticket link or code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              autoFocus
+              autoComplete="off"
+              disabled={isSubmitting}
+            />
+            <button type="submit" className={styles.primaryButton} disabled={isSubmitting || !code.trim()}>
+              Check In
+            </button>
+          </div>
+        </form>
+
+        {canScan && (
+          <div className={styles.scanner}>
+            {isScanning ? (
+              <>
+                <video ref={videoRef} className={styles.video} muted playsInline />
+                <button type="button" className={styles.secondaryButton} onClick={stopScanning}>
+                  Stop Camera
+                </button>
+              </>
+            ) : (
+              <button type="button" className={styles.secondaryButton} onClick={() => setIsScanning(true)}>
+                Scan with Camera
+              </button>
+            )}
+          </div>
+        )}
+
+        {/* Recent Check-ins */}
+        {entries.length > 0 && (
+          <ul className={styles.entries}>
+            {entries.map((entry) => (
+              <li key={entry.id} className={`${styles.entry} ${styles[entry.tone]}`}>
+                <span className={styles.entryTitle}>{entry.title}</span>
+                {entry.detail && <span className={styles.entryDetail}>{entry.detail}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </main>
+  );
+}
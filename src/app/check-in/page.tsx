@@ -0,0 +1,59 @@
+/**
+ * Check-In Page
+ *
+ * Organizer check-in mode for one event
+ * Only reachable with the signed, organizer-scoped link from My Events
+ */
+
+import type { Metadata } from 'next';
+import { getOpportunityById } from '@/lib/contentstack';
+import { getCheckInCounts, verifyCheckInToken } from '@/lib/registrations';
+import { CheckInClient } from './CheckInClient';
+import styles from './check-in.module.css';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Check-In | ImpactConnect',
+  robots: { index: false },
+};
+
+interface PageProps {
+  searchParams: Promise<{
+    token?: string;
+  }>;
+}
+
+export default async function CheckInPage({ searchParams }: PageProps) {
+  const { token } = await searchParams;
+
+  const verification = verifyCheckInToken(token || '');
+  if (!token || !verification.valid) {
+    return (
+      <main className={styles.page}>
+        <div className={styles.container}>
+          <h1 className={styles.title}>Check-in unavailable</h1>
+          <p className={styles.pageError}>
+            {verification.valid === false && verification.error === 'expired'
+              ? 'This check-in link has expired. Open check-in mode again from My Events.'
+              : 'This check-in link is invalid. Open check-in mode from My Events.'}
+          </p>
+        </div>
+      </main>
+    );
+  }
+
+  const opportunityId = verification.payload.sub;
+  const [opportunity, counts] = await Promise.all([
+    getOpportunityById(opportunityId).catch(() => null),
+    getCheckInCounts(opportunityId),
+  ]);
+
+  return (
+    <CheckInClient
+      token={token}
+      eventTitle={opportunity?.title || 'Event check-in'}
+      initialCounts={counts}
+    />
+  );
+}
@@ -1,6 +1,8 @@
 /**
  * Create Event Page
  * Allows users to submit events for admin review
+ * ?draft=<id> resumes an autosaved draft
+ * ?revise=<token> reopens a submission a moderator sent back with comments
  * Content fetched from Contentstack (with fallback defaults)
  */
 
@@ -13,13 +15,25 @@ export const metadata: Metadata = {
   description: 'Submit your event for review. Once approved, it will be visible to the community.',
 };
 
-export default async function CreateEventPage() {
+interface PageProps {
+  searchParams: Promise<{
+    draft?: string;
+    revise?: string;
+  }>;
+}
+
+export default async function CreateEventPage({ searchParams }: PageProps) {
+  const { draft, revise } = await searchParams;
   const content = await getCreateEventPageContent();
   
   return (
     <main style={{ minHeight: '100vh', display: 'flex', flexDirection: 'column' }}>
       <div style={{ flex: 1 }}>
-        <CreateEventForm content={content} />
+        {revise ? (
+          <CreateEventForm key="revise" content={content} reviseToken={revise} />
+        ) : (
+          <CreateEventForm key={draft || 'new'} content={content} draftId={draft} />
+        )}
       </div>
     </main>
   );
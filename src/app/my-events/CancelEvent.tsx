@@ -0,0 +1,84 @@
+'use client';
+
+/**
+ * Cancel Event Component
+ * Cancels the event with a reason; every registrant is emailed the reason
+ */
+
+import { useState } from 'react';
+import styles from './my-events.module.css';
+
+interface Props {
+  opportunityId: string;
+  eventTitle: string;
+  /** Called with the reason once the event is cancelled */
+  onCancelled: (reason: string) => void;
+}
+
+export function CancelEvent({ opportunityId, eventTitle, onCancelled }: Props) {
+  const [reason, setReason] = useState('');
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!confirm(`Cancel "${eventTitle}"? Everyone registered will be emailed. This cannot be undone.`)) {
+      return;
+    }
+
+    setIsCancelling(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/my-events/cancel', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ opportunityId, reason }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to cancel event');
+      }
+
+      onCancelled(reason.trim());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel event');
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  return (
+    <section className={`${styles.dashboardSection} ${styles.dangerSection}`}>
+      <h2 className={styles.sectionTitle}>Cancel Event</h2>
+      <p className={styles.sectionDescription}>
+        The event page will show it as cancelled with your reason, and every registrant
+        (including the waitlist) will be notified by email.
+      </p>
+
+      <form onSubmit={handleSubmit} className={styles.messageForm}>
+        <label className={styles.messageLabel}>
+          Reason
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            className={`${styles.emailInput} ${styles.messageTextarea}`}
+            maxLength={1000}
+            rows={3}
+            required
+          />
+        </label>
+
+        {error && <p className={styles.loginError}>{error}</p>}
+
+        <button
+          type="submit"
+          className={`${styles.emailButton} ${styles.dangerButton}`}
+          disabled={isCancelling || !reason.trim()}
+        >
+          {isCancelling ? 'Cancelling...' : 'Cancel Event'}
+        </button>
+      </form>
+    </section>
+  );
+}
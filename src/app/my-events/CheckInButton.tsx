@@ -0,0 +1,59 @@
+'use client';
+
+/**
+ * Check-In Button Component
+ * Opens organizer check-in mode for an event in a new tab
+ */
+
+import { useState } from 'react';
+import styles from './my-events.module.css';
+
+interface Props {
+  opportunityId: string;
+}
+
+export function CheckInButton({ opportunityId }: Props) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClick = async () => {
+    // Open the tab synchronously so popup blockers allow it
+    const tab = window.open('', '_blank');
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ opportunityId });
+      const response = await fetch(`/api/my-events/check-in-link?${params.toString()}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to open check-in mode');
+      }
+
+      if (tab) {
+        tab.location.href = data.url;
+      } else {
+        window.location.href = data.url;
+      }
+    } catch (err) {
+      tab?.close();
+      setError(err instanceof Error ? err.message : 'Failed to open check-in mode');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={handleClick}
+        className={styles.registrantsToggle}
+        disabled={isLoading}
+      >
+        {isLoading ? 'Opening...' : 'Check-in Mode'}
+      </button>
+      {error && <p className={styles.registrantsNote}>{error}</p>}
+    </>
+  );
+}
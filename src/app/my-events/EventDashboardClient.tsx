@@ -0,0 +1,273 @@
+'use client';
+
+/**
+ * Event Dashboard Client Component
+ * Per-event organizer view: capacity usage, registration trend, registrants and actions
+ */
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { formatDisplayDate } from '@/lib/utils';
+import type { MyEventsPageContent } from '@/lib/contentstack';
+import { CancelEvent } from './CancelEvent';
+import { CheckInButton } from './CheckInButton';
+import { EventHours } from './EventHours';
+import { EventRegistrants, type Registrant } from './EventRegistrants';
+import { MessageRegistrants } from './MessageRegistrants';
+import { RegistrationTrend, type TimelinePoint } from './RegistrationTrend';
+import { ShiftCoverage, type ShiftCoverageRow } from './ShiftCoverage';
+import styles from './my-events.module.css';
+
+interface DashboardData {
+  event: {
+    uid: string;
+    title: string;
+    slug: string;
+    startDate: string;
+    endDate: string | null;
+    city: string | null;
+    isVirtual: boolean;
+    status: string;
+    cancellationReason: string | null;
+  };
+  stats: {
+    capacity: number | null;
+    confirmed: number;
+    waitlisted: number;
+    checkedIn: number;
+    cancelled: number;
+    spotsRemaining: number | null;
+    registrations: number;
+  };
+  timeline: TimelinePoint[];
+  shifts: ShiftCoverageRow[];
+}
+
+interface Props {
+  content: MyEventsPageContent;
+  opportunityId: string;
+}
+
+export function EventDashboardClient({ content, opportunityId }: Props) {
+  const [data, setData] = useState<DashboardData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [signedOut, setSignedOut] = useState(false);
+  const [messageRecipient, setMessageRecipient] = useState<Registrant | null>(null);
+
+  const fetchDashboard = async () => {
+    try {
+      const params = new URLSearchParams({ opportunityId });
+      const response = await fetch(`/api/my-events/stats?${params.toString()}`);
+      const body = await response.json();
+      if (response.status === 401) {
+        setSignedOut(true);
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to load event');
+      }
+      setData(body);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load event');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchDashboard();
+  }, [opportunityId]);
+
+  const handleMessage = (registrant: Registrant) => {
+    setMessageRecipient(registrant);
+    document.getElementById('message-registrants')?.scrollIntoView({ behavior: 'smooth' });
+  };
+
+  // The delivery API can lag behind the update, so mark it cancelled locally
+  const handleCancelled = (reason: string) => {
+    setData((current) => current && {
+      ...current,
+      event: { ...current.event, status: 'cancelled', cancellationReason: reason },
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className={styles.page}>
+        <div className={styles.container}>
+          <div className={styles.loading}>Loading event...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (signedOut || error || !data) {
+    return (
+      <div className={styles.page}>
+        <div className={styles.container}>
+          <div className={styles.emptyState}>
+            <h1 className={styles.emptyTitle}>
+              {signedOut ? 'Sign in required' : 'Event unavailable'}
+            </h1>
+            <p className={styles.emptyText}>
+              {signedOut
+                ? 'Sign in with your organizer email to manage this event.'
+                : error || 'This event could not be loaded.'}
+            </p>
+            <Link href="/my-events" className={styles.createEventButton}>
+              {signedOut ? 'Sign In' : 'Back to My Events'}
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const { event, stats, timeline, shifts } = data;
+  const isCancelled = event.status === 'cancelled';
+  // With shifts, spots left are counted per shift and summed
+  const spotsRemaining = shifts.length > 0
+    ? (shifts.some((shift) => shift.spotsRemaining === null)
+      ? null
+      : shifts.reduce((total, shift) => total + (shift.spotsRemaining || 0), 0))
+    : stats.spotsRemaining;
+  const usage = stats.capacity ? Math.min(100, Math.round((stats.confirmed / stats.capacity) * 100)) : null;
+
+  return (
+    <div className={styles.page}>
+      <div className={styles.container}>
+        <Link href="/my-events" className={styles.backLink}>
+          ← {content.page_title}
+        </Link>
+
+        <header className={styles.header}>
+          <div className={styles.headerContent}>
+            <h1 className={styles.title}>
+              {event.title}
+              {isCancelled && (
+                <span className={`${styles.statusBadge} ${styles.cancelled}`}>Cancelled</span>
+              )}
+            </h1>
+            <p className={styles.subtitle}>
+              {formatDisplayDate(event.startDate)}
+              {event.endDate && event.endDate !== event.startDate && ` – ${formatDisplayDate(event.endDate)}`}
+              {' · '}
+              {event.isVirtual ? 'Virtual' : event.city || 'Location TBD'}
+            </p>
+          </div>
+          <div className={styles.headerActions}>
+            {event.status !== 'completed' && !isCancelled && (
+              <Link href={`/my-events/${event.uid}/edit`} className={styles.viewButton}>
+                Edit Event
+              </Link>
+            )}
+            <Link href={`/opportunities/${event.slug}`} className={styles.viewButton}>
+              View Event
+            </Link>
+            <CheckInButton opportunityId={event.uid} />
+          </div>
+        </header>
+
+        <div className={styles.eventSections}>
+          {isCancelled && (
+            <p className={styles.cancelledNote}>
+              This event was cancelled{event.cancellationReason ? `: ${event.cancellationReason}` : '.'}
+              {' '}Registrants have been notified by email.
+            </p>
+          )}
+
+          {/* Capacity, waitlist and attendance */}
+          <section className={styles.statGrid} aria-label="Registration summary">
+            <div className={styles.statCard}>
+              <p className={styles.statValue}>
+                {stats.confirmed}
+                {stats.capacity !== null && <span className={styles.statOf}> / {stats.capacity}</span>}
+              </p>
+              <p className={styles.statLabel}>Confirmed</p>
+              {usage !== null && (
+                <div
+                  className={styles.capacityBar}
+                  role="progressbar"
+                  aria-valuenow={usage}
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-label="Capacity used"
+                >
+                  <div className={styles.capacityFill} style={{ width: `${usage}%` }} />
+                </div>
+              )}
+            </div>
+            <div className={styles.statCard}>
+              <p className={styles.statValue}>
+                {spotsRemaining !== null ? spotsRemaining : '∞'}
+              </p>
+              <p className={styles.statLabel}>{shifts.length > 0 ? 'Shift spots left' : 'Spots left'}</p>
+            </div>
+            <div className={styles.statCard}>
+              <p className={styles.statValue}>{stats.waitlisted}</p>
+              <p className={styles.statLabel}>On waitlist</p>
+            </div>
+            <div className={styles.statCard}>
+              <p className={styles.statValue}>
+                {stats.checkedIn}
+                <span className={styles.statOf}> / {stats.confirmed}</span>
+              </p>
+              <p className={styles.statLabel}>Checked in</p>
+            </div>
+          </section>
+
+          {shifts.length > 0 && (
+            <section className={styles.dashboardSection}>
+              <h2 className={styles.sectionTitle}>Shift coverage</h2>
+              <ShiftCoverage shifts={shifts} />
+            </section>
+          )}
+
+          <section className={styles.dashboardSection}>
+            <h2 className={styles.sectionTitle}>Registrations over time</h2>
+            <RegistrationTrend timeline={timeline} capacity={stats.capacity} />
+            {stats.cancelled > 0 && (
+              <p className={styles.registrantsNote}>{stats.cancelled} cancelled so far.</p>
+            )}
+          </section>
+
+          <section className={styles.dashboardSection}>
+            <h2 className={styles.sectionTitle}>{content.registrants_title || 'Registrants'}</h2>
+            <EventRegistrants
+              opportunityId={event.uid}
+              defaultOpen
+              emptyMessage={content.registrants_empty_message}
+              onMessage={handleMessage}
+              onRemoved={fetchDashboard}
+            />
+          </section>
+
+          <MessageRegistrants
+            opportunityId={event.uid}
+            title={content.message_title || 'Message Registrants'}
+            description={content.message_description}
+            recipient={messageRecipient}
+            onClearRecipient={() => setMessageRecipient(null)}
+          />
+
+          {event.status === 'completed' && (
+            <section className={styles.dashboardSection}>
+              <h2 className={styles.sectionTitle}>Volunteer Hours</h2>
+              <EventHours opportunityId={event.uid} />
+            </section>
+          )}
+
+          {event.status !== 'completed' && !isCancelled && (
+            <CancelEvent
+              opportunityId={event.uid}
+              eventTitle={event.title}
+              onCancelled={handleCancelled}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
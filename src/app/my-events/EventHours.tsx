@@ -0,0 +1,193 @@
+'use client';
+
+/**
+ * Event Hours Component
+ * Review and override volunteer hours credited for a completed event
+ */
+
+import { useState } from 'react';
+import styles from './my-events.module.css';
+
+interface HoursEntry {
+  entryId: string;
+  registrationId: string;
+  volunteerName: string;
+  email: string;
+  hours: number;
+  overrideHours: number | null;
+}
+
+interface HoursSummary {
+  calculatedHours: number | null;
+  eventOverride: number | null;
+  totalHours: number;
+  entries: HoursEntry[];
+}
+
+interface Props {
+  opportunityId: string;
+}
+
+export function EventHours({ opportunityId }: Props) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [summary, setSummary] = useState<HoursSummary | null>(null);
+  const [eventHours, setEventHours] = useState('');
+  const [personalHours, setPersonalHours] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const applySummary = (data: HoursSummary) => {
+    setSummary(data);
+    setEventHours(data.eventOverride !== null ? String(data.eventOverride) : '');
+    setPersonalHours({});
+  };
+
+  const fetchHours = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ opportunityId });
+      const response = await fetch(`/api/my-events/hours?${params.toString()}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load hours');
+      }
+      applySummary(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load hours');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const saveOverride = async (hours: string, registrationId?: string) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/my-events/hours', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          opportunityId,
+          registrationId,
+          hours: hours.trim() === '' ? null : Number(hours),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save hours');
+      }
+      applySummary(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save hours');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = () => {
+    const next = !isOpen;
+    setIsOpen(next);
+    if (next && summary === null) {
+      fetchHours();
+    }
+  };
+
+  return (
+    <div className={styles.registrants}>
+      <button
+        type="button"
+        onClick={handleToggle}
+        className={styles.registrantsToggle}
+        aria-expanded={isOpen}
+      >
+        {isOpen ? 'Hide Volunteer Hours' : 'Volunteer Hours'}
+      </button>
+
+      {isOpen && (
+        <div className={styles.registrantsPanel}>
+          {isLoading && <p className={styles.registrantsNote}>Loading hours...</p>}
+          {error && <p className={styles.registrantsNote}>{error}</p>}
+
+          {summary && !isLoading && (
+            <>
+              <p className={styles.registrantsSummary}>
+                {summary.entries.length} volunteers credited · {summary.totalHours} hours total
+              </p>
+
+              <form
+                className={styles.hoursForm}
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  saveOverride(eventHours);
+                }}
+              >
+                <label htmlFor={`event-hours-${opportunityId}`} className={styles.registrantsNote}>
+                  Hours per volunteer
+                  {summary.calculatedHours !== null
+                    ? ` (schedule: ${summary.calculatedHours})`
+                    : ' (no start/end time set)'}
+                </label>
+                <input
+                  id={`event-hours-${opportunityId}`}
+                  type="number"
+                  min="0"
+                  step="0.25"
+                  className={styles.hoursInput}
+                  placeholder={summary.calculatedHours !== null ? String(summary.calculatedHours) : '0'}
+                  value={eventHours}
+                  onChange={(e) => setEventHours(e.target.value)}
+                />
+                <button type="submit" className={styles.registrantsToggle} disabled={isSaving}>
+                  Save
+                </button>
+              </form>
+
+              {summary.entries.length === 0 ? (
+                <p className={styles.registrantsNote}>
+                  No hours credited yet. Hours are credited to checked-in volunteers once the
+                  event is marked completed.
+                </p>
+              ) : (
+                <ul className={styles.registrantList}>
+                  {summary.entries.map((entry) => (
+                    <li key={entry.entryId} className={styles.registrantRow}>
+                      <div className={styles.registrantInfo}>
+                        <span className={styles.registrantName}>{entry.volunteerName}</span>
+                        <span className={styles.registrantEmail}>{entry.email}</span>
+                      </div>
+                      <form
+                        className={styles.hoursForm}
+                        onSubmit={(e) => {
+                          e.preventDefault();
+                          saveOverride(personalHours[entry.entryId] ?? '', entry.registrationId);
+                        }}
+                      >
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.25"
+                          className={styles.hoursInput}
+                          aria-label={`Hours for ${entry.volunteerName}`}
+                          value={personalHours[entry.entryId] ?? (entry.overrideHours !== null ? String(entry.overrideHours) : '')}
+                          placeholder={String(entry.hours)}
+                          onChange={(e) =>
+                            setPersonalHours((prev) => ({ ...prev, [entry.entryId]: e.target.value }))
+                          }
+                        />
+                        <button type="submit" className={styles.registrantsToggle} disabled={isSaving}>
+                          Save
+                        </button>
+                      </form>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
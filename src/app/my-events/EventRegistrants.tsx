@@ -0,0 +1,257 @@
+'use client';
+
+/**
+ * Event Registrants Component
+ * Expandable list of confirmed and waitlisted registrants for an event, with CSV/JSON export
+ * On the event dashboard it also offers per-registrant message and remove actions
+ */
+
+import { useEffect, useState } from 'react';
+import type { GroupMember } from '@/types';
+import { formatDisplayDate } from '@/lib/utils';
+import styles from './my-events.module.css';
+
+export interface Registrant {
+  registrationId: string;
+  name: string;
+  email: string;
+  status: 'confirmed' | 'waitlisted';
+  waitlistPosition: number | null;
+  registeredAt: string;
+  answers: Array<{ questionId: string; question: string; answer: string }>;
+  partySize: number;
+  groupName: string | null;
+  members: GroupMember[];
+  checkedInAt: string | null;
+  shifts: string[];
+  /** Session of a recurring event; null for the whole series */
+  occurrenceDate: string | null;
+}
+
+interface Props {
+  opportunityId: string;
+  /** Start expanded (event dashboard) */
+  defaultOpen?: boolean;
+  emptyMessage?: string;
+  /** Enables per-registrant "Message" buttons */
+  onMessage?: (registrant: Registrant) => void;
+  /** Called after a registrant is removed (enables "Remove" buttons) */
+  onRemoved?: () => void;
+}
+
+export function EventRegistrants({
+  opportunityId,
+  defaultOpen = false,
+  emptyMessage,
+  onMessage,
+  onRemoved,
+}: Props) {
+  const [isOpen, setIsOpen] = useState(defaultOpen);
+  const [isLoading, setIsLoading] = useState(false);
+  const [registrants, setRegistrants] = useState<Registrant[] | null>(null);
+  const [capacity, setCapacity] = useState<number | null>(null);
+  const [recurring, setRecurring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const fetchRegistrants = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ opportunityId });
+      const response = await fetch(`/api/my-events/registrants?${params.toString()}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load registrants');
+      }
+      setRegistrants(data.registrants || []);
+      setCapacity(data.capacity);
+      setRecurring(Boolean(data.recurring));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load registrants');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (defaultOpen) fetchRegistrants();
+  }, [opportunityId, defaultOpen]);
+
+  const handleRemove = async (registrant: Registrant) => {
+    const label = registrant.partySize > 1
+      ? `${registrant.name} and their group of ${registrant.partySize}`
+      : registrant.name;
+    if (!window.confirm(`Remove ${label} from this event? They will be notified by email.`)) {
+      return;
+    }
+    const reason = window.prompt('Optional: reason to include in the email', '');
+    if (reason === null) return;
+
+    setRemovingId(registrant.registrationId);
+    setError(null);
+    try {
+      const response = await fetch('/api/my-events/registrants/remove', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          opportunityId,
+          registrationId: registrant.registrationId,
+          reason: reason.trim() || undefined,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to remove registrant');
+      }
+      await fetchRegistrants();
+      onRemoved?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove registrant');
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  const handleToggle = () => {
+    const next = !isOpen;
+    setIsOpen(next);
+    if (next && registrants === null) {
+      fetchRegistrants();
+    }
+  };
+
+  const confirmed = registrants?.filter((r) => r.status === 'confirmed') || [];
+  const waitlisted = registrants?.filter((r) => r.status === 'waitlisted') || [];
+  const countParticipants = (list: Registrant[]) =>
+    list.reduce((total, r) => total + (r.partySize || 1), 0);
+  const exportUrl = (format: 'csv' | 'json') =>
+    `/api/my-events/registrants/export?${new URLSearchParams({ opportunityId, format }).toString()}`;
+
+  return (
+    <div className={styles.registrants}>
+      <div className={styles.registrantsActions}>
+        <button
+          type="button"
+          onClick={handleToggle}
+          className={styles.registrantsToggle}
+          aria-expanded={isOpen}
+        >
+          {isOpen ? 'Hide Registrants' : 'View Registrants'}
+        </button>
+        <a href={exportUrl('csv')} className={styles.registrantsToggle} download>
+          Export CSV
+        </a>
+        <a href={exportUrl('json')} className={styles.registrantsToggle} download>
+          Export JSON
+        </a>
+      </div>
+
+      {isOpen && (
+        <div className={styles.registrantsPanel}>
+          {isLoading && <p className={styles.registrantsNote}>Loading registrants...</p>}
+          {error && <p className={styles.registrantsNote}>{error}</p>}
+
+          {registrants && !isLoading && (
+            <>
+              <p className={styles.registrantsSummary}>
+                {countParticipants(confirmed)}
+                {capacity !== null ? ` / ${capacity}` : ''} confirmed
+                {waitlisted.length > 0 && ` · ${countParticipants(waitlisted)} on waitlist`}
+              </p>
+
+              {registrants.length === 0 ? (
+                <p className={styles.registrantsNote}>{emptyMessage || 'No registrations yet.'}</p>
+              ) : (
+                <ul className={styles.registrantList}>
+                  {[...confirmed, ...waitlisted].map((registrant) => (
+                    <li key={registrant.registrationId} className={styles.registrantRow}>
+                      <div className={styles.registrantInfo}>
+                        <span className={styles.registrantName}>
+                          {registrant.name}
+                          {registrant.partySize > 1 &&
+                            ` · ${registrant.groupName || 'Group'} of ${registrant.partySize}`}
+                        </span>
+                        <span className={styles.registrantEmail}>{registrant.email}</span>
+                        {registrant.shifts?.length > 0 && (
+                          <span className={styles.registrantEmail}>
+                            Shifts: {registrant.shifts.join(', ')}
+                          </span>
+                        )}
+                        {recurring && (
+                          <span className={styles.registrantEmail}>
+                            Session:{' '}
+                            {registrant.occurrenceDate
+                              ? formatDisplayDate(registrant.occurrenceDate)
+                              : 'All sessions'}
+                          </span>
+                        )}
+                        {registrant.members?.length > 0 && (
+                          <ul className={styles.registrantMembers}>
+                            {registrant.members.map((member, index) => (
+                              <li key={index}>
+                                {member.name}
+                                {member.email && ` (${member.email})`}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                        {registrant.answers?.some((a) => a.answer) && (
+                          <dl className={styles.registrantAnswers}>
+                            {registrant.answers
+                              .filter((a) => a.answer)
+                              .map((a) => (
+                                <div key={a.questionId}>
+                                  <dt>{a.question}</dt>
+                                  <dd>{a.answer}</dd>
+                                </div>
+                              ))}
+                          </dl>
+                        )}
+                      </div>
+                      <span className={styles.registrantDate}>
+                        {formatDisplayDate(registrant.registeredAt)}
+                      </span>
+                      {registrant.status === 'waitlisted' ? (
+                        <span className={`${styles.statusBadge} ${styles.pending}`}>
+                          Waitlist #{registrant.waitlistPosition}
+                        </span>
+                      ) : (
+                        <span className={`${styles.statusBadge} ${styles.published}`}>
+                          {registrant.checkedInAt ? 'Checked In' : 'Confirmed'}
+                        </span>
+                      )}
+                      {(onMessage || onRemoved) && (
+                        <div className={styles.registrantRowActions}>
+                          {onMessage && (
+                            <button
+                              type="button"
+                              onClick={() => onMessage(registrant)}
+                              className={styles.registrantsToggle}
+                            >
+                              Message
+                            </button>
+                          )}
+                          {onRemoved && (
+                            <button
+                              type="button"
+                              onClick={() => handleRemove(registrant)}
+                              className={`${styles.registrantsToggle} ${styles.dangerButton}`}
+                              disabled={removingId === registrant.registrationId}
+                            >
+                              {removingId === registrant.registrationId ? 'Removing...' : 'Remove'}
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
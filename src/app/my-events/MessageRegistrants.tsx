@@ -0,0 +1,141 @@
+'use client';
+
+/**
+ * Message Registrants Component
+ * Emails an update to a group of registrants, or one selected registrant
+ */
+
+import { useState } from 'react';
+import styles from './my-events.module.css';
+
+type Audience = 'all' | 'confirmed' | 'waitlisted' | 'checked_in' | 'not_checked_in';
+
+const AUDIENCE_LABELS: Record<Audience, string> = {
+  all: 'Everyone registered',
+  confirmed: 'Confirmed participants',
+  waitlisted: 'Waitlist',
+  checked_in: 'Checked-in participants',
+  not_checked_in: 'Confirmed, not checked in',
+};
+
+interface Props {
+  opportunityId: string;
+  title: string;
+  description?: string;
+  /** Single registrant picked from the list (overrides the audience) */
+  recipient: { registrationId: string; name: string } | null;
+  onClearRecipient: () => void;
+}
+
+export function MessageRegistrants({
+  opportunityId,
+  title,
+  description,
+  recipient,
+  onClearRecipient,
+}: Props) {
+  const [audience, setAudience] = useState<Audience>('all');
+  const [subject, setSubject] = useState('');
+  const [message, setMessage] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [result, setResult] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const response = await fetch('/api/my-events/messages', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          opportunityId,
+          subject,
+          message,
+          ...(recipient ? { registrationIds: [recipient.registrationId] } : { audience }),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send message');
+      }
+
+      setResult(
+        `Sent to ${data.sent} ${data.sent === 1 ? 'person' : 'people'}` +
+        (data.failed ? ` (${data.failed} failed)` : '')
+      );
+      setSubject('');
+      setMessage('');
+      onClearRecipient();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send message');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <section className={styles.dashboardSection} id="message-registrants">
+      <h2 className={styles.sectionTitle}>{title}</h2>
+      {description && <p className={styles.sectionDescription}>{description}</p>}
+
+      <form onSubmit={handleSubmit} className={styles.messageForm}>
+        {recipient ? (
+          <p className={styles.messageRecipient}>
+            To: <strong>{recipient.name}</strong>
+            <button type="button" onClick={onClearRecipient} className={styles.registrantsToggle}>
+              Message a group instead
+            </button>
+          </p>
+        ) : (
+          <label className={styles.messageLabel}>
+            To
+            <select
+              value={audience}
+              onChange={(e) => setAudience(e.target.value as Audience)}
+              className={styles.emailInput}
+            >
+              {(Object.keys(AUDIENCE_LABELS) as Audience[]).map((key) => (
+                <option key={key} value={key}>{AUDIENCE_LABELS[key]}</option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        <label className={styles.messageLabel}>
+          Subject
+          <input
+            type="text"
+            value={subject}
+            onChange={(e) => setSubject(e.target.value)}
+            className={styles.emailInput}
+            maxLength={150}
+            required
+          />
+        </label>
+
+        <label className={styles.messageLabel}>
+          Message
+          <textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            className={`${styles.emailInput} ${styles.messageTextarea}`}
+            maxLength={5000}
+            rows={5}
+            required
+          />
+        </label>
+
+        {error && <p className={styles.loginError}>{error}</p>}
+        {result && <p className={styles.loginMessage}>{result}</p>}
+
+        <button type="submit" className={styles.emailButton} disabled={isSending}>
+          {isSending ? 'Sending...' : 'Send Message'}
+        </button>
+      </form>
+    </section>
+  );
+}
@@ -3,11 +3,20 @@
 /**
  * My Events Client Component
  * Handles localStorage and API data, renders the page
+ * Published events require a magic-link session; pending events come from this device
+ * Drafts come from this device, plus the organizer's account when signed in
  */
 
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
-import { getCreatedEvents, getUserEmail, type CreatedEvent } from '@/lib/user';
+import {
+  getCreatedEvents,
+  getEventDrafts,
+  getUserEmail,
+  removeEventDraft,
+  type CreatedEvent,
+  type EventDraft,
+} from '@/lib/user';
 import { formatDisplayDate } from '@/lib/utils';
 import type { MyEventsPageContent } from '@/lib/contentstack';
 import styles from './my-events.module.css';
@@ -17,46 +26,101 @@ interface PublishedEvent {
   title: string;
   slug: string;
   startDate: string;
+  endDate: string | null;
   city: string;
   status: string;
+  stats: {
+    capacity: number | null;
+    confirmed: number;
+    waitlisted: number;
+    checkedIn: number;
+  } | null;
 }
 
 interface Props {
   content: MyEventsPageContent;
 }
 
+/**
+ * Combine device and account drafts, keeping the newer copy of each
+ */
+function mergeDrafts(local: EventDraft[], remote: EventDraft[]): EventDraft[] {
+  const byId = new Map<string, EventDraft>();
+  for (const draft of [...local, ...remote]) {
+    const existing = byId.get(draft.id);
+    if (!existing || draft.updatedAt > existing.updatedAt) {
+      byId.set(draft.id, draft);
+    }
+  }
+  return Array.from(byId.values()).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Messages for failed sign-in links (?login=<error>)
+ */
+const LOGIN_ERRORS: Record<string, string> = {
+  expired: 'That sign-in link has expired. Request a new one below.',
+  used: 'That sign-in link has already been used. Request a new one below.',
+  invalid: 'That sign-in link is invalid. Request a new one below.',
+  error: 'Something went wrong signing you in. Please try again.',
+};
+
 export function MyEventsClient({ content }: Props) {
   const [pendingEvents, setPendingEvents] = useState<CreatedEvent[]>([]);
   const [publishedEvents, setPublishedEvents] = useState<PublishedEvent[]>([]);
+  const [drafts, setDrafts] = useState<EventDraft[]>([]);
   const [userEmail, setUserEmail] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [emailInput, setEmailInput] = useState('');
   const [showEmailInput, setShowEmailInput] = useState(false);
+  const [loginMessage, setLoginMessage] = useState<string | null>(null);
+  const [loginError, setLoginError] = useState<string | null>(null);
+  const [isSendingLink, setIsSendingLink] = useState(false);
 
-  // Fetch events on mount
+  // Resolve the signed-in organizer, then fetch their events
   useEffect(() => {
-    const email = getUserEmail();
+    const error = new URLSearchParams(window.location.search).get('login');
+    if (error) {
+      setLoginError(LOGIN_ERRORS[error] || LOGIN_ERRORS.error);
+    }
+
+    setEmailInput(getUserEmail() || '');
+    loadSession();
+  }, []);
+
+  const loadSession = async () => {
+    let email: string | null = null;
+    try {
+      const response = await fetch('/api/auth/session');
+      const session = await response.json();
+      email = session.authenticated ? session.email : null;
+    } catch (error) {
+      console.error('Failed to load session:', error);
+    }
+
     setUserEmail(email);
-    
+
     // Get pending events from localStorage
     const localEvents = getCreatedEvents();
-    const userLocalEvents = email 
+    const userLocalEvents = email
       ? localEvents.filter(e => e.organizerEmail.toLowerCase() === email.toLowerCase())
       : localEvents;
     setPendingEvents(userLocalEvents);
-    
-    // Fetch published events from Contentstack if we have an email
+    setDrafts(getEventDrafts());
+
+    // Published events and account drafts are only available to a signed-in organizer
     if (email) {
-      fetchPublishedEvents(email);
+      fetchDrafts();
+      fetchPublishedEvents();
     } else {
       setIsLoading(false);
       setShowEmailInput(true);
     }
-  }, []);
+  };
 
-  const fetchPublishedEvents = async (email: string) => {
+  const fetchPublishedEvents = async () => {
     try {
-      const response = await fetch(`/api/my-events?email=${encodeURIComponent(email)}`);
+      const response = await fetch('/api/my-events');
       if (response.ok) {
         const data = await response.json();
         setPublishedEvents(data.events || []);
@@ -68,13 +132,60 @@ export function MyEventsClient({ content }: Props) {
     }
   };
 
-  const handleEmailSubmit = (e: React.FormEvent) => {
+  const fetchDrafts = async () => {
+    try {
+      const response = await fetch('/api/my-events/drafts');
+      if (response.ok) {
+        const data = await response.json();
+        const remote: EventDraft[] = (data.drafts || []).map(
+          (d: { draftId: string; title: string; fields: Record<string, unknown>; updatedAt: string }) => ({
+            id: d.draftId,
+            title: d.title,
+            fields: d.fields,
+            updatedAt: d.updatedAt,
+          })
+        );
+        setDrafts((prev) => mergeDrafts(prev, remote));
+      }
+    } catch (error) {
+      console.error('Failed to fetch drafts:', error);
+    }
+  };
+
+  const handleEmailSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (emailInput.trim()) {
-      setUserEmail(emailInput.trim());
-      setShowEmailInput(false);
-      setIsLoading(true);
-      fetchPublishedEvents(emailInput.trim());
+    if (!emailInput.trim()) return;
+
+    setIsSendingLink(true);
+    setLoginError(null);
+    setLoginMessage(null);
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: emailInput.trim(), redirect: '/my-events' }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send sign-in link');
+      }
+      setLoginMessage(data.message);
+    } catch (err) {
+      setLoginError(err instanceof Error ? err.message : 'Failed to send sign-in link');
+    } finally {
+      setIsSendingLink(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } finally {
+      setUserEmail(null);
+      setPublishedEvents([]);
+      setPendingEvents(getCreatedEvents());
+      setDrafts(getEventDrafts());
+      setShowEmailInput(true);
     }
   };
 
@@ -88,6 +199,25 @@ export function MyEventsClient({ content }: Props) {
     setPendingEvents(prev => prev.filter(e => e.id !== eventId));
   };
 
+  const handleDeleteDraft = async (draft: EventDraft) => {
+    if (!window.confirm(`Delete the draft "${draft.title || 'Untitled event'}"? This cannot be undone.`)) {
+      return;
+    }
+
+    removeEventDraft(draft.id);
+    setDrafts(prev => prev.filter(d => d.id !== draft.id));
+
+    if (userEmail) {
+      try {
+        await fetch(`/api/my-events/drafts?${new URLSearchParams({ draftId: draft.id }).toString()}`, {
+          method: 'DELETE',
+        });
+      } catch (error) {
+        console.error('Failed to delete draft:', error);
+      }
+    }
+  };
+
   if (isLoading) {
     return (
       <div className={styles.page}>
@@ -98,7 +228,7 @@ export function MyEventsClient({ content }: Props) {
     );
   }
 
-  const hasEvents = pendingEvents.length > 0 || publishedEvents.length > 0;
+  const hasEvents = drafts.length > 0 || pendingEvents.length > 0 || publishedEvents.length > 0;
 
   return (
     <div className={styles.page}>
@@ -113,17 +243,26 @@ export function MyEventsClient({ content }: Props) {
               }
             </p>
           </div>
-          <Link href={content.create_cta_link || '/create-event'} className={styles.createButton}>
-            + Create New Event
-          </Link>
+          <div className={styles.headerActions}>
+            <Link href={content.create_cta_link || '/create-event'} className={styles.createButton}>
+              + Create New Event
+            </Link>
+            {userEmail && (
+              <button type="button" onClick={handleSignOut} className={styles.signOutButton}>
+                Sign out
+              </button>
+            )}
+          </div>
         </header>
 
-        {/* Email Input for lookup */}
+        {/* Sign-in (magic link) */}
         {showEmailInput && (
           <div className={styles.emailSection}>
             <p className={styles.emailPrompt}>
-              Enter your email to see all events you have created:
+              Sign in to see and manage all events you have created. We will email you a one-time sign-in link.
             </p>
+            {loginError && <p className={styles.loginError}>{loginError}</p>}
+            {loginMessage && <p className={styles.loginMessage}>{loginMessage}</p>}
             <form onSubmit={handleEmailSubmit} className={styles.emailForm}>
               <input
                 type="email"
@@ -133,8 +272,8 @@ export function MyEventsClient({ content }: Props) {
                 className={styles.emailInput}
                 required
               />
-              <button type="submit" className={styles.emailButton}>
-                Find My Events
+              <button type="submit" className={styles.emailButton} disabled={isSendingLink}>
+                {isSendingLink ? 'Sending...' : 'Email Me a Sign-in Link'}
               </button>
             </form>
           </div>
@@ -166,6 +305,63 @@ export function MyEventsClient({ content }: Props) {
           </div>
         ) : (
           <div className={styles.eventSections}>
+            {/* Drafts */}
+            {drafts.length > 0 && (
+              <section className={styles.section}>
+                <h2 className={styles.sectionTitle}>{content.drafts_title || 'My Drafts'}</h2>
+                {content.drafts_description && (
+                  <p className={styles.sectionDescription}>{content.drafts_description}</p>
+                )}
+                <div className={styles.eventList}>
+                  {drafts.map((draft) => (
+                    <div key={draft.id} className={styles.eventCard}>
+                      <div className={styles.cardHeader}>
+                        <h3 className={styles.eventTitle}>{draft.title || 'Untitled event'}</h3>
+                        <div className={styles.cardHeaderActions}>
+                          <span className={`${styles.statusBadge} ${styles.draft}`}>
+                            Draft
+                          </span>
+                          <button
+                            onClick={() => handleDeleteDraft(draft)}
+                            className={styles.dismissButton}
+                            title="Delete draft"
+                            aria-label="Delete draft"
+                          >
+                            ✕
+                          </button>
+                        </div>
+                      </div>
+                      <div className={styles.cardDetails}>
+                        <div className={styles.detailItem}>
+                          <svg
+                            xmlns="http://www.w3.org/2000/svg"
+                            viewBox="0 0 24 24"
+                            fill="none"
+                            stroke="currentColor"
+                            strokeWidth="2"
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                          >
+                            <circle cx="12" cy="12" r="10" />
+                            <polyline points="12 6 12 12 16 14" />
+                          </svg>
+                          <span>Last saved {formatDisplayDate(draft.updatedAt)}</span>
+                        </div>
+                      </div>
+                      <div className={styles.registrantsActions}>
+                        <Link
+                          href={`/create-event?${new URLSearchParams({ draft: draft.id }).toString()}`}
+                          className={styles.manageButton}
+                        >
+                          Continue Editing
+                        </Link>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            )}
+
             {/* Pending Events */}
             {pendingEvents.length > 0 && (
               <section className={styles.section}>
@@ -230,9 +426,15 @@ export function MyEventsClient({ content }: Props) {
                     <div key={event.uid} className={styles.eventCard}>
                       <div className={styles.cardHeader}>
                         <h3 className={styles.eventTitle}>{event.title}</h3>
-                        <span className={`${styles.statusBadge} ${styles.published}`}>
-                          Published
-                        </span>
+                        {event.status === 'cancelled' ? (
+                          <span className={`${styles.statusBadge} ${styles.cancelled}`}>
+                            Cancelled
+                          </span>
+                        ) : (
+                          <span className={`${styles.statusBadge} ${styles.published}`}>
+                            Published
+                          </span>
+                        )}
                       </div>
                       <div className={styles.cardDetails}>
                         <div className={styles.detailItem}>
@@ -270,12 +472,28 @@ export function MyEventsClient({ content }: Props) {
                           </div>
                         )}
                       </div>
-                      <Link 
-                        href={`/opportunities/${event.slug}`}
-                        className={styles.viewButton}
-                      >
-                        View Event
-                      </Link>
+                      {event.stats && (
+                        <p className={styles.eventStats}>
+                          {event.stats.confirmed}
+                          {event.stats.capacity !== null ? ` / ${event.stats.capacity}` : ''} registered
+                          {event.stats.waitlisted > 0 && ` · ${event.stats.waitlisted} waitlisted`}
+                          {event.stats.checkedIn > 0 && ` · ${event.stats.checkedIn} checked in`}
+                        </p>
+                      )}
+                      <div className={styles.registrantsActions}>
+                        <Link
+                          href={`/my-events/${event.uid}`}
+                          className={styles.manageButton}
+                        >
+                          {content.manage_cta_text || 'Manage Event'}
+                        </Link>
+                        <Link 
+                          href={`/opportunities/${event.slug}`}
+                          className={styles.viewButton}
+                        >
+                          View Event
+                        </Link>
+                      </div>
                     </div>
                   ))}
                 </div>
@@ -0,0 +1,58 @@
+/**
+ * Registration Trend Component
+ * Bar chart of active participants per day
+ */
+
+import { formatDisplayDate } from '@/lib/utils';
+import styles from './my-events.module.css';
+
+export interface TimelinePoint {
+  date: string;
+  registered: number;
+  cancelled: number;
+  total: number;
+}
+
+interface Props {
+  timeline: TimelinePoint[];
+  capacity: number | null;
+}
+
+export function RegistrationTrend({ timeline, capacity }: Props) {
+  if (timeline.length === 0) {
+    return <p className={styles.registrantsNote}>Registrations will appear here over time.</p>;
+  }
+
+  const max = Math.max(1, capacity ?? 0, ...timeline.map((p) => p.total));
+  const latest = timeline[timeline.length - 1];
+
+  return (
+    <figure className={styles.trend}>
+      <div
+        className={styles.trendChart}
+        role="img"
+        aria-label={`${latest.total} participants registered as of ${formatDisplayDate(latest.date)}`}
+      >
+        {capacity !== null && capacity > 0 && (
+          <div
+            className={styles.trendCapacity}
+            style={{ bottom: `${(capacity / max) * 100}%` }}
+            title={`Capacity: ${capacity}`}
+          />
+        )}
+        {timeline.map((point) => (
+          <div
+            key={point.date}
+            className={styles.trendBar}
+            style={{ height: `${(point.total / max) * 100}%` }}
+            title={`${formatDisplayDate(point.date)}: ${point.total} registered (+${point.registered}${point.cancelled ? `, -${point.cancelled}` : ''})`}
+          />
+        ))}
+      </div>
+      <figcaption className={styles.trendAxis}>
+        <span>{formatDisplayDate(timeline[0].date)}</span>
+        <span>{formatDisplayDate(latest.date)}</span>
+      </figcaption>
+    </figure>
+  );
+}
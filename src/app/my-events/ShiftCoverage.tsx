@@ -0,0 +1,74 @@
+/**
+ * Shift Coverage Component
+ * Confirmed volunteers against the spots needed, per shift
+ */
+
+import { formatShiftTime } from '@/lib/shifts';
+import styles from './my-events.module.css';
+
+export interface ShiftCoverageRow {
+  shiftId: string;
+  label: string;
+  date: string;
+  startTime: string | null;
+  endTime: string | null;
+  spots: number | null;
+  confirmed: number;
+  waitlisted: number;
+  checkedIn: number;
+  spotsRemaining: number | null;
+}
+
+interface Props {
+  shifts: ShiftCoverageRow[];
+}
+
+export function ShiftCoverage({ shifts }: Props) {
+  return (
+    <ul className={styles.registrantList}>
+      {shifts.map((shift) => {
+        const usage = shift.spots ? Math.min(100, Math.round((shift.confirmed / shift.spots) * 100)) : null;
+
+        return (
+          <li key={shift.shiftId} className={styles.registrantRow}>
+            <div className={styles.registrantInfo}>
+              <span className={styles.registrantName}>{shift.label}</span>
+              <span className={styles.registrantDate}>
+                {formatShiftTime({
+                  date: shift.date,
+                  startTime: shift.startTime || undefined,
+                  endTime: shift.endTime || undefined,
+                })}
+              </span>
+              {usage !== null && (
+                <div
+                  className={styles.capacityBar}
+                  role="progressbar"
+                  aria-valuenow={usage}
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-label={`${shift.label} coverage`}
+                >
+                  <div className={styles.capacityFill} style={{ width: `${usage}%` }} />
+                </div>
+              )}
+            </div>
+            <span className={styles.shiftCount}>
+              {shift.confirmed}
+              {shift.spots !== null && ` / ${shift.spots}`}
+              {shift.waitlisted > 0 && ` · ${shift.waitlisted} waiting`}
+              {shift.checkedIn > 0 && ` · ${shift.checkedIn} checked in`}
+            </span>
+            {shift.spotsRemaining === 0 ? (
+              <span className={`${styles.statusBadge} ${styles.published}`}>Covered</span>
+            ) : (
+              <span className={`${styles.statusBadge} ${styles.pending}`}>
+                {shift.spotsRemaining === null ? 'Open' : `${shift.spotsRemaining} needed`}
+              </span>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,36 @@
+/**
+ * Edit Event Page
+ *
+ * Organizers propose changes to a published event using the create-event form
+ * Changes are submitted for admin review; data is loaded client-side with the organizer's session
+ */
+
+import type { Metadata } from 'next';
+import { getCreateEventPageContent } from '@/lib/contentstack';
+import { CreateEventForm } from '@/components/events';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Edit Event | ImpactConnect',
+  robots: { index: false },
+};
+
+interface PageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export default async function EditEventPage({ params }: PageProps) {
+  const { id } = await params;
+  const content = await getCreateEventPageContent();
+
+  return (
+    <main style={{ minHeight: '100vh', display: 'flex', flexDirection: 'column' }}>
+      <div style={{ flex: 1 }}>
+        <CreateEventForm content={content} editOpportunityId={id} />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,30 @@
+/**
+ * Event Dashboard Page
+ *
+ * Organizer view of one event: capacity, registration trend, registrants and actions
+ * Data is loaded client-side with the organizer's session
+ */
+
+import type { Metadata } from 'next';
+import { getMyEventsPageContent } from '@/lib/contentstack';
+import { EventDashboardClient } from '../EventDashboardClient';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Event Dashboard | ImpactConnect',
+  robots: { index: false },
+};
+
+interface PageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export default async function EventDashboardPage({ params }: PageProps) {
+  const { id } = await params;
+  const content = await getMyEventsPageContent();
+
+  return <EventDashboardClient content={content} opportunityId={id} />;
+}
@@ -16,10 +16,30 @@ interface Props {
   content: MyRegistrationsPageContent;
 }
 
+interface HoursEntry {
+  entryId: string;
+  registrationId: string;
+  opportunityTitle: string;
+  hours: number;
+  certificateUrl: string;
+}
+
 export function MyRegistrationsClient({ content }: Props) {
   const [registrations, setRegistrations] = useState<Registration[]>([]);
   const [userEmail, setUserEmail] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [totalHours, setTotalHours] = useState(0);
+  const [hoursEntries, setHoursEntries] = useState<HoursEntry[]>([]);
+  const [calendarFeed, setCalendarFeed] = useState<{ feedUrl: string; webcalUrl: string } | null>(null);
+  const [feedCopied, setFeedCopied] = useState(false);
+  const [isSendingFeed, setIsSendingFeed] = useState(false);
+  const [isRotatingFeed, setIsRotatingFeed] = useState(false);
+  const [feedMessage, setFeedMessage] = useState<string | null>(null);
+  const [needsSignIn, setNeedsSignIn] = useState(false);
+  const [signInEmail, setSignInEmail] = useState('');
+  const [isSendingLink, setIsSendingLink] = useState(false);
+  const [signInMessage, setSignInMessage] = useState<string | null>(null);
+  const [signInError, setSignInError] = useState<string | null>(null);
 
   useEffect(() => {
     // Get data from localStorage
@@ -34,8 +54,116 @@ export function MyRegistrationsClient({ content }: Props) {
     
     setRegistrations(userRegistrations);
     setIsLoading(false);
+
+    // Credited volunteer hours live on the server, behind a magic-link sign-in
+    setSignInEmail(email || userRegistrations[0]?.email || '');
+    fetch('/api/my-hours')
+      .then((response) => {
+        if (response.status === 401) {
+          setNeedsSignIn(true);
+          return null;
+        }
+        return response.ok ? response.json() : null;
+      })
+      .then((data) => {
+        if (data) {
+          setTotalHours(data.totalHours || 0);
+          setHoursEntries(data.entries || []);
+        }
+      })
+      .catch((error) => console.warn('Could not load volunteer hours:', error));
+
+    // The feed URL is only shown once signed in; otherwise it can be emailed
+    fetch('/api/calendar/feed-url', { method: 'POST' })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (data?.feedUrl) setCalendarFeed(data);
+      })
+      .catch((error) => console.warn('Could not load calendar feed:', error));
   }, []);
 
+  const handleEmailFeedUrl = async () => {
+    if (!signInEmail.trim()) return;
+
+    setIsSendingFeed(true);
+    setFeedMessage(null);
+    try {
+      const response = await fetch('/api/calendar/feed-url', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: signInEmail.trim() }),
+      });
+      const data = await response.json();
+      setFeedMessage(data.message || data.error || 'Failed to send the calendar feed link');
+    } catch {
+      setFeedMessage('Network error. Please try again.');
+    } finally {
+      setIsSendingFeed(false);
+    }
+  };
+
+  const handleRotateFeedUrl = async () => {
+    if (!window.confirm('Reset your calendar feed link? Calendars subscribed with the current link will stop updating.')) {
+      return;
+    }
+
+    setIsRotatingFeed(true);
+    setFeedMessage(null);
+    try {
+      const response = await fetch('/api/calendar/feed-url', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rotate: true }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to reset the calendar feed link');
+      }
+      setCalendarFeed(data);
+      setFeedMessage('Your calendar feed has a new link. Subscribe again with it.');
+    } catch (err) {
+      setFeedMessage(err instanceof Error ? err.message : 'Failed to reset the calendar feed link');
+    } finally {
+      setIsRotatingFeed(false);
+    }
+  };
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!signInEmail.trim()) return;
+
+    setIsSendingLink(true);
+    setSignInError(null);
+    setSignInMessage(null);
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: signInEmail.trim(), redirect: '/my-registrations' }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send sign-in link');
+      }
+      setSignInMessage(data.message);
+    } catch (err) {
+      setSignInError(err instanceof Error ? err.message : 'Failed to send sign-in link');
+    } finally {
+      setIsSendingLink(false);
+    }
+  };
+
+  const handleCopyFeedUrl = async () => {
+    if (!calendarFeed) return;
+    try {
+      await navigator.clipboard.writeText(calendarFeed.feedUrl);
+      setFeedCopied(true);
+      setTimeout(() => setFeedCopied(false), 2000);
+    } catch (error) {
+      console.warn('Could not copy calendar feed URL:', error);
+    }
+  };
+
   if (isLoading) {
     return (
       <div className={styles.page}>
@@ -59,6 +187,106 @@ export function MyRegistrationsClient({ content }: Props) {
           </p>
         </header>
 
+        {needsSignIn && (
+          <section className={styles.signIn} aria-label="Sign in">
+            <p className={styles.hoursLabel}>
+              Sign in to see your volunteer hours and download certificates. We will email you a
+              one-time sign-in link.
+            </p>
+            {signInError && <p className={styles.signInError}>{signInError}</p>}
+            {signInMessage && <p className={styles.signInMessage}>{signInMessage}</p>}
+            <form onSubmit={handleSignIn} className={styles.signInForm}>
+              <input
+                type="email"
+                value={signInEmail}
+                onChange={(e) => setSignInEmail(e.target.value)}
+                placeholder="your@email.com"
+                className={styles.calendarFeedInput}
+                aria-label="Email address"
+                required
+              />
+              <button type="submit" className={styles.viewButton} disabled={isSendingLink}>
+                {isSendingLink ? 'Sending...' : 'Email Me a Sign-in Link'}
+              </button>
+            </form>
+          </section>
+        )}
+
+        {hoursEntries.length > 0 && (
+          <section className={styles.hoursSummary} aria-label="Volunteer hours">
+            <div>
+              <p className={styles.hoursTotal}>{totalHours}</p>
+              <p className={styles.hoursLabel}>
+                volunteer {totalHours === 1 ? 'hour' : 'hours'} across {hoursEntries.length}{' '}
+                {hoursEntries.length === 1 ? 'event' : 'events'}
+              </p>
+            </div>
+          </section>
+        )}
+
+        {calendarFeed && (
+          <section className={styles.calendarFeed} aria-label="Calendar feed">
+            <div>
+              <p className={styles.calendarFeedTitle}>Subscribe in your calendar</p>
+              <p className={styles.hoursLabel}>
+                Keep all of your registrations in sync with Google Calendar, Outlook or Apple Calendar.
+                Keep this link private, or reset it if it was shared.
+              </p>
+              {feedMessage && <p className={styles.signInMessage}>{feedMessage}</p>}
+            </div>
+            <div className={styles.calendarFeedActions}>
+              <input
+                type="text"
+                value={calendarFeed.feedUrl}
+                readOnly
+                className={styles.calendarFeedInput}
+                onFocus={(e) => e.target.select()}
+                aria-label="Calendar feed URL"
+              />
+              <button type="button" onClick={handleCopyFeedUrl} className={styles.viewButton}>
+                {feedCopied ? 'Copied!' : 'Copy Link'}
+              </button>
+              <a href={calendarFeed.webcalUrl} className={styles.viewButton}>
+                Subscribe
+              </a>
+              <button
+                type="button"
+                onClick={handleRotateFeedUrl}
+                className={styles.viewButton}
+                disabled={isRotatingFeed}
+              >
+                {isRotatingFeed ? 'Resetting...' : 'Reset Link'}
+              </button>
+            </div>
+          </section>
+        )}
+
+        {!calendarFeed && registrations.length > 0 && (
+          <section className={styles.calendarFeed} aria-label="Calendar feed">
+            <div>
+              <p className={styles.calendarFeedTitle}>Subscribe in your calendar</p>
+              <p className={styles.hoursLabel}>
+                {signInEmail
+                  ? `We can email ${signInEmail} a private link that keeps all of your registrations in sync with your calendar.`
+                  : 'Sign in above to get a private link that keeps all of your registrations in sync with your calendar.'}
+              </p>
+              {feedMessage && <p className={styles.signInMessage}>{feedMessage}</p>}
+            </div>
+            {signInEmail && (
+              <div className={styles.calendarFeedActions}>
+                <button
+                  type="button"
+                  onClick={handleEmailFeedUrl}
+                  className={styles.viewButton}
+                  disabled={isSendingFeed}
+                >
+                  {isSendingFeed ? 'Sending...' : 'Email Me the Feed Link'}
+                </button>
+              </div>
+            )}
+          </section>
+        )}
+
         {registrations.length === 0 ? (
           <div className={styles.emptyState}>
             <div className={styles.emptyIcon}>
@@ -86,10 +314,20 @@ export function MyRegistrationsClient({ content }: Props) {
         ) : (
           <div className={styles.registrationList}>
             {registrations.map((registration) => (
-              <div key={registration.id} className={styles.registrationCard}>
+              <div
+                key={registration.id}
+                id={registration.registrationId || registration.id}
+                className={styles.registrationCard}
+              >
                 <div className={styles.cardHeader}>
                   <h3 className={styles.eventTitle}>{registration.opportunityTitle}</h3>
-                  <span className={styles.registeredBadge}>Registered</span>
+                  {registration.status === 'waitlisted' ? (
+                    <span className={`${styles.registeredBadge} ${styles.waitlistedBadge}`}>
+                      Waitlisted{registration.waitlistPosition ? ` #${registration.waitlistPosition}` : ''}
+                    </span>
+                  ) : (
+                    <span className={styles.registeredBadge}>Registered</span>
+                  )}
                 </div>
                 
                 <div className={styles.cardDetails}>
@@ -108,7 +346,12 @@ export function MyRegistrationsClient({ content }: Props) {
                       <line x1="8" x2="8" y1="2" y2="6" />
                       <line x1="3" x2="21" y1="10" y2="10" />
                     </svg>
-                    <span>{formatDisplayDate(registration.opportunityDate)}</span>
+                    <span>
+                      {registration.recurrence
+                        ? `${registration.recurrence} (all sessions)`
+                        : formatDisplayDate(registration.opportunityDate)}
+                      {registration.shifts?.length ? ` · ${registration.shifts.join(', ')}` : ''}
+                    </span>
                   </div>
                   
                   <div className={styles.detailItem}>
@@ -144,16 +387,53 @@ export function MyRegistrationsClient({ content }: Props) {
                   </div>
                 </div>
 
+                {registration.members && registration.members.length > 0 && (
+                  <div className={styles.groupInfo}>
+                    <p className={styles.groupTitle}>
+                      {registration.groupName || 'Group registration'} ·{' '}
+                      {registration.members.length + 1} participants
+                    </p>
+                    <ul className={styles.groupMembers}>
+                      <li>{registration.name} (you)</li>
+                      {registration.members.map((member, index) => (
+                        <li key={index}>{member.name}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 {content.confirmation_message && (
                   <p className={styles.confirmationMessage}>{content.confirmation_message}</p>
                 )}
 
-                <Link 
-                  href={`/opportunities/${registration.opportunitySlug}`}
-                  className={styles.viewButton}
-                >
-                  View Event Details
-                </Link>
+                <div className={styles.cardActions}>
+                  <Link 
+                    href={`/opportunities/${registration.opportunitySlug}`}
+                    className={styles.viewButton}
+                  >
+                    View Event Details
+                  </Link>
+                  {hoursEntries
+                    .filter((entry) => entry.registrationId === registration.registrationId)
+                    .map((entry) => (
+                      <a
+                        key={entry.entryId}
+                        href={entry.certificateUrl}
+                        className={styles.viewButton}
+                        download
+                      >
+                        Certificate ({entry.hours} {entry.hours === 1 ? 'hour' : 'hours'})
+                      </a>
+                    ))}
+                  {registration.ticketCode && registration.status !== 'waitlisted' && (
+                    <Link
+                      href={`/ticket?code=${encodeURIComponent(registration.ticketCode)}`}
+                      className={styles.viewButton}
+                    >
+                      View Ticket
+                    </Link>
+                  )}
+                </div>
               </div>
             ))}
           </div>
@@ -7,6 +7,7 @@ import { notFound } from 'next/navigation';
 import type { Metadata } from 'next';
 import { getOpportunityBySlug, getAllOpportunitySlugs, isOpportunityExpired } from '@/lib/contentstack';
 import { OpportunityDetailClient } from '@/components/opportunities/OpportunityDetailClient';
+import { withRemainingSpots } from '@/lib/registrations';
 import { RevalidationTimes } from '@/lib/config';
 
 // ISR Configuration
@@ -101,5 +102,7 @@ export default async function OpportunityDetailPage({ params }: PageProps) {
     console.log(`[OpportunityDetail] Expired opportunity accessed: ${slug}`);
   }
 
-  return <OpportunityDetailClient opportunity={opportunity} />;
+  const [opportunityWithSpots] = await withRemainingSpots([opportunity]);
+
+  return <OpportunityDetailClient opportunity={opportunityWithSpots} />;
 }
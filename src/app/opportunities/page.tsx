@@ -12,6 +12,7 @@ import {
   getDiscoverPageContent,
 } from '@/lib/contentstack';
 import { getAllCauses } from '@/lib/contentstack/taxonomies';
+import { withRemainingSpots } from '@/lib/registrations';
 import { OpportunitiesPageClient } from '@/components/opportunities/OpportunitiesPageClient';
 import { OpportunityListSkeleton } from '@/components/opportunities';
 import type { Metadata } from 'next';
@@ -171,6 +172,9 @@ async function OpportunitiesContent({ searchParams }: PageProps) {
     getDiscoverPageContent(),
   ]);
 
+  // Live remaining spots from the registration store
+  const opportunitiesWithSpots = await withRemainingSpots(opportunitiesResult.opportunities);
+
   // Extract unique locations from all opportunities
   const locations = extractLocationsFromOpportunities(
     allOpportunitiesForLocations.opportunities.map((opp) => ({
@@ -207,7 +211,7 @@ async function OpportunitiesContent({ searchParams }: PageProps) {
 
   return (
     <OpportunitiesPageClient
-      initialOpportunities={opportunitiesResult.opportunities}
+      initialOpportunities={opportunitiesWithSpots}
       initialTotal={opportunitiesResult.total}
       initialPage={page}
       pageSize={PAGE_SIZE}
@@ -0,0 +1,274 @@
+/**
+ * Organizer Profile Page
+ * Public profile with the organizer's upcoming and past opportunities
+ * ISR with 10-minute revalidation
+ */
+
+import { notFound } from 'next/navigation';
+import Image from 'next/image';
+import Link from 'next/link';
+import type { Metadata } from 'next';
+import type { OpportunitySummary, SocialLinks } from '@/types';
+import { OrganizerTypeLabels } from '@/types';
+import { RevalidationTimes } from '@/lib/config';
+import {
+  getAllOrganizerSlugs,
+  getOpportunitiesByOrganizer,
+  getOrganizerBySlug,
+} from '@/lib/contentstack';
+import { isPast } from '@/lib/utils/dates';
+import { getScheduleRule, toNextOccurrence, today } from '@/lib/recurrence';
+import { withRemainingSpots } from '@/lib/registrations';
+import { OpportunityCard } from '@/components/opportunities';
+import styles from './organizer.module.css';
+
+// ISR Configuration
+export const revalidate = RevalidationTimes.DETAIL;
+export const dynamicParams = true;
+
+/**
+ * Most opportunities listed per organizer
+ */
+const MAX_OPPORTUNITIES = 100;
+
+const SOCIAL_LABELS: Record<keyof SocialLinks, string> = {
+  facebook: 'Facebook',
+  instagram: 'Instagram',
+  twitter: 'Twitter',
+  linkedin: 'LinkedIn',
+};
+
+interface PageProps {
+  params: Promise<{ slug: string }>;
+}
+
+/**
+ * Generate static paths for all organizers
+ */
+export async function generateStaticParams() {
+  try {
+    const slugs = await getAllOrganizerSlugs();
+    return slugs.map((slug) => ({ slug }));
+  } catch (error) {
+    console.error('Error generating organizer params:', error);
+    return [];
+  }
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { slug } = await params;
+
+  try {
+    const organizer = await getOrganizerBySlug(slug);
+    if (!organizer) {
+      return { title: 'Organizer Not Found | ImpactConnect' };
+    }
+
+    return {
+      title: `${organizer.name} | ImpactConnect`,
+      description: organizer.tagline || organizer.description || `Opportunities hosted by ${organizer.name}.`,
+    };
+  } catch {
+    return { title: 'Organizer Not Found | ImpactConnect' };
+  }
+}
+
+/**
+ * Split into upcoming (soonest first) and past (most recent first)
+ * Cancelled events are left off the profile
+ */
+function splitOpportunities(opportunities: OpportunitySummary[]) {
+  const upcoming: OpportunitySummary[] = [];
+  const past: OpportunitySummary[] = [];
+
+  for (const opportunity of opportunities) {
+    if (opportunity.status === 'cancelled') continue;
+
+    // Recurring series stay upcoming, dated to their next session, until the last one passes
+    const next = getScheduleRule(opportunity) ? toNextOccurrence(opportunity, { from: today() }) : opportunity;
+    const isOver = opportunity.status === 'completed' || !next || isPast(next.endDate || next.startDate);
+    if (isOver) {
+      past.push(opportunity);
+    } else {
+      upcoming.push(next);
+    }
+  }
+
+  upcoming.sort((a, b) => a.startDate.localeCompare(b.startDate));
+  past.reverse();
+  return { upcoming, past };
+}
+
+export default async function OrganizerPage({ params }: PageProps) {
+  const { slug } = await params;
+
+  if (!slug || slug.length > 200) {
+    notFound();
+  }
+
+  let organizer;
+  let opportunities;
+
+  try {
+    organizer = await getOrganizerBySlug(slug);
+    if (!organizer) {
+      notFound();
+    }
+    opportunities = await getOpportunitiesByOrganizer(organizer, {
+      limit: MAX_OPPORTUNITIES,
+      includeCompleted: true,
+    });
+  } catch (error) {
+    console.error(`[OrganizerPage] Error fetching ${slug}:`, error);
+    notFound();
+  }
+
+  const { upcoming, past } = splitOpportunities(opportunities);
+  const upcomingWithSpots = await withRemainingSpots(upcoming);
+
+  const contact = organizer.contact;
+  const socialLinks = (Object.keys(SOCIAL_LABELS) as (keyof SocialLinks)[])
+    .filter((key) => contact?.socialLinks?.[key])
+    .map((key) => ({ label: SOCIAL_LABELS[key], url: contact!.socialLinks![key]! }));
+
+  return (
+    <div className={styles.page}>
+      <div className={styles.container}>
+        <Link href="/opportunities" className={styles.backLink}>
+          ← All opportunities
+        </Link>
+
+        {/* Profile */}
+        <header className={styles.profile}>
+          {organizer.logo ? (
+            <Image
+              src={organizer.logo.url}
+              alt={organizer.logo.alt || organizer.name}
+              width={96}
+              height={96}
+              className={styles.logo}
+            />
+          ) : (
+            <div className={styles.logoPlaceholder} aria-hidden="true">
+              {organizer.name.charAt(0).toUpperCase()}
+            </div>
+          )}
+
+          <div className={styles.profileInfo}>
+            <h1 className={styles.name}>{organizer.name}</h1>
+            <div className={styles.meta}>
+              {organizer.isVerified && (
+                <span className={styles.verified}>✓ Verified organizer</span>
+              )}
+              {organizer.type && <span>{OrganizerTypeLabels[organizer.type]}</span>}
+              {organizer.foundedYear && <span>Since {organizer.foundedYear}</span>}
+            </div>
+            {organizer.tagline && <p className={styles.tagline}>{organizer.tagline}</p>}
+          </div>
+        </header>
+
+        <div className={styles.layout}>
+          <aside className={styles.sidebar}>
+            {organizer.description && (
+              <section className={styles.card}>
+                <h2 className={styles.cardTitle}>About</h2>
+                <p className={styles.description}>{organizer.description}</p>
+              </section>
+            )}
+
+            {organizer.focusAreas && organizer.focusAreas.length > 0 && (
+              <section className={styles.card}>
+                <h2 className={styles.cardTitle}>Focus Areas</h2>
+                <ul className={styles.tags}>
+                  {organizer.focusAreas.map((area) => (
+                    <li key={area} className={styles.tag}>{area}</li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            {contact && (
+              <section className={styles.card}>
+                <h2 className={styles.cardTitle}>Contact</h2>
+                {(contact.email || contact.phone || contact.website) && (
+                  <ul className={styles.contactList}>
+                    {contact.email && (
+                      <li>
+                        <a href={`mailto:${contact.email}`}>{contact.email}</a>
+                      </li>
+                    )}
+                    {contact.phone && (
+                      <li>
+                        <a href={`tel:${contact.phone.replace(/\s+/g, '')}`}>{contact.phone}</a>
+                      </li>
+                    )}
+                    {contact.website && (
+                      <li>
+                        <a href={contact.website} target="_blank" rel="noopener noreferrer">
+                          {contact.website.replace(/^https?:\/\//, '')}
+                        </a>
+                      </li>
+                    )}
+                  </ul>
+                )}
+                {socialLinks.length > 0 && (
+                  <div className={styles.socialLinks}>
+                    {socialLinks.map((link) => (
+                      <a
+                        key={link.label}
+                        href={link.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className={styles.socialLink}
+                      >
+                        {link.label}
+                      </a>
+                    ))}
+                  </div>
+                )}
+              </section>
+            )}
+          </aside>
+
+          <div className={styles.main}>
+            <section>
+              <h2 className={styles.sectionTitle}>
+                Upcoming opportunities
+                <span className={styles.count}>{upcomingWithSpots.length}</span>
+              </h2>
+              {upcomingWithSpots.length === 0 ? (
+                <p className={styles.empty}>
+                  No upcoming opportunities right now. Check back soon.
+                </p>
+              ) : (
+                <div className={styles.grid}>
+                  {upcomingWithSpots.map((opportunity, index) => (
+                    <OpportunityCard
+                      key={opportunity.uid}
+                      opportunity={opportunity}
+                      priority={index < 4}
+                    />
+                  ))}
+                </div>
+              )}
+            </section>
+
+            {past.length > 0 && (
+              <section>
+                <h2 className={styles.sectionTitle}>
+                  Past opportunities
+                  <span className={styles.count}>{past.length}</span>
+                </h2>
+                <div className={styles.grid}>
+                  {past.map((opportunity) => (
+                    <OpportunityCard key={opportunity.uid} opportunity={opportunity} />
+                  ))}
+                </div>
+              </section>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+/**
+ * Ticket Page
+ *
+ * Shows a participant's QR ticket for check-in at the event
+ * Reached from /my-registrations or the link in the confirmation email
+ */
+
+import type { Metadata } from 'next';
+import Image from 'next/image';
+import Link from 'next/link';
+import { getOpportunityById } from '@/lib/contentstack';
+import {
+  getOpportunityLocation,
+  getPartySize,
+  getRegistrationStore,
+  verifyTicketCode,
+} from '@/lib/registrations';
+import { formatDisplayDate } from '@/lib/utils';
+import styles from './ticket.module.css';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Your Ticket | ImpactConnect',
+  robots: { index: false },
+};
+
+interface PageProps {
+  searchParams: Promise<{
+    code?: string;
+  }>;
+}
+
+function TicketError({ message }: { message: string }) {
+  return (
+    <main className={styles.page}>
+      <div className={styles.card}>
+        <h1 className={styles.title}>Ticket unavailable</h1>
+        <p className={styles.error}>{message}</p>
+        <Link href="/my-registrations" className={styles.secondaryButton}>
+          My Registrations
+        </Link>
+      </div>
+    </main>
+  );
+}
+
+export default async function TicketPage({ searchParams }: PageProps) {
+  const { code } = await searchParams;
+
+  const verification = verifyTicketCode(code || '');
+  if (!code || !verification.valid) {
+    return (
+      <TicketError
+        message={verification.valid === false && verification.error === 'expired'
+          ? 'This ticket has expired.'
+          : 'This ticket link is invalid.'}
+      />
+    );
+  }
+
+  const registration = await getRegistrationStore().getById(verification.payload.sub);
+  if (!registration) {
+    return <TicketError message="We could not find this registration." />;
+  }
+
+  if (registration.status === 'cancelled') {
+    return <TicketError message="This registration was cancelled, so the ticket is no longer valid." />;
+  }
+
+  const opportunity = await getOpportunityById(registration.opportunityId).catch(() => null);
+  const partySize = getPartySize(registration);
+
+  return (
+    <main className={styles.page}>
+      <div className={styles.card}>
+        <p className={styles.eyebrow}>Event Ticket</p>
+        <h1 className={styles.title}>{registration.opportunityTitle}</h1>
+
+        {opportunity && (
+          <p className={styles.text}>
+            {formatDisplayDate(opportunity.startDate)}
+            {opportunity.startTime && ` · ${opportunity.startTime}`}
+            {' · '}
+            {getOpportunityLocation(opportunity)}
+          </p>
+        )}
+
+        {registration.status === 'waitlisted' ? (
+          <p className={styles.notice}>
+            You are still on the waitlist. This ticket becomes valid once a spot opens up
+            and you receive a confirmation email.
+          </p>
+        ) : (
+          <div className={styles.qr}>
+            <Image
+              src={`/api/tickets/qr?code=${encodeURIComponent(code)}`}
+              alt={`QR ticket for ${registration.name}`}
+              width={240}
+              height={240}
+              unoptimized
+            />
+          </div>
+        )}
+
+        <dl className={styles.details}>
+          <div>
+            <dt>Name</dt>
+            <dd>{registration.name}</dd>
+          </div>
+          {partySize > 1 && (
+            <div>
+              <dt>Group</dt>
+              <dd>
+                {registration.groupName ? `${registration.groupName} · ` : ''}
+                {partySize} participants
+              </dd>
+            </div>
+          )}
+          <div>
+            <dt>Registration ID</dt>
+            <dd className={styles.mono}>{registration.registrationId}</dd>
+          </div>
+          {registration.checkedInAt && (
+            <div>
+              <dt>Checked in</dt>
+              <dd>{new Date(registration.checkedInAt).toLocaleString()}</dd>
+            </div>
+          )}
+        </dl>
+
+        <p className={styles.hint}>
+          Show this code to the organizer when you arrive. If it can&apos;t be scanned,
+          send them the link to this page to paste instead.
+        </p>
+      </div>
+    </main>
+  );
+}
@@ -1,13 +1,48 @@
 'use client';
 
-import { useState, useMemo, useEffect } from 'react';
+import { useState, useMemo, useEffect, useRef } from 'react';
 import Link from 'next/link';
-import { addCreatedEvent } from '@/lib/user';
+import { addCreatedEvent, getEventDraft, removeEventDraft, saveEventDraft } from '@/lib/user';
 import type { CreateEventPageContent } from '@/lib/contentstack';
+import {
+  MAX_OCCURRENCES,
+  WEEKDAYS,
+  describeRecurrence,
+  expandOccurrences,
+  parseRecurrenceRule,
+  serializeRecurrenceRule,
+  validateRecurrenceRule,
+} from '@/lib/recurrence';
+import type { RecurrenceFrequency, RecurrenceRule, Weekday } from '@/lib/recurrence';
+import { MAX_SHIFTS, parseShiftInput } from '@/lib/shifts';
+import type { OpportunityShift } from '@/types';
+import type { EditableEventField, EditableEventFields } from '@/lib/events';
 import styles from './CreateEventForm.module.css';
 
 interface CreateEventFormProps {
   content: CreateEventPageContent;
+  /** Published opportunity to edit; changes are submitted as an edit request */
+  editOpportunityId?: string;
+  /** Saved draft to resume (new events only) */
+  draftId?: string;
+  /** Revise link token; reopens a submission a moderator sent back with comments */
+  reviseToken?: string;
+}
+
+/**
+ * Pending edit request shown while an organizer edits a published event
+ */
+interface PendingEditRequest {
+  requestId: string;
+  submittedAt: string;
+}
+
+/**
+ * Moderator feedback shown while revising a submission
+ */
+interface ReviewFeedback {
+  comments: Array<{ field: EditableEventField; label: string; comment: string }>;
+  note: string | null;
 }
 
 /**
@@ -47,6 +82,37 @@ const CONTRIBUTION_TYPES = [
   { value: 'time', label: 'Time & Commitment' },
 ];
 
+/**
+ * Weekday toggles for weekly repeats
+ */
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+  SU: 'Sun',
+};
+
+const REPEAT_UNITS: Record<RecurrenceFrequency, string> = {
+  DAILY: 'day(s)',
+  WEEKLY: 'week(s)',
+  MONTHLY: 'month(s)',
+};
+
+/**
+ * One shift row in the form (spots as typed)
+ */
+interface ShiftRow {
+  id: string; // Empty until saved; the server assigns one
+  label: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  spots: string;
+}
+
 interface FormData {
   title: string;
   summary: string;
@@ -68,6 +134,16 @@ interface FormData {
   endDate: string;
   startTime: string;
   endTime: string;
+  // Recurrence ('' repeat means a one-off event)
+  repeat: RecurrenceFrequency | '';
+  repeatInterval: string;
+  repeatDays: Weekday[];
+  repeatMonthlyBy: 'day' | 'weekday';
+  repeatEnds: 'until' | 'count';
+  repeatUntil: string;
+  repeatCount: string;
+  // Shifts (time slots or roles with their own capacity)
+  shifts: ShiftRow[];
   // Organizer
   organizerEmail: string;
   organizerName: string;
@@ -80,32 +156,194 @@ interface FormErrors {
   [key: string]: string;
 }
 
+type RecurrenceFields = Pick<
+  FormData,
+  'repeat' | 'repeatInterval' | 'repeatDays' | 'repeatMonthlyBy' | 'repeatEnds' | 'repeatUntil' | 'repeatCount'
+>;
+
+const NO_RECURRENCE: RecurrenceFields = {
+  repeat: '',
+  repeatInterval: '1',
+  repeatDays: [],
+  repeatMonthlyBy: 'day',
+  repeatEnds: 'until',
+  repeatUntil: '',
+  repeatCount: '',
+};
+
+const EMPTY_FORM: FormData = {
+  title: '',
+  summary: '',
+  description: '',
+  coverImageUid: '',
+  coverImageUrl: '',
+  country: '',
+  state: '',
+  city: '',
+  address: '',
+  isVirtual: false,
+  causes: [],
+  contributionTypes: [],
+  startDate: '',
+  endDate: '',
+  startTime: '',
+  endTime: '',
+  ...NO_RECURRENCE,
+  shifts: [],
+  organizerEmail: '',
+  organizerName: '',
+  spotsAvailable: '',
+  requirements: '',
+};
+
+/**
+ * How long typing must pause before the draft is saved
+ */
+const DRAFT_SAVE_DELAY_MS = 1500;
+
+function createDraftId(): string {
+  return `draft_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Whether the form has anything worth keeping as a draft
+ */
+function hasDraftContent(data: FormData): boolean {
+  return Boolean(
+    data.title.trim() || data.summary.trim() || data.description.trim() || data.coverImageUid || data.startDate
+  );
+}
+
+/**
+ * Form rows for stored shifts (editing a published event)
+ */
+function getShiftRows(shifts: OpportunityShift[] = []): ShiftRow[] {
+  return shifts.map((shift) => ({
+    id: shift.id,
+    label: shift.label,
+    date: shift.date,
+    startTime: shift.startTime || '',
+    endTime: shift.endTime || '',
+    spots: shift.spots ? String(shift.spots) : '',
+  }));
+}
+
+/**
+ * Form values for stored event fields (editing or revising an event)
+ */
+function getFormData(fields: EditableEventFields, organizerEmail: string): FormData {
+  return {
+    title: fields.title,
+    summary: fields.summary,
+    description: fields.description,
+    coverImageUid: fields.coverImageUid,
+    coverImageUrl: fields.coverImageUrl,
+    country: fields.country,
+    state: fields.state,
+    city: fields.city,
+    address: fields.address,
+    isVirtual: fields.isVirtual,
+    causes: fields.causeSlugs,
+    contributionTypes: fields.contributionTypes,
+    startDate: fields.startDate,
+    endDate: fields.endDate,
+    startTime: fields.startTime,
+    endTime: fields.endTime,
+    ...getRecurrenceFields(fields.recurrenceRule),
+    shifts: getShiftRows(fields.shifts),
+    organizerEmail,
+    organizerName: fields.organizerName,
+    spotsAvailable: fields.spotsAvailable ? String(fields.spotsAvailable) : '',
+    requirements: fields.requirements,
+  };
+}
+
+/**
+ * Shifts as posted to the API
+ */
+function toShiftInput(rows: ShiftRow[]) {
+  return rows.map((row) => ({
+    id: row.id || undefined,
+    label: row.label,
+    date: row.date,
+    startTime: row.startTime,
+    endTime: row.endTime,
+    spots: row.spots ? parseInt(row.spots, 10) : null,
+  }));
+}
+
+/**
+ * Weekday code of a YYYY-MM-DD date
+ */
+function getWeekday(date: string): Weekday {
+  return WEEKDAYS[(new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7];
+}
+
+/**
+ * Build the recurrence rule from the form, or null for one-off events
+ * Monthly repeats follow the start date: the same day of the month, or the
+ * same weekday of the month (e.g. the first Saturday; the last when it falls in week five)
+ */
+function buildRecurrenceRule(data: FormData): RecurrenceRule | null {
+  if (!data.repeat) return null;
+
+  const rule: RecurrenceRule = {
+    frequency: data.repeat,
+    interval: Math.max(1, parseInt(data.repeatInterval, 10) || 1),
+  };
+
+  if (data.repeat === 'WEEKLY') {
+    rule.byDay = data.repeatDays.length > 0
+      ? data.repeatDays
+      : data.startDate ? [getWeekday(data.startDate)] : [];
+  }
+
+  if (data.repeat === 'MONTHLY' && data.startDate) {
+    const day = new Date(`${data.startDate}T00:00:00Z`).getUTCDate();
+    if (data.repeatMonthlyBy === 'weekday') {
+      const week = Math.ceil(day / 7);
+      rule.byDay = [getWeekday(data.startDate)];
+      rule.weekOfMonth = week > 4 ? -1 : week;
+    } else {
+      rule.byMonthDay = day;
+    }
+  }
+
+  if (data.repeatEnds === 'count') {
+    rule.count = parseInt(data.repeatCount, 10) || undefined;
+  } else {
+    rule.until = data.repeatUntil || undefined;
+  }
+
+  return rule;
+}
+
+/**
+ * Form fields for a stored recurrence rule (editing a published event)
+ */
+function getRecurrenceFields(value?: string): RecurrenceFields {
+  const rule = parseRecurrenceRule(value);
+  if (!rule) return NO_RECURRENCE;
+
+  return {
+    repeat: rule.frequency,
+    repeatInterval: String(rule.interval),
+    repeatDays: rule.frequency === 'WEEKLY' ? rule.byDay || [] : [],
+    repeatMonthlyBy: rule.weekOfMonth ? 'weekday' : 'day',
+    repeatEnds: rule.count ? 'count' : 'until',
+    repeatUntil: rule.until || '',
+    repeatCount: rule.count ? String(rule.count) : '',
+  };
+}
+
 // External API for countries/states/cities
 const COUNTRIES_API = 'https://countriesnow.space/api/v0.1';
 
-export function CreateEventForm({ content }: CreateEventFormProps) {
-  const [formData, setFormData] = useState<FormData>({
-    title: '',
-    summary: '',
-    description: '',
-    coverImageUid: '',
-    coverImageUrl: '',
-    country: '',
-    state: '',
-    city: '',
-    address: '',
-    isVirtual: false,
-    causes: [],
-    contributionTypes: [],
-    startDate: '',
-    endDate: '',
-    startTime: '',
-    endTime: '',
-    organizerEmail: '',
-    organizerName: '',
-    spotsAvailable: '',
-    requirements: '',
-  });
+export function CreateEventForm({ content, editOpportunityId, draftId, reviseToken }: CreateEventFormProps) {
+  const isEditing = !!editOpportunityId;
+  const isRevising = !isEditing && !!reviseToken;
+
+  const [formData, setFormData] = useState<FormData>(EMPTY_FORM);
 
   // Image upload state
   const [imageFile, setImageFile] = useState<File | null>(null);
@@ -117,6 +355,22 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [isSuccess, setIsSuccess] = useState(false);
 
+  // Edit mode state (prefilled from the published event)
+  const [isLoadingEvent, setIsLoadingEvent] = useState(isEditing || isRevising);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [originalStartDate, setOriginalStartDate] = useState('');
+  const [pendingEdit, setPendingEdit] = useState<PendingEditRequest | null>(null);
+
+  // Revise mode state (prefilled from the submission a moderator sent back)
+  const [reviewFeedback, setReviewFeedback] = useState<ReviewFeedback | null>(null);
+
+  // Draft autosave (new events only); wait for a resumed draft before saving over it
+  const draftIdRef = useRef<string | null>(isEditing || isRevising ? null : draftId || null);
+  const syncDraftsRef = useRef(true); // Off once the server says the organizer is not signed in
+  const [isDraftReady, setIsDraftReady] = useState(isEditing || isRevising || !draftId);
+  const [draftSavedAt, setDraftSavedAt] = useState<string | null>(null);
+  const [draftNotice, setDraftNotice] = useState<string | null>(null);
+
   // Location data from external API
   const [countries, setCountries] = useState<Country[]>([]);
   const [states, setStates] = useState<State[]>([]);
@@ -125,6 +379,133 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
   const [isLoadingStates, setIsLoadingStates] = useState(false);
   const [isLoadingCities, setIsLoadingCities] = useState(false);
 
+  // Prefill the form from the published event when editing
+  useEffect(() => {
+    if (!editOpportunityId) return;
+
+    async function fetchEvent() {
+      try {
+        const params = new URLSearchParams({ opportunityId: editOpportunityId as string });
+        const response = await fetch(`/api/my-events/edit-request?${params.toString()}`);
+        const result = await response.json();
+        if (response.status === 401) {
+          setLoadError('Please sign in from My Events to edit this event.');
+          return;
+        }
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load event');
+        }
+
+        setFormData(getFormData(result.fields, result.event.organizerEmail));
+        setOriginalStartDate(result.fields.startDate);
+        setPendingEdit(result.pendingRequest);
+      } catch (error) {
+        console.error('Failed to load event for editing:', error);
+        setLoadError(error instanceof Error ? error.message : 'Failed to load event');
+      } finally {
+        setIsLoadingEvent(false);
+      }
+    }
+    fetchEvent();
+  }, [editOpportunityId]);
+
+  // Prefill the form from the submission and show the moderator's comments when revising
+  useEffect(() => {
+    if (!isRevising || !reviseToken) return;
+
+    async function fetchSubmission() {
+      try {
+        const params = new URLSearchParams({ token: reviseToken as string });
+        const response = await fetch(`/api/submit-event/revision?${params.toString()}`);
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load submission');
+        }
+
+        setFormData(getFormData(result.fields, result.submission.organizerEmail));
+        setReviewFeedback(result.changeRequest);
+      } catch (error) {
+        console.error('Failed to load submission for revising:', error);
+        setLoadError(error instanceof Error ? error.message : 'Failed to load submission');
+      } finally {
+        setIsLoadingEvent(false);
+      }
+    }
+    fetchSubmission();
+  }, [isRevising, reviseToken]);
+
+  // Resume a saved draft (the newer of the local and server copies)
+  useEffect(() => {
+    if (isEditing || isRevising || !draftId) return;
+    const id = draftId;
+
+    async function restoreDraft() {
+      let draft = getEventDraft(id);
+      try {
+        const response = await fetch(`/api/my-events/drafts?${new URLSearchParams({ draftId: id }).toString()}`);
+        if (response.ok) {
+          const { draft: stored } = await response.json();
+          if (!draft || stored.updatedAt > draft.updatedAt) {
+            draft = { id, title: stored.title, fields: stored.fields, updatedAt: stored.updatedAt };
+          }
+        } else if (response.status === 401) {
+          syncDraftsRef.current = false;
+        }
+      } catch (error) {
+        console.error('Failed to load server draft:', error);
+      }
+
+      if (draft) {
+        setFormData({ ...EMPTY_FORM, ...(draft.fields as Partial<FormData>) });
+        setDraftSavedAt(draft.updatedAt);
+      } else {
+        draftIdRef.current = null;
+        setDraftNotice('That draft could not be found, so you are starting a new event.');
+      }
+      setIsDraftReady(true);
+    }
+    restoreDraft();
+  }, [draftId, isEditing, isRevising]);
+
+  // Autosave the draft locally, and to the organizer's account when signed in
+  useEffect(() => {
+    if (isEditing || isRevising || !isDraftReady || isSuccess || !hasDraftContent(formData)) return;
+
+    const timer = setTimeout(async () => {
+      let id = draftIdRef.current;
+      if (!id) {
+        id = createDraftId();
+        draftIdRef.current = id;
+        // Reloading the page resumes this draft
+        window.history.replaceState(null, '', `${window.location.pathname}?draft=${id}`);
+      }
+
+      const title = formData.title.trim();
+      try {
+        const saved = saveEventDraft({ id, title, fields: { ...formData } });
+        setDraftSavedAt(saved.updatedAt);
+      } catch (error) {
+        console.warn('Could not save draft to localStorage:', error);
+      }
+
+      if (!syncDraftsRef.current) return;
+      try {
+        const response = await fetch('/api/my-events/drafts', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ draftId: id, title, fields: formData }),
+        });
+        if (response.status === 401) {
+          syncDraftsRef.current = false;
+        }
+      } catch (error) {
+        console.error('Failed to save draft to server:', error);
+      }
+    }, DRAFT_SAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [formData, isEditing, isRevising, isDraftReady, isSuccess]);
+
   // Fetch countries on mount
   useEffect(() => {
     async function fetchCountries() {
@@ -242,11 +623,12 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
       setFormData((prev) => ({ ...prev, [name]: value }));
     }
     
-    // Clear error when user types
-    if (errors[name]) {
+    // Clear error when user types (repeat fields share one error)
+    const errorKey = name.startsWith('repeat') ? 'recurrence' : name;
+    if (errors[errorKey]) {
       setErrors((prev) => {
         const newErrors = { ...prev };
-        delete newErrors[name];
+        delete newErrors[errorKey];
         return newErrors;
       });
     }
@@ -277,7 +659,7 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
   /**
    * Handle image selection
    */
-  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
@@ -307,6 +689,13 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
       setImagePreview(reader.result as string);
     };
     reader.readAsDataURL(file);
+
+    // Upload straight away so a draft keeps the cover image
+    const uploaded = await uploadImage(file);
+    if (uploaded) {
+      setImageFile(null);
+      setFormData((prev) => ({ ...prev, coverImageUid: uploaded.uid, coverImageUrl: uploaded.url }));
+    }
   };
 
   /**
@@ -321,13 +710,11 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
   /**
    * Upload image to Contentstack
    */
-  const uploadImage = async (): Promise<{ uid: string; url: string } | null> => {
-    if (!imageFile) return null;
-
+  const uploadImage = async (file: File): Promise<{ uid: string; url: string } | null> => {
     setIsUploadingImage(true);
     try {
       const formData = new FormData();
-      formData.append('file', imageFile);
+      formData.append('file', file);
 
       const response = await fetch('/api/upload-asset', {
         method: 'POST',
@@ -351,6 +738,83 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
     }
   };
 
+  /**
+   * Toggle a weekday for weekly repeats
+   */
+  const handleRepeatDayToggle = (day: Weekday) => {
+    setFormData((prev) => ({
+      ...prev,
+      repeatDays: prev.repeatDays.includes(day)
+        ? prev.repeatDays.filter((d) => d !== day)
+        : [...prev.repeatDays, day],
+    }));
+
+    if (errors.recurrence) {
+      setErrors((prev) => {
+        const newErrors = { ...prev };
+        delete newErrors.recurrence;
+        return newErrors;
+      });
+    }
+  };
+
+  /**
+   * Shift editing (shifts share one error)
+   */
+  const clearShiftError = () => {
+    if (errors.shifts) {
+      setErrors((prev) => {
+        const newErrors = { ...prev };
+        delete newErrors.shifts;
+        return newErrors;
+      });
+    }
+  };
+
+  const handleShiftChange = (index: number, field: keyof ShiftRow, value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      shifts: prev.shifts.map((shift, i) => (i === index ? { ...shift, [field]: value } : shift)),
+    }));
+    clearShiftError();
+  };
+
+  const handleAddShift = () => {
+    setFormData((prev) => ({
+      ...prev,
+      shifts: [
+        ...prev.shifts,
+        {
+          id: '',
+          label: '',
+          date: prev.startDate,
+          startTime: prev.startTime,
+          endTime: prev.endTime,
+          spots: '',
+        },
+      ],
+    }));
+  };
+
+  const handleRemoveShift = (index: number) => {
+    setFormData((prev) => ({ ...prev, shifts: prev.shifts.filter((_, i) => i !== index) }));
+    clearShiftError();
+  };
+
+  // Live summary of the repeat schedule
+  const recurrenceRule = useMemo(() => buildRecurrenceRule(formData), [formData]);
+  const recurrencePreview = useMemo(() => {
+    if (!recurrenceRule || !formData.startDate) return null;
+    if (!recurrenceRule.count && !recurrenceRule.until) return null;
+
+    const sessions = expandOccurrences(recurrenceRule, formData.startDate);
+    return {
+      description: describeRecurrence(recurrenceRule, formData.startDate),
+      count: sessions.length,
+      lastDate: sessions[sessions.length - 1],
+    };
+  }, [recurrenceRule, formData.startDate]);
+
   /**
    * Handle virtual toggle
    */
@@ -366,6 +830,41 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
     }));
   };
 
+  /**
+   * Delete the current draft locally and from the organizer's account
+   */
+  const removeDraft = () => {
+    const id = draftIdRef.current;
+    draftIdRef.current = null;
+    setDraftSavedAt(null);
+    if (!id) return;
+
+    removeEventDraft(id);
+    if (syncDraftsRef.current) {
+      fetch(`/api/my-events/drafts?${new URLSearchParams({ draftId: id }).toString()}`, {
+        method: 'DELETE',
+      }).catch((error) => console.error('Failed to delete server draft:', error));
+    }
+  };
+
+  /**
+   * Discard the draft and start over with an empty form
+   */
+  const handleDiscardDraft = () => {
+    if (!window.confirm('Discard this draft? Everything you have entered will be cleared.')) {
+      return;
+    }
+
+    removeDraft();
+    setFormData(EMPTY_FORM);
+    setImageFile(null);
+    setImagePreview(null);
+    setErrors({});
+    setSubmitError(null);
+    setDraftNotice(null);
+    window.history.replaceState(null, '', window.location.pathname);
+  };
+
   /**
    * Validate form before submission
    */
@@ -397,7 +896,7 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
 
     if (!formData.startDate) {
       newErrors.startDate = 'Start date is required';
-    } else {
+    } else if (!isEditing || formData.startDate !== originalStartDate) {
       const startDate = new Date(formData.startDate);
       const today = new Date();
       today.setHours(0, 0, 0, 0);
@@ -406,6 +905,23 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
       }
     }
 
+    if (recurrenceRule && formData.startDate) {
+      const recurrenceErrors = validateRecurrenceRule(recurrenceRule, formData.startDate);
+      if (recurrenceErrors.length > 0) {
+        newErrors.recurrence = recurrenceErrors[0];
+      }
+    }
+
+    if (formData.shifts.length > 0) {
+      const { errors: shiftErrors } = parseShiftInput(toShiftInput(formData.shifts), {
+        startDate: formData.startDate,
+        endDate: formData.endDate || formData.startDate,
+      });
+      if (shiftErrors.length > 0) {
+        newErrors.shifts = shiftErrors[0];
+      }
+    }
+
     if (!formData.organizerEmail.trim()) {
       newErrors.organizerEmail = 'Contact email is required';
     } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.organizerEmail)) {
@@ -430,27 +946,30 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
     setIsSubmitting(true);
 
     try {
-      // Upload image first if selected
+      // Retry the image upload if it failed when the image was chosen
       let coverImageData: { uid: string; url: string } | null = null;
       if (imageFile) {
-        coverImageData = await uploadImage();
+        coverImageData = await uploadImage(imageFile);
         if (!coverImageData) {
           setIsSubmitting(false);
           return; // Upload failed, error already set
         }
       }
 
-      const response = await fetch('/api/submit-event', {
+      // Edits go to review as a diff against the published event
+      const response = await fetch(isEditing ? '/api/my-events/edit-request' : '/api/submit-event', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
+          ...(isEditing ? { opportunityId: editOpportunityId } : {}),
+          ...(isRevising ? { reviseToken } : {}),
           title: formData.title,
           summary: formData.summary,
           description: formData.description,
-          coverImageUid: coverImageData?.uid || '',
-          coverImageUrl: coverImageData?.url || '',
+          coverImageUid: coverImageData?.uid || formData.coverImageUid,
+          coverImageUrl: coverImageData?.url || formData.coverImageUrl,
           country: formData.country,
           state: formData.state,
           city: formData.city,
@@ -459,12 +978,18 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
           contributionTypes: formData.contributionTypes,
           causes: formData.causes,
           startDate: formData.startDate,
-          endDate: formData.endDate,
+          // Repeating events end on their last session, worked out on the server
+          endDate: recurrenceRule ? '' : formData.endDate,
           startTime: formData.startTime,
           endTime: formData.endTime,
+          recurrenceRule: recurrenceRule ? serializeRecurrenceRule(recurrenceRule) : '',
+          // Shifts carry their own spots instead of the event-wide capacity
+          shifts: toShiftInput(formData.shifts),
           organizerEmail: formData.organizerEmail,
           organizerName: formData.organizerName,
-          spotsAvailable: formData.spotsAvailable ? parseInt(formData.spotsAvailable) : undefined,
+          spotsAvailable: formData.spotsAvailable && formData.shifts.length === 0
+            ? parseInt(formData.spotsAvailable)
+            : undefined,
           requirements: formData.requirements,
         }),
       });
@@ -480,6 +1005,15 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
         return;
       }
 
+      // Edits and revisions are already listed on My Events
+      if (isEditing || isRevising) {
+        setIsSuccess(true);
+        return;
+      }
+
+      // The draft has become a submission
+      removeDraft();
+
       // Save to localStorage for "My Events" page
       try {
         addCreatedEvent({
@@ -501,6 +1035,75 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
     }
   };
 
+  /**
+   * Moderator comments on the given fields, shown under the matching inputs
+   */
+  const renderReviewComments = (...fields: EditableEventField[]) =>
+    reviewFeedback?.comments
+      .filter((item) => fields.includes(item.field))
+      .map((item) => (
+        <span key={item.field} className={styles.reviewComment}>
+          <strong>Moderator:</strong> {item.comment}
+        </span>
+      ));
+
+  if (((isEditing || isRevising) && isLoadingEvent) || !isDraftReady) {
+    return (
+      <div className={styles.formContainer}>
+        <p className={styles.helperText}>
+          {isEditing ? 'Loading event...' : isRevising ? 'Loading submission...' : 'Loading draft...'}
+        </p>
+      </div>
+    );
+  }
+
+  if ((isEditing || isRevising) && loadError) {
+    return (
+      <div className={styles.formContainer}>
+        <div className={styles.globalError}>{loadError}</div>
+        <Link href="/my-events" className={styles.successButton}>
+          Back to My Events
+        </Link>
+      </div>
+    );
+  }
+
+  // Edit request submitted
+  if (isEditing && isSuccess) {
+    return (
+      <div className={styles.formContainer}>
+        <div className={styles.successMessage}>
+          <div className={styles.successIcon}>📝</div>
+          <h2 className={styles.successTitle}>Changes Submitted!</h2>
+          <p className={styles.successText}>
+            Our team will review your changes shortly. The published event stays as it is until they are approved, and registrants will be emailed if the date, time or location changes.
+          </p>
+          <Link href={`/my-events/${editOpportunityId}`} className={styles.successButton}>
+            Back to Event Dashboard
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  // Revision resubmitted
+  if (isRevising && isSuccess) {
+    return (
+      <div className={styles.formContainer}>
+        <div className={styles.successMessage}>
+          <div className={styles.successIcon}>📝</div>
+          <h2 className={styles.successTitle}>Changes Resubmitted!</h2>
+          <p className={styles.successText}>
+            Thanks for updating your event. Our team will review the new version shortly and email you once it is approved.
+          </p>
+          <Link href="/my-events" className={styles.successButton}>
+            Go to My Events
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
   // Success state
   if (isSuccess) {
     return (
@@ -522,9 +1125,15 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
   return (
     <div className={styles.formContainer}>
       <header className={styles.formHeader}>
-        <h1 className={styles.formTitle}>{content.page_title || 'Create an Event'}</h1>
+        <h1 className={styles.formTitle}>
+          {isEditing ? 'Edit Event' : isRevising ? 'Revise Your Event' : content.page_title || 'Create an Event'}
+        </h1>
         <p className={styles.formSubtitle}>
-          {content.page_subtitle || 'Submit your event for review. Once approved, it will be visible to the community.'}
+          {isEditing
+            ? 'Propose changes to your published event. Our team reviews them before they go live.'
+            : isRevising
+            ? 'Our team asked for a few changes before publishing. Update the event and resubmit it for review.'
+            : content.page_subtitle || 'Submit your event for review. Once approved, it will be visible to the community.'}
         </p>
       </header>
 
@@ -533,6 +1142,33 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
           <div className={styles.globalError}>{submitError}</div>
         )}
 
+        {draftNotice && (
+          <div className={styles.pendingNotice}>{draftNotice}</div>
+        )}
+
+        {reviewFeedback && (
+          <div className={styles.pendingNotice}>
+            <strong>Changes requested</strong>
+            {reviewFeedback.note && <p className={styles.reviewNote}>{reviewFeedback.note}</p>}
+            {reviewFeedback.comments.length > 0 && (
+              <ul className={styles.reviewCommentList}>
+                {reviewFeedback.comments.map((item) => (
+                  <li key={item.field}>
+                    <strong>{item.label}:</strong> {item.comment}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {pendingEdit && (
+          <div className={styles.pendingNotice}>
+            Changes submitted on {new Date(pendingEdit.submittedAt).toLocaleDateString()} are still awaiting review.
+            Submitting again replaces them.
+          </div>
+        )}
+
         {/* Basic Info Section */}
         <div className={styles.sectionTitle}>{content.section_details_title || 'Event Details'}</div>
 
@@ -551,6 +1187,7 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
             maxLength={100}
           />
           {errors.title && <span className={styles.errorText}>{errors.title}</span>}
+          {renderReviewComments('title')}
         </div>
 
         <div className={styles.fieldGroup}>
@@ -567,6 +1204,7 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
             maxLength={300}
           />
           {errors.summary && <span className={styles.errorText}>{errors.summary}</span>}
+          {renderReviewComments('summary')}
           <span className={styles.helperText}>{formData.summary.length}/300 characters</span>
         </div>
 
@@ -585,16 +1223,17 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
             maxLength={2000}
           />
           <span className={styles.helperText}>Optional - {formData.description.length}/2000 characters</span>
+          {renderReviewComments('description')}
         </div>
 
         <div className={styles.fieldGroup}>
           <label className={styles.label}>
             Cover Image
           </label>
-          {imagePreview ? (
+          {imagePreview || formData.coverImageUrl ? (
             <div className={styles.imagePreviewContainer}>
               <img
-                src={imagePreview}
+                src={imagePreview || formData.coverImageUrl}
                 alt="Cover preview"
                 className={styles.imagePreview}
               />
@@ -625,6 +1264,7 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
           )}
           {errors.coverImage && <span className={styles.errorText}>{errors.coverImage}</span>}
           {isUploadingImage && <span className={styles.helperText}>Uploading image...</span>}
+          {renderReviewComments('coverImageUid', 'coverImageUrl')}
         </div>
 
         <hr className={styles.sectionDivider} />
@@ -641,6 +1281,7 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
             <span className={styles.switch} />
             <span>{content.virtual_label || 'This is a virtual/remote event'}</span>
           </label>
+          {renderReviewComments('isVirtual')}
         </div>
 
         {!formData.isVirtual && (
@@ -669,6 +1310,7 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
                       ))}
                     </select>
                     {errors.country && <span className={styles.errorText}>{errors.country}</span>}
+                    {renderReviewComments('country')}
                   </div>
 
                   <div className={styles.fieldGroup}>
@@ -686,6 +1328,10 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
                       <option value="">
                         {isLoadingStates ? 'Loading...' : 'Select a state'}
                       </option>
+                      {/* Keep a prefilled state selectable even if the list does not include it */}
+                      {formData.state && !isLoadingStates && !states.some((s) => s.name === formData.state) && (
+                        <option value={formData.state}>{formData.state}</option>
+                      )}
                       {states.map((state) => (
                         <option key={state.state_code} value={state.name}>
                           {state.name}
@@ -695,6 +1341,7 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
                     {states.length === 0 && formData.country && !isLoadingStates && (
                       <span className={styles.helperText}>No states available - you can type in city below</span>
                     )}
+                    {renderReviewComments('state')}
                   </div>
                 </div>
 
@@ -713,6 +1360,7 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
                       className={styles.input}
                       required
                     />
+                    {renderReviewComments('city')}
                   </div>
 
                   <div className={styles.fieldGroup}>
@@ -728,6 +1376,7 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
                       placeholder="e.g., Juhu Beach, near lifeguard tower"
                       className={styles.input}
                     />
+                    {renderReviewComments('address')}
                   </div>
                 </div>
               </>
@@ -761,6 +1410,7 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
             ))}
           </div>
           {errors.causes && <span className={styles.errorText}>{errors.causes}</span>}
+          {renderReviewComments('causeSlugs')}
         </div>
 
         <div className={styles.fieldGroup}>
@@ -788,6 +1438,7 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
           {errors.contributionTypes && (
             <span className={styles.errorText}>{errors.contributionTypes}</span>
           )}
+          {renderReviewComments('contributionTypes')}
         </div>
 
         <hr className={styles.sectionDivider} />
@@ -808,25 +1459,197 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
               className={`${styles.input} ${errors.startDate ? styles.inputError : ''}`}
             />
             {errors.startDate && <span className={styles.errorText}>{errors.startDate}</span>}
+            {renderReviewComments('startDate')}
           </div>
 
+          {!formData.repeat && (
+            <div className={styles.fieldGroup}>
+              <label htmlFor="endDate" className={styles.label}>
+                End Date
+              </label>
+              <input
+                type="date"
+                id="endDate"
+                name="endDate"
+                value={formData.endDate}
+                onChange={handleInputChange}
+                min={formData.startDate || new Date().toISOString().split('T')[0]}
+                className={styles.input}
+              />
+              <span className={styles.helperText}>Optional - for multi-day events</span>
+              {renderReviewComments('endDate')}
+            </div>
+          )}
+        </div>
+
+        {/* Recurrence */}
+        <div className={styles.fieldRow}>
           <div className={styles.fieldGroup}>
-            <label htmlFor="endDate" className={styles.label}>
-              End Date
+            <label htmlFor="repeat" className={styles.label}>
+              Repeats
             </label>
-            <input
-              type="date"
-              id="endDate"
-              name="endDate"
-              value={formData.endDate}
+            <select
+              id="repeat"
+              name="repeat"
+              value={formData.repeat}
               onChange={handleInputChange}
-              min={formData.startDate || new Date().toISOString().split('T')[0]}
-              className={styles.input}
-            />
-            <span className={styles.helperText}>Optional - for multi-day events</span>
+              className={styles.select}
+              disabled={formData.shifts.length > 0}
+            >
+              <option value="">Does not repeat</option>
+              <option value="DAILY">Daily</option>
+              <option value="WEEKLY">Weekly</option>
+              <option value="MONTHLY">Monthly</option>
+            </select>
+            <span className={styles.helperText}>
+              {formData.shifts.length > 0
+                ? 'Events with shifts cannot repeat'
+                : 'For regular sessions like weekly tutoring or a monthly blood drive'}
+            </span>
+            {renderReviewComments('recurrenceRule')}
           </div>
+
+          {formData.repeat && (
+            <div className={styles.fieldGroup}>
+              <label htmlFor="repeatInterval" className={styles.label}>
+                Every
+              </label>
+              <div className={styles.inlineField}>
+                <input
+                  type="number"
+                  id="repeatInterval"
+                  name="repeatInterval"
+                  value={formData.repeatInterval}
+                  onChange={handleInputChange}
+                  min="1"
+                  max="12"
+                  className={`${styles.input} ${styles.shortInput}`}
+                />
+                <span>{REPEAT_UNITS[formData.repeat]}</span>
+              </div>
+            </div>
+          )}
         </div>
 
+        {formData.repeat === 'WEEKLY' && (
+          <div className={styles.fieldGroup}>
+            <span className={styles.label}>On</span>
+            <div className={styles.checkboxGroup}>
+              {WEEKDAYS.map((day) => {
+                // The start date's weekday is used when none are picked
+                const isChecked = formData.repeatDays.length > 0
+                  ? formData.repeatDays.includes(day)
+                  : !!formData.startDate && getWeekday(formData.startDate) === day;
+                return (
+                  <label
+                    key={day}
+                    className={`${styles.checkboxLabel} ${isChecked ? styles.checked : ''}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={isChecked}
+                      onChange={() => handleRepeatDayToggle(day)}
+                      className={styles.checkboxInput}
+                    />
+                    {WEEKDAY_LABELS[day]}
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {formData.repeat === 'MONTHLY' && (
+          <div className={styles.fieldGroup}>
+            <label htmlFor="repeatMonthlyBy" className={styles.label}>
+              On
+            </label>
+            <select
+              id="repeatMonthlyBy"
+              name="repeatMonthlyBy"
+              value={formData.repeatMonthlyBy}
+              onChange={handleInputChange}
+              className={styles.select}
+            >
+              <option value="day">The same day of the month as the start date</option>
+              <option value="weekday">The same weekday of the month (e.g. first Saturday)</option>
+            </select>
+          </div>
+        )}
+
+        {formData.repeat && (
+          <div className={styles.fieldRow}>
+            <div className={styles.fieldGroup}>
+              <label htmlFor="repeatEnds" className={styles.label}>
+                Ends <span className={styles.required}>*</span>
+              </label>
+              <select
+                id="repeatEnds"
+                name="repeatEnds"
+                value={formData.repeatEnds}
+                onChange={handleInputChange}
+                className={styles.select}
+              >
+                <option value="until">On a date</option>
+                <option value="count">After a number of sessions</option>
+              </select>
+            </div>
+
+            <div className={styles.fieldGroup}>
+              {formData.repeatEnds === 'until' ? (
+                <>
+                  <label htmlFor="repeatUntil" className={styles.label}>
+                    Last Date
+                  </label>
+                  <input
+                    type="date"
+                    id="repeatUntil"
+                    name="repeatUntil"
+                    value={formData.repeatUntil}
+                    onChange={handleInputChange}
+                    min={formData.startDate || new Date().toISOString().split('T')[0]}
+                    className={`${styles.input} ${errors.recurrence ? styles.inputError : ''}`}
+                  />
+                </>
+              ) : (
+                <>
+                  <label htmlFor="repeatCount" className={styles.label}>
+                    Sessions
+                  </label>
+                  <input
+                    type="number"
+                    id="repeatCount"
+                    name="repeatCount"
+                    value={formData.repeatCount}
+                    onChange={handleInputChange}
+                    min="2"
+                    max={MAX_OCCURRENCES}
+                    className={`${styles.input} ${errors.recurrence ? styles.inputError : ''}`}
+                  />
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        {formData.repeat && (errors.recurrence || recurrencePreview) && (
+          <div className={styles.fieldGroup}>
+            {errors.recurrence ? (
+              <span className={styles.errorText}>{errors.recurrence}</span>
+            ) : recurrencePreview && (
+              <span className={styles.helperText}>
+                {recurrencePreview.description} · {recurrencePreview.count} sessions, the last on{' '}
+                {new Date(`${recurrencePreview.lastDate}T00:00:00Z`).toLocaleDateString('en-US', {
+                  month: 'short',
+                  day: 'numeric',
+                  year: 'numeric',
+                  timeZone: 'UTC',
+                })}
+              </span>
+            )}
+          </div>
+        )}
+
         <div className={styles.fieldRow}>
           <div className={styles.fieldGroup}>
             <label htmlFor="startTime" className={styles.label}>
@@ -840,6 +1663,7 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
               onChange={handleInputChange}
               className={styles.input}
             />
+            {renderReviewComments('startTime')}
           </div>
 
           <div className={styles.fieldGroup}>
@@ -854,9 +1678,80 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
               onChange={handleInputChange}
               className={styles.input}
             />
+            {renderReviewComments('endTime')}
           </div>
         </div>
 
+        {/* Shifts */}
+        {!formData.repeat && (
+          <div className={styles.fieldGroup}>
+            <span className={styles.label}>Shifts</span>
+            <span className={styles.helperText}>
+              Optional - split the event into time slots or roles (e.g., water stations),
+              each with its own number of volunteers
+            </span>
+            {formData.shifts.map((shift, index) => (
+              <div key={index} className={styles.shiftRow}>
+                <input
+                  type="text"
+                  aria-label={`Shift ${index + 1} label`}
+                  value={shift.label}
+                  onChange={(e) => handleShiftChange(index, 'label', e.target.value)}
+                  placeholder="e.g., Water station 3"
+                  className={styles.input}
+                />
+                <input
+                  type="date"
+                  aria-label={`Shift ${index + 1} date`}
+                  value={shift.date}
+                  onChange={(e) => handleShiftChange(index, 'date', e.target.value)}
+                  min={formData.startDate || undefined}
+                  max={formData.endDate || formData.startDate || undefined}
+                  className={styles.input}
+                />
+                <input
+                  type="time"
+                  aria-label={`Shift ${index + 1} start time`}
+                  value={shift.startTime}
+                  onChange={(e) => handleShiftChange(index, 'startTime', e.target.value)}
+                  className={styles.input}
+                />
+                <input
+                  type="time"
+                  aria-label={`Shift ${index + 1} end time`}
+                  value={shift.endTime}
+                  onChange={(e) => handleShiftChange(index, 'endTime', e.target.value)}
+                  className={styles.input}
+                />
+                <input
+                  type="number"
+                  aria-label={`Shift ${index + 1} spots`}
+                  value={shift.spots}
+                  onChange={(e) => handleShiftChange(index, 'spots', e.target.value)}
+                  placeholder="Spots"
+                  min="1"
+                  className={`${styles.input} ${styles.shortInput}`}
+                />
+                <button
+                  type="button"
+                  onClick={() => handleRemoveShift(index)}
+                  className={styles.removeShiftButton}
+                  aria-label={`Remove shift ${index + 1}`}
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            {errors.shifts && <span className={styles.errorText}>{errors.shifts}</span>}
+            {renderReviewComments('shifts')}
+            {formData.shifts.length < MAX_SHIFTS && (
+              <button type="button" onClick={handleAddShift} className={styles.addShiftButton}>
+                + Add shift
+              </button>
+            )}
+          </div>
+        )}
+
         <hr className={styles.sectionDivider} />
         <div className={styles.sectionTitle}>Additional Details</div>
 
@@ -869,13 +1764,19 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
               type="number"
               id="spotsAvailable"
               name="spotsAvailable"
-              value={formData.spotsAvailable}
+              value={formData.shifts.length > 0 ? '' : formData.spotsAvailable}
               onChange={handleInputChange}
-              placeholder="e.g., 50"
+              placeholder={formData.shifts.length > 0 ? 'Set per shift' : 'e.g., 50'}
               min="1"
+              disabled={formData.shifts.length > 0}
               className={styles.input}
             />
-            <span className={styles.helperText}>Optional - leave blank for unlimited</span>
+            <span className={styles.helperText}>
+              {formData.shifts.length > 0
+                ? 'Each shift has its own spots'
+                : 'Optional - leave blank for unlimited'}
+            </span>
+            {renderReviewComments('spotsAvailable')}
           </div>
 
           <div className={styles.fieldGroup}>
@@ -891,6 +1792,7 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
               placeholder="e.g., Bring gloves, wear comfortable shoes, any notes..."
               className={styles.input}
             />
+            {renderReviewComments('requirements')}
           </div>
         </div>
 
@@ -911,6 +1813,7 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
               placeholder="e.g., Green Earth Foundation"
               className={styles.input}
             />
+            {renderReviewComments('organizerName')}
           </div>
 
           <div className={styles.fieldGroup}>
@@ -925,7 +1828,11 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
               onChange={handleInputChange}
               placeholder="your@email.com"
               className={`${styles.input} ${errors.organizerEmail ? styles.inputError : ''}`}
+              readOnly={isEditing || isRevising}
             />
+            {(isEditing || isRevising) && (
+              <span className={styles.helperText}>The organizer email cannot be changed</span>
+            )}
             {errors.organizerEmail && (
               <span className={styles.errorText}>{errors.organizerEmail}</span>
             )}
@@ -935,14 +1842,30 @@ export function CreateEventForm({ content }: CreateEventFormProps) {
         <button
           type="submit"
           className={styles.submitButton}
-          disabled={isSubmitting}
+          disabled={isSubmitting || isUploadingImage}
         >
-          {isSubmitting ? 'Submitting...' : 'Submit Event for Review'}
+          {isSubmitting
+            ? 'Submitting...'
+            : isEditing ? 'Submit Changes for Review'
+            : isRevising ? 'Resubmit for Review' : 'Submit Event for Review'}
         </button>
 
         <p className={styles.helperText} style={{ textAlign: 'center' }}>
-          Your event will be reviewed by our team before being published.
+          {isEditing || isRevising
+            ? 'Your changes will be reviewed by our team before being published.'
+            : 'Your event will be reviewed by our team before being published.'}
         </p>
+
+        {!isEditing && draftSavedAt && (
+          <div className={styles.draftStatus}>
+            <span className={styles.helperText}>
+              Draft saved at {new Date(draftSavedAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+            </span>
+            <button type="button" onClick={handleDiscardDraft} className={styles.discardDraftButton}>
+              Discard draft
+            </button>
+          </div>
+        )}
       </form>
     </div>
   );
@@ -9,6 +9,7 @@ import type { OpportunitySummary } from '@/types';
 import { ContributionTypeLabels } from '@/types';
 import { formatDisplayDate, formatTime, getRelativeDateLabel } from '@/lib/utils';
 import { getCauseColor, formatCauseName } from '@/lib/causeColors';
+import { formatRecurrenceShort, parseRecurrenceRule } from '@/lib/recurrence';
 import styles from './OpportunityCard.module.css';
 
 interface OpportunityCardProps {
@@ -37,13 +38,20 @@ export function OpportunityCard({
     startDate,
     startTime,
     spotsAvailable,
+    spotsRemaining,
     status,
+    recurrencePattern,
   } = opportunity;
 
-  const relativeDate = startDate ? getRelativeDateLabel(startDate) : null;
+  const isCancelled = status === 'cancelled';
+  const relativeDate = startDate && !isCancelled ? getRelativeDateLabel(startDate) : null;
   const displayDate = startDate ? formatDisplayDate(startDate) : 'Date TBD';
   const displayTime = startTime ? formatTime(startTime) : null;
-  const spotsLow = spotsAvailable !== undefined && spotsAvailable <= 5 && spotsAvailable > 0;
+  // Recurring series are listed at their next session
+  const recurrence = parseRecurrenceRule(recurrencePattern);
+  // Prefer live counts from the registration store over the CMS capacity
+  const spotsLeft = spotsRemaining ?? spotsAvailable;
+  const spotsLow = spotsLeft !== undefined && spotsLeft <= 5 && spotsLeft > 0;
 
   // Build location display string
   const locationDisplay = isVirtual 
@@ -52,8 +60,8 @@ export function OpportunityCard({
 
   return (
     <article
-      className={`${styles.card} ${status === 'completed' ? styles.statusCompleted : ''}`}
-      aria-label={`Opportunity: ${title}`}
+      className={`${styles.card} ${status === 'completed' ? styles.statusCompleted : ''} ${isCancelled ? styles.statusCancelled : ''}`}
+      aria-label={`Opportunity: ${title}${isCancelled ? ' (cancelled)' : ''}`}
     >
       {/* Cover Image */}
       <div className={styles.imageWrapper}>
@@ -76,6 +84,11 @@ export function OpportunityCard({
 
         {/* Badges */}
         <div className={styles.badges}>
+          {isCancelled && (
+            <span className={`${styles.badge} ${styles.cancelledBadge}`}>
+              Cancelled
+            </span>
+          )}
           {relativeDate && (
             <span className={`${styles.badge} ${styles.dateBadge}`}>
               {relativeDate}
@@ -86,6 +99,11 @@ export function OpportunityCard({
               Virtual
             </span>
           )}
+          {recurrence && (
+            <span className={`${styles.badge} ${styles.recurringBadge}`}>
+              Repeats {formatRecurrenceShort(recurrence).toLowerCase()}
+            </span>
+          )}
         </div>
       </div>
 
@@ -134,6 +152,7 @@ export function OpportunityCard({
               <path d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 0 0 2-2V7a2 2 0 0 0-2-2H5a2 2 0 0 0-2 2v12a2 2 0 0 0 2 2Z" />
             </svg>
             <span>
+              {recurrence && 'Next: '}
               {displayDate}
               {displayTime && ` at ${displayTime}`}
             </span>
@@ -149,15 +168,15 @@ export function OpportunityCard({
           </div>
 
           {/* Spots Available */}
-          {spotsAvailable !== undefined && (
+          {spotsLeft !== undefined && !isCancelled && (
             <div className={`${styles.spots} ${spotsLow ? styles.spotsLow : ''}`}>
               <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" aria-hidden="true">
                 <path d="M15 19.128a9.38 9.38 0 0 0 2.625.372 9.337 9.337 0 0 0 4.121-.952 4.125 4.125 0 0 0-7.533-2.493M15 19.128v-.003c0-1.113-.285-2.16-.786-3.07M15 19.128v.106A12.318 12.318 0 0 1 8.624 21c-2.331 0-4.512-.645-6.374-1.766l-.001-.109a6.375 6.375 0 0 1 11.964-3.07M12 6.375a3.375 3.375 0 1 1-6.75 0 3.375 3.375 0 0 1 6.75 0Zm8.25 2.25a2.625 2.625 0 1 1-5.25 0 2.625 2.625 0 0 1 5.25 0Z" />
               </svg>
               <span>
-                {spotsAvailable === 0
+                {spotsLeft === 0
                   ? 'No spots left'
-                  : `${spotsAvailable} spot${spotsAvailable !== 1 ? 's' : ''} left`}
+                  : `${spotsLeft} spot${spotsLeft !== 1 ? 's' : ''} left`}
               </span>
             </div>
           )}
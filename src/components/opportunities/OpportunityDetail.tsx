@@ -5,12 +5,21 @@
  */
 
 import Image from 'next/image';
+import Link from 'next/link';
 import type { Opportunity } from '@/types';
 import { ContributionTypeLabels, ContributionType } from '@/types';
 import { formatDisplayDate, formatTime } from '@/lib/utils';
 import { isPast } from '@/lib/utils/dates';
+import { describeRecurrence, getUpcomingOccurrences, parseRecurrenceRule } from '@/lib/recurrence';
+import { formatShiftTime } from '@/lib/shifts';
+import { OrganizerBadge } from '@/components/ui';
 import styles from './OpportunityDetail.module.css';
 
+/**
+ * Sessions listed for recurring opportunities
+ */
+const UPCOMING_SESSIONS_SHOWN = 6;
+
 interface OpportunityDetailProps {
   opportunity: Opportunity;
   onRegisterClick: () => void;
@@ -19,9 +28,11 @@ interface OpportunityDetailProps {
 export function OpportunityDetail({ opportunity, onRegisterClick }: OpportunityDetailProps) {
   const {
     title,
+    slug,
     summary,
     description,
     coverImage,
+    organizer,
     organizerName,
     organizerEmail,
     causeSlugs,
@@ -36,20 +47,35 @@ export function OpportunityDetail({ opportunity, onRegisterClick }: OpportunityD
     startTime,
     endTime,
     spotsAvailable,
+    spotsRemaining,
     requirements,
     status,
+    cancellationReason,
+    recurrencePattern,
+    shifts = [],
   } = opportunity;
 
   const displayDate = formatDisplayDate(startDate);
   const displayEndDate = endDate ? formatDisplayDate(endDate) : null;
   const displayTime = startTime ? formatTime(startTime) : null;
   const displayEndTime = endTime ? formatTime(endTime) : null;
-  const spotsLow = spotsAvailable !== undefined && spotsAvailable <= 5 && spotsAvailable > 0;
-  const isFull = spotsAvailable === 0;
+  // Prefer live counts from the registration store over the CMS capacity
+  const spotsLeft = spotsRemaining ?? spotsAvailable;
+  const spotsLow = spotsLeft !== undefined && spotsLeft <= 5 && spotsLeft > 0;
+  const isFull = spotsLeft === 0;
   
-  // Check if opportunity is completed (by status or date)
+  // Recurring opportunities list their next sessions
+  const recurrence = parseRecurrenceRule(recurrencePattern);
+  const upcomingSessions = recurrence ? getUpcomingOccurrences(opportunity, UPCOMING_SESSIONS_SHOWN) : [];
+
+  // Opportunities with shifts list the ones still to come, each with its own spots
+  const upcomingShifts = shifts.filter((shift) => !isPast(shift.date));
+
+  // Check if opportunity is completed (by status or date; recurring ones once no sessions are left)
   const eventDate = endDate || startDate;
-  const isCompleted = status === 'completed' || status === 'cancelled' || (eventDate ? isPast(eventDate) : false);
+  const isCancelled = status === 'cancelled';
+  const hasEnded = recurrence ? upcomingSessions.length === 0 : (eventDate ? isPast(eventDate) : false);
+  const isCompleted = status === 'completed' || isCancelled || hasEnded;
 
   // Build location string
   const locationParts = [city, state, country].filter(Boolean);
@@ -92,6 +118,11 @@ export function OpportunityDetail({ opportunity, onRegisterClick }: OpportunityD
                 Happening Now
               </span>
             )}
+            {isCancelled && (
+              <span className={`${styles.badge} ${styles.cancelledBadge}`}>
+                Cancelled
+              </span>
+            )}
           </div>
         </div>
 
@@ -119,10 +150,17 @@ export function OpportunityDetail({ opportunity, onRegisterClick }: OpportunityD
               <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
                 <path d="M6.75 3v2.25M17.25 3v2.25M3 18.75V7.5a2.25 2.25 0 0 1 2.25-2.25h13.5A2.25 2.25 0 0 1 21 7.5v11.25m-18 0A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75m-18 0v-7.5A2.25 2.25 0 0 1 5.25 9h13.5A2.25 2.25 0 0 1 21 11.25v7.5" />
               </svg>
-              <span>
-                {displayDate}
-                {displayEndDate && displayEndDate !== displayDate && ` - ${displayEndDate}`}
-              </span>
+              {recurrence ? (
+                <span>
+                  {describeRecurrence(recurrence, startDate)}
+                  {upcomingSessions[0] && ` · Next: ${formatDisplayDate(upcomingSessions[0])}`}
+                </span>
+              ) : (
+                <span>
+                  {displayDate}
+                  {displayEndDate && displayEndDate !== displayDate && ` - ${displayEndDate}`}
+                </span>
+              )}
             </div>
 
             {displayTime && (
@@ -145,13 +183,15 @@ export function OpportunityDetail({ opportunity, onRegisterClick }: OpportunityD
               <span>{locationString}</span>
             </div>
 
-            {spotsAvailable !== undefined && (
+            {spotsLeft !== undefined && (
               <div className={`${styles.infoItem} ${spotsLow ? styles.spotsLow : ''}`}>
                 <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
                   <path d="M15 19.128a9.38 9.38 0 0 0 2.625.372 9.337 9.337 0 0 0 4.121-.952 4.125 4.125 0 0 0-7.533-2.493M15 19.128v-.003c0-1.113-.285-2.16-.786-3.07M15 19.128v.106A12.318 12.318 0 0 1 8.624 21c-2.331 0-4.512-.645-6.374-1.766l-.001-.109a6.375 6.375 0 0 1 11.964-3.07M12 6.375a3.375 3.375 0 1 1-6.75 0 3.375 3.375 0 0 1 6.75 0Zm8.25 2.25a2.625 2.625 0 1 1-5.25 0 2.625 2.625 0 0 1 5.25 0Z" />
                 </svg>
                 <span>
-                  {isFull ? 'No spots left' : `${spotsAvailable} spots available`}
+                  {isFull ? 'No spots left' : `${spotsLeft} spot${spotsLeft !== 1 ? 's' : ''} left`}
+                  {recurrence && ' in the next session'}
+                  {shifts.length > 0 && ' across shifts'}
                 </span>
               </div>
             )}
@@ -164,6 +204,18 @@ export function OpportunityDetail({ opportunity, onRegisterClick }: OpportunityD
         <div className={styles.contentGrid}>
           {/* Main Column */}
           <main className={styles.mainContent}>
+            {isCancelled && (
+              <section className={styles.cancelledNotice} role="status">
+                <h2 className={styles.cancelledTitle}>This event has been cancelled</h2>
+                <p>
+                  {cancellationReason || 'The organizer has cancelled this event.'}
+                </p>
+                <p className={styles.cancelledNote}>
+                  Everyone who registered has been notified by email.
+                </p>
+              </section>
+            )}
+
             {/* Description */}
             {description && (
               <section className={styles.section}>
@@ -176,6 +228,54 @@ export function OpportunityDetail({ opportunity, onRegisterClick }: OpportunityD
               </section>
             )}
 
+            {/* Upcoming Sessions */}
+            {recurrence && upcomingSessions.length > 0 && !isCancelled && (
+              <section className={styles.section}>
+                <h2 className={styles.sectionTitle}>Upcoming Sessions</h2>
+                <ul className={styles.sessionList}>
+                  {upcomingSessions.map((session) => (
+                    <li key={session} className={styles.session}>
+                      <span>{formatDisplayDate(session)}</span>
+                      {displayTime && (
+                        <span className={styles.sessionTime}>
+                          {displayTime}
+                          {displayEndTime && ` - ${displayEndTime}`}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                <p className={styles.sessionNote}>
+                  Register for a single session or the whole series.
+                </p>
+              </section>
+            )}
+
+            {/* Shifts */}
+            {upcomingShifts.length > 0 && !isCancelled && (
+              <section className={styles.section}>
+                <h2 className={styles.sectionTitle}>Shifts</h2>
+                <ul className={styles.sessionList}>
+                  {upcomingShifts.map((shift) => (
+                    <li key={shift.id} className={styles.session}>
+                      <span>
+                        {shift.label}
+                        <span className={styles.sessionTime}> · {formatShiftTime(shift)}</span>
+                      </span>
+                      {shift.spotsRemaining !== undefined && (
+                        <span className={styles.sessionTime}>
+                          {shift.spotsRemaining === 0 ? 'Full' : `${shift.spotsRemaining} left`}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                <p className={styles.sessionNote}>
+                  Sign up for one or more shifts when you register.
+                </p>
+              </section>
+            )}
+
             {/* Contribution Types */}
             {contributionTypes && contributionTypes.length > 0 && (
               <section className={styles.section}>
@@ -223,22 +323,61 @@ export function OpportunityDetail({ opportunity, onRegisterClick }: OpportunityD
               <button
                 onClick={onRegisterClick}
                 className={styles.registerButton}
-                disabled={isFull || isCompleted}
+                disabled={isCompleted}
               >
-                {isFull ? 'No Spots Available' : 
+                {isCancelled ? 'Event Cancelled' :
                  isCompleted ? 'Opportunity Ended' :
+                 isFull && !recurrence ? 'Join Waitlist' :
                  'Register Now'}
               </button>
 
+              {!isCompleted && (
+                <a
+                  href={`/api/calendar/opportunities/${encodeURIComponent(slug)}`}
+                  className={styles.calendarLink}
+                  download
+                >
+                  Add to Calendar (.ics)
+                </a>
+              )}
+
+              {isFull && !recurrence && !isCompleted && (
+                <p className={styles.spotsWarning}>
+                  All spots are taken. Join the waitlist and you will be registered automatically if a spot opens up.
+                </p>
+              )}
+
               {spotsLow && !isFull && (
                 <p className={styles.spotsWarning}>
-                  ⚠️ Only {spotsAvailable} spots left!
+                  ⚠️ Only {spotsLeft} spots left!
                 </p>
               )}
             </div>
 
             {/* Organizer Card */}
-            {organizerName && (
+            {organizer ? (
+              <div className={styles.organizerCard}>
+                <Link href={`/organizers/${organizer.slug}`} className={styles.organizerProfileLink}>
+                  <OrganizerBadge
+                    organizerName={organizer.name}
+                    logoUrl={organizer.logo?.url}
+                    isVerified={organizer.isVerified}
+                    size="large"
+                  />
+                </Link>
+                {organizerEmail && (
+                  <a
+                    href={`mailto:${organizerEmail}`}
+                    className={styles.organizerEmail}
+                  >
+                    {organizerEmail}
+                  </a>
+                )}
+                <Link href={`/organizers/${organizer.slug}`} className={styles.organizerMore}>
+                  More from this organizer →
+                </Link>
+              </div>
+            ) : organizerName && (
               <div className={styles.organizerCard}>
                 <div className={styles.organizerHeader}>
                   <div className={styles.organizerLogoPlaceholder}>
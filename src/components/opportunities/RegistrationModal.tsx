@@ -5,13 +5,19 @@
  * Modal with registration form for opportunities
  */
 
-import { useState, useCallback, useEffect, useRef } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import Image from 'next/image';
-import type { Opportunity } from '@/types';
-import { formatDisplayDate } from '@/lib/utils';
-import { addRegistration, getPrimaryCause } from '@/lib/user';
+import Link from 'next/link';
+import type { Opportunity, RegistrationAnswers, RegistrationAnswerValue } from '@/types';
+import { formatDisplayDate, isPast } from '@/lib/utils';
+import { addRegistration, getPrimaryCause, getRegistrations } from '@/lib/user';
 import { personalizeService } from '@/lib/contentstack/personalize-service';
+import { MAX_GROUP_SIZE } from '@/lib/registrations/group';
+import { validateRegistrationAnswers } from '@/lib/registrations/questions';
+import { describeRecurrence, getUpcomingOccurrences, parseRecurrenceRule } from '@/lib/recurrence';
+import { formatShiftTime, getShiftsById } from '@/lib/shifts';
 import { QuickSubscribe } from './QuickSubscribe';
+import { RegistrationQuestionField } from './RegistrationQuestionField';
 import styles from './RegistrationModal.module.css';
 
 interface RegistrationModalProps {
@@ -29,14 +35,30 @@ interface FormData {
 }
 
 interface FormErrors {
+  occurrenceDate?: string;
+  shiftIds?: string;
   name?: string;
   email?: string;
   phone?: string;
   agreeToTerms?: string;
   general?: string;
+  answers?: Record<string, string>; // Keyed by question ID
+  members?: Record<string, string>; // Keyed by "<index>.name" / "<index>.email"
 }
 
-type FormStatus = 'idle' | 'submitting' | 'success' | 'error';
+interface MemberInput {
+  name: string;
+  email: string;
+}
+
+const EMPTY_MEMBER: MemberInput = { name: '', email: '' };
+
+/**
+ * Upcoming sessions offered for single-session registration on recurring opportunities
+ */
+const SESSIONS_OFFERED = 12;
+
+type FormStatus = 'idle' | 'submitting' | 'success' | 'duplicate' | 'error';
 
 export function RegistrationModal({ opportunity, isOpen, onClose }: RegistrationModalProps) {
   const modalRef = useRef<HTMLDivElement>(null);
@@ -50,9 +72,54 @@ export function RegistrationModal({ opportunity, isOpen, onClose }: Registration
     agreeToTerms: false,
   });
 
+  const [answers, setAnswers] = useState<RegistrationAnswers>({});
+  const [isGroup, setIsGroup] = useState(false);
+  const [groupName, setGroupName] = useState('');
+  const [members, setMembers] = useState<MemberInput[]>([{ ...EMPTY_MEMBER }]);
   const [errors, setErrors] = useState<FormErrors>({});
   const [status, setStatus] = useState<FormStatus>('idle');
 
+  const questions = useMemo(
+    () => opportunity.registrationQuestions ?? [],
+    [opportunity.registrationQuestions]
+  );
+
+  // Recurring opportunities: one session, or the whole series when empty
+  const recurrence = useMemo(
+    () => parseRecurrenceRule(opportunity.recurrencePattern),
+    [opportunity.recurrencePattern]
+  );
+  const sessions = useMemo(
+    () => (recurrence ? getUpcomingOccurrences(opportunity, SESSIONS_OFFERED) : []),
+    [recurrence, opportunity]
+  );
+  const [occurrenceDate, setOccurrenceDate] = useState('');
+  const recurrenceLabel = recurrence ? describeRecurrence(recurrence, opportunity.startDate) : '';
+
+  // Opportunities with shifts: volunteers pick one or more upcoming shifts
+  const shifts = useMemo(
+    () => (opportunity.shifts ?? []).filter((shift) => !isPast(shift.date)),
+    [opportunity.shifts]
+  );
+  const [shiftIds, setShiftIds] = useState<string[]>([]);
+  const chosenShifts = useMemo(() => getShiftsById(shifts, shiftIds), [shifts, shiftIds]);
+
+  // Date saved to My Registrations: the chosen session or first shift,
+  // or the next session for the series
+  const sessionDate = occurrenceDate || chosenShifts[0]?.date || sessions[0] || opportunity.startDate;
+
+  // Full opportunities accept waitlist sign-ups instead of registrations
+  const spotsLeft = opportunity.spotsRemaining ?? opportunity.spotsAvailable;
+  const [joinWaitlist, setJoinWaitlist] = useState(spotsLeft === 0);
+  // A group has to fit into every shift it picks
+  const shiftSpotsLeft = chosenShifts
+    .map((shift) => shift.spotsRemaining)
+    .filter((spots): spots is number => spots !== undefined);
+  const groupSpotsLeft = shiftSpotsLeft.length > 0 ? Math.min(...shiftSpotsLeft) : spotsLeft;
+  const [waitlistPosition, setWaitlistPosition] = useState<number | null>(null);
+  const [existingRegistrationId, setExistingRegistrationId] = useState<string | null>(null);
+  const [confirmationResent, setConfirmationResent] = useState(false);
+
   // Build location display string - either Virtual OR physical location
   const locationDisplay = opportunity.isVirtual 
     ? 'Virtual / Online' 
@@ -125,9 +192,44 @@ export function RegistrationModal({ opportunity, isOpen, onClose }: Registration
       newErrors.agreeToTerms = 'You must agree to the terms';
     }
 
+    if (shifts.length > 0 && shiftIds.length === 0) {
+      newErrors.shiftIds = 'Please choose at least one shift';
+    }
+
+    const { errors: questionErrors } = validateRegistrationAnswers(questions, answers);
+    if (questionErrors.length > 0) {
+      newErrors.answers = Object.fromEntries(
+        questionErrors.map((err) => [err.questionId, err.message])
+      );
+    }
+
+    if (isGroup) {
+      const memberErrors: Record<string, string> = {};
+      const seenEmails = new Set([formData.email.trim().toLowerCase()]);
+
+      members.forEach((member, index) => {
+        if (member.name.trim().length < 2) {
+          memberErrors[`${index}.name`] = 'Please enter a name';
+        }
+        const email = member.email.trim().toLowerCase();
+        if (email) {
+          if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+            memberErrors[`${index}.email`] = 'Please enter a valid email address';
+          } else if (seenEmails.has(email)) {
+            memberErrors[`${index}.email`] = 'Each participant needs a different email';
+          }
+          seenEmails.add(email);
+        }
+      });
+
+      if (Object.keys(memberErrors).length > 0) {
+        newErrors.members = memberErrors;
+      }
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
-  }, [formData]);
+  }, [formData, questions, answers, isGroup, members, shifts, shiftIds]);
 
   // Handle input change
   const handleChange = useCallback(
@@ -148,6 +250,60 @@ export function RegistrationModal({ opportunity, isOpen, onClose }: Registration
     [errors]
   );
 
+  // Handle custom question change
+  const handleAnswerChange = useCallback(
+    (questionId: string, value: RegistrationAnswerValue) => {
+      setAnswers((prev) => ({ ...prev, [questionId]: value }));
+
+      if (errors.answers?.[questionId]) {
+        setErrors((prev) => ({
+          ...prev,
+          answers: { ...prev.answers, [questionId]: '' },
+        }));
+      }
+    },
+    [errors]
+  );
+
+  // Handle group member changes
+  const handleMemberChange = useCallback(
+    (index: number, field: keyof MemberInput, value: string) => {
+      setMembers((prev) => prev.map((m, i) => (i === index ? { ...m, [field]: value } : m)));
+
+      if (errors.members?.[`${index}.${field}`]) {
+        setErrors((prev) => ({
+          ...prev,
+          members: { ...prev.members, [`${index}.${field}`]: '' },
+        }));
+      }
+    },
+    [errors]
+  );
+
+  // Handle shift selection; choosing a full shift means joining its waitlist
+  const handleShiftToggle = useCallback(
+    (shiftId: string) => {
+      const next = shiftIds.includes(shiftId)
+        ? shiftIds.filter((id) => id !== shiftId)
+        : [...shiftIds, shiftId];
+
+      setShiftIds(next);
+      setJoinWaitlist(getShiftsById(shifts, next).some((shift) => shift.spotsRemaining === 0));
+      setErrors((prev) => ({ ...prev, shiftIds: undefined, general: undefined }));
+    },
+    [shifts, shiftIds]
+  );
+
+  const handleAddMember = useCallback(() => {
+    setMembers((prev) => [...prev, { ...EMPTY_MEMBER }]);
+  }, []);
+
+  const handleRemoveMember = useCallback((index: number) => {
+    setMembers((prev) => prev.filter((_, i) => i !== index));
+    // Indexes shift, so stale member errors no longer line up
+    setErrors((prev) => ({ ...prev, members: undefined }));
+  }, []);
+
   // Handle form submission
   const handleSubmit = useCallback(
     async (e: React.FormEvent) => {
@@ -170,8 +326,10 @@ export function RegistrationModal({ opportunity, isOpen, onClose }: Registration
             opportunityId: opportunity.uid,
             opportunityTitle: opportunity.title,
             opportunitySlug: opportunity.slug,
-            opportunityDate: opportunity.startDate,
+            opportunityDate: recurrence && !occurrenceDate ? recurrenceLabel : sessionDate,
             opportunityTime: opportunity.startTime,
+            occurrenceDate: occurrenceDate || undefined,
+            shiftIds: shifts.length > 0 ? shiftIds : undefined,
             opportunityLocation: locationDisplay,
             isVirtual: opportunity.isVirtual,
             // Organizer details
@@ -179,18 +337,77 @@ export function RegistrationModal({ opportunity, isOpen, onClose }: Registration
             organizerEmail: opportunity.organizerEmail,
             // Participant details
             ...formData,
+            answers,
+            joinWaitlist,
+            // Group members
+            groupName: isGroup ? groupName : undefined,
+            members: isGroup
+              ? members.map((m) => ({ name: m.name, email: m.email || undefined }))
+              : undefined,
           }),
         });
 
         const result = await response.json();
 
+        // A group member's email is already registered by someone else
+        if (
+          response.status === 409 &&
+          result.code === 'already_registered' &&
+          !result.data.isOwnRegistration
+        ) {
+          setErrors({ general: result.message });
+          setStatus('error');
+          return;
+        }
+
+        // Same email already registered (possibly from another device)
+        if (response.status === 409 && result.code === 'already_registered') {
+          // Only registrations made on this device have their ID here
+          const saved = getRegistrations().find(
+            (r) =>
+              r.opportunityId === opportunity.uid &&
+              r.email.toLowerCase() === formData.email.trim().toLowerCase() &&
+              r.registrationId
+          );
+
+          setExistingRegistrationId(saved?.registrationId || null);
+          setConfirmationResent(result.data.confirmationResent === true);
+          setStatus('duplicate');
+          return;
+        }
+
+        // Filled up while the form was open - offer the waitlist instead
+        if (
+          response.status === 409 &&
+          (result.code === 'opportunity_full' || result.code === 'shift_full')
+        ) {
+          setJoinWaitlist(true);
+          setErrors({ general: result.message });
+          setStatus('error');
+          return;
+        }
+
         if (!response.ok || !result.success) {
           // Handle validation errors from API
           if (result.errors && Array.isArray(result.errors)) {
             const fieldErrors: FormErrors = {};
             result.errors.forEach((err: { field: string; message: string }) => {
-              if (err.field in formData) {
-                fieldErrors[err.field as keyof FormErrors] = err.message;
+              if (err.field.startsWith('members.')) {
+                fieldErrors.members = {
+                  ...fieldErrors.members,
+                  [err.field.slice('members.'.length)]: err.message,
+                };
+              } else if (err.field.startsWith('answers.')) {
+                fieldErrors.answers = {
+                  ...fieldErrors.answers,
+                  [err.field.slice('answers.'.length)]: err.message,
+                };
+              } else if (
+                err.field in formData ||
+                err.field === 'occurrenceDate' ||
+                err.field === 'shiftIds'
+              ) {
+                fieldErrors[err.field as Exclude<keyof FormErrors, 'answers' | 'members'>] = err.message;
               }
             });
             if (Object.keys(fieldErrors).length > 0) {
@@ -202,17 +419,28 @@ export function RegistrationModal({ opportunity, isOpen, onClose }: Registration
           throw new Error(result.message || 'Registration failed');
         }
 
+        const isWaitlisted = result.data?.status === 'waitlisted';
+        setWaitlistPosition(isWaitlisted ? result.data.waitlistPosition : null);
+
         // Save registration to localStorage for "My Registrations" page
         try {
           addRegistration({
             opportunityId: opportunity.uid,
             opportunityTitle: opportunity.title,
             opportunitySlug: opportunity.slug,
-            opportunityDate: opportunity.startDate,
+            opportunityDate: sessionDate,
             opportunityLocation: locationDisplay,
+            recurrence: recurrence && !occurrenceDate ? recurrenceLabel : undefined,
+            shifts: chosenShifts.length > 0 ? chosenShifts.map((shift) => shift.label) : undefined,
             causeSlugs: opportunity.causeSlugs, // Include causes for personalization
             name: formData.name,
             email: formData.email,
+            registrationId: result.data?.registrationId,
+            status: isWaitlisted ? 'waitlisted' : 'confirmed',
+            waitlistPosition: isWaitlisted ? result.data.waitlistPosition : undefined,
+            groupName: result.data?.groupName,
+            members: result.data?.members?.length ? result.data.members : undefined,
+            ticketCode: result.data?.ticketCode || undefined,
           });
           
           // Update Personalize SDK with new primary cause
@@ -236,7 +464,24 @@ export function RegistrationModal({ opportunity, isOpen, onClose }: Registration
         setStatus('error');
       }
     },
-    [formData, opportunity, locationDisplay, validateForm]
+    [
+      formData,
+      answers,
+      isGroup,
+      groupName,
+      members,
+      opportunity,
+      locationDisplay,
+      validateForm,
+      joinWaitlist,
+      recurrence,
+      recurrenceLabel,
+      occurrenceDate,
+      sessionDate,
+      shifts,
+      shiftIds,
+      chosenShifts,
+    ]
   );
 
   // Reset form
@@ -248,8 +493,17 @@ export function RegistrationModal({ opportunity, isOpen, onClose }: Registration
       message: '',
       agreeToTerms: false,
     });
+    setAnswers({});
+    setOccurrenceDate('');
+    setShiftIds([]);
+    setIsGroup(false);
+    setGroupName('');
+    setMembers([{ ...EMPTY_MEMBER }]);
     setErrors({});
     setStatus('idle');
+    setWaitlistPosition(null);
+    setExistingRegistrationId(null);
+    setConfirmationResent(false);
   }, []);
 
   // Handle close after success
@@ -273,10 +527,20 @@ export function RegistrationModal({ opportunity, isOpen, onClose }: Registration
         <div className={styles.header}>
           <div className={styles.headerContent}>
             <h2 id="registration-title" className={styles.title}>
-              {status === 'success' ? 'Registration Submitted!' : 'Register for This Opportunity'}
+              {status === 'duplicate'
+                ? 'Already Registered'
+                : status === 'success'
+                  ? (waitlistPosition !== null ? 'Added to Waitlist' : 'Registration Submitted!')
+                  : (joinWaitlist ? 'Join the Waitlist' : 'Register for This Opportunity')}
             </h2>
-            {status !== 'success' && (
-              <p className={styles.subtitle}>Fill in your details to express interest</p>
+            {status !== 'success' && status !== 'duplicate' && (
+              <p className={styles.subtitle}>
+                {joinWaitlist
+                  ? shifts.length > 0
+                    ? 'A shift you chose is full. We will email you if spots open up.'
+                    : 'All spots are taken. We will email you if one opens up.'
+                  : 'Fill in your details to express interest'}
+              </p>
             )}
           </div>
           <button
@@ -293,17 +557,72 @@ export function RegistrationModal({ opportunity, isOpen, onClose }: Registration
 
         {/* Content */}
         <div className={styles.content}>
-          {status === 'success' ? (
-            // Success State
+          {status === 'duplicate' ? (
+            // Already Registered State
             <div className={styles.success}>
               <svg className={styles.successIcon} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                <path d="M9 12.75 11.25 15 15 9.75M21 12a9 9 0 1 1-18 0 9 9 0 0 1 18 0Z" />
+                <path d="m11.25 11.25.041-.02a.75.75 0 0 1 1.063.852l-.708 2.836a.75.75 0 0 0 1.063.853l.041-.021M21 12a9 9 0 1 1-18 0 9 9 0 0 1 18 0Zm-9-3.75h.008v.008H12V8.25Z" />
               </svg>
-              <h3 className={styles.successTitle}>You&apos;re All Set!</h3>
+              <h3 className={styles.successTitle}>You&apos;re Already Registered</h3>
               <p className={styles.successMessage}>
-                Your registration for <strong>{opportunity.title}</strong> has been submitted.
-                The organizer will contact you with more details.
+                <strong>{formData.email}</strong> is already registered for{' '}
+                <strong>{opportunity.title}</strong>.{' '}
+                {existingRegistrationId ? (
+                  <>Your registration ID is <strong>{existingRegistrationId}</strong>.</>
+                ) : confirmationResent ? (
+                  <>We&apos;ve emailed your confirmation again, with your ticket and registration details.</>
+                ) : (
+                  <>Your confirmation email has your ticket and registration details.</>
+                )}
               </p>
+              <div className={styles.successActions}>
+                {/* Only registrations saved on this device show up in My Registrations */}
+                {existingRegistrationId && (
+                  <Link
+                    href={`/my-registrations#${existingRegistrationId}`}
+                    className={styles.secondaryLink}
+                    onClick={handleSuccessClose}
+                  >
+                    View My Registration
+                  </Link>
+                )}
+                <button
+                  type="button"
+                  className={styles.successButton}
+                  onClick={handleSuccessClose}
+                >
+                  Close
+                </button>
+              </div>
+            </div>
+          ) : status === 'success' ? (
+            // Success State
+            <div className={styles.success}>
+              <svg className={styles.successIcon} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <path d="M9 12.75 11.25 15 15 9.75M21 12a9 9 0 1 1-18 0 9 9 0 0 1 18 0Z" />
+              </svg>
+              <h3 className={styles.successTitle}>
+                {waitlistPosition !== null ? "You're on the Waitlist!" : "You're All Set!"}
+              </h3>
+              {waitlistPosition !== null ? (
+                <p className={styles.successMessage}>
+                  {isGroup ? 'Your group is' : 'You are'} <strong>#{waitlistPosition}</strong> on
+                  the waitlist for <strong>{opportunity.title}</strong>. If{' '}
+                  {isGroup ? 'enough spots open' : 'a spot opens'} up you will be
+                  registered automatically and receive a confirmation email.
+                </p>
+              ) : (
+                <p className={styles.successMessage}>
+                  {isGroup ? (
+                    <>Your group of <strong>{members.length + 1}</strong> is registered for</>
+                  ) : (
+                    <>Your registration for</>
+                  )}{' '}
+                  <strong>{opportunity.title}</strong> has been submitted.
+                  {isGroup && ' Members with an email address will get their own confirmation.'}
+                  {' '}The organizer will contact you with more details.
+                </p>
+              )}
 
               {/* Newsletter Subscription */}
               <QuickSubscribe 
@@ -338,7 +657,7 @@ export function RegistrationModal({ opportunity, isOpen, onClose }: Registration
                 <div className={styles.opportunityDetails}>
                   <h3 className={styles.opportunityTitle}>{opportunity.title}</h3>
                   <p className={styles.opportunityMeta}>
-                    {formatDisplayDate(opportunity.startDate)} • {locationDisplay}
+                    {recurrence && !occurrenceDate ? recurrenceLabel : formatDisplayDate(sessionDate)} • {locationDisplay}
                   </p>
                 </div>
               </div>
@@ -354,6 +673,88 @@ export function RegistrationModal({ opportunity, isOpen, onClose }: Registration
               )}
 
               <form className={styles.form} onSubmit={handleSubmit} noValidate>
+                {/* Session (recurring opportunities) */}
+                {recurrence && sessions.length > 0 && (
+                  <div className={styles.formGroup}>
+                    <label htmlFor="occurrenceDate" className={styles.label}>
+                      Sessions
+                    </label>
+                    <select
+                      id="occurrenceDate"
+                      name="occurrenceDate"
+                      className={`${styles.input} ${errors.occurrenceDate ? styles.inputError : ''}`}
+                      value={occurrenceDate}
+                      onChange={(e) => {
+                        setOccurrenceDate(e.target.value);
+                        // Each session has its own spots, so try registering again
+                        setJoinWaitlist(false);
+                        setErrors((prev) => ({ ...prev, occurrenceDate: undefined, general: undefined }));
+                      }}
+                      aria-invalid={!!errors.occurrenceDate}
+                      aria-describedby={errors.occurrenceDate ? 'occurrenceDate-error' : 'occurrenceDate-helper'}
+                    >
+                      <option value="">All sessions ({recurrenceLabel})</option>
+                      {sessions.map((session) => (
+                        <option key={session} value={session}>
+                          {formatDisplayDate(session)} only
+                        </option>
+                      ))}
+                    </select>
+                    {errors.occurrenceDate ? (
+                      <span id="occurrenceDate-error" className={styles.errorText}>
+                        {errors.occurrenceDate}
+                      </span>
+                    ) : (
+                      <span id="occurrenceDate-helper" className={styles.helperText}>
+                        This event repeats. Sign up for the whole series or a single session.
+                      </span>
+                    )}
+                  </div>
+                )}
+
+                {/* Shifts */}
+                {shifts.length > 0 && (
+                  <fieldset
+                    className={styles.questionFieldset}
+                    aria-describedby={errors.shiftIds ? 'shiftIds-error' : 'shiftIds-helper'}
+                  >
+                    <legend className={styles.label}>
+                      Shifts<span className={styles.required}>*</span>
+                    </legend>
+                    {shifts.map((shift) => (
+                      <div key={shift.id} className={styles.checkboxGroup}>
+                        <input
+                          type="checkbox"
+                          id={`shift-${shift.id}`}
+                          className={styles.checkbox}
+                          checked={shiftIds.includes(shift.id)}
+                          onChange={() => handleShiftToggle(shift.id)}
+                        />
+                        <label htmlFor={`shift-${shift.id}`} className={styles.checkboxLabel}>
+                          <strong>{shift.label}</strong>
+                          <span className={styles.shiftMeta}>
+                            {formatShiftTime(shift)}
+                            {shift.spotsRemaining !== undefined && (
+                              shift.spotsRemaining === 0
+                                ? ' · Full (waitlist)'
+                                : ` · ${shift.spotsRemaining} ${shift.spotsRemaining === 1 ? 'spot' : 'spots'} left`
+                            )}
+                          </span>
+                        </label>
+                      </div>
+                    ))}
+                    {errors.shiftIds ? (
+                      <span id="shiftIds-error" className={styles.errorText}>
+                        {errors.shiftIds}
+                      </span>
+                    ) : (
+                      <span id="shiftIds-helper" className={styles.helperText}>
+                        Pick every shift you can help with.
+                      </span>
+                    )}
+                  </fieldset>
+                )}
+
                 {/* Name */}
                 <div className={styles.formGroup}>
                   <label htmlFor="name" className={styles.label}>
@@ -444,6 +845,109 @@ export function RegistrationModal({ opportunity, isOpen, onClose }: Registration
                   />
                 </div>
 
+                {/* Group Registration */}
+                <div className={styles.checkboxGroup}>
+                  <input
+                    type="checkbox"
+                    id="isGroup"
+                    className={styles.checkbox}
+                    checked={isGroup}
+                    onChange={(e) => setIsGroup(e.target.checked)}
+                  />
+                  <label htmlFor="isGroup" className={styles.checkboxLabel}>
+                    I&apos;m registering a group (school, company or team)
+                  </label>
+                </div>
+
+                {isGroup && (
+                  <div className={styles.groupSection}>
+                    <div className={styles.formGroup}>
+                      <label htmlFor="groupName" className={styles.label}>
+                        Group Name (Optional)
+                      </label>
+                      <input
+                        type="text"
+                        id="groupName"
+                        className={styles.input}
+                        placeholder="e.g., Lincoln High Eco Club"
+                        value={groupName}
+                        onChange={(e) => setGroupName(e.target.value)}
+                      />
+                    </div>
+
+                    <fieldset className={styles.questionFieldset}>
+                      <legend className={styles.label}>Other Participants</legend>
+                      {members.map((member, index) => (
+                        <div key={index} className={styles.memberRow}>
+                          <div className={styles.memberInputs}>
+                            <input
+                              type="text"
+                              className={`${styles.input} ${errors.members?.[`${index}.name`] ? styles.inputError : ''}`}
+                              placeholder="Full name"
+                              aria-label={`Participant ${index + 2} name`}
+                              value={member.name}
+                              onChange={(e) => handleMemberChange(index, 'name', e.target.value)}
+                              aria-invalid={!!errors.members?.[`${index}.name`]}
+                            />
+                            <input
+                              type="email"
+                              className={`${styles.input} ${errors.members?.[`${index}.email`] ? styles.inputError : ''}`}
+                              placeholder="Email (optional)"
+                              aria-label={`Participant ${index + 2} email`}
+                              value={member.email}
+                              onChange={(e) => handleMemberChange(index, 'email', e.target.value)}
+                              aria-invalid={!!errors.members?.[`${index}.email`]}
+                            />
+                          </div>
+                          {members.length > 1 && (
+                            <button
+                              type="button"
+                              className={styles.removeMemberButton}
+                              onClick={() => handleRemoveMember(index)}
+                              aria-label={`Remove participant ${index + 2}`}
+                            >
+                              <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                                <path d="M6 18 18 6M6 6l12 12" />
+                              </svg>
+                            </button>
+                          )}
+                          {(errors.members?.[`${index}.name`] || errors.members?.[`${index}.email`]) && (
+                            <span className={styles.errorText}>
+                              {errors.members?.[`${index}.name`] || errors.members?.[`${index}.email`]}
+                            </span>
+                          )}
+                        </div>
+                      ))}
+                      {members.length + 1 < MAX_GROUP_SIZE && (
+                        <button
+                          type="button"
+                          className={styles.addMemberButton}
+                          onClick={handleAddMember}
+                        >
+                          + Add participant
+                        </button>
+                      )}
+                      <span className={styles.helperText}>
+                        {members.length + 1} participants including you. Members with an email
+                        will get their own confirmation.
+                        {groupSpotsLeft !== undefined && !joinWaitlist && members.length + 1 > groupSpotsLeft &&
+                          ` Only ${groupSpotsLeft} spots are left, so your group may need to join the waitlist.`}
+                      </span>
+                    </fieldset>
+                  </div>
+                )}
+
+                {/* Organizer Questions */}
+                {questions.map((question) => (
+                  <RegistrationQuestionField
+                    key={question.id}
+                    question={question}
+                    value={answers[question.id]}
+                    error={errors.answers?.[question.id]}
+                    onChange={handleAnswerChange}
+                  />
+                ))}
+
                 {/* Terms Checkbox */}
                 <div className={styles.checkboxGroup}>
                   <input
@@ -483,7 +987,7 @@ export function RegistrationModal({ opportunity, isOpen, onClose }: Registration
                       <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                         <path d="M6 12 3.269 3.125A59.769 59.769 0 0 1 21.485 12 59.768 59.768 0 0 1 3.27 20.875L5.999 12Zm0 0h7.5" />
                       </svg>
-                      Submit Registration
+                      {joinWaitlist ? 'Join Waitlist' : 'Submit Registration'}
                     </>
                   )}
                 </button>
@@ -0,0 +1,145 @@
+'use client';
+
+/**
+ * RegistrationQuestionField Component
+ * Renders a single organizer-defined registration question
+ */
+
+import type { RegistrationAnswerValue, RegistrationQuestion } from '@/types';
+import styles from './RegistrationModal.module.css';
+
+interface RegistrationQuestionFieldProps {
+  question: RegistrationQuestion;
+  value: RegistrationAnswerValue | undefined;
+  error?: string;
+  onChange: (questionId: string, value: RegistrationAnswerValue) => void;
+}
+
+export function RegistrationQuestionField({
+  question,
+  value,
+  error,
+  onChange,
+}: RegistrationQuestionFieldProps) {
+  const inputId = `question-${question.id}`;
+  const errorId = `${inputId}-error`;
+  const helperId = `${inputId}-helper`;
+  const describedBy = error ? errorId : question.helpText ? helperId : undefined;
+  const inputClass = `${styles.input} ${error ? styles.inputError : ''}`;
+
+  const label = (
+    <>
+      {question.label}
+      {question.required && <span className={styles.required}>*</span>}
+    </>
+  );
+
+  const footer = error ? (
+    <span id={errorId} className={styles.errorText}>
+      {error}
+    </span>
+  ) : question.helpText ? (
+    <span id={helperId} className={styles.helperText}>
+      {question.helpText}
+    </span>
+  ) : null;
+
+  // Single yes/no checkbox
+  if (question.type === 'checkbox' && !question.options) {
+    return (
+      <div className={styles.formGroup}>
+        <div className={styles.checkboxGroup}>
+          <input
+            type="checkbox"
+            id={inputId}
+            className={styles.checkbox}
+            checked={value === true}
+            onChange={(e) => onChange(question.id, e.target.checked)}
+            aria-invalid={!!error}
+            aria-describedby={describedBy}
+          />
+          <label htmlFor={inputId} className={styles.checkboxLabel}>
+            {label}
+          </label>
+        </div>
+        {footer}
+      </div>
+    );
+  }
+
+  // Multiple-choice checkboxes
+  if (question.type === 'checkbox' && question.options) {
+    const selected = Array.isArray(value) ? value : [];
+
+    return (
+      <fieldset className={styles.questionFieldset} aria-describedby={describedBy}>
+        <legend className={styles.label}>{label}</legend>
+        {question.options.map((option, index) => {
+          const optionId = `${inputId}-${index}`;
+          return (
+            <div key={option} className={styles.checkboxGroup}>
+              <input
+                type="checkbox"
+                id={optionId}
+                className={styles.checkbox}
+                checked={selected.includes(option)}
+                onChange={(e) =>
+                  onChange(
+                    question.id,
+                    e.target.checked
+                      ? [...selected, option]
+                      : selected.filter((s) => s !== option)
+                  )
+                }
+              />
+              <label htmlFor={optionId} className={styles.checkboxLabel}>
+                {option}
+              </label>
+            </div>
+          );
+        })}
+        {footer}
+      </fieldset>
+    );
+  }
+
+  return (
+    <div className={styles.formGroup}>
+      <label htmlFor={inputId} className={styles.label}>
+        {label}
+      </label>
+      {question.type === 'select' ? (
+        <select
+          id={inputId}
+          className={inputClass}
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(question.id, e.target.value)}
+          aria-invalid={!!error}
+          aria-describedby={describedBy}
+        >
+          <option value="">Select an option</option>
+          {question.options?.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <input
+          type={question.type === 'number' ? 'number' : 'text'}
+          id={inputId}
+          className={inputClass}
+          value={value === undefined ? '' : String(value)}
+          min={question.min}
+          max={question.max}
+          onChange={(e) => onChange(question.id, e.target.value)}
+          aria-invalid={!!error}
+          aria-describedby={describedBy}
+        />
+      )}
+      {footer}
+    </div>
+  );
+}
+
+export default RegistrationQuestionField;
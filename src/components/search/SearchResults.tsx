@@ -28,6 +28,7 @@ interface EventHit {
   };
   is_virtual?: boolean;
   contribution_types?: string[];
+  status?: string;
   _highlightResult?: {
     title?: { value: string };
     description?: { value: string };
@@ -205,6 +206,11 @@ export function SearchResults({ onResultClick }: SearchResultsProps) {
               {hit.is_virtual && (
                 <span className={styles.virtualBadge}>Virtual</span>
               )}
+
+              {/* Cancelled Badge */}
+              {hit.status === 'cancelled' && (
+                <span className={styles.cancelledBadge}>Cancelled</span>
+              )}
             </div>
 
             {/* Card Content */}
@@ -4,13 +4,19 @@
  * CMS-safe: handles missing fields gracefully
  */
 
+import Image from 'next/image';
+
 interface OrganizerBadgeProps {
   organizerName?: string | null;
+  logoUrl?: string | null;
+  isVerified?: boolean;
   size?: 'small' | 'medium' | 'large';
 }
 
 export function OrganizerBadge({
   organizerName,
+  logoUrl,
+  isVerified = false,
   size = 'medium',
 }: OrganizerBadgeProps) {
   const name = organizerName || 'Unknown Organizer';
@@ -23,25 +29,37 @@ export function OrganizerBadge({
         display: 'flex',
         alignItems: 'center',
         gap: size === 'large' ? 12 : 8,
+        minWidth: 0,
       }}
     >
-      {/* Logo placeholder */}
-      <div
-        style={{
-          width: logoSize,
-          height: logoSize,
-          borderRadius: 4,
-          background: 'var(--accent-light, #dbeafe)',
-          display: 'flex',
-          alignItems: 'center',
-          justifyContent: 'center',
-          color: 'var(--accent-color, #3b82f6)',
-          fontSize: logoSize * 0.5,
-          fontWeight: 600,
-        }}
-      >
-        {name.charAt(0).toUpperCase()}
-      </div>
+      {/* Logo, or initial as placeholder */}
+      {logoUrl ? (
+        <Image
+          src={logoUrl}
+          alt=""
+          width={logoSize}
+          height={logoSize}
+          style={{ flexShrink: 0, borderRadius: 4, objectFit: 'cover' }}
+        />
+      ) : (
+        <div
+          style={{
+            width: logoSize,
+            height: logoSize,
+            flexShrink: 0,
+            borderRadius: 4,
+            background: 'var(--accent-light, #dbeafe)',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            color: 'var(--accent-color, #3b82f6)',
+            fontSize: logoSize * 0.5,
+            fontWeight: 600,
+          }}
+        >
+          {name.charAt(0).toUpperCase()}
+        </div>
+      )}
 
       {/* Name */}
       <span
@@ -56,6 +74,24 @@ export function OrganizerBadge({
       >
         {name}
       </span>
+
+      {/* Verification check */}
+      {isVerified && (
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          viewBox="0 0 24 24"
+          width={logoSize * 0.6}
+          height={logoSize * 0.6}
+          fill="var(--success-color, #10b981)"
+          role="img"
+          aria-label="Verified organizer"
+          style={{ flexShrink: 0 }}
+        >
+          <title>Verified organizer</title>
+          <path d="M12 2l2.4 2.1 3.2-.3.9 3.1 2.8 1.6-1.1 3 1.1 3-2.8 1.6-.9 3.1-3.2-.3L12 22l-2.4-2.1-3.2.3-.9-3.1-2.8-1.6 1.1-3-1.1-3 2.8-1.6.9-3.1 3.2.3L12 2z" />
+          <path d="M8.5 12.5l2.3 2.3 4.7-4.8" fill="none" stroke="white" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+        </svg>
+      )}
     </div>
   );
 }
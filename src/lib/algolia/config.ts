@@ -51,6 +51,7 @@ export const SEARCH_CONFIG = {
     'cover_image',
     'is_virtual',
     'contribution_types',
+    'status',
   ],
   
   // Attributes for highlighting
@@ -0,0 +1,109 @@
+/**
+ * Algolia Indexing
+ *
+ * Server-side writes to the search index with the admin API key.
+ * Used by the Contentstack sync webhook and when publishing approved submissions.
+ * Not exported from the module index, which client components import.
+ */
+
+import { ALGOLIA_INDEX_NAME } from './config';
+
+const ALGOLIA_APP_ID = process.env.NEXT_PUBLIC_ALGOLIA_APP_ID;
+const ALGOLIA_ADMIN_KEY = process.env.ALGOLIA_ADMIN_API_KEY;
+
+/**
+ * Whether index writes are possible (app ID and admin key set)
+ */
+export function isAlgoliaIndexingConfigured(): boolean {
+  return !!(ALGOLIA_APP_ID && ALGOLIA_ADMIN_KEY);
+}
+
+function getRecordUrl(objectID: string): string {
+  return `https://${ALGOLIA_APP_ID}-dsn.algolia.net/1/indexes/${ALGOLIA_INDEX_NAME}/${encodeURIComponent(objectID)}`;
+}
+
+// Transform Contentstack entry to Algolia record
+export function transformForAlgolia(entry: Record<string, unknown>) {
+  const coverImage = entry.cover_image as { url?: string; title?: string } | undefined;
+
+  return {
+    objectID: entry.uid as string,
+    title: (entry.title as string) || '',
+    description: (entry.description as string) || '',
+    summary: (entry.summary as string) || '',
+    cause: ((entry.cause_slugs as string[]) || [])[0] || '',
+    causes: (entry.cause_slugs as string[]) || [],
+    tags: (entry.cause_slugs as string[]) || [],
+    city: (entry.city as string) || '',
+    state: (entry.state as string) || '',
+    country: (entry.country as string) || '',
+    slug: (entry.slug as string) || (entry.uid as string),
+    cover_image: coverImage ? {
+      url: coverImage.url,
+      title: coverImage.title || (entry.title as string),
+    } : null,
+    event_date: (entry.start_date as string) || null,
+    start_date: (entry.start_date as string) || null,
+    end_date: (entry.end_date as string) || null,
+    start_time: (entry.start_time as string) || null,
+    end_time: (entry.end_time as string) || null,
+    recurrence_rule: (entry.recurrence_rule as string) || null,
+    is_virtual: (entry.is_virtual as boolean) || false,
+    contribution_types: (entry.contribution_types as string[]) || [],
+    status: (entry.status as string) || 'upcoming',
+    cancellation_reason: (entry.cancellation_reason as string) || '',
+    organizer_name: (entry.organizer_name as string) || '',
+    spots_available: (entry.spots_available as number) || null,
+    requirements: (entry.requirements as string) || '',
+  };
+}
+
+/**
+ * Add or replace the search record for an entry (idempotent)
+ * Throws when the index rejects the write
+ */
+export async function upsertAlgoliaRecord(
+  entry: Record<string, unknown>
+): Promise<{ objectID: string; taskID: number }> {
+  const record = transformForAlgolia(entry);
+
+  const response = await fetch(getRecordUrl(record.objectID), {
+    method: 'PUT',
+    headers: {
+      'X-Algolia-API-Key': ALGOLIA_ADMIN_KEY || '',
+      'X-Algolia-Application-Id': ALGOLIA_APP_ID || '',
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(record),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Algolia update failed: ${error}`);
+  }
+
+  const result = await response.json();
+  return { objectID: record.objectID, taskID: result.taskID };
+}
+
+/**
+ * Remove the search record for an entry
+ * Throws when the index rejects the delete
+ */
+export async function deleteAlgoliaRecord(objectID: string): Promise<{ taskID: number }> {
+  const response = await fetch(getRecordUrl(objectID), {
+    method: 'DELETE',
+    headers: {
+      'X-Algolia-API-Key': ALGOLIA_ADMIN_KEY || '',
+      'X-Algolia-Application-Id': ALGOLIA_APP_ID || '',
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Algolia delete failed: ${error}`);
+  }
+
+  const result = await response.json();
+  return { taskID: result.taskID };
+}
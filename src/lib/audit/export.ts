@@ -0,0 +1,56 @@
+/**
+ * Audit Log Export
+ * CSV download of audit records for partner and compliance questions
+ */
+
+import { toCsvCell } from '@/lib/utils/csv';
+import type { AuditEvent } from './types';
+
+function toJsonCell(value: Record<string, unknown> | null): string {
+  return value ? JSON.stringify(value) : '';
+}
+
+/**
+ * Build the CSV export (one row per record, snapshots as JSON)
+ */
+export function buildAuditCsv(events: AuditEvent[]): string {
+  const header = [
+    'ID',
+    'Timestamp',
+    'Action',
+    'Actor Type',
+    'Actor Email',
+    'Source IP',
+    'Forwarded For',
+    'User Agent',
+    'Target Type',
+    'Target ID',
+    'Target Title',
+    'Opportunity ID',
+    'Reason',
+    'Before',
+    'After',
+  ];
+
+  const rows = events.map((event) => [
+    event.id,
+    event.timestamp,
+    event.action,
+    event.actor.type,
+    event.actor.email,
+    event.sourceIp,
+    event.forwardedFor,
+    event.userAgent,
+    event.target.type,
+    event.target.id,
+    event.target.title,
+    event.target.opportunityId,
+    event.reason,
+    toJsonCell(event.before),
+    toJsonCell(event.after),
+  ]);
+
+  return [header, ...rows]
+    .map((row) => row.map(toCsvCell).join(','))
+    .join('\r\n') + '\r\n';
+}
@@ -0,0 +1,23 @@
+/**
+ * Audit
+ * Central export for the append-only moderation and content audit log
+ */
+
+export {
+  AUDIT_ACTIONS,
+  getAuditContext,
+  recordAuditEvent,
+  listAuditEvents,
+} from './log';
+export { buildAuditCsv } from './export';
+
+export type {
+  AuditAction,
+  AuditActorType,
+  AuditActor,
+  AuditTargetType,
+  AuditTarget,
+  AuditContext,
+  AuditEvent,
+  AuditFilters,
+} from './types';
@@ -0,0 +1,125 @@
+/**
+ * Audit Log
+ * Append-only record of moderation and content changes
+ *
+ * Records are appended to DATA_DIR/audit-log.jsonl and never rewritten.
+ * Recording never throws: the action it describes has already happened, so a
+ * failed write is logged instead of failing the request.
+ */
+
+import { appendJsonLines, getDataFilePath, readJsonLines } from '@/lib/storage';
+import type {
+  AuditAction,
+  AuditActor,
+  AuditContext,
+  AuditEvent,
+  AuditFilters,
+  AuditTarget,
+} from './types';
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  'submission.created',
+  'submission.revised',
+  'submission.approved',
+  'submission.rejected',
+  'submission.changes_requested',
+  'edit.requested',
+  'edit.approved',
+  'edit.rejected',
+  'event.cancelled',
+  'registration.removed',
+];
+
+function getAuditLogPath(): string {
+  return getDataFilePath('audit-log.jsonl');
+}
+
+function createAuditId(): string {
+  return `aud_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Actor and source of a request
+ * The source IP is the platform-provided request IP, else the last X-Forwarded-For
+ * hop (the one our proxy appended); earlier hops can be forged by the client, so
+ * the raw header is only kept alongside for reference
+ */
+export function getAuditContext(request: Request & { ip?: string }, actor: AuditActor): AuditContext {
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  const lastHop = forwardedFor?.split(',').pop()?.trim();
+
+  return {
+    actor,
+    sourceIp: request.ip || lastHop || request.headers.get('x-real-ip') || null,
+    forwardedFor,
+    userAgent: request.headers.get('user-agent'),
+  };
+}
+
+/**
+ * Append an audit record
+ */
+export async function recordAuditEvent(
+  context: AuditContext,
+  event: {
+    action: AuditAction;
+    target: AuditTarget;
+    before: Record<string, unknown> | null;
+    after: Record<string, unknown> | null;
+    reason?: string;
+  }
+): Promise<void> {
+  const record: AuditEvent = {
+    id: createAuditId(),
+    timestamp: new Date().toISOString(),
+    ...context,
+    ...event,
+  };
+
+  try {
+    await appendJsonLines(getAuditLogPath(), [record]);
+  } catch (error) {
+    console.error('[AuditLog] Failed to record event:', { action: event.action, target: event.target, error });
+  }
+}
+
+function matchesFilters(event: AuditEvent, filters: AuditFilters): boolean {
+  if (filters.action && event.action !== filters.action) return false;
+  if (filters.actor && !event.actor.email?.toLowerCase().includes(filters.actor.toLowerCase())) return false;
+  if (
+    filters.targetId
+    && event.target.id !== filters.targetId
+    && event.target.opportunityId !== filters.targetId
+  ) {
+    return false;
+  }
+
+  const day = event.timestamp.slice(0, 10);
+  if (filters.from && day < filters.from) return false;
+  if (filters.to && day > filters.to) return false;
+
+  if (filters.search) {
+    const query = filters.search.toLowerCase();
+    const haystack = [event.target.title, event.target.id, event.target.opportunityId, event.reason];
+    if (!haystack.some((value) => value?.toLowerCase().includes(query))) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Audit records matching the filters, newest first
+ */
+export async function listAuditEvents(
+  filters: AuditFilters = {},
+  options: { limit?: number } = {}
+): Promise<{ events: AuditEvent[]; total: number }> {
+  const matching = (await readJsonLines<AuditEvent>(getAuditLogPath()))
+    .filter((event) => matchesFilters(event, filters))
+    .reverse();
+
+  return {
+    events: options.limit ? matching.slice(0, options.limit) : matching,
+    total: matching.length,
+  };
+}
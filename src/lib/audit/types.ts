@@ -0,0 +1,79 @@
+/**
+ * Audit Log Types
+ */
+
+/**
+ * What happened, grouped by the kind of record it happened to
+ */
+export type AuditAction =
+  | 'submission.created'
+  | 'submission.revised'
+  | 'submission.approved'
+  | 'submission.rejected'
+  | 'submission.changes_requested'
+  | 'edit.requested'
+  | 'edit.approved'
+  | 'edit.rejected'
+  | 'event.cancelled'
+  | 'registration.removed';
+
+/**
+ * organizer/admin: signed-in session; review_link: a signed link from a review email
+ * (whoever holds it); system: a side effect of another action
+ */
+export type AuditActorType = 'organizer' | 'admin' | 'review_link' | 'system';
+
+export interface AuditActor {
+  type: AuditActorType;
+  email?: string;
+}
+
+export type AuditTargetType = 'submission' | 'opportunity' | 'edit_request' | 'registration';
+
+export interface AuditTarget {
+  type: AuditTargetType;
+  id: string;
+  title?: string;
+  /** Published opportunity the record belongs to, when there is one */
+  opportunityId?: string;
+}
+
+/**
+ * Who did it and where the request came from
+ */
+export interface AuditContext {
+  actor: AuditActor;
+  /** Address the trusted proxy saw the request come from */
+  sourceIp: string | null;
+  /** Raw X-Forwarded-For header; hops before the last are client-supplied */
+  forwardedFor?: string | null;
+  userAgent: string | null;
+}
+
+/**
+ * One append-only audit record
+ */
+export interface AuditEvent extends AuditContext {
+  id: string;
+  action: AuditAction;
+  timestamp: string;
+  target: AuditTarget;
+  /** State before the action (null when the record was created by it) */
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  reason?: string;
+}
+
+/**
+ * Admin view filters (all optional, combined with AND)
+ */
+export interface AuditFilters {
+  action?: AuditAction;
+  actor?: string;
+  targetId?: string;
+  /** YYYY-MM-DD, inclusive */
+  from?: string;
+  to?: string;
+  /** Matches target titles, IDs and reasons */
+  search?: string;
+}
@@ -0,0 +1,34 @@
+/**
+ * Admin Access
+ * Admins sign in with the same magic link as organizers; ADMIN_EMAILS decides who they are
+ */
+
+import type { NextRequest } from 'next/server';
+import { normalizeEmail } from '@/lib/registrations';
+import { getOrganizerSession } from './session';
+import type { OrganizerSession } from './session';
+
+/**
+ * Emails allowed to moderate submissions (comma-separated ADMIN_EMAILS)
+ */
+export function getAdminEmails(): string[] {
+  return (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map((email) => normalizeEmail(email))
+    .filter(Boolean);
+}
+
+/**
+ * Whether an email belongs to an admin
+ */
+export function isAdminEmail(email: string): boolean {
+  return getAdminEmails().includes(normalizeEmail(email));
+}
+
+/**
+ * Session of the admin making a request (null when signed out or not an admin)
+ */
+export function getAdminSession(request: NextRequest): OrganizerSession | null {
+  const session = getOrganizerSession(request);
+  return session && isAdminEmail(session.email) ? session : null;
+}
@@ -0,0 +1,28 @@
+/**
+ * Auth
+ * Central export for organizer sign-in, sessions and admin access
+ */
+
+export {
+  SESSION_TOKEN_PURPOSE,
+  SESSION_COOKIE_NAME,
+  createSessionToken,
+  verifySessionToken,
+  getOrganizerSession,
+  setSessionCookie,
+  clearSessionCookie,
+} from './session';
+export {
+  LOGIN_TOKEN_PURPOSE,
+  LOGIN_LINK_MINUTES,
+  DEFAULT_LOGIN_REDIRECT,
+  getSafeRedirect,
+  createLoginUrl,
+  verifyLoginToken,
+  consumeLoginToken,
+} from './magic-link';
+export { isOpportunityOrganizer, getOrganizerOpportunity } from './organizer';
+export { getAdminEmails, isAdminEmail, getAdminSession } from './admin';
+
+export type { OrganizerSession } from './session';
+export type { LoginLinkError, LoginLinkResult } from './magic-link';
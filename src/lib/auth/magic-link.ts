@@ -0,0 +1,168 @@
+/**
+ * Magic Links
+ * One-time signed sign-in links emailed to organizers
+ *
+ * Links are short-lived signed tokens carrying a random nonce. A consumed
+ * nonce is recorded until the token would have expired, so each link signs
+ * in exactly once. Links can be checked without consuming them, so opening
+ * one only shows a confirmation page until the sign-in is confirmed.
+ */
+
+import { randomBytes } from 'crypto';
+import { createSignedToken, verifySignedToken } from '@/lib/tokens';
+import { getDataFilePath, readJsonFile, updateJsonFile } from '@/lib/storage';
+import { getAppUrl } from '@/lib/config';
+import { normalizeEmail } from '@/lib/registrations';
+
+export const LOGIN_TOKEN_PURPOSE = 'organizer_login';
+
+/**
+ * How long a sign-in link stays valid
+ */
+export const LOGIN_LINK_MINUTES = 15;
+
+/**
+ * Where organizers land after signing in unless told otherwise
+ */
+export const DEFAULT_LOGIN_REDIRECT = '/my-events';
+
+/**
+ * Why a sign-in link was rejected
+ */
+export type LoginLinkError = 'invalid' | 'expired' | 'used';
+
+/**
+ * Result of consuming a sign-in link
+ */
+export type LoginLinkResult =
+  | { valid: true; email: string; redirectTo: string }
+  | { valid: false; error: LoginLinkError };
+
+/**
+ * Used nonces with their expiry (Unix seconds)
+ */
+interface UsedLinksFile {
+  used: Record<string, number>;
+}
+
+const EMPTY_FILE: UsedLinksFile = { used: {} };
+
+function getUsedLinksPath(): string {
+  return getDataFilePath('used-login-links.json');
+}
+
+/**
+ * Only allow same-site relative redirects
+ */
+export function getSafeRedirect(path: string | null | undefined): string {
+  if (!path || !path.startsWith('/') || path.startsWith('//') || path.includes('\\')) {
+    return DEFAULT_LOGIN_REDIRECT;
+  }
+  return path;
+}
+
+/**
+ * Create a sign-in link for an organizer
+ */
+export function createLoginUrl(
+  email: string,
+  redirectTo?: string
+): { url: string; expiresAt: Date } {
+  const expiresAt = new Date(Date.now() + LOGIN_LINK_MINUTES * 60 * 1000);
+  const token = createSignedToken(LOGIN_TOKEN_PURPOSE, normalizeEmail(email), {
+    expiresAt,
+    data: {
+      nonce: randomBytes(16).toString('base64url'),
+      redirect: getSafeRedirect(redirectTo),
+    },
+  });
+
+  return {
+    url: `${getAppUrl()}/api/auth/verify?token=${encodeURIComponent(token)}`,
+    expiresAt,
+  };
+}
+
+/**
+ * Contents of a validly signed sign-in link
+ */
+type ParsedLoginToken =
+  | { valid: true; email: string; redirectTo: string; nonce: string; exp: number }
+  | { valid: false; error: LoginLinkError };
+
+/**
+ * Check a sign-in link's signature and read its contents
+ */
+function parseLoginToken(token: string): ParsedLoginToken {
+  const verification = verifySignedToken(token, LOGIN_TOKEN_PURPOSE);
+  if (!verification.valid) {
+    return { valid: false, error: verification.error === 'expired' ? 'expired' : 'invalid' };
+  }
+
+  const { sub, exp, data } = verification.payload;
+  const nonce = typeof data?.nonce === 'string' ? data.nonce : '';
+  if (!nonce) {
+    return { valid: false, error: 'invalid' };
+  }
+
+  return {
+    valid: true,
+    email: sub,
+    redirectTo: getSafeRedirect(typeof data?.redirect === 'string' ? data.redirect : undefined),
+    nonce,
+    exp,
+  };
+}
+
+/**
+ * Verify a sign-in link without marking it used
+ */
+export async function verifyLoginToken(token: string): Promise<LoginLinkResult> {
+  const parsed = parseLoginToken(token);
+  if (!parsed.valid) {
+    return parsed;
+  }
+
+  const file = await readJsonFile<UsedLinksFile>(getUsedLinksPath(), EMPTY_FILE);
+  if (file.used?.[parsed.nonce]) {
+    return { valid: false, error: 'used' };
+  }
+
+  return { valid: true, email: parsed.email, redirectTo: parsed.redirectTo };
+}
+
+/**
+ * Verify a sign-in link and mark it used
+ */
+export async function consumeLoginToken(token: string): Promise<LoginLinkResult> {
+  const parsed = parseLoginToken(token);
+  if (!parsed.valid) {
+    return parsed;
+  }
+
+  const { nonce, exp } = parsed;
+  const firstUse = await updateJsonFile<UsedLinksFile, boolean>(
+    getUsedLinksPath(),
+    EMPTY_FILE,
+    (file) => {
+      const now = Math.floor(Date.now() / 1000);
+
+      // Drop nonces whose links have expired anyway
+      const used = Object.fromEntries(
+        Object.entries(file.used || {}).filter(([, expiry]) => expiry > now)
+      );
+
+      if (used[nonce]) {
+        return { data: { used }, result: false };
+      }
+
+      return { data: { used: { ...used, [nonce]: exp } }, result: true };
+    }
+  );
+
+  if (!firstUse) {
+    return { valid: false, error: 'used' };
+  }
+
+  return { valid: true, email: parsed.email, redirectTo: parsed.redirectTo };
+}
@@ -0,0 +1,27 @@
+/**
+ * Organizer Access
+ * Resolves which opportunities a signed-in organizer may manage
+ */
+
+import type { Opportunity } from '@/types';
+import { getOpportunityById } from '@/lib/contentstack';
+import { normalizeEmail } from '@/lib/registrations';
+
+/**
+ * Whether an email is the organizer of an opportunity
+ */
+export function isOpportunityOrganizer(opportunity: Opportunity, email: string): boolean {
+  return !!opportunity.organizerEmail
+    && normalizeEmail(opportunity.organizerEmail) === normalizeEmail(email);
+}
+
+/**
+ * Load an opportunity if the email belongs to its organizer (null otherwise)
+ */
+export async function getOrganizerOpportunity(
+  opportunityId: string,
+  email: string
+): Promise<Opportunity | null> {
+  const opportunity = await getOpportunityById(opportunityId);
+  return opportunity && isOpportunityOrganizer(opportunity, email) ? opportunity : null;
+}
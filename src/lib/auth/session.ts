@@ -0,0 +1,89 @@
+/**
+ * Organizer Sessions
+ * Signed, HTTP-only session cookie issued after a magic-link sign-in
+ */
+
+import type { NextRequest, NextResponse } from 'next/server';
+import { createSignedToken, daysFromNow, verifySignedToken } from '@/lib/tokens';
+import { normalizeEmail } from '@/lib/registrations';
+
+export const SESSION_TOKEN_PURPOSE = 'organizer_session';
+
+/**
+ * Cookie carrying the session token
+ */
+export const SESSION_COOKIE_NAME = 'ic_organizer_session';
+
+/**
+ * How long a sign-in lasts
+ */
+const SESSION_DAYS = 30;
+
+/**
+ * Signed-in organizer
+ */
+export interface OrganizerSession {
+  email: string;
+  expiresAt: string;
+}
+
+/**
+ * Create a session token for an organizer email
+ */
+export function createSessionToken(email: string): { token: string; expiresAt: Date } {
+  const expiresAt = daysFromNow(SESSION_DAYS);
+  return {
+    token: createSignedToken(SESSION_TOKEN_PURPOSE, normalizeEmail(email), { expiresAt }),
+    expiresAt,
+  };
+}
+
+/**
+ * Verify a session token, returning the session or null
+ */
+export function verifySessionToken(token: string | undefined): OrganizerSession | null {
+  if (!token) return null;
+
+  const verification = verifySignedToken(token, SESSION_TOKEN_PURPOSE);
+  if (!verification.valid) return null;
+
+  return {
+    email: verification.payload.sub,
+    expiresAt: new Date(verification.payload.exp * 1000).toISOString(),
+  };
+}
+
+/**
+ * Session of the organizer making a request (null when signed out)
+ */
+export function getOrganizerSession(request: NextRequest): OrganizerSession | null {
+  return verifySessionToken(request.cookies.get(SESSION_COOKIE_NAME)?.value);
+}
+
+/**
+ * Attach a new session cookie to a response
+ */
+export function setSessionCookie(response: NextResponse, email: string): void {
+  const { token, expiresAt } = createSessionToken(email);
+
+  response.cookies.set(SESSION_COOKIE_NAME, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+/**
+ * Remove the session cookie from a response
+ */
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE_NAME, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0,
+  });
+}
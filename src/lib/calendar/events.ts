@@ -0,0 +1,111 @@
+/**
+ * Calendar Events
+ * Maps opportunities and registrations to calendar events
+ */
+
+import type { Opportunity } from '@/types';
+import type { StoredRegistration } from '@/lib/registrations';
+import { getAppUrl } from '@/lib/config';
+import { getOccurrences, getScheduleRule } from '@/lib/recurrence';
+import type { CalendarEventInput } from './ics';
+
+const UID_DOMAIN = 'impactconnect';
+
+/**
+ * Location line for a calendar event (full address for in-person events)
+ */
+export function getCalendarLocation(opportunity: Opportunity): string {
+  if (opportunity.isVirtual) return 'Virtual / Online';
+  return [opportunity.address, opportunity.city, opportunity.state, opportunity.country]
+    .filter(Boolean)
+    .join(', ') || 'Location TBD';
+}
+
+/**
+ * Calendar event for an opportunity (detail page download)
+ * For recurring opportunities this covers the first session only; see opportunityToCalendarEvents
+ */
+export function opportunityToCalendarEvent(opportunity: Opportunity): CalendarEventInput {
+  const url = `${getAppUrl()}/opportunities/${opportunity.slug}`;
+
+  return {
+    uid: `${opportunity.uid}@${UID_DOMAIN}`,
+    title: opportunity.title,
+    description: [opportunity.summary, url].filter(Boolean).join('\n\n'),
+    location: getCalendarLocation(opportunity),
+    url,
+    startDate: opportunity.startDate,
+    endDate: opportunity.endDate,
+    startTime: opportunity.startTime,
+    endTime: opportunity.endTime,
+    status: opportunity.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+    updatedAt: opportunity.updatedAt,
+  };
+}
+
+/**
+ * One event per session: recurring opportunities are expanded into their
+ * occurrences (rather than an RRULE) so every calendar shows the same dates
+ * One-off opportunities give a single event
+ */
+function expandSessions(
+  event: CalendarEventInput,
+  opportunity: Opportunity,
+  occurrenceDate?: string
+): CalendarEventInput[] {
+  if (!getScheduleRule(opportunity)) return [event];
+
+  const dates = occurrenceDate ? [occurrenceDate] : getOccurrences(opportunity);
+  const [uidBase, domain] = event.uid.split('@');
+
+  return dates.map((date) => ({
+    ...event,
+    uid: `${uidBase}-${date.replace(/-/g, '')}@${domain}`,
+    startDate: date,
+    endDate: date,
+  }));
+}
+
+/**
+ * Calendar events for every session of an opportunity
+ */
+export function opportunityToCalendarEvents(opportunity: Opportunity): CalendarEventInput[] {
+  return expandSessions(opportunityToCalendarEvent(opportunity), opportunity);
+}
+
+/**
+ * Calendar event for a registration (personal feed)
+ * Waitlisted spots show as tentative; cancelled registrations and cancelled events
+ * stay in the feed as cancelled so subscribed calendars remove them.
+ */
+export function registrationToCalendarEvent(
+  registration: StoredRegistration,
+  opportunity: Opportunity
+): CalendarEventInput {
+  const event = opportunityToCalendarEvent(opportunity);
+  const status = registration.status === 'cancelled' || opportunity.status === 'cancelled'
+    ? 'CANCELLED'
+    : registration.status === 'waitlisted' ? 'TENTATIVE' : 'CONFIRMED';
+
+  return {
+    ...event,
+    uid: `${registration.registrationId}@${UID_DOMAIN}`,
+    title: registration.status === 'waitlisted' ? `[Waitlist] ${event.title}` : event.title,
+    status,
+    updatedAt: registration.updatedAt,
+  };
+}
+
+/**
+ * Calendar events for a registration: its one session, or every session it covers
+ */
+export function registrationToCalendarEvents(
+  registration: StoredRegistration,
+  opportunity: Opportunity
+): CalendarEventInput[] {
+  return expandSessions(
+    registrationToCalendarEvent(registration, opportunity),
+    opportunity,
+    registration.occurrenceDate
+  );
+}
@@ -0,0 +1,90 @@
+/**
+ * Calendar Feed Tokens
+ * Random, unguessable tokens that identify a volunteer's calendar feed
+ *
+ * Feed URLs are pasted into calendar apps and polled indefinitely, so they use
+ * stored random tokens (no expiry) instead of signed links. Rotating a token
+ * revokes the old URL, e.g. after it was shared by mistake.
+ */
+
+import { randomBytes } from 'crypto';
+import { getDataFilePath, readJsonFile, updateJsonFile } from '@/lib/storage';
+import { normalizeEmail } from '@/lib/registrations';
+import { getAppUrl } from '@/lib/config';
+
+/**
+ * A feed token record
+ */
+interface FeedRecord {
+  email: string;
+  createdAt: string;
+}
+
+/**
+ * On-disk file shape (keyed by token)
+ */
+interface FeedsFile {
+  feeds: Record<string, FeedRecord>;
+}
+
+const EMPTY_FILE: FeedsFile = { feeds: {} };
+
+function getFeedsPath(): string {
+  return getDataFilePath('calendar-feeds.json');
+}
+
+/**
+ * Get the feed token for a volunteer, creating one on first use
+ */
+export async function getOrCreateFeedToken(email: string): Promise<string> {
+  const normalized = normalizeEmail(email);
+
+  return updateJsonFile<FeedsFile, string>(getFeedsPath(), EMPTY_FILE, (file) => {
+    const feeds = file.feeds || {};
+    const existing = Object.keys(feeds).find((token) => feeds[token].email === normalized);
+    if (existing) {
+      return { data: file, result: existing };
+    }
+
+    const token = randomBytes(24).toString('base64url');
+    return {
+      data: { feeds: { ...feeds, [token]: { email: normalized, createdAt: new Date().toISOString() } } },
+      result: token,
+    };
+  });
+}
+
+/**
+ * Replace a volunteer's feed token, so the old feed URL stops working
+ */
+export async function rotateFeedToken(email: string): Promise<string> {
+  const normalized = normalizeEmail(email);
+
+  return updateJsonFile<FeedsFile, string>(getFeedsPath(), EMPTY_FILE, (file) => {
+    const feeds = Object.fromEntries(
+      Object.entries(file.feeds || {}).filter(([, record]) => record.email !== normalized)
+    );
+
+    const token = randomBytes(24).toString('base64url');
+    return {
+      data: { feeds: { ...feeds, [token]: { email: normalized, createdAt: new Date().toISOString() } } },
+      result: token,
+    };
+  });
+}
+
+/**
+ * Look up the volunteer email for a feed token
+ */
+export async function getFeedEmail(token: string): Promise<string | null> {
+  const file = await readJsonFile<FeedsFile>(getFeedsPath(), EMPTY_FILE);
+  const feeds = file.feeds || {};
+  return Object.prototype.hasOwnProperty.call(feeds, token) ? feeds[token].email : null;
+}
+
+/**
+ * Public URL of a volunteer's calendar feed
+ */
+export function getFeedUrl(token: string): string {
+  return `${getAppUrl()}/api/calendar/feed?token=${encodeURIComponent(token)}`;
+}
@@ -0,0 +1,252 @@
+/**
+ * iCalendar Builder
+ * Generates RFC 5545 calendars from opportunities
+ *
+ * Opportunity times are free-text "HH:MM" strings in the configured event
+ * timezone. Timed events are converted to UTC; entries without a usable
+ * start time become all-day events.
+ */
+
+import { getEventTimezone } from '@/lib/config';
+
+/**
+ * Data needed to describe one calendar event
+ */
+export interface CalendarEventInput {
+  uid: string;
+  title: string;
+  description?: string;
+  location: string;
+  url?: string;
+  startDate: string;
+  endDate?: string;
+  startTime?: string;
+  endTime?: string;
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  /** Last modification time, used for SEQUENCE-less updates */
+  updatedAt?: string;
+}
+
+const PRODUCT_ID = '-//ImpactConnect//Opportunities//EN';
+
+/**
+ * Default duration for timed events without an end time
+ */
+const DEFAULT_DURATION_HOURS = 2;
+
+/**
+ * Parse "HH:MM" (also accepts "9:00" or "09:00:00")
+ */
+function parseTime(time?: string): { hours: number; minutes: number } | null {
+  if (!time) return null;
+  const match = /^(\d{1,2}):(\d{2})/.exec(time.trim());
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+
+  return { hours, minutes };
+}
+
+/**
+ * Calendar date parts of an ISO date string (ignores any time component)
+ */
+function parseDate(date?: string): { year: number; month: number; day: number } | null {
+  if (!date) return null;
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(date.trim());
+  if (match) {
+    return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+  }
+
+  const parsed = new Date(date);
+  if (isNaN(parsed.getTime())) return null;
+  return {
+    year: parsed.getUTCFullYear(),
+    month: parsed.getUTCMonth() + 1,
+    day: parsed.getUTCDate(),
+  };
+}
+
+/**
+ * Offset of a timezone from UTC (in ms) at a given instant
+ */
+function getTimezoneOffset(timezone: string, instant: Date): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - instant.getTime();
+}
+
+/**
+ * Convert a wall-clock date/time in a timezone to a UTC Date
+ */
+export function zonedTimeToUtc(
+  date: { year: number; month: number; day: number },
+  time: { hours: number; minutes: number },
+  timezone: string
+): Date {
+  const guess = Date.UTC(date.year, date.month - 1, date.day, time.hours, time.minutes);
+  // Two passes settle the offset around DST transitions
+  const first = guess - getTimezoneOffset(timezone, new Date(guess));
+  return new Date(guess - getTimezoneOffset(timezone, new Date(first)));
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+function formatUtc(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+function formatDateValue(date: { year: number; month: number; day: number }): string {
+  return `${date.year}${pad(date.month)}${pad(date.day)}`;
+}
+
+function addDays(
+  date: { year: number; month: number; day: number },
+  days: number
+): { year: number; month: number; day: number } {
+  const next = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: next.getUTCFullYear(), month: next.getUTCMonth() + 1, day: next.getUTCDate() };
+}
+
+/**
+ * Escape text values (RFC 5545 section 3.3.11)
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold lines longer than 75 octets (RFC 5545 section 3.1)
+ */
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf-8');
+  if (bytes.length <= 75) return line;
+
+  const chunks: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  const limit = () => (chunks.length === 0 ? 75 : 74); // Continuations start with a space
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf-8');
+    if (currentBytes + size > limit()) {
+      chunks.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += size;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+/**
+ * DTSTART/DTEND lines for an event
+ * Returns null when the start date is unusable
+ */
+function buildTiming(event: CalendarEventInput, timezone: string): string[] | null {
+  const startDate = parseDate(event.startDate);
+  if (!startDate) return null;
+
+  const endDate = parseDate(event.endDate) || startDate;
+  const startTime = parseTime(event.startTime);
+  const endTime = parseTime(event.endTime);
+
+  // No usable start time: all-day event (DTEND is exclusive)
+  if (!startTime) {
+    return [
+      `DTSTART;VALUE=DATE:${formatDateValue(startDate)}`,
+      `DTEND;VALUE=DATE:${formatDateValue(addDays(endDate, 1))}`,
+    ];
+  }
+
+  const start = zonedTimeToUtc(startDate, startTime, timezone);
+  let end = endTime
+    ? zonedTimeToUtc(endDate, endTime, timezone)
+    : new Date(start.getTime() + DEFAULT_DURATION_HOURS * 60 * 60 * 1000);
+
+  if (end <= start) {
+    end = new Date(start.getTime() + DEFAULT_DURATION_HOURS * 60 * 60 * 1000);
+  }
+
+  return [`DTSTART:${formatUtc(start)}`, `DTEND:${formatUtc(end)}`];
+}
+
+/**
+ * Build the VEVENT lines for one event
+ */
+function buildEvent(event: CalendarEventInput, timezone: string, now: Date): string[] {
+  const timing = buildTiming(event, timezone);
+  if (!timing) return [];
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    ...timing,
+    `SUMMARY:${escapeText(event.title)}`,
+    `LOCATION:${escapeText(event.location)}`,
+  ];
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  if (event.updatedAt && !isNaN(new Date(event.updatedAt).getTime())) {
+    lines.push(`LAST-MODIFIED:${formatUtc(new Date(event.updatedAt))}`);
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Build a complete iCalendar document
+ */
+export function buildCalendar(
+  events: CalendarEventInput[],
+  options: { name?: string; refreshIntervalHours?: number } = {}
+): string {
+  const timezone = getEventTimezone();
+  const now = new Date();
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+
+  if (options.name) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+  }
+  if (options.refreshIntervalHours) {
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshIntervalHours}H`);
+    lines.push(`X-PUBLISHED-TTL:PT${options.refreshIntervalHours}H`);
+  }
+
+  events.forEach((event) => lines.push(...buildEvent(event, timezone, now)));
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
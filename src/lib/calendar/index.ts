@@ -0,0 +1,16 @@
+/**
+ * Calendar
+ * Central export for iCalendar downloads and feeds
+ */
+
+export { buildCalendar, zonedTimeToUtc } from './ics';
+export {
+  getCalendarLocation,
+  opportunityToCalendarEvent,
+  opportunityToCalendarEvents,
+  registrationToCalendarEvent,
+  registrationToCalendarEvents,
+} from './events';
+export { getOrCreateFeedToken, rotateFeedToken, getFeedEmail, getFeedUrl } from './feeds';
+
+export type { CalendarEventInput } from './ics';
@@ -0,0 +1,32 @@
+/**
+ * App Configuration
+ * Public URL and other app-wide settings
+ */
+
+/**
+ * Timezone used when none is configured
+ */
+const DEFAULT_EVENT_TIMEZONE = 'UTC';
+
+/**
+ * Public base URL of the app (used for links in emails)
+ */
+export function getAppUrl(): string {
+  return (process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000').replace(/\/$/, '');
+}
+
+/**
+ * IANA timezone that opportunity start/end times are entered in
+ * Opportunities store times as free text without a zone, so exports need this
+ */
+export function getEventTimezone(): string {
+  const timezone = process.env.EVENT_TIMEZONE || DEFAULT_EVENT_TIMEZONE;
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return timezone;
+  } catch {
+    console.warn(`[Config] Invalid EVENT_TIMEZONE "${timezone}", using ${DEFAULT_EVENT_TIMEZONE}`);
+    return DEFAULT_EVENT_TIMEZONE;
+  }
+}
@@ -8,3 +8,5 @@ export {
   CacheTags,
   getFetchOptions,
 } from './cache';
+
+export { getAppUrl, getEventTimezone } from './app';
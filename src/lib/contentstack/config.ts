@@ -5,6 +5,8 @@
 
 export type ContentstackRegion = 'na' | 'eu' | 'azure-na' | 'azure-eu';
 
+const CONTENTSTACK_REGIONS: ContentstackRegion[] = ['na', 'eu', 'azure-na', 'azure-eu'];
+
 export interface ContentstackConfig {
   apiKey: string;
   deliveryToken: string;
@@ -26,6 +28,33 @@ function getBaseUrl(region: ContentstackRegion): string {
   return regionUrls[region];
 }
 
+/**
+ * Get the base URL for the Contentstack Management API based on region
+ */
+export function getManagementBaseUrl(region: ContentstackRegion): string {
+  const regionUrls: Record<ContentstackRegion, string> = {
+    'na': 'https://api.contentstack.io',
+    'eu': 'https://eu-api.contentstack.com',
+    'azure-na': 'https://azure-na-api.contentstack.com',
+    'azure-eu': 'https://azure-eu-api.contentstack.com',
+  };
+  return regionUrls[region];
+}
+
+/**
+ * Region from CONTENTSTACK_REGION (default: na)
+ * An unknown region is a configuration error rather than a reason to use another region's hosts
+ */
+export function getContentstackRegion(): ContentstackRegion {
+  const region = process.env.CONTENTSTACK_REGION || 'na';
+  if (!CONTENTSTACK_REGIONS.includes(region as ContentstackRegion)) {
+    throw new Error(
+      `CONTENTSTACK_REGION must be one of ${CONTENTSTACK_REGIONS.join(', ')} (got "${region}")`
+    );
+  }
+  return region as ContentstackRegion;
+}
+
 /**
  * Validate and retrieve Contentstack configuration from environment
  */
@@ -33,7 +62,7 @@ export function getContentstackConfig(): ContentstackConfig {
   const apiKey = process.env.CONTENTSTACK_API_KEY;
   const deliveryToken = process.env.CONTENTSTACK_DELIVERY_TOKEN;
   const environment = process.env.CONTENTSTACK_ENVIRONMENT;
-  const region = (process.env.CONTENTSTACK_REGION || 'na') as ContentstackRegion;
+  const region = getContentstackRegion();
   const branch = process.env.CONTENTSTACK_BRANCH;
 
   if (!apiKey) {
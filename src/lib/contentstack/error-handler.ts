@@ -59,6 +59,16 @@ export function classifyError(error: unknown): CMSError {
       };
     }
 
+    // Other client errors (validation, permissions) fail the same way again
+    if (error.statusCode >= 400) {
+      return {
+        type: 'unknown',
+        message: error.message || 'The content server rejected the request.',
+        statusCode: error.statusCode,
+        retryable: false,
+      };
+    }
+
     return {
       type: 'unknown',
       message: error.message || 'An error occurred while fetching content.',
@@ -10,6 +10,7 @@ import { ContentTypes } from './config';
 import { transformOpportunitySummary } from './transformers';
 import { OpportunityStatus } from '@/types';
 import type { OpportunitySummary } from '@/types';
+import { toNextOccurrence, today } from '@/lib/recurrence';
 
 const MAX_CAROUSEL_ITEMS = 4;
 
@@ -76,8 +77,10 @@ export async function getCarouselOpportunities(
       console.log(`[Carousel] Found ${opportunities.length} total opportunities`);
     }
 
-    // Return top 4 most recent
-    const carouselItems = opportunities.slice(0, MAX_CAROUSEL_ITEMS);
+    // Return top 4 most recent, with recurring series shown at their next session
+    const carouselItems = opportunities
+      .slice(0, MAX_CAROUSEL_ITEMS)
+      .map((opp) => toNextOccurrence(opp, { from: today() }) || opp);
     console.log(`[Carousel] Returning ${carouselItems.length} carousel items`);
     
     return carouselItems;
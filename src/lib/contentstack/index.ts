@@ -4,7 +4,7 @@
  */
 
 // Configuration
-export { ContentTypes, getContentstackConfig, getApiBaseUrl } from './config';
+export { ContentTypes, getContentstackConfig, getApiBaseUrl, getManagementBaseUrl } from './config';
 export type { ContentstackConfig, ContentstackRegion, ContentTypeUid } from './config';
 
 // Client
@@ -25,6 +25,12 @@ export {
   getAllOpportunitySlugs,
 } from './opportunities';
 
+// Organizers
+export {
+  getOrganizerBySlug,
+  getAllOrganizerSlugs,
+} from './organizers';
+
 // Taxonomies (Causes only - locations are extracted from opportunities)
 export {
   getAllCauses,
@@ -35,6 +41,7 @@ export {
 // Query Builders (for advanced usage)
 export {
   buildOpportunityQuery,
+  buildOnOrAfterCondition,
   buildFeaturedQuery,
   buildUpcomingQuery,
   buildOrganizerOpportunitiesQuery,
@@ -50,6 +57,7 @@ export {
   transformOpportunitySummary,
   transformAsset,
   transformCauseReference,
+  transformOrganizerReference,
 } from './transformers';
 
 // Error Handling
@@ -62,11 +70,22 @@ export {
 } from './error-handler';
 export type { CMSError, CMSErrorType } from './error-handler';
 
-// Utility functions
+// Management API (server-side writes)
 export {
+  ENTRY_SYSTEM_FIELDS,
+  getManagementConfig,
+  getManagementClient,
   generateSlug,
   ManagementApiError,
 } from './management';
+export type {
+  ManagementConfig,
+  ManagementClientOptions,
+  ManagementEntry,
+  ManagementAsset,
+  AssetUploadOptions,
+  ManagementClient,
+} from './management';
 
 // Page Content (Singleton pages from Contentstack)
 export {
@@ -1,25 +1,299 @@
 /**
- * Contentstack Management API Utilities
- * Helper functions for generating slugs and IDs
- * 
- * NOTE: Entry creation is now handled by Contentstack Automate webhooks
+ * Contentstack Management API Client
+ * Creates, updates, publishes and unpublishes entries and uploads assets
+ *
+ * Requests go to the Management API host for CONTENTSTACK_REGION, on
+ * CONTENTSTACK_BRANCH when set, and publish to CONTENTSTACK_ENVIRONMENT.
+ * Reads, updates and publishes are retried on transient errors; creates and
+ * uploads are not, since a retried request could add a duplicate.
  */
 
+import { ContentstackError } from './client';
+import { getContentstackRegion, getManagementBaseUrl } from './config';
+import type { ContentstackRegion } from './config';
+import { withRetry } from './error-handler';
+
+/**
+ * Locale entries and assets are written and published in
+ */
+const MANAGEMENT_LOCALE = 'en-us';
+
 /**
  * Management API Error
  */
-export class ManagementApiError extends Error {
+export class ManagementApiError extends ContentstackError {
   constructor(
     message: string,
-    public statusCode: number,
-    public errorCode?: string,
+    statusCode: number,
+    errorCode?: string,
     public errors?: Record<string, string>[]
   ) {
-    super(message);
+    super(message, statusCode, errorCode);
     this.name = 'ManagementApiError';
   }
 }
 
+export interface ManagementConfig {
+  apiKey: string;
+  managementToken: string;
+  region: ContentstackRegion;
+  branch?: string;
+  /** Environment entries and assets are published to */
+  environment: string;
+  locale: string;
+}
+
+/**
+ * Entry as returned by the Management API (field values keyed by field UID)
+ */
+export interface ManagementEntry {
+  uid: string;
+  title?: string;
+  [field: string]: unknown;
+}
+
+export interface ManagementAsset {
+  uid: string;
+  url: string;
+  filename: string;
+  title: string;
+  content_type?: string;
+}
+
+export interface AssetUploadOptions {
+  filename: string;
+  title?: string;
+  description?: string;
+  /** Folder to upload into */
+  parentUid?: string;
+}
+
+/**
+ * Typed Management API operations for one stack
+ */
+export interface ManagementClient {
+  readonly config: ManagementConfig;
+  getEntry(contentType: string, uid: string): Promise<ManagementEntry | null>;
+  findEntries(
+    contentType: string,
+    query: Record<string, unknown>,
+    options?: { limit?: number }
+  ): Promise<ManagementEntry[]>;
+  createEntry(contentType: string, fields: Record<string, unknown>): Promise<ManagementEntry>;
+  updateEntry(contentType: string, uid: string, fields: Record<string, unknown>): Promise<ManagementEntry>;
+  publishEntry(contentType: string, uid: string): Promise<void>;
+  unpublishEntry(contentType: string, uid: string): Promise<void>;
+  uploadAsset(file: Blob, options: AssetUploadOptions): Promise<ManagementAsset>;
+  publishAsset(uid: string): Promise<void>;
+}
+
+/**
+ * Read-only entry metadata the update endpoint does not accept
+ */
+export const ENTRY_SYSTEM_FIELDS = [
+  'uid',
+  'created_at',
+  'updated_at',
+  'created_by',
+  'updated_by',
+  'publish_details',
+  '_version',
+  '_in_progress',
+];
+
+/**
+ * Which management token to authenticate with
+ */
+export interface ManagementClientOptions {
+  /**
+   * Environment variable holding a token scoped to fewer content types.
+   * There is no fallback to CONTENTSTACK_MANAGEMENT_TOKEN when it is unset.
+   */
+  tokenEnv?: string;
+}
+
+/**
+ * Management API settings from the environment
+ * Returns null when the API key or management token is missing; throws on an unknown region
+ */
+export function getManagementConfig(
+  options: ManagementClientOptions = {}
+): ManagementConfig | null {
+  const apiKey = process.env.CONTENTSTACK_API_KEY;
+  const managementToken = process.env[options.tokenEnv || 'CONTENTSTACK_MANAGEMENT_TOKEN'];
+
+  if (!apiKey || !managementToken) {
+    return null;
+  }
+
+  return {
+    apiKey,
+    managementToken,
+    region: getContentstackRegion(),
+    branch: process.env.CONTENTSTACK_BRANCH || undefined,
+    environment: process.env.CONTENTSTACK_ENVIRONMENT || 'production',
+    locale: MANAGEMENT_LOCALE,
+  };
+}
+
+/**
+ * Make an authenticated Management API request
+ * Throws ManagementApiError when the API responds with an error
+ */
+async function requestManagementApi<T>(
+  config: ManagementConfig,
+  path: string,
+  init: { method?: string; json?: unknown; body?: FormData } = {}
+): Promise<T> {
+  const headers: Record<string, string> = {
+    'api_key': config.apiKey,
+    'authorization': config.managementToken,
+  };
+  if (config.branch) {
+    headers['branch'] = config.branch;
+  }
+  if (init.json !== undefined) {
+    headers['Content-Type'] = 'application/json';
+  }
+
+  const response = await fetch(`${getManagementBaseUrl(config.region)}/v3${path}`, {
+    method: init.method || 'GET',
+    headers,
+    body: init.json !== undefined ? JSON.stringify(init.json) : init.body,
+    cache: 'no-store',
+  });
+
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new ManagementApiError(
+      result.error_message || `HTTP ${response.status}: ${response.statusText}`,
+      response.status,
+      result.error_code !== undefined ? String(result.error_code) : undefined,
+      result.errors
+    );
+  }
+
+  return result as T;
+}
+
+/**
+ * Management API client for the configured stack, region and branch
+ * Returns null when credentials are missing. Pass `tokenEnv` to use a token
+ * scoped to a single content type (e.g. newsletter subscriptions).
+ */
+export function getManagementClient(
+  options: ManagementClientOptions = {}
+): ManagementClient | null {
+  const config = getManagementConfig(options);
+  if (!config) {
+    return null;
+  }
+
+  const publishTarget = {
+    environments: [config.environment],
+    locales: [config.locale],
+  };
+  const localeQuery = `locale=${encodeURIComponent(config.locale)}`;
+  const entriesPath = (contentType: string) => `/content_types/${encodeURIComponent(contentType)}/entries`;
+  const entryPath = (contentType: string, uid: string) => `${entriesPath(contentType)}/${encodeURIComponent(uid)}`;
+
+  return {
+    config,
+
+    async getEntry(contentType, uid) {
+      try {
+        const result = await withRetry(() =>
+          requestManagementApi<{ entry?: ManagementEntry }>(config, `${entryPath(contentType, uid)}?${localeQuery}`)
+        );
+        return result.entry || null;
+      } catch (error) {
+        if (error instanceof ManagementApiError && error.statusCode === 404) {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async findEntries(contentType, query, queryOptions = {}) {
+      const params = new URLSearchParams({ locale: config.locale, query: JSON.stringify(query) });
+      if (queryOptions.limit !== undefined) {
+        params.set('limit', queryOptions.limit.toString());
+      }
+
+      const result = await withRetry(() =>
+        requestManagementApi<{ entries?: ManagementEntry[] }>(config, `${entriesPath(contentType)}?${params.toString()}`)
+      );
+      return result.entries || [];
+    },
+
+    async createEntry(contentType, fields) {
+      const result = await requestManagementApi<{ entry: ManagementEntry }>(
+        config,
+        `${entriesPath(contentType)}?${localeQuery}`,
+        { method: 'POST', json: { entry: fields } }
+      );
+      return result.entry;
+    },
+
+    async updateEntry(contentType, uid, fields) {
+      const result = await withRetry(() =>
+        requestManagementApi<{ entry: ManagementEntry }>(
+          config,
+          `${entryPath(contentType, uid)}?${localeQuery}`,
+          { method: 'PUT', json: { entry: fields } }
+        )
+      );
+      return result.entry;
+    },
+
+    async publishEntry(contentType, uid) {
+      await withRetry(() =>
+        requestManagementApi(config, `${entryPath(contentType, uid)}/publish`, {
+          method: 'POST',
+          json: { entry: publishTarget },
+        })
+      );
+    },
+
+    async unpublishEntry(contentType, uid) {
+      await withRetry(() =>
+        requestManagementApi(config, `${entryPath(contentType, uid)}/unpublish`, {
+          method: 'POST',
+          json: { entry: publishTarget },
+        })
+      );
+    },
+
+    async uploadAsset(file, uploadOptions) {
+      const formData = new FormData();
+      formData.append('asset[upload]', file, uploadOptions.filename);
+      formData.append('asset[title]', uploadOptions.title || uploadOptions.filename);
+      if (uploadOptions.description) {
+        formData.append('asset[description]', uploadOptions.description);
+      }
+      if (uploadOptions.parentUid) {
+        formData.append('asset[parent_uid]', uploadOptions.parentUid);
+      }
+
+      const result = await requestManagementApi<{ asset: ManagementAsset }>(config, '/assets', {
+        method: 'POST',
+        body: formData,
+      });
+      return result.asset;
+    },
+
+    async publishAsset(uid) {
+      await withRetry(() =>
+        requestManagementApi(config, `/assets/${encodeURIComponent(uid)}/publish`, {
+          method: 'POST',
+          json: { asset: publishTarget },
+        })
+      );
+    },
+  };
+}
+
 /**
  * Generate a URL-friendly slug from title
  */
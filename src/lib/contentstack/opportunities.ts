@@ -6,6 +6,7 @@
 import type {
   Opportunity,
   OpportunitySummary,
+  Organizer,
   OpportunityFilters,
   OpportunityListResponse,
   OpportunitySortOption,
@@ -14,7 +15,9 @@ import { OpportunityStatus } from '@/types';
 import { ContentTypes } from './config';
 import { getEntries, getEntryByUid, getEntryByField, getEntryCount } from './client';
 import { transformOpportunity, transformOpportunitySummary } from './transformers';
+import { buildOnOrAfterCondition } from './queries';
 import { isPast } from '@/lib/utils/dates';
+import { getNextOccurrence, getScheduleRule, toNextOccurrence, today } from '@/lib/recurrence';
 
 /**
  * Default page size for opportunity listings
@@ -22,6 +25,11 @@ import { isPast } from '@/lib/utils/dates';
 const DEFAULT_PAGE_SIZE = 12;
 const MAX_FETCH_LIMIT = 100; // Fetch more to allow for filtering
 
+/**
+ * References expanded on detail fetches (the organizer profile card)
+ */
+const DETAIL_INCLUDES = ['organizer'];
+
 /**
  * Map sort option to Contentstack order_by field
  */
@@ -52,11 +60,9 @@ function buildBasicQuery(filters: OpportunityFilters): Record<string, unknown> {
     });
   }
 
-  // Date range filter
+  // Date range filter (recurring series match while they still have sessions in range)
   if (filters.startDate) {
-    conditions.push({
-      start_date: { $gte: filters.startDate },
-    });
+    conditions.push(buildOnOrAfterCondition(filters.startDate));
   }
 
   if (filters.endDate) {
@@ -145,6 +151,42 @@ function filterByLocationAndCauses(
   return result;
 }
 
+/**
+ * Whether an opportunity has no sessions left
+ * Recurring series are over once their last occurrence has passed
+ */
+function hasEnded(opportunity: OpportunitySummary): boolean {
+  if (getScheduleRule(opportunity)) {
+    return getNextOccurrence(opportunity) === null;
+  }
+  const eventDate = opportunity.endDate || opportunity.startDate;
+  return eventDate ? isPast(eventDate) : false;
+}
+
+/**
+ * Show recurring series at their next session within a date range (default: from today)
+ * Series without a session in range are dropped; one-off events pass through unchanged
+ */
+function withNextOccurrences(
+  opportunities: OpportunitySummary[],
+  range: { startDate?: string; endDate?: string } = {}
+): OpportunitySummary[] {
+  const from = range.startDate && range.startDate > today() ? range.startDate : today();
+
+  return opportunities.flatMap((opp) => {
+    const next = toNextOccurrence(opp, { from, to: range.endDate });
+    return next ? [next] : [];
+  });
+}
+
+/**
+ * Re-sort after recurring series were moved to their next session
+ */
+function sortByDate(opportunities: OpportunitySummary[], direction: 'asc' | 'desc'): OpportunitySummary[] {
+  const sorted = [...opportunities].sort((a, b) => a.startDate.localeCompare(b.startDate));
+  return direction === 'asc' ? sorted : sorted.reverse();
+}
+
 /**
  * Fetch a paginated list of opportunities with filters
  */
@@ -166,7 +208,8 @@ export async function getOpportunities(
   // so we can filter by date. We'll remove status filter temporarily.
   const isCompletedFilter = filters.status && filters.status.length === 1 && filters.status[0] === OpportunityStatus.COMPLETED;
   const isActiveFilter = filters.status && (filters.status.includes(OpportunityStatus.UPCOMING) || filters.status.includes(OpportunityStatus.ONGOING));
-  const needsDateFiltering = isCompletedFilter || isActiveFilter;
+  const hasDateRange = !!(filters.startDate || filters.endDate);
+  const needsDateFiltering = isCompletedFilter || isActiveFilter || hasDateRange;
   
   const queryFilters = { ...filters };
   if (isCompletedFilter) {
@@ -213,21 +256,20 @@ export async function getOpportunities(
     if (isCompletedFilter) {
       // For completed: show status="completed" OR past-dated opportunities
       opportunities = opportunities.filter((opp) => {
-        const eventDate = opp.endDate || opp.startDate;
-        const hasPastDate = eventDate ? isPast(eventDate) : false;
-        return opp.status === OpportunityStatus.COMPLETED || hasPastDate;
+        return opp.status === OpportunityStatus.COMPLETED || hasEnded(opp);
       });
     } else if (isActiveFilter) {
       // For active: exclude past-dated opportunities (status filter already applied in query)
-      opportunities = opportunities.filter((opp) => {
-        const eventDate = opp.endDate || opp.startDate;
-        if (!eventDate) {
-          // If no date, include it (status filter already applied)
-          return true;
-        }
-        // Exclude if date is in the past (include today and future)
-        return !isPast(eventDate);
-      });
+      // Include today and future; opportunities without a date are kept
+      opportunities = opportunities.filter((opp) => !hasEnded(opp));
+    }
+  }
+
+  // Recurring series are listed once, dated to their next session in the requested range
+  if ((isActiveFilter || hasDateRange) && !isCompletedFilter) {
+    opportunities = withNextOccurrences(opportunities, filters);
+    if (sort === 'date_asc' || sort === 'date_desc') {
+      opportunities = sortByDate(opportunities, direction);
     }
   }
 
@@ -262,7 +304,8 @@ export async function getOpportunities(
 export async function getOpportunityById(uid: string): Promise<Opportunity | null> {
   const entry = await getEntryByUid<Record<string, unknown>>(
     ContentTypes.OPPORTUNITY,
-    uid
+    uid,
+    { include: DETAIL_INCLUDES }
   );
 
   if (!entry) return null;
@@ -277,7 +320,8 @@ export async function getOpportunityBySlug(slug: string): Promise<Opportunity |
   const entry = await getEntryByField<Record<string, unknown>>(
     ContentTypes.OPPORTUNITY,
     'slug',
-    slug
+    slug,
+    { include: DETAIL_INCLUDES }
   );
 
   if (!entry) return null;
@@ -303,51 +347,63 @@ export async function getFeaturedOpportunities(
     orderDirection: 'asc',
   });
 
-  return result.entries.map((entry) =>
-    transformOpportunitySummary(entry as Parameters<typeof transformOpportunitySummary>[0])
-  );
+  return result.entries.map((entry) => {
+    const opportunity = transformOpportunitySummary(entry as Parameters<typeof transformOpportunitySummary>[0]);
+    return toNextOccurrence(opportunity, { from: today() }) || opportunity;
+  });
 }
 
 /**
  * Fetch upcoming opportunities
+ * Recurring series are included while they have sessions left, dated to the next one
  */
 export async function getUpcomingOpportunities(
   limit = 12
 ): Promise<OpportunitySummary[]> {
-  const today = new Date().toISOString().split('T')[0];
-  
   const query = {
     $and: [
       { status: OpportunityStatus.UPCOMING },
-      { start_date: { $gte: today } },
+      buildOnOrAfterCondition(today()),
     ],
   };
 
+  // Series starting earlier sort ahead of their next session, so fetch extra and re-sort
   const result = await getEntries<Record<string, unknown>>(ContentTypes.OPPORTUNITY, {
     query,
-    limit,
+    limit: Math.min(limit * 2, MAX_FETCH_LIMIT),
     orderBy: 'start_date',
     orderDirection: 'asc',
   });
 
-  return result.entries.map((entry) =>
+  const opportunities = result.entries.map((entry) =>
     transformOpportunitySummary(entry as Parameters<typeof transformOpportunitySummary>[0])
   );
+
+  return sortByDate(withNextOccurrences(opportunities), 'asc').slice(0, limit);
 }
 
 /**
- * Fetch opportunities by organizer name
+ * Fetch opportunities hosted by an organizer
+ * Matches the organizer reference, or, for verified organizers, the organizer
+ * email on entries not yet linked. Names are free text anyone can submit, so
+ * they are never matched.
  */
 export async function getOpportunitiesByOrganizer(
-  organizerName: string,
+  organizer: Pick<Organizer, 'uid' | 'isVerified' | 'contact'>,
   options: { limit?: number; includeCompleted?: boolean } = {}
 ): Promise<OpportunitySummary[]> {
   const limit = options.limit || 10;
 
+  const verifiedEmail = organizer.isVerified ? organizer.contact?.email?.trim().toLowerCase() : undefined;
+  const matches: Record<string, unknown>[] = [{ 'organizer.uid': organizer.uid }];
+  if (verifiedEmail) {
+    matches.push({ organizer_email: verifiedEmail });
+  }
+
   const result = await getEntries<Record<string, unknown>>(ContentTypes.OPPORTUNITY, {
     query: {
       $and: [
-        { organizer_name: organizerName },
+        { $or: matches },
         options.includeCompleted ? {} : { status: { $in: [OpportunityStatus.UPCOMING, OpportunityStatus.ONGOING] } },
       ].filter(obj => Object.keys(obj).length > 0),
     },
@@ -378,6 +434,7 @@ export async function getOpportunitiesByCause(
   const opportunities = result.entries
     .map((entry) => transformOpportunitySummary(entry as Parameters<typeof transformOpportunitySummary>[0]))
     .filter((opp) => opp.causeSlugs?.includes(causeSlug))
+    .map((opp) => toNextOccurrence(opp, { from: today() }) || opp)
     .slice(0, limit);
 
   return opportunities;
@@ -402,9 +459,10 @@ export async function getOpportunitiesByCity(
     orderDirection: 'asc',
   });
 
-  return result.entries.map((entry) =>
-    transformOpportunitySummary(entry as Parameters<typeof transformOpportunitySummary>[0])
-  );
+  return result.entries.map((entry) => {
+    const opportunity = transformOpportunitySummary(entry as Parameters<typeof transformOpportunitySummary>[0]);
+    return toNextOccurrence(opportunity, { from: today() }) || opportunity;
+  });
 }
 
 /**
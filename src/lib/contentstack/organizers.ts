@@ -0,0 +1,94 @@
+/**
+ * Organizer Data Fetching
+ * Functions for fetching organizer profiles from Contentstack
+ */
+
+import type { Organizer, OrganizerType } from '@/types';
+import { ContentTypes } from './config';
+import { getEntries, getEntryByField } from './client';
+import { transformAsset, type ContentstackAsset } from './transformers';
+
+/**
+ * Raw Contentstack organizer entry
+ */
+interface ContentstackOrganizer {
+  uid: string;
+  created_at: string;
+  updated_at: string;
+  name: string;
+  slug: string;
+  type?: string;
+  tagline?: string;
+  description?: string;
+  logo?: ContentstackAsset;
+  verification_status?: string;
+  founded_year?: number;
+  focus_areas?: string[];
+  contact_email?: string;
+  contact_phone?: string;
+  website?: string;
+  social_links?: {
+    facebook?: string;
+    instagram?: string;
+    twitter?: string;
+    linkedin?: string;
+  };
+}
+
+/**
+ * Transform Contentstack organizer to Organizer type
+ */
+function transformOrganizer(entry: ContentstackOrganizer): Organizer {
+  const verificationStatus = entry.verification_status === 'verified' ? 'verified' : 'pending';
+  const hasSocialLinks = Object.values(entry.social_links || {}).some(Boolean);
+  const hasContact = Boolean(entry.contact_email || entry.contact_phone || entry.website || hasSocialLinks);
+
+  return {
+    uid: entry.uid,
+    name: entry.name,
+    slug: entry.slug,
+    type: entry.type as OrganizerType | undefined,
+    tagline: entry.tagline,
+    description: entry.description,
+    logo: transformAsset(entry.logo),
+    verificationStatus,
+    isVerified: verificationStatus === 'verified',
+    foundedYear: entry.founded_year,
+    focusAreas: entry.focus_areas || [],
+    contact: hasContact
+      ? {
+          email: entry.contact_email || undefined,
+          phone: entry.contact_phone,
+          website: entry.website,
+          socialLinks: entry.social_links,
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Fetch organizer by slug
+ */
+export async function getOrganizerBySlug(slug: string): Promise<Organizer | null> {
+  const entry = await getEntryByField<ContentstackOrganizer>(
+    ContentTypes.ORGANIZER,
+    'slug',
+    slug
+  );
+
+  if (!entry) return null;
+
+  return transformOrganizer(entry);
+}
+
+/**
+ * Get all organizer slugs (for static generation)
+ */
+export async function getAllOrganizerSlugs(): Promise<string[]> {
+  const result = await getEntries<{ slug: string }>(ContentTypes.ORGANIZER, {
+    only: { BASE: ['slug'] },
+    limit: 100,
+  });
+
+  return result.entries.map((entry) => entry.slug);
+}
@@ -131,10 +131,18 @@ export interface MyEventsPageContent {
   pending_description?: string;
   published_title?: string;
   published_description?: string;
+  drafts_title?: string;
+  drafts_description?: string;
   empty_title?: string;
   empty_message?: string;
   create_cta_text?: string;
   create_cta_link?: string;
+  // Event dashboard (/my-events/[id])
+  manage_cta_text?: string;
+  registrants_title?: string;
+  registrants_empty_message?: string;
+  message_title?: string;
+  message_description?: string;
 }
 
 /**
@@ -334,10 +342,17 @@ export const DEFAULT_MY_EVENTS_PAGE: MyEventsPageContent = {
   pending_description: 'These events are waiting for admin approval before they go live.',
   published_title: 'Published Events',
   published_description: 'Your events that are live and visible to volunteers.',
+  drafts_title: 'My Drafts',
+  drafts_description: 'Events you started but have not submitted yet. Drafts save automatically as you type.',
   empty_title: 'No Events Yet',
   empty_message: 'You have not created any events yet. Create your first event to start making an impact!',
   create_cta_text: 'Create Your First Event',
   create_cta_link: '/create-event',
+  manage_cta_text: 'Manage Event',
+  registrants_title: 'Registrants',
+  registrants_empty_message: 'No one has registered yet. Share your event to get the word out!',
+  message_title: 'Message Registrants',
+  message_description: 'Send an update by email. Replies go to your organizer email address.',
 };
 
 /**
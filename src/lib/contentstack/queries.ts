@@ -27,6 +27,24 @@ interface QueryCondition {
   [key: string]: QueryValue | { [K in QueryOperator]?: QueryValue };
 }
 
+/**
+ * Match opportunities with a session on or after a date
+ * One-off events by start date; recurring series by their last session (end_date)
+ */
+export function buildOnOrAfterCondition(date: string): QueryCondition {
+  return {
+    $or: [
+      { start_date: { $gte: date } },
+      {
+        $and: [
+          { recurrence_rule: { $regex: 'FREQ=' } },
+          { end_date: { $gte: date } },
+        ],
+      },
+    ],
+  };
+}
+
 /**
  * Build query for opportunity filtering
  * Supports both reference fields and slug fields
@@ -63,9 +81,7 @@ export function buildOpportunityQuery(filters: OpportunityFilters): QueryConditi
 
   // Date range filter
   if (filters.startDate) {
-    conditions.push({
-      start_date: { $gte: filters.startDate },
-    });
+    conditions.push(buildOnOrAfterCondition(filters.startDate));
   }
 
   if (filters.endDate) {
@@ -139,7 +155,7 @@ export function buildUpcomingQuery(): QueryCondition {
   return {
     $and: [
       { status: 'upcoming' },
-      { start_date: { $gte: today } },
+      buildOnOrAfterCondition(today),
     ],
   };
 }
@@ -225,6 +241,8 @@ export function getOpportunitySummaryFields(): Record<string, string[]> {
       'start_date',
       'end_date',
       'start_time',
+      'recurrence_rule',
+      'shifts',
       'spots_available',
       'status',
       'is_featured',
@@ -8,10 +8,14 @@ import type {
   OpportunitySummary,
   CauseReference,
   LocationReference,
+  OrganizerReference,
   ImageAsset,
   ContributionType,
   OpportunityStatus,
 } from '@/types';
+import { parseRegistrationQuestions } from '@/lib/registrations/questions';
+import { parseRecurrenceRule } from '@/lib/recurrence';
+import { shiftsFromEntry } from '@/lib/shifts';
 
 /**
  * Raw Contentstack entry with system fields
@@ -103,6 +107,25 @@ function transformCauses(entry: ContentstackEntry): CauseReference[] {
   return [];
 }
 
+/**
+ * Transform the organizer reference field
+ * Only expanded references (fetched with include[]=organizer) carry a name and slug
+ */
+export function transformOrganizerReference(
+  value: ContentstackReference[] | ContentstackReference | undefined
+): OrganizerReference | undefined {
+  const ref = Array.isArray(value) ? value[0] : value;
+  if (!ref || !ref.slug || !ref.name) return undefined;
+
+  return {
+    uid: ref.uid,
+    name: ref.name as string,
+    slug: ref.slug as string,
+    logo: transformAsset(ref.logo as ContentstackAsset | undefined),
+    isVerified: ref.verification_status === 'verified',
+  };
+}
+
 /**
  * Get cause slugs from entry
  */
@@ -122,6 +145,17 @@ function getCauseSlugs(entry: ContentstackEntry): string[] {
   return [];
 }
 
+/**
+ * Recurrence fields from the stored RRULE
+ * Unparseable rules are ignored so the entry behaves as a one-off event
+ */
+function transformRecurrence(value: unknown): { isRecurring: boolean; recurrencePattern?: string } {
+  if (typeof value !== 'string' || !parseRecurrenceRule(value)) {
+    return { isRecurring: false };
+  }
+  return { isRecurring: true, recurrencePattern: value.trim() };
+}
+
 /**
  * Transform raw Contentstack entry to Opportunity
  */
@@ -150,8 +184,11 @@ export function transformOpportunity(entry: ContentstackEntry): Opportunity {
     endDate: entry.end_date as string | undefined,
     startTime: entry.start_time as string | undefined,
     endTime: entry.end_time as string | undefined,
+    ...transformRecurrence(entry.recurrence_rule),
+    shifts: shiftsFromEntry(entry.shifts, entry.start_date as string),
 
-    // Organizer (direct fields, not reference)
+    // Organizer (profile reference, plus direct fields)
+    organizer: transformOrganizerReference(entry.organizer as ContentstackReference[] | undefined),
     organizerName: entry.organizer_name as string | undefined,
     organizerEmail: entry.organizer_email as string | undefined,
 
@@ -159,8 +196,14 @@ export function transformOpportunity(entry: ContentstackEntry): Opportunity {
     spotsAvailable: entry.spots_available as number | undefined,
     requirements: entry.requirements as string | undefined,
 
+    // Custom registration questions
+    registrationQuestions: parseRegistrationQuestions(
+      entry.registration_questions_json as string | undefined
+    ),
+
     // Status
     status: (entry.status as OpportunityStatus) || 'upcoming',
+    cancellationReason: entry.cancellation_reason as string | undefined,
 
     // Metadata
     createdAt: entry.created_at,
@@ -193,8 +236,11 @@ export function transformOpportunitySummary(entry: ContentstackEntry): Opportuni
     startDate: entry.start_date as string,
     endDate: entry.end_date as string | undefined,
     startTime: entry.start_time as string | undefined,
+    ...transformRecurrence(entry.recurrence_rule),
+    shifts: shiftsFromEntry(entry.shifts, entry.start_date as string),
     
     // Organizer
+    organizer: transformOrganizerReference(entry.organizer as ContentstackReference[] | undefined),
     organizerName: entry.organizer_name as string | undefined,
     
     // Capacity
@@ -9,7 +9,17 @@ import type {
   AutomateWebhookResponse,
   ParticipantConfirmationEmail,
   OrganizerNotificationEmail,
+  WaitlistPromotionEmail,
+  OrganizerCancellationEmail,
+  RegistrationRemovedEmail,
+  OrganizerMessageEmail,
+  EventUpdatedEmail,
+  EventCancelledEmail,
+  OrganizerLoginEmail,
+  CalendarFeedLinkEmail,
+  SubmissionChangesRequestedEmail,
 } from './types';
+import { writeToOutbox } from './outbox';
 
 /**
  * Contentstack Automate configuration
@@ -47,13 +57,9 @@ async function sendWebhook(
   payload: EmailPayload,
   apiKey?: string
 ): Promise<EmailResult> {
-  // If no webhook URL configured, log and return mock success
+  // If no webhook URL configured, keep the email in the local outbox
   if (!webhookUrl) {
-    console.log('[Email Mock] Would send email:', JSON.stringify(payload, null, 2));
-    return {
-      success: true,
-      messageId: `mock_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
-    };
+    return writeToOutbox(payload);
   }
 
   try {
@@ -138,6 +144,168 @@ export async function sendOrganizerNotification(
   return sendWebhook(config.organizerWebhookUrl, payload, config.apiKey);
 }
 
+/**
+ * Send confirmation to a participant promoted from the waitlist
+ */
+export async function sendWaitlistPromotion(
+  data: Omit<WaitlistPromotionEmail, 'type'>
+): Promise<EmailResult> {
+  const config = getAutomateConfig();
+
+  const payload: WaitlistPromotionEmail = {
+    type: 'waitlist_promotion',
+    ...data,
+  };
+
+  console.log(`[Email] Sending waitlist promotion to ${data.recipient.email}`);
+
+  return sendWebhook(config.participantWebhookUrl, payload, config.apiKey);
+}
+
+/**
+ * Notify organizer that a participant cancelled
+ */
+export async function sendOrganizerCancellationNotice(
+  data: Omit<OrganizerCancellationEmail, 'type'>
+): Promise<EmailResult> {
+  const config = getAutomateConfig();
+
+  const payload: OrganizerCancellationEmail = {
+    type: 'organizer_cancellation',
+    ...data,
+  };
+
+  console.log(`[Email] Sending cancellation notice to ${data.recipient.email}`);
+
+  return sendWebhook(config.organizerWebhookUrl, payload, config.apiKey);
+}
+
+/**
+ * Tell a participant the organizer removed their registration
+ */
+export async function sendRegistrationRemovedNotice(
+  data: Omit<RegistrationRemovedEmail, 'type'>
+): Promise<EmailResult> {
+  const config = getAutomateConfig();
+
+  const payload: RegistrationRemovedEmail = {
+    type: 'registration_removed',
+    ...data,
+  };
+
+  console.log(`[Email] Sending registration removal notice to ${data.recipient.email}`);
+
+  return sendWebhook(config.participantWebhookUrl, payload, config.apiKey);
+}
+
+/**
+ * Deliver an organizer's message to one participant
+ */
+export async function sendOrganizerMessage(
+  data: Omit<OrganizerMessageEmail, 'type'>
+): Promise<EmailResult> {
+  const config = getAutomateConfig();
+
+  const payload: OrganizerMessageEmail = {
+    type: 'organizer_message',
+    ...data,
+  };
+
+  console.log(`[Email] Sending organizer message to ${data.recipient.email}`);
+
+  return sendWebhook(config.participantWebhookUrl, payload, config.apiKey);
+}
+
+/**
+ * Tell a participant the event's schedule or location changed
+ */
+export async function sendEventUpdatedNotice(
+  data: Omit<EventUpdatedEmail, 'type'>
+): Promise<EmailResult> {
+  const config = getAutomateConfig();
+
+  const payload: EventUpdatedEmail = {
+    type: 'event_updated',
+    ...data,
+  };
+
+  console.log(`[Email] Sending event update notice to ${data.recipient.email}`);
+
+  return sendWebhook(config.participantWebhookUrl, payload, config.apiKey);
+}
+
+/**
+ * Tell a participant the organizer cancelled the event
+ */
+export async function sendEventCancelledNotice(
+  data: Omit<EventCancelledEmail, 'type'>
+): Promise<EmailResult> {
+  const config = getAutomateConfig();
+
+  const payload: EventCancelledEmail = {
+    type: 'event_cancelled',
+    ...data,
+  };
+
+  console.log(`[Email] Sending event cancellation notice to ${data.recipient.email}`);
+
+  return sendWebhook(config.participantWebhookUrl, payload, config.apiKey);
+}
+
+/**
+ * Send a one-time sign-in link to an organizer
+ */
+export async function sendOrganizerLoginLink(
+  data: Omit<OrganizerLoginEmail, 'type'>
+): Promise<EmailResult> {
+  const config = getAutomateConfig();
+
+  const payload: OrganizerLoginEmail = {
+    type: 'organizer_login',
+    ...data,
+  };
+
+  console.log(`[Email] Sending organizer sign-in link to ${data.recipient.email}`);
+
+  return sendWebhook(config.organizerWebhookUrl, payload, config.apiKey);
+}
+
+/**
+ * Send a volunteer the link to their personal calendar feed
+ */
+export async function sendCalendarFeedLink(
+  data: Omit<CalendarFeedLinkEmail, 'type'>
+): Promise<EmailResult> {
+  const config = getAutomateConfig();
+
+  const payload: CalendarFeedLinkEmail = {
+    type: 'calendar_feed_link',
+    ...data,
+  };
+
+  console.log(`[Email] Sending calendar feed link to ${data.recipient.email}`);
+
+  return sendWebhook(config.participantWebhookUrl, payload, config.apiKey);
+}
+
+/**
+ * Send a moderator's change request to the organizer of a submission
+ */
+export async function sendSubmissionChangesRequested(
+  data: Omit<SubmissionChangesRequestedEmail, 'type'>
+): Promise<EmailResult> {
+  const config = getAutomateConfig();
+
+  const payload: SubmissionChangesRequestedEmail = {
+    type: 'submission_changes_requested',
+    ...data,
+  };
+
+  console.log(`[Email] Sending change request to ${data.recipient.email}`);
+
+  return sendWebhook(config.organizerWebhookUrl, payload, config.apiKey);
+}
+
 /**
  * Send both participant confirmation and organizer notification
  */
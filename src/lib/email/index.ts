@@ -7,12 +7,32 @@ export {
   sendParticipantConfirmation,
   sendOrganizerNotification,
   sendRegistrationEmails,
+  sendWaitlistPromotion,
+  sendOrganizerCancellationNotice,
+  sendRegistrationRemovedNotice,
+  sendOrganizerMessage,
+  sendEventUpdatedNotice,
+  sendEventCancelledNotice,
+  sendOrganizerLoginLink,
+  sendCalendarFeedLink,
+  sendSubmissionChangesRequested,
   isAutomateConfigured,
 } from './contentstack-automate';
+export { writeToOutbox, getOutboxDir } from './outbox';
 
 export type {
   EmailPayload,
   EmailResult,
   ParticipantConfirmationEmail,
   OrganizerNotificationEmail,
+  WaitlistPromotionEmail,
+  OrganizerCancellationEmail,
+  RegistrationRemovedEmail,
+  OrganizerMessageEmail,
+  EventUpdatedEmail,
+  EventCancelledEmail,
+  OrganizerLoginEmail,
+  CalendarFeedLinkEmail,
+  SubmissionChangesRequestedEmail,
+  TicketAttachment,
 } from './types';
@@ -0,0 +1,55 @@
+/**
+ * File Outbox
+ * Local mail transport used when no Automate webhook is configured
+ *
+ * Each email is written as a JSON file under DATA_DIR/outbox/ so links
+ * (sign-in, cancellation, tickets) can be opened during development.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { getDataDir } from '@/lib/storage';
+import type { EmailPayload, EmailResult } from './types';
+
+/**
+ * Directory holding outbox messages
+ */
+export function getOutboxDir(): string {
+  return path.join(getDataDir(), 'outbox');
+}
+
+/**
+ * Write an email payload to the outbox
+ */
+export async function writeToOutbox(payload: EmailPayload): Promise<EmailResult> {
+  const messageId = `outbox_${Date.now()}_${randomBytes(4).toString('hex')}`;
+  const filePath = path.join(getOutboxDir(), `${messageId}_${payload.type}.json`);
+
+  try {
+    await fs.mkdir(getOutboxDir(), { recursive: true });
+    await fs.writeFile(
+      filePath,
+      JSON.stringify(
+        {
+          messageId,
+          createdAt: new Date().toISOString(),
+          to: payload.recipient.email,
+          payload,
+        },
+        null,
+        2
+      ),
+      'utf-8'
+    );
+
+    console.log(`[Email Outbox] ${payload.type} for ${payload.recipient.email} written to ${filePath}`);
+    return { success: true, messageId };
+  } catch (error) {
+    console.error('[Email Outbox] Failed to write message:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
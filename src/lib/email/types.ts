@@ -3,6 +3,18 @@
  * Type definitions for email service
  */
 
+/**
+ * QR ticket attached to participant emails
+ */
+export interface TicketAttachment {
+  code: string;
+  url: string;
+  qrImageUrl: string;
+  /** PNG QR code, base64 encoded, for email attachments */
+  qrPngBase64: string;
+  filename: string;
+}
+
 /**
  * Registration email data sent to participant
  */
@@ -27,6 +39,8 @@ export interface ParticipantConfirmationEmail {
   };
   registrationId: string;
   submittedAt: string;
+  cancelUrl?: string;
+  ticket?: TicketAttachment;
 }
 
 /**
@@ -54,10 +68,234 @@ export interface OrganizerNotificationEmail {
   submittedAt: string;
 }
 
+/**
+ * Confirmation sent when a waitlisted participant is promoted to a spot
+ */
+export interface WaitlistPromotionEmail {
+  type: 'waitlist_promotion';
+  recipient: {
+    name: string;
+    email: string;
+  };
+  opportunity: {
+    id: string;
+    title: string;
+    slug: string;
+    date: string;
+    time?: string;
+    location: string;
+    isVirtual: boolean;
+  };
+  organizer: {
+    name: string;
+    email?: string;
+  };
+  registrationId: string;
+  promotedAt: string;
+  cancelUrl?: string;
+  ticket?: TicketAttachment;
+}
+
+/**
+ * Notice sent to organizer when a participant cancels their registration
+ */
+export interface OrganizerCancellationEmail {
+  type: 'organizer_cancellation';
+  recipient: {
+    name: string;
+    email: string;
+  };
+  participant: {
+    name: string;
+    email: string;
+  };
+  /** Spots freed by the cancellation (more than one for groups) */
+  partySize: number;
+  opportunity: {
+    id: string;
+    title: string;
+    slug: string;
+    date: string;
+  };
+  registrationId: string;
+  cancelledAt: string;
+  /** Participants promoted from the waitlist into the freed spots */
+  promotedParticipants: Array<{
+    name: string;
+    email: string;
+    partySize: number;
+  }>;
+}
+
+/**
+ * Notice sent to a participant whose registration the organizer removed
+ */
+export interface RegistrationRemovedEmail {
+  type: 'registration_removed';
+  recipient: {
+    name: string;
+    email: string;
+  };
+  opportunity: {
+    id: string;
+    title: string;
+    slug: string;
+    date: string;
+  };
+  organizer: {
+    name: string;
+    email?: string;
+  };
+  registrationId: string;
+  reason?: string;
+  removedAt: string;
+}
+
+/**
+ * Free-form message from an organizer to registered participants
+ */
+export interface OrganizerMessageEmail {
+  type: 'organizer_message';
+  recipient: {
+    name: string;
+    email: string;
+  };
+  opportunity: {
+    id: string;
+    title: string;
+    slug: string;
+    date: string;
+  };
+  organizer: {
+    name: string;
+    /** Replies go straight to the organizer */
+    email?: string;
+  };
+  registrationId: string;
+  subject: string;
+  message: string;
+  sentAt: string;
+}
+
+/**
+ * Notice to a participant that the event's date, time or location changed
+ */
+export interface EventUpdatedEmail {
+  type: 'event_updated';
+  recipient: {
+    name: string;
+    email: string;
+  };
+  opportunity: {
+    id: string;
+    title: string;
+    slug: string;
+    date: string;
+    time?: string;
+    location: string;
+    isVirtual: boolean;
+  };
+  organizer: {
+    name: string;
+    email?: string;
+  };
+  registrationId: string;
+  /** Changed fields with display values */
+  changes: Array<{
+    label: string;
+    from: string;
+    to: string;
+  }>;
+  updatedAt: string;
+}
+
+/**
+ * Notice to a participant that the organizer cancelled the event
+ */
+export interface EventCancelledEmail {
+  type: 'event_cancelled';
+  recipient: {
+    name: string;
+    email: string;
+  };
+  opportunity: {
+    id: string;
+    title: string;
+    slug: string;
+    date: string;
+  };
+  organizer: {
+    name: string;
+    email?: string;
+  };
+  registrationId: string;
+  reason: string;
+  cancelledAt: string;
+}
+
+/**
+ * One-time sign-in link sent to an organizer
+ */
+export interface OrganizerLoginEmail {
+  type: 'organizer_login';
+  recipient: {
+    email: string;
+  };
+  loginUrl: string;
+  expiresAt: string;
+}
+
+/**
+ * Personal calendar feed link sent to a volunteer
+ */
+export interface CalendarFeedLinkEmail {
+  type: 'calendar_feed_link';
+  recipient: {
+    email: string;
+  };
+  feedUrl: string;
+  webcalUrl: string;
+}
+
+/**
+ * Moderator feedback on a submission, with a link to revise and resubmit it
+ */
+export interface SubmissionChangesRequestedEmail {
+  type: 'submission_changes_requested';
+  recipient: {
+    name: string;
+    email: string;
+  };
+  submission: {
+    id: string;
+    title: string;
+    revision: number;
+  };
+  /** Per-field comments with display labels */
+  comments: Array<{
+    label: string;
+    comment: string;
+  }>;
+  note?: string;
+  reviseUrl: string;
+  expiresAt: string;
+}
+
 /**
  * Union type for all email types
  */
-export type EmailPayload = ParticipantConfirmationEmail | OrganizerNotificationEmail;
+export type EmailPayload =
+  | ParticipantConfirmationEmail
+  | OrganizerNotificationEmail
+  | WaitlistPromotionEmail
+  | OrganizerCancellationEmail
+  | RegistrationRemovedEmail
+  | OrganizerMessageEmail
+  | EventUpdatedEmail
+  | EventCancelledEmail
+  | OrganizerLoginEmail
+  | CalendarFeedLinkEmail
+  | SubmissionChangesRequestedEmail;
 
 /**
  * Email send result
@@ -0,0 +1,215 @@
+/**
+ * Event Field Diff
+ * Compares a published opportunity with an organizer's proposed changes
+ */
+
+import type { Opportunity } from '@/types';
+import { describeRecurrence, parseRecurrenceRule } from '@/lib/recurrence';
+import { describeShift } from '@/lib/shifts';
+import type {
+  EditableEventField,
+  EditableEventFields,
+  EventFieldChange,
+} from './types';
+
+/**
+ * Display labels, in the order fields appear in the event form
+ */
+export const EVENT_FIELD_LABELS: Record<EditableEventField, string> = {
+  title: 'Title',
+  summary: 'Summary',
+  description: 'Description',
+  coverImageUid: 'Cover image',
+  coverImageUrl: 'Cover image URL',
+  isVirtual: 'Virtual event',
+  country: 'Country',
+  state: 'State / Province',
+  city: 'City',
+  address: 'Address',
+  causeSlugs: 'Causes',
+  contributionTypes: 'Contribution types',
+  startDate: 'Start date',
+  endDate: 'End date',
+  startTime: 'Start time',
+  endTime: 'End time',
+  recurrenceRule: 'Repeats',
+  shifts: 'Shifts',
+  spotsAvailable: 'Spots available',
+  requirements: 'Requirements',
+  organizerName: 'Organizer name',
+};
+
+/**
+ * Fields registrants are told about when they change
+ */
+const SCHEDULE_FIELDS: EditableEventField[] = [
+  'startDate',
+  'endDate',
+  'startTime',
+  'endTime',
+  'recurrenceRule',
+  'shifts',
+  'isVirtual',
+  'country',
+  'state',
+  'city',
+  'address',
+];
+
+/**
+ * Current editable values of a published opportunity
+ */
+export function getEditableFields(opportunity: Opportunity): EditableEventFields {
+  return {
+    title: opportunity.title,
+    summary: opportunity.summary || '',
+    description: opportunity.description || '',
+    coverImageUid: opportunity.coverImage?.uid || '',
+    coverImageUrl: opportunity.coverImage?.url || '',
+    country: opportunity.country || '',
+    state: opportunity.state || '',
+    city: opportunity.city || '',
+    address: opportunity.address || '',
+    isVirtual: opportunity.isVirtual || false,
+    causeSlugs: opportunity.causeSlugs || [],
+    contributionTypes: opportunity.contributionTypes || [],
+    startDate: opportunity.startDate,
+    endDate: opportunity.endDate || opportunity.startDate,
+    startTime: opportunity.startTime || '',
+    endTime: opportunity.endTime || '',
+    recurrenceRule: opportunity.recurrencePattern || '',
+    // Stored shape only (no computed spot counts)
+    shifts: (opportunity.shifts || []).map((shift) => ({
+      id: shift.id,
+      label: shift.label,
+      date: shift.date,
+      startTime: shift.startTime,
+      endTime: shift.endTime,
+      spots: shift.spots,
+    })),
+    organizerName: opportunity.organizerName || '',
+    spotsAvailable: opportunity.spotsAvailable ?? null,
+    requirements: opportunity.requirements || '',
+  };
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  // Shifts are kept in schedule order, so compare them as-is
+  if (Array.isArray(a) && Array.isArray(b) && a.some((item) => typeof item === 'object')) {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && [...a].sort().join('\n') === [...b].sort().join('\n');
+  }
+  return a === b;
+}
+
+/**
+ * Field-level changes between current and proposed values
+ * The cover image URL only follows the image UID, so it is never listed on its own
+ */
+export function diffEventFields(
+  current: EditableEventFields,
+  proposed: EditableEventFields
+): EventFieldChange[] {
+  const changes: EventFieldChange[] = [];
+
+  for (const field of Object.keys(EVENT_FIELD_LABELS) as EditableEventField[]) {
+    if (field === 'coverImageUrl') continue;
+    if (isSameValue(current[field], proposed[field])) continue;
+
+    changes.push({
+      field,
+      label: EVENT_FIELD_LABELS[field],
+      from: current[field],
+      to: proposed[field],
+    } as EventFieldChange);
+  }
+
+  return changes;
+}
+
+/**
+ * Changed fields' values before and after, keyed by field (for the audit log)
+ */
+export function getChangeSnapshots(
+  changes: EventFieldChange[]
+): { before: Record<string, unknown>; after: Record<string, unknown> } {
+  const before: Record<string, unknown> = {};
+  const after: Record<string, unknown> = {};
+
+  for (const change of changes) {
+    before[change.field] = change.from;
+    after[change.field] = change.to;
+  }
+
+  return { before, after };
+}
+
+/**
+ * Whether any change affects when or where the event happens
+ */
+export function hasScheduleChanges(changes: EventFieldChange[]): boolean {
+  return changes.some((change) => SCHEDULE_FIELDS.includes(change.field));
+}
+
+/**
+ * Changes registrants should be told about
+ */
+export function getScheduleChanges(changes: EventFieldChange[]): EventFieldChange[] {
+  return changes.filter((change) => SCHEDULE_FIELDS.includes(change.field));
+}
+
+/**
+ * Opportunity with approved changes applied
+ * Used right after an update, before the delivery API serves the new entry
+ */
+export function applyEventChanges(
+  opportunity: Opportunity,
+  changes: EventFieldChange[]
+): Opportunity {
+  const fields = { ...getEditableFields(opportunity) } as Record<EditableEventField, unknown>;
+  for (const change of changes) {
+    fields[change.field] = change.to;
+  }
+  const updated = fields as EditableEventFields;
+
+  return {
+    ...opportunity,
+    title: updated.title,
+    summary: updated.summary,
+    description: updated.description,
+    country: updated.country,
+    state: updated.state,
+    city: updated.city,
+    address: updated.address,
+    isVirtual: updated.isVirtual,
+    causeSlugs: updated.causeSlugs,
+    contributionTypes: updated.contributionTypes as Opportunity['contributionTypes'],
+    startDate: updated.startDate,
+    endDate: updated.endDate,
+    startTime: updated.startTime,
+    endTime: updated.endTime,
+    isRecurring: Boolean(updated.recurrenceRule),
+    recurrencePattern: updated.recurrenceRule || undefined,
+    shifts: updated.shifts,
+    organizerName: updated.organizerName,
+    spotsAvailable: updated.spotsAvailable ?? undefined,
+    requirements: updated.requirements,
+  };
+}
+
+/**
+ * Human-readable value for emails and review pages
+ */
+export function formatFieldValue(value: EditableEventFields[EditableEventField]): string {
+  if (value === null || value === undefined || value === '') return '(none)';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '(none)';
+    return value.map((item) => (typeof item === 'string' ? item : describeShift(item))).join(', ');
+  }
+  const rule = typeof value === 'string' ? parseRecurrenceRule(value) : null;
+  if (rule) return describeRecurrence(rule);
+  return String(value);
+}
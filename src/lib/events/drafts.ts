@@ -0,0 +1,130 @@
+/**
+ * Event Drafts
+ * Server copies of unsubmitted create-event forms, keyed by draft ID
+ *
+ * Drafts live in DATA_DIR/event-drafts.json. The form autosaves to
+ * localStorage first and mirrors to the server while the organizer is
+ * signed in, so a draft can be resumed on another device.
+ */
+
+import { getDataFilePath, readJsonFile, updateJsonFile } from '@/lib/storage';
+import { normalizeEmail } from '@/lib/registrations';
+import type { StoredEventDraft } from './types';
+
+/**
+ * Most drafts an organizer can keep at once
+ */
+export const MAX_DRAFTS_PER_ORGANIZER = 20;
+
+/**
+ * Largest accepted form state (serialized), in bytes
+ */
+export const MAX_DRAFT_SIZE = 50_000;
+
+/**
+ * On-disk file shape (keyed by draft ID)
+ */
+interface DraftsFile {
+  drafts: Record<string, StoredEventDraft>;
+}
+
+const EMPTY_FILE: DraftsFile = { drafts: {} };
+
+function getDraftsPath(): string {
+  return getDataFilePath('event-drafts.json');
+}
+
+/**
+ * Whether a client-generated draft ID has the expected shape
+ */
+export function isValidDraftId(draftId: unknown): draftId is string {
+  return typeof draftId === 'string' && /^draft_[a-z0-9_]{1,40}$/i.test(draftId);
+}
+
+/**
+ * An organizer's drafts, most recently saved first
+ */
+export async function listDrafts(organizerEmail: string): Promise<StoredEventDraft[]> {
+  const email = normalizeEmail(organizerEmail);
+  const file = await readJsonFile<DraftsFile>(getDraftsPath(), EMPTY_FILE);
+  return Object.values(file.drafts)
+    .filter((d) => d.organizerEmail === email)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Look up one of an organizer's drafts
+ */
+export async function getDraft(
+  draftId: string,
+  organizerEmail: string
+): Promise<StoredEventDraft | null> {
+  const file = await readJsonFile<DraftsFile>(getDraftsPath(), EMPTY_FILE);
+  const draft = file.drafts[draftId];
+  return draft && draft.organizerEmail === normalizeEmail(organizerEmail) ? draft : null;
+}
+
+/**
+ * Create or replace a draft
+ * Returns null when the ID belongs to someone else or the organizer is at the draft limit
+ */
+export async function saveDraft(params: {
+  draftId: string;
+  organizerEmail: string;
+  title: string;
+  fields: Record<string, unknown>;
+}): Promise<StoredEventDraft | null> {
+  const email = normalizeEmail(params.organizerEmail);
+  const now = new Date().toISOString();
+
+  return updateJsonFile<DraftsFile, StoredEventDraft | null>(
+    getDraftsPath(),
+    EMPTY_FILE,
+    (file) => {
+      const existing = file.drafts[params.draftId];
+      if (existing && existing.organizerEmail !== email) {
+        return { data: file, result: null };
+      }
+
+      if (!existing) {
+        const count = Object.values(file.drafts).filter((d) => d.organizerEmail === email).length;
+        if (count >= MAX_DRAFTS_PER_ORGANIZER) {
+          return { data: file, result: null };
+        }
+      }
+
+      const draft: StoredEventDraft = {
+        draftId: params.draftId,
+        organizerEmail: email,
+        title: params.title,
+        fields: params.fields,
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+      };
+
+      return {
+        data: { drafts: { ...file.drafts, [draft.draftId]: draft } },
+        result: draft,
+      };
+    }
+  );
+}
+
+/**
+ * Delete one of an organizer's drafts
+ * Returns false when there was no such draft
+ */
+export async function deleteDraft(draftId: string, organizerEmail: string): Promise<boolean> {
+  const email = normalizeEmail(organizerEmail);
+
+  return updateJsonFile<DraftsFile, boolean>(getDraftsPath(), EMPTY_FILE, (file) => {
+    const existing = file.drafts[draftId];
+    if (!existing || existing.organizerEmail !== email) {
+      return { data: file, result: false };
+    }
+
+    const drafts = { ...file.drafts };
+    delete drafts[draftId];
+    return { data: { drafts }, result: true };
+  });
+}
@@ -0,0 +1,240 @@
+/**
+ * Event Edit Requests
+ * Organizer-proposed changes to published opportunities, held for admin review
+ *
+ * Requests live in DATA_DIR/event-edit-requests.json. An opportunity has at
+ * most one pending request; submitting again supersedes the older one. Admins
+ * review through signed links, so the review URL itself is the credential.
+ * Approve and reject links carry their action in the signed token, and a
+ * decision is only applied by the request that claims the edit request.
+ */
+
+import { randomBytes } from 'crypto';
+import type { Opportunity } from '@/types';
+import { createSignedToken, daysFromNow, verifySignedToken } from '@/lib/tokens';
+import { getDataFilePath, readJsonFile, updateJsonFile } from '@/lib/storage';
+import { getAppUrl } from '@/lib/config';
+import { normalizeEmail } from '@/lib/registrations';
+import type { EventEditRequest, EventFieldChange } from './types';
+
+export const EDIT_REVIEW_TOKEN_PURPOSE = 'event_edit_review';
+
+/**
+ * How long admin review links stay valid
+ */
+const REVIEW_LINK_DAYS = 14;
+
+/**
+ * A claim older than this is treated as abandoned (e.g. the server restarted mid-approval)
+ */
+const PROCESSING_TIMEOUT_MS = 10 * 60 * 1000;
+
+export type EditReviewAction = 'approve' | 'reject';
+
+/**
+ * On-disk file shape (keyed by request ID)
+ */
+interface EditRequestsFile {
+  requests: Record<string, EventEditRequest>;
+}
+
+const EMPTY_FILE: EditRequestsFile = { requests: {} };
+
+function getEditRequestsPath(): string {
+  return getDataFilePath('event-edit-requests.json');
+}
+
+function generateRequestId(): string {
+  return `EDIT-${Date.now().toString(36)}-${randomBytes(3).toString('hex')}`.toUpperCase();
+}
+
+/**
+ * Store a new pending edit request, superseding any pending one for the event
+ */
+export async function createEditRequest(params: {
+  opportunity: Opportunity;
+  organizerEmail: string;
+  changes: EventFieldChange[];
+}): Promise<EventEditRequest> {
+  const { opportunity, organizerEmail, changes } = params;
+
+  const request: EventEditRequest = {
+    requestId: generateRequestId(),
+    opportunityId: opportunity.uid,
+    opportunityTitle: opportunity.title,
+    opportunitySlug: opportunity.slug,
+    organizerEmail: normalizeEmail(organizerEmail),
+    changes,
+    status: 'pending',
+    submittedAt: new Date().toISOString(),
+  };
+
+  return updateJsonFile<EditRequestsFile, EventEditRequest>(
+    getEditRequestsPath(),
+    EMPTY_FILE,
+    (file) => {
+      const requests = { ...file.requests };
+
+      for (const existing of Object.values(requests)) {
+        if (existing.opportunityId === opportunity.uid && existing.status === 'pending') {
+          requests[existing.requestId] = {
+            ...existing,
+            status: 'superseded',
+            reviewedAt: request.submittedAt,
+          };
+        }
+      }
+
+      requests[request.requestId] = request;
+      return { data: { requests }, result: request };
+    }
+  );
+}
+
+/**
+ * Look up an edit request by ID
+ */
+export async function getEditRequest(requestId: string): Promise<EventEditRequest | null> {
+  const file = await readJsonFile<EditRequestsFile>(getEditRequestsPath(), EMPTY_FILE);
+  return file.requests[requestId] || null;
+}
+
+/**
+ * The pending edit request for an opportunity, if any
+ */
+export async function getPendingEditRequest(
+  opportunityId: string
+): Promise<EventEditRequest | null> {
+  const file = await readJsonFile<EditRequestsFile>(getEditRequestsPath(), EMPTY_FILE);
+  return Object.values(file.requests).find(
+    (r) => r.opportunityId === opportunityId && r.status === 'pending'
+  ) || null;
+}
+
+/**
+ * Whether a request can be claimed: pending, or claimed so long ago the claim was abandoned
+ */
+function isClaimable(request: EventEditRequest, now: number): boolean {
+  if (request.status === 'pending') return true;
+  return request.status === 'processing'
+    && !!request.processingStartedAt
+    && now - new Date(request.processingStartedAt).getTime() > PROCESSING_TIMEOUT_MS;
+}
+
+/**
+ * Claim a pending request so only one review link can act on it
+ * Returns null when it does not exist or was already claimed or decided
+ */
+export async function claimEditRequest(requestId: string): Promise<EventEditRequest | null> {
+  return updateJsonFile<EditRequestsFile, EventEditRequest | null>(
+    getEditRequestsPath(),
+    EMPTY_FILE,
+    (file) => {
+      const existing = file.requests[requestId];
+      const now = Date.now();
+      if (!existing || !isClaimable(existing, now)) {
+        return { data: file, result: null };
+      }
+
+      const claimed: EventEditRequest = {
+        ...existing,
+        status: 'processing',
+        processingStartedAt: new Date(now).toISOString(),
+      };
+
+      return {
+        data: { requests: { ...file.requests, [requestId]: claimed } },
+        result: claimed,
+      };
+    }
+  );
+}
+
+/**
+ * Return a claimed request to pending (e.g. the entry could not be updated)
+ */
+export async function releaseEditRequest(requestId: string): Promise<void> {
+  await updateJsonFile<EditRequestsFile, void>(getEditRequestsPath(), EMPTY_FILE, (file) => {
+    const existing = file.requests[requestId];
+    if (!existing || existing.status !== 'processing') {
+      return { data: file, result: undefined };
+    }
+
+    const released: EventEditRequest = { ...existing, status: 'pending' };
+    delete released.processingStartedAt;
+
+    return {
+      data: { requests: { ...file.requests, [requestId]: released } },
+      result: undefined,
+    };
+  });
+}
+
+/**
+ * Record the admin decision on a pending or claimed request
+ * Returns null when the request does not exist or was already decided
+ */
+export async function resolveEditRequest(
+  requestId: string,
+  status: 'approved' | 'rejected',
+  details: Pick<EventEditRequest, 'notifiedRegistrants'> = {}
+): Promise<EventEditRequest | null> {
+  return updateJsonFile<EditRequestsFile, EventEditRequest | null>(
+    getEditRequestsPath(),
+    EMPTY_FILE,
+    (file) => {
+      const existing = file.requests[requestId];
+      if (!existing || (existing.status !== 'pending' && existing.status !== 'processing')) {
+        return { data: file, result: null };
+      }
+
+      const resolved: EventEditRequest = {
+        ...existing,
+        ...details,
+        status,
+        reviewedAt: new Date().toISOString(),
+      };
+      delete resolved.processingStartedAt;
+
+      return {
+        data: { requests: { ...file.requests, [requestId]: resolved } },
+        result: resolved,
+      };
+    }
+  );
+}
+
+/**
+ * Signed review token, bound to an action when given
+ */
+export function createEditReviewToken(requestId: string, action?: EditReviewAction): string {
+  return createSignedToken(EDIT_REVIEW_TOKEN_PURPOSE, requestId, {
+    expiresAt: daysFromNow(REVIEW_LINK_DAYS),
+    data: action ? { action } : undefined,
+  });
+}
+
+/**
+ * Signed admin link for reviewing an edit request
+ * The link only opens a page; the decision is applied when it is confirmed there
+ */
+export function createEditReviewUrl(requestId: string, action?: EditReviewAction): string {
+  const params = new URLSearchParams({ token: createEditReviewToken(requestId, action) });
+  return `${getAppUrl()}/api/event-edits/review?${params.toString()}`;
+}
+
+/**
+ * Request ID and bound action from a review token (null when invalid or expired)
+ */
+export function verifyEditReviewToken(
+  token: string
+): { requestId: string; action?: EditReviewAction } | null {
+  const verification = verifySignedToken(token, EDIT_REVIEW_TOKEN_PURPOSE);
+  if (!verification.valid) return null;
+
+  const action = verification.payload.data?.action;
+  return {
+    requestId: verification.payload.sub,
+    action: action === 'approve' || action === 'reject' ? action : undefined,
+  };
+}
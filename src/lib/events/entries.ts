@@ -0,0 +1,240 @@
+/**
+ * Opportunity Entries
+ * Creates, publishes and changes opportunity entries via the Management API
+ * (approved submissions, approved edit requests and organizer cancellations)
+ */
+
+import { ContentTypes, ENTRY_SYSTEM_FIELDS, getManagementClient } from '@/lib/contentstack';
+import { shiftsToEntry } from '@/lib/shifts';
+import type { OpportunityShift } from '@/types';
+import type { EditableEventField, EventFieldChange, SubmittedEvent } from './types';
+
+/**
+ * Opportunity content type field for each editable field
+ * The cover image URL is derived from the asset, so it has no field of its own
+ */
+const ENTRY_FIELDS: Partial<Record<EditableEventField, string>> = {
+  title: 'title',
+  summary: 'summary',
+  description: 'description',
+  coverImageUid: 'cover_image',
+  country: 'country',
+  state: 'state',
+  city: 'city',
+  address: 'address',
+  isVirtual: 'is_virtual',
+  causeSlugs: 'cause_slugs',
+  contributionTypes: 'contribution_types',
+  startDate: 'start_date',
+  endDate: 'end_date',
+  startTime: 'start_time',
+  endTime: 'end_time',
+  recurrenceRule: 'recurrence_rule',
+  shifts: 'shifts',
+  organizerName: 'organizer_name',
+  spotsAvailable: 'spots_available',
+  requirements: 'requirements',
+};
+
+/**
+ * Entry field values for a set of changes
+ */
+export function changesToEntryFields(changes: EventFieldChange[]): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+
+  for (const change of changes) {
+    const entryField = ENTRY_FIELDS[change.field];
+    if (!entryField) continue;
+    if (change.field === 'shifts') {
+      fields[entryField] = shiftsToEntry(change.to as OpportunityShift[]);
+      continue;
+    }
+    // An empty image UID removes the cover image
+    fields[entryField] = change.field === 'coverImageUid' && !change.to ? null : change.to;
+  }
+
+  return fields;
+}
+
+/**
+ * Error message for a failed Management API call
+ */
+function getErrorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+/**
+ * Update fields on an opportunity entry and re-publish it
+ * The current entry is fetched first so fields not given are kept as-is
+ */
+export async function updateOpportunityFields(
+  entryUid: string,
+  changedFields: Record<string, unknown>
+): Promise<{ success: boolean; error?: string }> {
+  const client = getManagementClient();
+  if (!client) {
+    return { success: false, error: 'Missing API credentials' };
+  }
+
+  let current: Record<string, unknown> | null;
+  try {
+    current = await client.getEntry(ContentTypes.OPPORTUNITY, entryUid);
+  } catch (error) {
+    console.error('[OpportunityEntry] Fetch entry failed:', error);
+    return { success: false, error: getErrorMessage(error, 'Failed to load entry') };
+  }
+  if (!current) {
+    return { success: false, error: 'Entry not found' };
+  }
+
+  // Drop system fields the update endpoint does not accept
+  const currentFields: Record<string, unknown> = { ...current };
+  for (const field of ENTRY_SYSTEM_FIELDS) {
+    delete currentFields[field];
+  }
+
+  console.log('[OpportunityEntry] Updating entry:', entryUid, Object.keys(changedFields));
+
+  try {
+    await client.updateEntry(ContentTypes.OPPORTUNITY, entryUid, { ...currentFields, ...changedFields });
+  } catch (error) {
+    console.error('[OpportunityEntry] Update failed:', error);
+    return { success: false, error: getErrorMessage(error, 'Failed to update entry') };
+  }
+
+  try {
+    await client.publishEntry(ContentTypes.OPPORTUNITY, entryUid);
+  } catch (error) {
+    console.error('[OpportunityEntry] Publish failed:', error);
+    return { success: false, error: 'Entry updated but could not be published' };
+  }
+
+  console.log('[OpportunityEntry] Entry updated and published:', entryUid);
+  return { success: true };
+}
+
+/**
+ * Apply an approved edit request to the published entry
+ */
+export async function updateOpportunityEntry(
+  entryUid: string,
+  changes: EventFieldChange[]
+): Promise<{ success: boolean; error?: string }> {
+  return updateOpportunityFields(entryUid, changesToEntryFields(changes));
+}
+
+/**
+ * Mark an opportunity cancelled, keeping it published so its page explains why
+ */
+export async function cancelOpportunityEntry(
+  entryUid: string,
+  reason: string
+): Promise<{ success: boolean; error?: string }> {
+  return updateOpportunityFields(entryUid, {
+    status: 'cancelled',
+    cancellation_reason: reason,
+  });
+}
+
+/**
+ * Opportunity entry fields for a submitted event
+ */
+export function submissionToEntryFields(eventData: SubmittedEvent): Record<string, unknown> {
+  const fields: Record<string, unknown> = {
+    title: eventData.title,
+    slug: eventData.slug,
+    summary: eventData.summary || '',
+    description: eventData.description || '',
+    status: 'upcoming',
+    is_virtual: eventData.isVirtual || false,
+    country: eventData.country || '',
+    state: eventData.state || '',
+    city: eventData.city || '',
+    address: eventData.address || '',
+    cause_slugs: eventData.causeSlugs || [],
+    contribution_types: eventData.contributionTypes || [],
+    start_date: eventData.startDate,
+    end_date: eventData.endDate || eventData.startDate,
+    start_time: eventData.startTime || '',
+    end_time: eventData.endTime || '',
+    recurrence_rule: eventData.recurrenceRule || '',
+    shifts: shiftsToEntry(eventData.shifts || []),
+    organizer_name: eventData.organizerName || '',
+    organizer_email: eventData.organizerEmail,
+    // Events with shifts have no event-wide capacity
+    spots_available: eventData.shifts?.length ? null : eventData.spotsAvailable || 50,
+    requirements: eventData.requirements || '',
+  };
+
+  if (eventData.coverImageUid) {
+    fields.cover_image = eventData.coverImageUid;
+  }
+
+  return fields;
+}
+
+/**
+ * UID of the opportunity entry with a slug, if one exists
+ * Used to find an entry a previous, interrupted approval already created
+ */
+export async function findOpportunityEntryBySlug(
+  slug: string
+): Promise<{ success: boolean; uid?: string; error?: string }> {
+  const client = getManagementClient();
+  if (!client) {
+    return { success: false, error: 'Missing API credentials' };
+  }
+
+  try {
+    const entries = await client.findEntries(ContentTypes.OPPORTUNITY, { slug }, { limit: 1 });
+    return { success: true, uid: entries[0]?.uid };
+  } catch (error) {
+    console.error('[OpportunityEntry] Lookup failed:', error);
+    return { success: false, error: getErrorMessage(error, 'Failed to look up entry') };
+  }
+}
+
+/**
+ * Create the (unpublished) opportunity entry for an approved submission
+ */
+export async function createOpportunityEntry(
+  eventData: SubmittedEvent
+): Promise<{ success: boolean; uid?: string; error?: string }> {
+  const client = getManagementClient();
+  if (!client) {
+    return { success: false, error: 'Missing API credentials' };
+  }
+
+  const fields = submissionToEntryFields(eventData);
+  console.log('[OpportunityEntry] Creating entry:', JSON.stringify(fields, null, 2));
+
+  try {
+    const entry = await client.createEntry(ContentTypes.OPPORTUNITY, fields);
+    console.log('[OpportunityEntry] Entry created:', entry.uid);
+    return { success: true, uid: entry.uid };
+  } catch (error) {
+    console.error('[OpportunityEntry] Create failed:', error);
+    return { success: false, error: getErrorMessage(error, 'Failed to create entry') };
+  }
+}
+
+/**
+ * Publish an opportunity entry to the configured environment
+ */
+export async function publishOpportunityEntry(
+  entryUid: string
+): Promise<{ success: boolean; error?: string }> {
+  const client = getManagementClient();
+  if (!client) {
+    return { success: false, error: 'Missing API credentials' };
+  }
+
+  try {
+    await client.publishEntry(ContentTypes.OPPORTUNITY, entryUid);
+    console.log('[OpportunityEntry] Entry published successfully:', entryUid);
+    return { success: true };
+  } catch (error) {
+    console.error('[OpportunityEntry] Publish failed:', error);
+    return { success: false, error: getErrorMessage(error, 'Failed to publish entry') };
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Events
+ * Central export for new event submissions, their drafts and organizer
+ * edit requests on published opportunities
+ */
+
+export {
+  EVENT_FIELD_LABELS,
+  getEditableFields,
+  diffEventFields,
+  getChangeSnapshots,
+  hasScheduleChanges,
+  getScheduleChanges,
+  applyEventChanges,
+  formatFieldValue,
+} from './diff';
+export { parseEventEditInput } from './validate';
+export {
+  EDIT_REVIEW_TOKEN_PURPOSE,
+  createEditRequest,
+  getEditRequest,
+  getPendingEditRequest,
+  claimEditRequest,
+  releaseEditRequest,
+  resolveEditRequest,
+  createEditReviewToken,
+  createEditReviewUrl,
+  verifyEditReviewToken,
+} from './edit-requests';
+export {
+  SUBMISSION_REVIEW_TOKEN_PURPOSE,
+  SUBMISSION_REVISION_TOKEN_PURPOSE,
+  createSubmission,
+  getSubmission,
+  listSubmissions,
+  claimSubmission,
+  releaseSubmission,
+  resolveSubmission,
+  reviseSubmission,
+  startPublishRun,
+  recordPublishStep,
+  completePublishRun,
+  getSubmissionRevision,
+  getRevisionChanges,
+  createSubmissionReviewUrl,
+  createSubmissionRevisionUrl,
+  submissionToOpportunity,
+  verifySubmissionReviewToken,
+  verifySubmissionRevisionToken,
+} from './submissions';
+export {
+  reviewSubmission,
+  resumeSubmissionPublishing,
+  requestSubmissionChanges,
+} from './review';
+export {
+  PUBLISH_STEPS,
+  PUBLISH_STEP_LABELS,
+  hasUnfinishedPublishSteps,
+  runPublishPipeline,
+} from './publishing';
+export { screenSubmission } from './screening';
+export {
+  MAX_DRAFTS_PER_ORGANIZER,
+  MAX_DRAFT_SIZE,
+  isValidDraftId,
+  listDrafts,
+  getDraft,
+  saveDraft,
+  deleteDraft,
+} from './drafts';
+export {
+  changesToEntryFields,
+  updateOpportunityFields,
+  updateOpportunityEntry,
+  cancelOpportunityEntry,
+  submissionToEntryFields,
+  findOpportunityEntryBySlug,
+  createOpportunityEntry,
+  publishOpportunityEntry,
+} from './entries';
+
+export type { EventEditInput } from './validate';
+export type { EditReviewAction } from './edit-requests';
+export type { SubmissionReviewAction } from './submissions';
+export type { SubmissionReviewError, SubmissionReviewResult } from './review';
+export type { PublishRunResult } from './publishing';
+export type {
+  EditableEventFields,
+  EditableEventField,
+  EventFieldChange,
+  EventEditRequest,
+  EventEditRequestStatus,
+  StoredEventDraft,
+  SubmittedEvent,
+  EventSubmissionStatus,
+  StoredEventSubmission,
+  SubmissionFieldComment,
+  SubmissionChangeRequest,
+  SubmissionRevision,
+  ScreeningCheck,
+  ScreeningRisk,
+  ScreeningFlag,
+  SubmissionScreening,
+  PublishStep,
+  PublishStepRecord,
+  SubmissionPublishing,
+} from './types';
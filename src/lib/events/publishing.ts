@@ -0,0 +1,217 @@
+/**
+ * Submission Publishing
+ * Approval pipeline for a submission: create the opportunity entry, publish it,
+ * index it for search and notify the organizer
+ *
+ * The pipeline is keyed on the submission: each step is recorded on it as it
+ * finishes, so approving again (a double click, a prefetched link, a retry after
+ * a failure) resumes at the first unfinished step instead of creating another
+ * entry. The create step also looks for an entry with the submission's slug, in
+ * case a run stopped between creating the entry and recording it.
+ */
+
+import { isAlgoliaIndexingConfigured, upsertAlgoliaRecord } from '@/lib/algolia/indexing';
+import {
+  createOpportunityEntry,
+  findOpportunityEntryBySlug,
+  publishOpportunityEntry,
+  submissionToEntryFields,
+} from './entries';
+import {
+  completePublishRun,
+  getSubmission,
+  recordPublishStep,
+  startPublishRun,
+} from './submissions';
+import type { SubmissionReviewAction } from './submissions';
+import type { PublishStep, StoredEventSubmission, SubmittedEvent } from './types';
+
+export const PUBLISH_STEPS: PublishStep[] = ['created', 'published', 'indexed', 'notified'];
+
+export const PUBLISH_STEP_LABELS: Record<PublishStep, string> = {
+  created: 'Entry created',
+  published: 'Entry published',
+  indexed: 'Search indexed',
+  notified: 'Organizer notified',
+};
+
+/**
+ * Result of one pipeline run
+ */
+export type PublishRunResult =
+  | { success: true; submission: StoredEventSubmission }
+  | {
+      success: false;
+      submission: StoredEventSubmission | null;
+      /** Unset when another run is already in progress */
+      failedStep?: PublishStep;
+      error: string;
+    };
+
+type StepOutcome =
+  | { status: 'completed' | 'skipped'; entryUid?: string }
+  | { status: 'failed'; error: string };
+
+/**
+ * Send notification email via Automate webhook
+ */
+export async function sendNotificationEmail(
+  webhookUrl: string,
+  eventData: SubmittedEvent,
+  action: SubmissionReviewAction,
+  reason?: string
+): Promise<boolean> {
+  try {
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        action,
+        title: eventData.title,
+        organizerName: eventData.organizerName || 'Organizer',
+        organizerEmail: eventData.organizerEmail,
+        startDate: eventData.startDate,
+        city: eventData.city,
+        state: eventData.state,
+        country: eventData.country,
+        isVirtual: eventData.isVirtual,
+        reason: reason || '',
+        processedAt: new Date().toISOString(),
+      }),
+    });
+
+    return response.ok;
+  } catch (error) {
+    console.error('[SubmissionPublishing] Webhook error:', error);
+    return false;
+  }
+}
+
+/**
+ * Whether approval started but some steps have not finished
+ */
+export function hasUnfinishedPublishSteps(submission: StoredEventSubmission): boolean {
+  return !!submission.publishing && !submission.publishing.completedAt;
+}
+
+/**
+ * Entry for the submission: the recorded one, one a stopped run created, or a new one
+ */
+async function runCreateStep(submission: StoredEventSubmission): Promise<StepOutcome> {
+  if (submission.entryUid) {
+    return { status: 'completed', entryUid: submission.entryUid };
+  }
+
+  // Slugs end in a per-submission suffix, so a match is this submission's entry
+  const existing = await findOpportunityEntryBySlug(submission.event.slug);
+  if (!existing.success) {
+    return { status: 'failed', error: existing.error || 'Failed to look up entry' };
+  }
+  if (existing.uid) {
+    console.log('[SubmissionPublishing] Reusing existing entry:', {
+      submissionId: submission.submissionId,
+      entryUid: existing.uid,
+    });
+    return { status: 'completed', entryUid: existing.uid };
+  }
+
+  const created = await createOpportunityEntry(submission.event);
+  if (!created.success || !created.uid) {
+    return { status: 'failed', error: created.error || 'Failed to create entry' };
+  }
+  return { status: 'completed', entryUid: created.uid };
+}
+
+async function runStep(
+  submission: StoredEventSubmission,
+  step: PublishStep,
+  reason?: string
+): Promise<StepOutcome> {
+  if (step === 'created') {
+    return runCreateStep(submission);
+  }
+
+  const entryUid = submission.entryUid;
+  if (!entryUid) {
+    return { status: 'failed', error: 'No entry was created' };
+  }
+
+  if (step === 'published') {
+    const result = await publishOpportunityEntry(entryUid);
+    return result.success
+      ? { status: 'completed' }
+      : { status: 'failed', error: result.error || 'Failed to publish entry' };
+  }
+
+  if (step === 'indexed') {
+    // Without an admin key the Contentstack publish webhook is left to index it
+    if (!isAlgoliaIndexingConfigured()) {
+      return { status: 'skipped' };
+    }
+    const { event } = submission;
+    try {
+      await upsertAlgoliaRecord({
+        ...submissionToEntryFields(event),
+        uid: entryUid,
+        cover_image: event.coverImageUrl ? { url: event.coverImageUrl, title: event.title } : undefined,
+      });
+      return { status: 'completed' };
+    } catch (error) {
+      return { status: 'failed', error: error instanceof Error ? error.message : 'Failed to index entry' };
+    }
+  }
+
+  const webhookUrl = process.env.CONTENTSTACK_AUTOMATE_APPROVE_WEBHOOK;
+  if (!webhookUrl) {
+    return { status: 'skipped' };
+  }
+  const sent = await sendNotificationEmail(webhookUrl, submission.event, 'approve', reason);
+  return sent ? { status: 'completed' } : { status: 'failed', error: 'Notification webhook failed' };
+}
+
+/**
+ * Run (or resume) the approval pipeline for a claimed or approved submission
+ * Steps already completed or skipped are not repeated; the run stops at the first failure
+ */
+export async function runPublishPipeline(
+  submissionId: string,
+  options: { reason?: string } = {}
+): Promise<PublishRunResult> {
+  let submission = await startPublishRun(submissionId);
+  if (!submission) {
+    return {
+      success: false,
+      submission: await getSubmission(submissionId),
+      error: 'Publishing is already in progress',
+    };
+  }
+
+  for (const step of PUBLISH_STEPS) {
+    const recorded = submission.publishing?.steps[step];
+    if (recorded && recorded.status !== 'failed') continue;
+
+    const outcome = await runStep(submission, step, options.reason);
+    const updated = await recordPublishStep(
+      submissionId,
+      step,
+      outcome.status === 'failed'
+        ? { status: 'failed', at: new Date().toISOString(), error: outcome.error }
+        : { status: outcome.status, at: new Date().toISOString() },
+      outcome.status === 'failed' ? undefined : outcome.entryUid
+    );
+    submission = updated || submission;
+
+    if (outcome.status === 'failed') {
+      console.error('[SubmissionPublishing] Step failed:', {
+        submissionId,
+        step,
+        error: outcome.error,
+      });
+      return { success: false, submission, failedStep: step, error: outcome.error };
+    }
+  }
+
+  const completed = await completePublishRun(submissionId);
+  console.log('[SubmissionPublishing] Published:', { submissionId, entryUid: submission.entryUid });
+  return { success: true, submission: completed || submission };
+}
@@ -0,0 +1,272 @@
+/**
+ * Submission Review
+ * Approves or rejects a stored submission, from an email link or the admin queue,
+ * or sends it back to the organizer with requested changes
+ *
+ * Approval runs the publishing pipeline (create, publish, index, notify), which
+ * resumes where it stopped when approved again; either decision emails the
+ * organizer through Automate, with the reviewer's reason when one was given.
+ * A change request emails the organizer a link to revise the submission.
+ * Every decision is recorded in the audit log with the reviewer and request source.
+ */
+
+import { recordAuditEvent } from '@/lib/audit';
+import type { AuditContext } from '@/lib/audit';
+import { sendSubmissionChangesRequested } from '@/lib/email';
+import { EVENT_FIELD_LABELS } from './diff';
+import {
+  PUBLISH_STEP_LABELS,
+  hasUnfinishedPublishSteps,
+  runPublishPipeline,
+  sendNotificationEmail,
+} from './publishing';
+import {
+  claimSubmission,
+  createSubmissionRevisionUrl,
+  getSubmission,
+  getSubmissionRevision,
+  releaseSubmission,
+  resolveSubmission,
+} from './submissions';
+import type { SubmissionReviewAction } from './submissions';
+import type { StoredEventSubmission, SubmissionFieldComment } from './types';
+
+/**
+ * Why a submission could not be reviewed
+ */
+export type SubmissionReviewError =
+  | 'not_found'
+  | 'already_processed'
+  | 'create_failed'
+  /** Approved and the entry exists, but a later publish step failed (approving again resumes) */
+  | 'publish_failed';
+
+/**
+ * Result of approving or rejecting a submission
+ */
+export type SubmissionReviewResult =
+  | { success: true; submission: StoredEventSubmission }
+  | {
+      success: false;
+      error: SubmissionReviewError;
+      /** Current state, when the submission exists */
+      submission?: StoredEventSubmission;
+      message?: string;
+    };
+
+/**
+ * Result for a pipeline run that stopped after the entry was created
+ */
+function getPublishFailure(
+  submission: StoredEventSubmission,
+  error: string
+): SubmissionReviewResult {
+  const failedStep = submission.publishing?.failedStep;
+  return {
+    success: false,
+    error: 'publish_failed',
+    submission,
+    message: failedStep ? `${PUBLISH_STEP_LABELS[failedStep]} step failed: ${error}` : error,
+  };
+}
+
+/**
+ * Resume the publishing pipeline of an approved submission that stopped partway
+ */
+export async function resumeSubmissionPublishing(submissionId: string): Promise<SubmissionReviewResult> {
+  const submission = await getSubmission(submissionId);
+  if (!submission) {
+    return { success: false, error: 'not_found' };
+  }
+  if (submission.status !== 'approved' || !hasUnfinishedPublishSteps(submission)) {
+    return { success: false, error: 'already_processed', submission };
+  }
+
+  console.log('[SubmissionReview] Resuming publishing:', {
+    submissionId,
+    failedStep: submission.publishing?.failedStep,
+  });
+
+  const run = await runPublishPipeline(submissionId, { reason: submission.reviewReason });
+  if (run.success) {
+    return { success: true, submission: run.submission };
+  }
+  if (!run.failedStep) {
+    return { success: false, error: 'already_processed', submission: run.submission || submission };
+  }
+  return getPublishFailure(run.submission || submission, run.error);
+}
+
+/**
+ * Approve or reject a pending submission (each submission is decided once)
+ * Pass the revision from an email link so it cannot decide a later revision.
+ * Approving an approved submission whose publishing stopped partway resumes it.
+ */
+export async function reviewSubmission(
+  submissionId: string,
+  action: SubmissionReviewAction,
+  options: { reason?: string; reviewedBy?: string; revision?: number; audit: AuditContext }
+): Promise<SubmissionReviewResult> {
+  const submission = await getSubmission(submissionId);
+  if (!submission) {
+    return { success: false, error: 'not_found' };
+  }
+
+  // Claim the submission so a replayed or double-clicked link cannot act twice
+  const claimed = await claimSubmission(submissionId, options.revision);
+  if (!claimed) {
+    const current = (await getSubmission(submissionId)) || submission;
+    if (
+      action === 'approve'
+      && current.status === 'approved'
+      && hasUnfinishedPublishSteps(current)
+      && (options.revision === undefined || getSubmissionRevision(current) === options.revision)
+    ) {
+      return resumeSubmissionPublishing(submissionId);
+    }
+    return { success: false, error: 'already_processed', submission: current };
+  }
+
+  const eventData = claimed.event;
+  const reason = options.reason?.trim() || undefined;
+
+  console.log('[SubmissionReview] Processing:', {
+    action,
+    submissionId,
+    title: eventData.title,
+    organizerEmail: eventData.organizerEmail,
+    reviewedBy: options.reviewedBy,
+  });
+
+  let entryUid: string | undefined;
+  let publishError: string | undefined;
+
+  if (action === 'approve') {
+    const run = await runPublishPipeline(submissionId, { reason });
+    entryUid = run.submission?.entryUid;
+
+    if (!entryUid) {
+      // Nothing was created: leave the submission pending so it can be retried
+      await releaseSubmission(submissionId);
+      return {
+        success: false,
+        error: 'create_failed',
+        submission,
+        message: run.success ? undefined : run.error,
+      };
+    }
+    if (!run.success) {
+      publishError = run.error;
+    }
+  }
+
+  const resolved = await resolveSubmission(
+    submissionId,
+    action === 'approve' ? 'approved' : 'rejected',
+    { entryUid, reviewedBy: options.reviewedBy, reviewReason: reason }
+  );
+
+  // Approvals keep the published content, to answer "why was this published" later
+  const revision = getSubmissionRevision(claimed);
+  await recordAuditEvent(options.audit, {
+    action: action === 'approve' ? 'submission.approved' : 'submission.rejected',
+    target: { type: 'submission', id: submissionId, title: eventData.title, opportunityId: entryUid },
+    before: { status: submission.status, revision },
+    after: action === 'approve'
+      ? { status: 'approved', revision, entryUid, event: eventData }
+      : { status: 'rejected', revision },
+    reason,
+  });
+
+  // The publishing pipeline notifies the organizer of approvals
+  const webhookUrl = process.env.CONTENTSTACK_AUTOMATE_REJECT_WEBHOOK;
+  if (action === 'reject' && webhookUrl) {
+    await sendNotificationEmail(webhookUrl, eventData, action, reason);
+  }
+
+  if (publishError) {
+    return getPublishFailure(resolved || claimed, publishError);
+  }
+
+  return { success: true, submission: resolved || claimed };
+}
+
+/**
+ * Send a pending submission back to its organizer with per-field comments
+ */
+export async function requestSubmissionChanges(
+  submissionId: string,
+  request: {
+    comments: SubmissionFieldComment[];
+    note?: string;
+    reviewedBy?: string;
+    revision?: number;
+    audit: AuditContext;
+  }
+): Promise<SubmissionReviewResult> {
+  const submission = await getSubmission(submissionId);
+  if (!submission) {
+    return { success: false, error: 'not_found' };
+  }
+
+  const claimed = await claimSubmission(submissionId, request.revision);
+  if (!claimed) {
+    const current = (await getSubmission(submissionId)) || submission;
+    return { success: false, error: 'already_processed', submission: current };
+  }
+
+  const note = request.note?.trim() || undefined;
+  const revision = getSubmissionRevision(claimed);
+  const revise = createSubmissionRevisionUrl(submissionId, revision);
+
+  const resolved = await resolveSubmission(submissionId, 'changes_requested', {
+    reviewedBy: request.reviewedBy,
+    reviewReason: note,
+    changeRequest: {
+      comments: request.comments,
+      note,
+      requestedAt: new Date().toISOString(),
+      requestedBy: request.reviewedBy,
+    },
+  });
+
+  await recordAuditEvent(request.audit, {
+    action: 'submission.changes_requested',
+    target: { type: 'submission', id: submissionId, title: claimed.event.title },
+    before: { status: submission.status, revision },
+    after: {
+      status: 'changes_requested',
+      revision,
+      comments: request.comments.map(({ field, comment }) => ({ field, comment })),
+    },
+    reason: note,
+  });
+
+  console.log('[SubmissionReview] Changes requested:', {
+    submissionId,
+    revision,
+    fields: request.comments.map((c) => c.field),
+    reviewedBy: request.reviewedBy,
+  });
+
+  await sendSubmissionChangesRequested({
+    recipient: {
+      name: claimed.event.organizerName || 'Organizer',
+      email: claimed.event.organizerEmail,
+    },
+    submission: {
+      id: submissionId,
+      title: claimed.event.title,
+      revision,
+    },
+    comments: request.comments.map(({ field, comment }) => ({
+      label: EVENT_FIELD_LABELS[field],
+      comment,
+    })),
+    note,
+    reviseUrl: revise.url,
+    expiresAt: revise.expiresAt.toISOString(),
+  });
+
+  return { success: true, submission: resolved || claimed };
+}
@@ -0,0 +1,260 @@
+/**
+ * Submission Screening
+ * Rule-based pre-moderation checks run before a submission is sent for review
+ *
+ * Each matching rule adds to a 0-100 risk score with a reason moderators can
+ * read in the queue. High-risk submissions are held in the queue instead of
+ * being emailed to reviewers.
+ */
+
+import { getOpportunities } from '@/lib/contentstack';
+import { OpportunityStatus } from '@/types';
+import type {
+  ScreeningFlag,
+  ScreeningRisk,
+  SubmissionScreening,
+  SubmittedEvent,
+} from './types';
+
+/**
+ * Scores at or above these mark a submission medium or high risk
+ */
+const MEDIUM_RISK_SCORE = 25;
+const HIGH_RISK_SCORE = 60;
+
+/**
+ * More links than this across the event text is suspicious
+ */
+const MAX_LINKS = 2;
+
+/**
+ * Titles at least this similar (0-1) to a published opportunity count as duplicates
+ */
+const DUPLICATE_TITLE_SIMILARITY = 0.85;
+
+/**
+ * Published opportunities compared against for duplicate titles
+ */
+const DUPLICATE_CHECK_LIMIT = 100;
+
+/**
+ * Profanity matched as a word prefix ("fucking" matches "fuck")
+ */
+const PROFANITY_STEMS = ['fuck', 'shit', 'bullshit', 'bitch', 'cunt', 'asshole', 'motherf', 'wank'];
+
+/**
+ * Profanity matched as whole words only, since they start other words
+ */
+const PROFANITY_WORDS = ['ass', 'dick', 'dicks', 'cock', 'cocks', 'piss', 'prick', 'slut', 'whore', 'twat', 'bastard'];
+
+const PROFANITY_PATTERN = new RegExp(
+  `\\b(?:(?:${PROFANITY_STEMS.join('|')})\\w*|(?:${PROFANITY_WORDS.join('|')}))\\b`,
+  'i'
+);
+
+/**
+ * Throwaway inbox providers (subdomains match too)
+ */
+const DISPOSABLE_EMAIL_DOMAINS = new Set([
+  '10minutemail.com',
+  'discard.email',
+  'dispostable.com',
+  'emailondeck.com',
+  'fakeinbox.com',
+  'getnada.com',
+  'guerrillamail.com',
+  'guerrillamail.net',
+  'mailinator.com',
+  'maildrop.cc',
+  'mintemail.com',
+  'mohmal.com',
+  'sharklasers.com',
+  'spamgourmet.com',
+  'temp-mail.org',
+  'tempmail.com',
+  'tempmailo.com',
+  'throwawaymail.com',
+  'trashmail.com',
+  'yopmail.com',
+]);
+
+const LINK_PATTERN = /\bhttps?:\/\/\S+|\bwww\.\S+/gi;
+
+/**
+ * Runs of 8-15 digits with common separators; ISO dates are excluded afterwards
+ */
+const PHONE_PATTERN = /\+?\d[\d ().-]{6,}\d/g;
+
+/**
+ * Undo common letter substitutions (e.g. "$h1t") before matching words
+ */
+function normalizeForMatching(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/0/g, 'o')
+    .replace(/[1!]/g, 'i')
+    .replace(/3/g, 'e')
+    .replace(/[4@]/g, 'a')
+    .replace(/[5$]/g, 's');
+}
+
+function countLinks(text: string): number {
+  return text.match(LINK_PATTERN)?.length || 0;
+}
+
+function countPhoneNumbers(text: string): number {
+  return (text.match(PHONE_PATTERN) || []).filter((match) => {
+    const digits = match.replace(/\D/g, '').length;
+    return digits >= 8 && digits <= 15 && !/^\d{4}-\d{2}-\d{2}$/.test(match.trim());
+  }).length;
+}
+
+/**
+ * Title reduced to lowercase words for comparison
+ */
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Dice coefficient of character bigrams (1 = identical)
+ */
+function getTitleSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const bigram = a.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+
+  let overlap = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const bigram = b.slice(i, i + 2);
+    const count = bigrams.get(bigram) || 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      overlap++;
+    }
+  }
+
+  return (2 * overlap) / (a.length + b.length - 2);
+}
+
+/**
+ * Upcoming or ongoing opportunity whose title nearly matches, if any
+ */
+async function findDuplicateTitle(
+  title: string
+): Promise<{ title: string; similarity: number } | null> {
+  const normalized = normalizeTitle(title);
+  if (!normalized) return null;
+
+  try {
+    const { opportunities } = await getOpportunities(
+      { status: [OpportunityStatus.UPCOMING, OpportunityStatus.ONGOING] },
+      { page: 1, pageSize: DUPLICATE_CHECK_LIMIT }
+    );
+
+    let best: { title: string; similarity: number } | null = null;
+    for (const opportunity of opportunities) {
+      const similarity = getTitleSimilarity(normalized, normalizeTitle(opportunity.title));
+      if (similarity >= DUPLICATE_TITLE_SIMILARITY && (!best || similarity > best.similarity)) {
+        best = { title: opportunity.title, similarity };
+      }
+    }
+    return best;
+  } catch (error) {
+    // Screening should not block submissions when Contentstack is unavailable
+    console.error('[SubmissionScreening] Duplicate title check failed:', error);
+    return null;
+  }
+}
+
+function isDisposableEmail(email: string): boolean {
+  const domain = email.split('@')[1]?.toLowerCase() || '';
+  const parts = domain.split('.');
+  return parts.some((_, i) => DISPOSABLE_EMAIL_DOMAINS.has(parts.slice(i).join('.')));
+}
+
+function getRisk(score: number): ScreeningRisk {
+  if (score >= HIGH_RISK_SCORE) return 'high';
+  if (score >= MEDIUM_RISK_SCORE) return 'medium';
+  return 'low';
+}
+
+/**
+ * Screen a submission and score its risk
+ */
+export async function screenSubmission(event: SubmittedEvent): Promise<SubmissionScreening> {
+  const flags: ScreeningFlag[] = [];
+
+  const textFields: Array<[string, string]> = [
+    ['title', event.title],
+    ['summary', event.summary],
+    ['description', event.description],
+    ['requirements', event.requirements],
+    ['organizer name', event.organizerName],
+  ];
+
+  const profaneFields = textFields
+    .filter(([, value]) => value && PROFANITY_PATTERN.test(normalizeForMatching(value)))
+    .map(([name]) => name);
+  if (profaneFields.length > 0) {
+    flags.push({
+      check: 'profanity',
+      score: 45,
+      reason: `Profanity in the ${profaneFields.join(', ')}`,
+    });
+  }
+
+  const allText = textFields.map(([, value]) => value).join('\n');
+  const linkCount = countLinks(allText);
+  if (countLinks(event.title) > 0) {
+    flags.push({ check: 'excessive_links', score: 25, reason: 'Link in the title' });
+  } else if (linkCount > MAX_LINKS) {
+    flags.push({ check: 'excessive_links', score: 25, reason: `${linkCount} links in the event text` });
+  }
+
+  const phoneCount = countPhoneNumbers(allText);
+  if (countPhoneNumbers(event.title) > 0) {
+    flags.push({ check: 'phone_numbers', score: 20, reason: 'Phone number in the title' });
+  } else if (phoneCount > 1) {
+    flags.push({ check: 'phone_numbers', score: 20, reason: `${phoneCount} phone numbers in the event text` });
+  }
+
+  // Allow a day of slack for organizers in time zones behind UTC
+  const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  if (event.startDate && event.startDate < yesterday) {
+    flags.push({ check: 'past_date', score: 40, reason: `Start date ${event.startDate} is in the past` });
+  }
+
+  const duplicate = await findDuplicateTitle(event.title);
+  if (duplicate) {
+    flags.push({
+      check: 'duplicate_title',
+      score: duplicate.similarity === 1 ? 40 : 30,
+      reason: `Title ${duplicate.similarity === 1 ? 'matches' : 'closely matches'} the published opportunity "${duplicate.title}"`,
+    });
+  }
+
+  if (isDisposableEmail(event.organizerEmail)) {
+    flags.push({
+      check: 'disposable_email',
+      score: 35,
+      reason: `Disposable email domain (${event.organizerEmail.split('@')[1]})`,
+    });
+  }
+
+  const score = Math.min(100, flags.reduce((sum, flag) => sum + flag.score, 0));
+  const risk = getRisk(score);
+
+  return {
+    score,
+    risk,
+    flags,
+    held: risk === 'high',
+    screenedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * Event Submissions Tests
+ * Review claims and the resumable approval pipeline, against DATA_DIR in a temp directory
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import {
+  claimSubmission,
+  completePublishRun,
+  createSubmission,
+  getSubmission,
+  recordPublishStep,
+  releaseSubmission,
+  resolveSubmission,
+  startPublishRun,
+} from './submissions';
+import type { SubmittedEvent } from './types';
+
+const dataDir = mkdtempSync(path.join(tmpdir(), 'submissions-test-'));
+let submissionCount = 0;
+
+before(() => {
+  process.env.DATA_DIR = dataDir;
+});
+
+after(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+/**
+ * Store a new pending submission and return its ID
+ */
+async function newSubmission(): Promise<string> {
+  submissionCount += 1;
+  const submissionId = `sub-${submissionCount}`;
+  await createSubmission({
+    submissionId,
+    slug: `event-${submissionCount}`,
+    title: `Event ${submissionCount}`,
+    submittedAt: new Date().toISOString(),
+  } as SubmittedEvent);
+  return submissionId;
+}
+
+/**
+ * Rewrite a stored submission in place (e.g. to age a claim or run)
+ */
+function editStoredSubmission(submissionId: string, edit: (submission: Record<string, any>) => void): void {
+  const filePath = path.join(dataDir, 'event-submissions.json');
+  const file = JSON.parse(readFileSync(filePath, 'utf8'));
+  edit(file.submissions[submissionId]);
+  writeFileSync(filePath, JSON.stringify(file));
+}
+
+const elevenMinutesAgo = () => new Date(Date.now() - 11 * 60 * 1000).toISOString();
+
+describe('claimSubmission', () => {
+  it('lets only one review link claim a pending submission', async () => {
+    const submissionId = await newSubmission();
+
+    const first = await claimSubmission(submissionId);
+    const second = await claimSubmission(submissionId);
+
+    assert.equal(first?.status, 'processing');
+    assert.ok(first?.processingStartedAt);
+    assert.equal(second, null);
+  });
+
+  it('reclaims a claim abandoned for longer than the timeout', async () => {
+    const submissionId = await newSubmission();
+    await claimSubmission(submissionId);
+    editStoredSubmission(submissionId, (submission) => {
+      submission.processingStartedAt = elevenMinutesAgo();
+    });
+
+    assert.equal((await claimSubmission(submissionId))?.status, 'processing');
+  });
+
+  it('refuses a link for an earlier revision', async () => {
+    const submissionId = await newSubmission();
+
+    assert.equal(await claimSubmission(submissionId, 2), null);
+    assert.equal((await claimSubmission(submissionId, 1))?.status, 'processing');
+  });
+
+  it('refuses decided submissions and can be released back to pending', async () => {
+    const rejected = await newSubmission();
+    await claimSubmission(rejected);
+    await resolveSubmission(rejected, 'rejected');
+    assert.equal(await claimSubmission(rejected), null);
+
+    const released = await newSubmission();
+    await claimSubmission(released);
+    await releaseSubmission(released);
+    assert.equal((await getSubmission(released))?.status, 'pending');
+    assert.equal((await claimSubmission(released))?.status, 'processing');
+  });
+});
+
+describe('approval pipeline', () => {
+  it('does not start a second run while one is in progress', async () => {
+    const submissionId = await newSubmission();
+    await claimSubmission(submissionId);
+
+    assert.equal((await startPublishRun(submissionId))?.publishing?.attempts, 1);
+    assert.equal(await startPublishRun(submissionId), null);
+  });
+
+  it('only runs on submissions being approved', async () => {
+    const submissionId = await newSubmission();
+
+    assert.equal(await startPublishRun(submissionId), null);
+  });
+
+  it('resumes a failed run with the completed steps and entry kept', async () => {
+    const submissionId = await newSubmission();
+    await claimSubmission(submissionId);
+    await startPublishRun(submissionId);
+
+    const at = new Date().toISOString();
+    await recordPublishStep(submissionId, 'created', { status: 'completed', at }, 'entry-1');
+    const failed = await recordPublishStep(submissionId, 'published', { status: 'failed', at, error: 'Timeout' });
+    assert.equal(failed?.publishing?.failedStep, 'published');
+    assert.equal(failed?.publishing?.runningSince, undefined);
+
+    await resolveSubmission(submissionId, 'approved', { entryUid: 'entry-1' });
+    const resumed = await startPublishRun(submissionId);
+    assert.equal(resumed?.publishing?.attempts, 2);
+    assert.equal(resumed?.publishing?.steps.created?.status, 'completed');
+    assert.equal(resumed?.entryUid, 'entry-1');
+
+    await recordPublishStep(submissionId, 'published', { status: 'completed', at });
+    const completed = await completePublishRun(submissionId);
+    assert.equal(completed?.publishing?.failedStep, undefined);
+    assert.equal(completed?.publishing?.runningSince, undefined);
+    assert.ok(completed?.publishing?.completedAt);
+  });
+
+  it('takes over a run abandoned for longer than the timeout', async () => {
+    const submissionId = await newSubmission();
+    await claimSubmission(submissionId);
+    await startPublishRun(submissionId);
+    editStoredSubmission(submissionId, (submission) => {
+      submission.publishing.runningSince = elevenMinutesAgo();
+    });
+
+    assert.equal((await startPublishRun(submissionId))?.publishing?.attempts, 2);
+  });
+});
@@ -0,0 +1,545 @@
+/**
+ * Event Submissions
+ * New events held for admin review, approved or rejected through signed links
+ *
+ * Submissions live in DATA_DIR/event-submissions.json. Review links only carry
+ * a signed reference (submission ID + action), so the event content cannot be
+ * altered in transit. Each submission can be decided once; replayed links find
+ * it already processed. When a moderator requests changes, the organizer gets a
+ * signed revise link and their resubmission becomes the next revision of the
+ * same submission. Submissions screened as high risk are held: they wait in
+ * the queue without review links. Approval progress is tracked per step so an
+ * interrupted approval resumes instead of starting over.
+ */
+
+import { createSignedToken, daysFromNow, verifySignedToken } from '@/lib/tokens';
+import type { TokenError } from '@/lib/tokens';
+import { getDataFilePath, readJsonFile, updateJsonFile } from '@/lib/storage';
+import { getAppUrl } from '@/lib/config';
+import { OpportunityStatus } from '@/types';
+import type { ContributionType, Opportunity } from '@/types';
+import { diffEventFields, getEditableFields } from './diff';
+import type {
+  EventFieldChange,
+  EventSubmissionStatus,
+  PublishStep,
+  PublishStepRecord,
+  StoredEventSubmission,
+  SubmissionPublishing,
+  SubmissionRevision,
+  SubmissionScreening,
+  SubmittedEvent,
+} from './types';
+
+export const SUBMISSION_REVIEW_TOKEN_PURPOSE = 'event_submission_review';
+export const SUBMISSION_REVISION_TOKEN_PURPOSE = 'event_submission_revision';
+
+/**
+ * How long admin approve/reject links stay valid
+ */
+const REVIEW_LINK_DAYS = 14;
+
+/**
+ * How long an organizer's revise link stays valid
+ */
+const REVISION_LINK_DAYS = 30;
+
+/**
+ * A claim older than this is treated as abandoned (e.g. the server restarted mid-approval)
+ */
+const PROCESSING_TIMEOUT_MS = 10 * 60 * 1000;
+
+export type SubmissionReviewAction = 'approve' | 'reject';
+
+/**
+ * On-disk file shape (keyed by submission ID)
+ */
+interface SubmissionsFile {
+  submissions: Record<string, StoredEventSubmission>;
+}
+
+const EMPTY_FILE: SubmissionsFile = { submissions: {} };
+
+function getSubmissionsPath(): string {
+  return getDataFilePath('event-submissions.json');
+}
+
+/**
+ * Status a screened submission waits in for review
+ */
+function getWaitingStatus(screening?: SubmissionScreening): EventSubmissionStatus {
+  return screening?.held ? 'held' : 'pending';
+}
+
+/**
+ * Store a new submission awaiting review
+ */
+export async function createSubmission(
+  event: SubmittedEvent,
+  screening?: SubmissionScreening
+): Promise<StoredEventSubmission> {
+  const submission: StoredEventSubmission = {
+    submissionId: event.submissionId,
+    event,
+    status: getWaitingStatus(screening),
+    submittedAt: event.submittedAt,
+    revision: 1,
+    ...(screening ? { screening } : {}),
+  };
+
+  return updateJsonFile<SubmissionsFile, StoredEventSubmission>(
+    getSubmissionsPath(),
+    EMPTY_FILE,
+    (file) => ({
+      data: { submissions: { ...file.submissions, [submission.submissionId]: submission } },
+      result: submission,
+    })
+  );
+}
+
+/**
+ * Look up a submission by ID
+ */
+export async function getSubmission(submissionId: string): Promise<StoredEventSubmission | null> {
+  const file = await readJsonFile<SubmissionsFile>(getSubmissionsPath(), EMPTY_FILE);
+  return file.submissions[submissionId] || null;
+}
+
+/**
+ * All submissions, newest first, optionally with one status
+ */
+export async function listSubmissions(
+  status?: EventSubmissionStatus
+): Promise<StoredEventSubmission[]> {
+  const file = await readJsonFile<SubmissionsFile>(getSubmissionsPath(), EMPTY_FILE);
+  return Object.values(file.submissions)
+    .filter((s) => !status || s.status === status)
+    .sort((a, b) => b.submittedAt.localeCompare(a.submittedAt));
+}
+
+/**
+ * Whether a submission can still be approved or rejected
+ */
+function isClaimable(submission: StoredEventSubmission, now: number): boolean {
+  if (submission.status === 'pending' || submission.status === 'held') return true;
+  return submission.status === 'processing'
+    && !!submission.processingStartedAt
+    && now - new Date(submission.processingStartedAt).getTime() > PROCESSING_TIMEOUT_MS;
+}
+
+/**
+ * Claim a pending submission so only one review link can act on it
+ * Returns null when it does not exist, was already processed, or is no longer at the given revision
+ */
+export async function claimSubmission(
+  submissionId: string,
+  revision?: number
+): Promise<StoredEventSubmission | null> {
+  return updateJsonFile<SubmissionsFile, StoredEventSubmission | null>(
+    getSubmissionsPath(),
+    EMPTY_FILE,
+    (file) => {
+      const existing = file.submissions[submissionId];
+      const now = Date.now();
+      if (
+        !existing
+        || !isClaimable(existing, now)
+        || (revision !== undefined && getSubmissionRevision(existing) !== revision)
+      ) {
+        return { data: file, result: null };
+      }
+
+      const claimed: StoredEventSubmission = {
+        ...existing,
+        status: 'processing',
+        processingStartedAt: new Date(now).toISOString(),
+      };
+
+      return {
+        data: { submissions: { ...file.submissions, [submissionId]: claimed } },
+        result: claimed,
+      };
+    }
+  );
+}
+
+/**
+ * Return a claimed submission to pending, or held (e.g. the entry could not be created)
+ */
+export async function releaseSubmission(submissionId: string): Promise<void> {
+  await updateJsonFile<SubmissionsFile, void>(getSubmissionsPath(), EMPTY_FILE, (file) => {
+    const existing = file.submissions[submissionId];
+    if (!existing || existing.status !== 'processing') {
+      return { data: file, result: undefined };
+    }
+
+    const released: StoredEventSubmission = {
+      ...existing,
+      status: getWaitingStatus(existing.screening),
+    };
+    delete released.processingStartedAt;
+
+    return {
+      data: { submissions: { ...file.submissions, [submissionId]: released } },
+      result: undefined,
+    };
+  });
+}
+
+/**
+ * Current revision number (submissions made before revisions count as 1)
+ */
+export function getSubmissionRevision(submission: StoredEventSubmission): number {
+  return submission.revision || 1;
+}
+
+/**
+ * Record the admin decision on a claimed submission
+ */
+export async function resolveSubmission(
+  submissionId: string,
+  status: 'approved' | 'rejected' | 'changes_requested',
+  details: Pick<
+    StoredEventSubmission,
+    'entryUid' | 'reviewedBy' | 'reviewReason' | 'changeRequest'
+  > = {}
+): Promise<StoredEventSubmission | null> {
+  return updateJsonFile<SubmissionsFile, StoredEventSubmission | null>(
+    getSubmissionsPath(),
+    EMPTY_FILE,
+    (file) => {
+      const existing = file.submissions[submissionId];
+      if (!existing) {
+        return { data: file, result: null };
+      }
+
+      const resolved: StoredEventSubmission = {
+        ...existing,
+        ...details,
+        status,
+        reviewedAt: new Date().toISOString(),
+      };
+      delete resolved.processingStartedAt;
+
+      return {
+        data: { submissions: { ...file.submissions, [submissionId]: resolved } },
+        result: resolved,
+      };
+    }
+  );
+}
+
+/**
+ * Start an approval pipeline run on a claimed or approved submission
+ * Returns null when it is not being approved or another run is in progress
+ */
+export async function startPublishRun(submissionId: string): Promise<StoredEventSubmission | null> {
+  return updateJsonFile<SubmissionsFile, StoredEventSubmission | null>(
+    getSubmissionsPath(),
+    EMPTY_FILE,
+    (file) => {
+      const existing = file.submissions[submissionId];
+      const now = Date.now();
+      const runningSince = existing?.publishing?.runningSince;
+      if (
+        !existing
+        || (existing.status !== 'processing' && existing.status !== 'approved')
+        || (runningSince && now - new Date(runningSince).getTime() <= PROCESSING_TIMEOUT_MS)
+      ) {
+        return { data: file, result: null };
+      }
+
+      const started: StoredEventSubmission = {
+        ...existing,
+        publishing: {
+          steps: {},
+          ...existing.publishing,
+          attempts: (existing.publishing?.attempts || 0) + 1,
+          runningSince: new Date(now).toISOString(),
+        },
+      };
+
+      return {
+        data: { submissions: { ...file.submissions, [submissionId]: started } },
+        result: started,
+      };
+    }
+  );
+}
+
+/**
+ * Record the outcome of one publish step (and the entry once it exists)
+ * A failed step ends the run
+ */
+export async function recordPublishStep(
+  submissionId: string,
+  step: PublishStep,
+  record: PublishStepRecord,
+  entryUid?: string
+): Promise<StoredEventSubmission | null> {
+  return updateJsonFile<SubmissionsFile, StoredEventSubmission | null>(
+    getSubmissionsPath(),
+    EMPTY_FILE,
+    (file) => {
+      const existing = file.submissions[submissionId];
+      if (!existing?.publishing) {
+        return { data: file, result: null };
+      }
+
+      const publishing: SubmissionPublishing = {
+        ...existing.publishing,
+        steps: { ...existing.publishing.steps, [step]: record },
+      };
+      if (record.status === 'failed') {
+        publishing.failedStep = step;
+        delete publishing.runningSince;
+      } else if (publishing.failedStep === step) {
+        delete publishing.failedStep;
+      }
+
+      const updated: StoredEventSubmission = {
+        ...existing,
+        ...(entryUid ? { entryUid } : {}),
+        publishing,
+      };
+
+      return {
+        data: { submissions: { ...file.submissions, [submissionId]: updated } },
+        result: updated,
+      };
+    }
+  );
+}
+
+/**
+ * Mark an approval pipeline run finished with every step done
+ */
+export async function completePublishRun(submissionId: string): Promise<StoredEventSubmission | null> {
+  return updateJsonFile<SubmissionsFile, StoredEventSubmission | null>(
+    getSubmissionsPath(),
+    EMPTY_FILE,
+    (file) => {
+      const existing = file.submissions[submissionId];
+      if (!existing?.publishing) {
+        return { data: file, result: null };
+      }
+
+      const publishing: SubmissionPublishing = {
+        ...existing.publishing,
+        completedAt: new Date().toISOString(),
+      };
+      delete publishing.runningSince;
+      delete publishing.failedStep;
+
+      const completed: StoredEventSubmission = { ...existing, publishing };
+
+      return {
+        data: { submissions: { ...file.submissions, [submissionId]: completed } },
+        result: completed,
+      };
+    }
+  );
+}
+
+/**
+ * Store an organizer's resubmission as the next revision
+ * Returns null unless changes were requested on exactly this revision
+ */
+export async function reviseSubmission(
+  submissionId: string,
+  revision: number,
+  event: SubmittedEvent,
+  screening?: SubmissionScreening
+): Promise<StoredEventSubmission | null> {
+  return updateJsonFile<SubmissionsFile, StoredEventSubmission | null>(
+    getSubmissionsPath(),
+    EMPTY_FILE,
+    (file) => {
+      const existing = file.submissions[submissionId];
+      if (
+        !existing
+        || existing.status !== 'changes_requested'
+        || getSubmissionRevision(existing) !== revision
+      ) {
+        return { data: file, result: null };
+      }
+
+      const previous: SubmissionRevision = {
+        revision,
+        event: existing.event,
+        submittedAt: existing.revisedAt || existing.submittedAt,
+        changeRequest: existing.changeRequest,
+      };
+
+      const revised: StoredEventSubmission = {
+        ...existing,
+        // Keep the ID and slug so links and the eventual entry stay stable
+        event: { ...event, submissionId, slug: existing.event.slug },
+        status: getWaitingStatus(screening),
+        revision: revision + 1,
+        history: [...(existing.history || []), previous],
+        revisedAt: event.submittedAt,
+      };
+      delete revised.changeRequest;
+      delete revised.screening;
+      if (screening) {
+        revised.screening = screening;
+      }
+      delete revised.reviewedAt;
+      delete revised.reviewedBy;
+      delete revised.reviewReason;
+
+      return {
+        data: { submissions: { ...file.submissions, [submissionId]: revised } },
+        result: revised,
+      };
+    }
+  );
+}
+
+/**
+ * Field changes between the previous revision and the current one
+ * Empty for a first submission
+ */
+export function getRevisionChanges(submission: StoredEventSubmission): EventFieldChange[] {
+  const previous = submission.history?.[submission.history.length - 1];
+  if (!previous) {
+    return [];
+  }
+
+  return diffEventFields(
+    getEditableFields(submissionToOpportunity({ ...submission, event: previous.event })),
+    getEditableFields(submissionToOpportunity(submission))
+  );
+}
+
+/**
+ * Opportunity as it would be published, for previewing a submission
+ */
+export function submissionToOpportunity(submission: StoredEventSubmission): Opportunity {
+  const { event } = submission;
+
+  return {
+    uid: submission.entryUid || submission.submissionId,
+    title: event.title,
+    slug: event.slug,
+    summary: event.summary,
+    description: event.description,
+    coverImage: event.coverImageUrl
+      ? {
+          uid: event.coverImageUid,
+          url: event.coverImageUrl,
+          title: event.title,
+          filename: '',
+          contentType: '',
+        }
+      : undefined,
+    country: event.country,
+    state: event.state,
+    city: event.city,
+    address: event.address,
+    isVirtual: event.isVirtual,
+    causeSlugs: event.causeSlugs,
+    contributionTypes: event.contributionTypes as ContributionType[],
+    startDate: event.startDate,
+    endDate: event.endDate,
+    startTime: event.startTime,
+    endTime: event.endTime,
+    isRecurring: !!event.recurrenceRule,
+    recurrencePattern: event.recurrenceRule || undefined,
+    shifts: event.shifts,
+    organizerName: event.organizerName,
+    organizerEmail: event.organizerEmail,
+    spotsAvailable: event.spotsAvailable ?? undefined,
+    requirements: event.requirements,
+    status: OpportunityStatus.UPCOMING,
+    createdAt: submission.submittedAt,
+  };
+}
+
+/**
+ * Signed admin link that approves or rejects a submission
+ * The action is part of the signature, so a reject link cannot be turned into an approval,
+ * and so is the revision, so a link cannot approve a later revision nobody has reviewed
+ */
+export function createSubmissionReviewUrl(
+  submissionId: string,
+  action: SubmissionReviewAction,
+  revision = 1
+): string {
+  const token = createSignedToken(SUBMISSION_REVIEW_TOKEN_PURPOSE, submissionId, {
+    expiresAt: daysFromNow(REVIEW_LINK_DAYS),
+    data: { action, revision },
+  });
+
+  return `${getAppUrl()}/api/approve-event?${new URLSearchParams({ token }).toString()}`;
+}
+
+/**
+ * Submission ID, action and revision from a review link token
+ * Links issued before revisions existed refer to revision 1
+ */
+export function verifySubmissionReviewToken(
+  token: string
+):
+  | { valid: true; submissionId: string; action: SubmissionReviewAction; revision: number }
+  | { valid: false; error: TokenError } {
+  const verification = verifySignedToken(token, SUBMISSION_REVIEW_TOKEN_PURPOSE);
+  if (!verification.valid) {
+    return verification;
+  }
+
+  const action = verification.payload.data?.action;
+  if (action !== 'approve' && action !== 'reject') {
+    return { valid: false, error: 'malformed' };
+  }
+
+  const revision = verification.payload.data?.revision;
+  return {
+    valid: true,
+    submissionId: verification.payload.sub,
+    action,
+    revision: typeof revision === 'number' ? revision : 1,
+  };
+}
+
+/**
+ * Signed organizer link that reopens a submission in the event form
+ * Bound to the revision changes were requested on, so it stops working once resubmitted
+ */
+export function createSubmissionRevisionUrl(
+  submissionId: string,
+  revision: number
+): { url: string; expiresAt: Date } {
+  const expiresAt = daysFromNow(REVISION_LINK_DAYS);
+  const token = createSignedToken(SUBMISSION_REVISION_TOKEN_PURPOSE, submissionId, {
+    expiresAt,
+    data: { revision },
+  });
+
+  return {
+    url: `${getAppUrl()}/create-event?${new URLSearchParams({ revise: token }).toString()}`,
+    expiresAt,
+  };
+}
+
+/**
+ * Submission ID and revision from a revise link token
+ */
+export function verifySubmissionRevisionToken(
+  token: string
+):
+  | { valid: true; submissionId: string; revision: number }
+  | { valid: false; error: TokenError } {
+  const verification = verifySignedToken(token, SUBMISSION_REVISION_TOKEN_PURPOSE);
+  if (!verification.valid) {
+    return verification;
+  }
+
+  const revision = verification.payload.data?.revision;
+  if (typeof revision !== 'number' || !Number.isInteger(revision) || revision < 1) {
+    return { valid: false, error: 'malformed' };
+  }
+
+  return { valid: true, submissionId: verification.payload.sub, revision };
+}
@@ -0,0 +1,249 @@
+/**
+ * Event Edit Types
+ * Type definitions for organizer edit requests on published opportunities
+ */
+
+import type { OpportunityShift } from '@/types';
+
+/**
+ * Opportunity fields an organizer may change after publication
+ * Mirrors the event submission payload (see /api/submit-event)
+ */
+export interface EditableEventFields {
+  title: string;
+  summary: string;
+  description: string;
+  coverImageUid: string;
+  coverImageUrl: string;
+  country: string;
+  state: string;
+  city: string;
+  address: string;
+  isVirtual: boolean;
+  causeSlugs: string[];
+  contributionTypes: string[];
+  startDate: string;
+  endDate: string;
+  startTime: string;
+  endTime: string;
+  recurrenceRule: string;
+  shifts: OpportunityShift[];
+  organizerName: string;
+  spotsAvailable: number | null;
+  requirements: string;
+}
+
+export type EditableEventField = keyof EditableEventFields;
+
+/**
+ * One changed field in an edit request
+ */
+export interface EventFieldChange<K extends EditableEventField = EditableEventField> {
+  field: K;
+  label: string;
+  from: EditableEventFields[K];
+  to: EditableEventFields[K];
+}
+
+/**
+ * processing: claimed by a review link that is applying the decision
+ * superseded: the organizer submitted newer changes before review
+ */
+export type EventEditRequestStatus = 'pending' | 'processing' | 'approved' | 'rejected' | 'superseded';
+
+/**
+ * Stored edit request awaiting (or after) admin review
+ */
+export interface EventEditRequest {
+  requestId: string;
+  opportunityId: string;
+  opportunityTitle: string;
+  opportunitySlug: string;
+  organizerEmail: string;
+  changes: EventFieldChange[];
+  status: EventEditRequestStatus;
+  submittedAt: string;
+  /** Set while a review link is applying the decision */
+  processingStartedAt?: string;
+  reviewedAt?: string;
+  /** Registrants emailed about schedule/location changes on approval */
+  notifiedRegistrants?: number;
+}
+
+/**
+ * Autosaved create-event form kept server-side for a signed-in organizer
+ */
+export interface StoredEventDraft {
+  draftId: string;
+  organizerEmail: string;
+  title: string;
+  fields: Record<string, unknown>; // Form state as saved by the create-event form
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * New event as submitted by an organizer (sent to admins for review)
+ */
+export interface SubmittedEvent {
+  submissionId: string;
+  slug: string;
+  title: string;
+  summary: string;
+  description: string;
+  coverImageUid: string;
+  coverImageUrl: string;
+  country: string;
+  state: string;
+  city: string;
+  address: string;
+  isVirtual: boolean;
+  location: string; // Formatted for the review email
+  contributionTypes: string[];
+  causeSlugs: string[];
+  startDate: string;
+  endDate: string;
+  startTime: string;
+  endTime: string;
+  recurrenceRule: string;
+  recurrence: string; // Readable schedule for the review email
+  shifts: OpportunityShift[];
+  shiftsFormatted: string[]; // Readable shifts for the review email
+  organizerEmail: string;
+  organizerName: string;
+  spotsAvailable: number | null;
+  requirements: string;
+  submittedAt: string;
+}
+
+/**
+ * held: screened as high risk, so kept in the queue without emailing review links
+ * processing: an approve/reject link is being handled right now
+ * changes_requested: waiting for the organizer to revise and resubmit
+ */
+export type EventSubmissionStatus =
+  | 'pending'
+  | 'held'
+  | 'processing'
+  | 'approved'
+  | 'rejected'
+  | 'changes_requested';
+
+/**
+ * Rule in the automated pre-moderation screening
+ */
+export type ScreeningCheck =
+  | 'profanity'
+  | 'excessive_links'
+  | 'phone_numbers'
+  | 'past_date'
+  | 'duplicate_title'
+  | 'disposable_email';
+
+export type ScreeningRisk = 'low' | 'medium' | 'high';
+
+/**
+ * One screening rule that matched, with its share of the risk score
+ */
+export interface ScreeningFlag {
+  check: ScreeningCheck;
+  score: number;
+  reason: string;
+}
+
+/**
+ * Screening result attached to a submission for moderator triage
+ */
+export interface SubmissionScreening {
+  /** 0-100, the sum of the flag scores */
+  score: number;
+  risk: ScreeningRisk;
+  flags: ScreeningFlag[];
+  /** High-risk submissions are held in the queue instead of emailed */
+  held: boolean;
+  screenedAt: string;
+}
+
+/**
+ * Moderator comment on one field of a submission
+ */
+export interface SubmissionFieldComment {
+  field: EditableEventField;
+  comment: string;
+}
+
+/**
+ * Changes a moderator asked for before the submission can be approved
+ */
+export interface SubmissionChangeRequest {
+  comments: SubmissionFieldComment[];
+  note?: string;
+  requestedAt: string;
+  requestedBy?: string;
+}
+
+/**
+ * Earlier revision of a submission, kept when the organizer resubmits
+ */
+export interface SubmissionRevision {
+  revision: number;
+  event: SubmittedEvent;
+  submittedAt: string;
+  changeRequest?: SubmissionChangeRequest;
+}
+
+/**
+ * Step of publishing an approved submission, in the order they run
+ */
+export type PublishStep = 'created' | 'published' | 'indexed' | 'notified';
+
+/**
+ * Outcome of one publish step (skipped when its service is not configured)
+ */
+export interface PublishStepRecord {
+  status: 'completed' | 'skipped' | 'failed';
+  at: string;
+  error?: string;
+}
+
+/**
+ * Progress of the approval pipeline, so an interrupted run resumes where it stopped
+ */
+export interface SubmissionPublishing {
+  steps: Partial<Record<PublishStep, PublishStepRecord>>;
+  /** Step the last run stopped at, until a later run gets past it */
+  failedStep?: PublishStep;
+  attempts: number;
+  /** Set while a run is in progress */
+  runningSince?: string;
+  completedAt?: string;
+}
+
+/**
+ * Stored submission awaiting (or after) admin review
+ */
+export interface StoredEventSubmission {
+  submissionId: string;
+  event: SubmittedEvent;
+  status: EventSubmissionStatus;
+  submittedAt: string;
+  /** Current revision, starting at 1 (unset on submissions made before revisions) */
+  revision?: number;
+  /** Earlier revisions, oldest first */
+  history?: SubmissionRevision[];
+  /** Open change request while status is changes_requested */
+  changeRequest?: SubmissionChangeRequest;
+  /** Automated screening of the current revision */
+  screening?: SubmissionScreening;
+  revisedAt?: string;
+  processingStartedAt?: string;
+  reviewedAt?: string;
+  /** Admin who decided in the moderation queue (unset for email links) */
+  reviewedBy?: string;
+  /** Written reason sent to the organizer with the decision */
+  reviewReason?: string;
+  /** Opportunity entry created on approval */
+  entryUid?: string;
+  /** Approval pipeline progress, once approval has started */
+  publishing?: SubmissionPublishing;
+}
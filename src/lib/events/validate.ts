@@ -0,0 +1,144 @@
+/**
+ * Event Edit Validation
+ * Sanitizes and validates proposed changes using the event submission rules
+ */
+
+import {
+  getSeriesEndDate,
+  parseRecurrenceRule,
+  serializeRecurrenceRule,
+  validateRecurrenceRule,
+} from '@/lib/recurrence';
+import { parseShiftInput } from '@/lib/shifts';
+import type { ShiftInput } from '@/lib/shifts';
+import type { EditableEventFields } from './types';
+
+/**
+ * Proposed changes as posted by the event form
+ * Uses the form's field names (causes rather than causeSlugs)
+ */
+export interface EventEditInput {
+  title?: string;
+  summary?: string;
+  description?: string;
+  coverImageUid?: string;
+  coverImageUrl?: string;
+  country?: string;
+  state?: string;
+  city?: string;
+  address?: string;
+  isVirtual?: boolean;
+  causes?: string[];
+  contributionTypes?: string[];
+  startDate?: string;
+  endDate?: string;
+  startTime?: string;
+  endTime?: string;
+  recurrenceRule?: string;
+  shifts?: ShiftInput[];
+  organizerName?: string;
+  spotsAvailable?: number | null;
+  requirements?: string;
+}
+
+function sanitize(value: string | undefined): string {
+  if (!value) return '';
+  return value.trim().slice(0, 1000);
+}
+
+function sanitizeList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '').map((v) => v.trim())
+    : [];
+}
+
+/**
+ * Build the proposed field values, keeping the current cover image unless replaced
+ * Returns validation errors in the same wording as /api/submit-event
+ */
+export function parseEventEditInput(
+  input: EventEditInput,
+  current: EditableEventFields
+): { fields: EditableEventFields; errors: string[] } {
+  const isVirtual = input.isVirtual === true;
+  const startDate = sanitize(input.startDate);
+  const spots = input.spotsAvailable === null || input.spotsAvailable === undefined
+    ? null
+    : Number(input.spotsAvailable);
+  const rawRule = sanitize(input.recurrenceRule);
+  const rule = rawRule ? parseRecurrenceRule(rawRule) : null;
+  const endDate = (rule && startDate ? getSeriesEndDate(rule, startDate) : sanitize(input.endDate)) || startDate;
+  const { shifts, errors: shiftErrors } = input.shifts === undefined
+    ? { shifts: current.shifts, errors: [] }
+    : parseShiftInput(input.shifts, { startDate, endDate });
+
+  const fields: EditableEventFields = {
+    title: sanitize(input.title),
+    summary: sanitize(input.summary),
+    description: sanitize(input.description),
+    coverImageUid: input.coverImageUid === undefined ? current.coverImageUid : sanitize(input.coverImageUid),
+    coverImageUrl: input.coverImageUid === undefined ? current.coverImageUrl : sanitize(input.coverImageUrl),
+    country: isVirtual ? '' : sanitize(input.country),
+    state: isVirtual ? '' : sanitize(input.state),
+    city: isVirtual ? '' : sanitize(input.city),
+    address: isVirtual ? '' : sanitize(input.address),
+    isVirtual,
+    causeSlugs: sanitizeList(input.causes),
+    contributionTypes: sanitizeList(input.contributionTypes),
+    startDate,
+    // Repeating events end on their last session
+    endDate,
+    startTime: sanitize(input.startTime),
+    endTime: sanitize(input.endTime),
+    recurrenceRule: rule ? serializeRecurrenceRule(rule) : '',
+    shifts,
+    organizerName: sanitize(input.organizerName) || current.organizerName,
+    // Shifts carry their own spots
+    spotsAvailable: shifts.length > 0 ? null : spots,
+    requirements: sanitize(input.requirements),
+  };
+
+  const errors: string[] = [];
+
+  if (fields.title.length < 5) {
+    errors.push('Title must be at least 5 characters');
+  }
+  if (fields.summary.length < 20) {
+    errors.push('Summary must be at least 20 characters');
+  }
+  if (!fields.startDate) {
+    errors.push('Start date is required');
+  }
+  if (fields.endDate && fields.startDate && fields.endDate < fields.startDate) {
+    errors.push('End date cannot be before the start date');
+  }
+  if (rawRule && !rule) {
+    errors.push('Repeat schedule is not valid');
+  }
+  if (rule && fields.startDate) {
+    errors.push(...validateRecurrenceRule(rule, fields.startDate));
+  }
+  errors.push(...shiftErrors);
+  if (rule && shifts.length > 0) {
+    errors.push('Repeating events cannot have shifts');
+  }
+  if (!fields.isVirtual) {
+    if (!fields.country) {
+      errors.push('Country is required for non-virtual events');
+    }
+    if (!fields.city) {
+      errors.push('City is required for non-virtual events');
+    }
+  }
+  if (fields.contributionTypes.length === 0) {
+    errors.push('At least one contribution type is required');
+  }
+  if (fields.causeSlugs.length === 0) {
+    errors.push('At least one cause is required');
+  }
+  if (fields.spotsAvailable !== null && (!Number.isInteger(fields.spotsAvailable) || fields.spotsAvailable < 1)) {
+    errors.push('Spots available must be a whole number of at least 1');
+  }
+
+  return { fields, errors };
+}
@@ -0,0 +1,80 @@
+/**
+ * Hours Calculation
+ * Derives volunteer hours from an opportunity's schedule
+ */
+
+import { getOccurrences } from '@/lib/recurrence';
+
+/**
+ * Parse "HH:MM" into minutes after midnight
+ */
+function parseTime(time?: string): number | null {
+  if (!time) return null;
+  const match = /^(\d{1,2}):(\d{2})/.exec(time.trim());
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+
+  return hours * 60 + minutes;
+}
+
+/**
+ * Number of days an opportunity runs (inclusive)
+ */
+function countDays(startDate?: string, endDate?: string): number {
+  if (!startDate || !endDate) return 1;
+
+  const start = new Date(startDate);
+  const end = new Date(endDate);
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || end < start) return 1;
+
+  const msPerDay = 24 * 60 * 60 * 1000;
+  const startDay = Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate());
+  const endDay = Date.UTC(end.getUTCFullYear(), end.getUTCMonth(), end.getUTCDate());
+  return Math.round((endDay - startDay) / msPerDay) + 1;
+}
+
+/**
+ * Round to the nearest quarter hour
+ */
+export function roundHours(hours: number): number {
+  return Math.round(hours * 4) / 4;
+}
+
+/**
+ * Hours for one day's session from its start/end time
+ * Returns null when either time is missing or invalid
+ */
+export function calculateSessionHours(opportunity: { startTime?: string; endTime?: string }): number | null {
+  const start = parseTime(opportunity.startTime);
+  const end = parseTime(opportunity.endTime);
+  if (start === null || end === null || end <= start) return null;
+
+  return roundHours((end - start) / 60);
+}
+
+/**
+ * Hours for an opportunity from its start/end time
+ * Multi-day opportunities count the daily session once per day;
+ * recurring ones count it once per occurrence
+ * Returns null when either time is missing or invalid
+ */
+export function calculateEventHours(opportunity: {
+  startDate?: string;
+  endDate?: string;
+  startTime?: string;
+  endTime?: string;
+  recurrencePattern?: string;
+}): number | null {
+  const start = parseTime(opportunity.startTime);
+  const end = parseTime(opportunity.endTime);
+  if (start === null || end === null || end <= start) return null;
+
+  const perDay = (end - start) / 60;
+  const sessions = opportunity.recurrencePattern && opportunity.startDate
+    ? getOccurrences({ startDate: opportunity.startDate, recurrencePattern: opportunity.recurrencePattern }).length
+    : countDays(opportunity.startDate, opportunity.endDate);
+  return roundHours(perDay * Math.max(1, sessions));
+}
@@ -0,0 +1,130 @@
+/**
+ * Volunteer Certificates
+ * Server-side PDF certificates for credited volunteer hours
+ */
+
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
+import { getAppUrl } from '@/lib/config';
+import { createSignedToken, daysFromNow, verifySignedToken } from '@/lib/tokens';
+import type { TokenVerification } from '@/lib/tokens';
+import type { HoursEntry } from './types';
+
+export const CERTIFICATE_TOKEN_PURPOSE = 'hours_certificate';
+
+/**
+ * Certificate links are long-lived since volunteers download them for reports
+ */
+const CERTIFICATE_TTL_DAYS = 365;
+
+const BRAND_COLOR = rgb(0.486, 0.227, 0.929); // #7c3aed
+const TEXT_COLOR = rgb(0.067, 0.094, 0.153); // #111827
+const MUTED_COLOR = rgb(0.42, 0.447, 0.502); // #6b7280
+
+/**
+ * Build the signed download URL for a certificate
+ */
+export function createCertificateUrl(entryId: string): string {
+  const token = createSignedToken(CERTIFICATE_TOKEN_PURPOSE, entryId, {
+    expiresAt: daysFromNow(CERTIFICATE_TTL_DAYS),
+  });
+  return `${getAppUrl()}/api/certificates?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Verify a certificate token (the subject is the ledger entry ID)
+ */
+export function verifyCertificateToken(token: string): TokenVerification {
+  return verifySignedToken(token, CERTIFICATE_TOKEN_PURPOSE);
+}
+
+/**
+ * Make text encodable with the standard PDF fonts (WinAnsi)
+ * Accents are stripped where possible; other characters become "?"
+ */
+function toPdfText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+}
+
+/**
+ * Format hours for display (e.g. "1 hour", "3.5 hours")
+ */
+export function formatHours(hours: number): string {
+  return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+}
+
+/**
+ * Render a certificate as a landscape A4 PDF
+ */
+export async function renderCertificatePdf(entry: HoursEntry): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`Volunteer Certificate - ${entry.opportunityTitle}`);
+  pdf.setAuthor('ImpactConnect');
+  pdf.setSubject(`${formatHours(entry.hours)} of volunteer service`);
+
+  const page = pdf.addPage([842, 595]);
+  const { width, height } = page.getSize();
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+
+  const centered = (value: string, y: number, size: number, font = regular, color = TEXT_COLOR) => {
+    const text = toPdfText(value);
+    // Shrink long lines (e.g. event titles) to fit within the border
+    let fontSize = size;
+    while (font.widthOfTextAtSize(text, fontSize) > width - 140 && fontSize > 10) {
+      fontSize -= 1;
+    }
+    const textWidth = font.widthOfTextAtSize(text, fontSize);
+    page.drawText(text, { x: (width - textWidth) / 2, y, size: fontSize, font, color });
+  };
+
+  // Border
+  page.drawRectangle({
+    x: 24,
+    y: 24,
+    width: width - 48,
+    height: height - 48,
+    borderColor: BRAND_COLOR,
+    borderWidth: 3,
+  });
+  page.drawRectangle({
+    x: 34,
+    y: 34,
+    width: width - 68,
+    height: height - 68,
+    borderColor: BRAND_COLOR,
+    borderWidth: 0.75,
+  });
+
+  const eventDate = new Date(entry.eventDate).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+
+  centered('CERTIFICATE OF VOLUNTEER SERVICE', height - 110, 26, bold, BRAND_COLOR);
+  centered('This certifies that', height - 170, 14, regular, MUTED_COLOR);
+  centered(entry.volunteerName, height - 215, 32, bold);
+  centered(
+    `contributed ${formatHours(entry.hours)} of volunteer service to`,
+    height - 260,
+    14,
+    regular,
+    MUTED_COLOR
+  );
+  centered(entry.opportunityTitle, height - 300, 22, bold);
+  centered(`organized by ${entry.organizerName} on ${eventDate}`, height - 335, 14, regular, MUTED_COLOR);
+
+  // Footer
+  const issued = new Date().toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+  centered(`Issued ${issued} via ImpactConnect`, 90, 10, regular, MUTED_COLOR);
+  centered(`Certificate ID: ${entry.entryId}`, 74, 10, regular, MUTED_COLOR);
+
+  return pdf.save();
+}
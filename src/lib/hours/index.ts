@@ -0,0 +1,24 @@
+/**
+ * Volunteer Hours
+ * Central export for the hours ledger and certificates
+ */
+
+export { calculateEventHours, calculateSessionHours, roundHours } from './calculate';
+export {
+  creditOpportunityHours,
+  setHoursOverride,
+  listHoursByEmail,
+  listHoursByOpportunity,
+  getHoursEntry,
+} from './ledger';
+export {
+  CERTIFICATE_TOKEN_PURPOSE,
+  createCertificateUrl,
+  verifyCertificateToken,
+  formatHours,
+  renderCertificatePdf,
+} from './certificate';
+export { creditHoursIfCompleted, getVolunteerHours } from './service';
+
+export type { CreditOpportunity } from './ledger';
+export type { HoursEntry, EventHoursOverride, VolunteerHoursSummary } from './types';
@@ -0,0 +1,189 @@
+/**
+ * Volunteer Hours Ledger
+ * Local JSON file record of hours credited per volunteer
+ */
+
+import { getDataFilePath, readJsonFile, updateJsonFile } from '@/lib/storage';
+import { normalizeEmail } from '@/lib/registrations';
+import type { StoredRegistration } from '@/lib/registrations';
+import { roundHours } from './calculate';
+import type { EventHoursOverride, HoursEntry } from './types';
+
+/**
+ * On-disk file shape
+ */
+interface HoursFile {
+  entries: HoursEntry[];
+  eventOverrides: Record<string, EventHoursOverride>;
+}
+
+const EMPTY_FILE: HoursFile = { entries: [], eventOverrides: {} };
+
+/**
+ * Opportunity details copied onto ledger entries
+ */
+export interface CreditOpportunity {
+  uid: string;
+  title: string;
+  slug: string;
+  organizerName?: string;
+  startDate: string;
+}
+
+function getLedgerPath(): string {
+  return getDataFilePath('hours.json');
+}
+
+/**
+ * Effective hours for an entry: personal override, then event override, then calculated
+ */
+function resolveHours(entry: HoursEntry, eventOverride?: EventHoursOverride): number {
+  return entry.overrideHours ?? eventOverride?.hours ?? entry.calculatedHours ?? 0;
+}
+
+/**
+ * Everyone in a registration that can be credited (members need an email to look up their hours)
+ */
+function getCreditableParticipants(
+  registration: StoredRegistration
+): Array<{ index: number; name: string; email: string }> {
+  const lead = { index: 0, name: registration.name, email: registration.email };
+  const members = (registration.members || [])
+    .map((m, i) => ({ index: i + 1, name: m.name, email: m.email || '' }))
+    .filter((m) => m.email);
+
+  return [lead, ...members].map((p) => ({ ...p, email: normalizeEmail(p.email) }));
+}
+
+/**
+ * Credit hours to every checked-in participant of a completed opportunity
+ * `calculateHours` gives the hours a registration earned (e.g. for the sessions it attended)
+ * Safe to run repeatedly: existing entries are refreshed, not duplicated
+ */
+export async function creditOpportunityHours(
+  opportunity: CreditOpportunity,
+  registrations: StoredRegistration[],
+  calculateHours: (registration: StoredRegistration) => number | null
+): Promise<HoursEntry[]> {
+  return updateJsonFile<HoursFile, HoursEntry[]>(getLedgerPath(), EMPTY_FILE, (file) => {
+    const entries = [...(file.entries || [])];
+    const eventOverrides = file.eventOverrides || {};
+    const eventOverride = eventOverrides[opportunity.uid];
+    const now = new Date().toISOString();
+    const credited: HoursEntry[] = [];
+
+    registrations
+      .filter((r) => r.opportunityId === opportunity.uid && r.status === 'confirmed' && r.checkedInAt)
+      .forEach((registration) => {
+        const calculatedHours = calculateHours(registration);
+        getCreditableParticipants(registration).forEach((participant) => {
+          const entryId = `${registration.registrationId}-${participant.index}`;
+          const index = entries.findIndex((e) => e.entryId === entryId);
+          const existing = index === -1 ? null : entries[index];
+
+          const entry: HoursEntry = {
+            entryId,
+            registrationId: registration.registrationId,
+            opportunityId: opportunity.uid,
+            opportunityTitle: opportunity.title,
+            opportunitySlug: opportunity.slug,
+            organizerName: opportunity.organizerName || 'Organizer',
+            eventDate: registration.occurrenceDate || opportunity.startDate,
+            volunteerName: participant.name,
+            email: participant.email,
+            hours: 0,
+            calculatedHours,
+            overrideHours: existing?.overrideHours,
+            creditedAt: existing?.creditedAt || now,
+            updatedAt: now,
+          };
+          entry.hours = resolveHours(entry, eventOverride);
+
+          if (existing) {
+            entries[index] = entry;
+          } else {
+            entries.push(entry);
+          }
+          credited.push(entry);
+        });
+      });
+
+    return { data: { entries, eventOverrides }, result: credited };
+  });
+}
+
+/**
+ * Override hours for a whole opportunity, or for one registration when registrationId is given
+ * Passing null clears the override
+ */
+export async function setHoursOverride(
+  opportunityId: string,
+  hours: number | null,
+  registrationId?: string
+): Promise<HoursEntry[]> {
+  return updateJsonFile<HoursFile, HoursEntry[]>(getLedgerPath(), EMPTY_FILE, (file) => {
+    const eventOverrides = { ...(file.eventOverrides || {}) };
+    const now = new Date().toISOString();
+    const value = hours === null ? null : roundHours(hours);
+
+    if (!registrationId) {
+      if (value === null) {
+        delete eventOverrides[opportunityId];
+      } else {
+        eventOverrides[opportunityId] = { hours: value, updatedAt: now };
+      }
+    }
+
+    const entries = (file.entries || []).map((entry) => {
+      if (entry.opportunityId !== opportunityId) return entry;
+
+      const updated: HoursEntry = { ...entry };
+      if (registrationId) {
+        if (entry.registrationId !== registrationId) return entry;
+        updated.overrideHours = value ?? undefined;
+      }
+      updated.hours = resolveHours(updated, eventOverrides[opportunityId]);
+      updated.updatedAt = now;
+      return updated;
+    });
+
+    return {
+      data: { entries, eventOverrides },
+      result: entries.filter((e) => e.opportunityId === opportunityId),
+    };
+  });
+}
+
+/**
+ * Ledger entries for a volunteer, newest event first
+ */
+export async function listHoursByEmail(email: string): Promise<HoursEntry[]> {
+  const file = await readJsonFile<HoursFile>(getLedgerPath(), EMPTY_FILE);
+  const normalized = normalizeEmail(email);
+
+  return (file.entries || [])
+    .filter((e) => e.email === normalized)
+    .sort((a, b) => b.eventDate.localeCompare(a.eventDate));
+}
+
+/**
+ * Ledger entries and event-wide override for an opportunity
+ */
+export async function listHoursByOpportunity(
+  opportunityId: string
+): Promise<{ entries: HoursEntry[]; eventOverride: EventHoursOverride | null }> {
+  const file = await readJsonFile<HoursFile>(getLedgerPath(), EMPTY_FILE);
+
+  return {
+    entries: (file.entries || []).filter((e) => e.opportunityId === opportunityId),
+    eventOverride: file.eventOverrides?.[opportunityId] || null,
+  };
+}
+
+/**
+ * Find a ledger entry by ID
+ */
+export async function getHoursEntry(entryId: string): Promise<HoursEntry | null> {
+  const file = await readJsonFile<HoursFile>(getLedgerPath(), EMPTY_FILE);
+  return (file.entries || []).find((e) => e.entryId === entryId) || null;
+}
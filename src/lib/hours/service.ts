@@ -0,0 +1,54 @@
+/**
+ * Volunteer Hours Service
+ * Credits hours once opportunities are completed and summarizes them per volunteer
+ */
+
+import { getOpportunityById } from '@/lib/contentstack';
+import { getScheduleRule } from '@/lib/recurrence';
+import { getAttendedSessions, getRegistrationStore } from '@/lib/registrations';
+import type { StoredRegistration } from '@/lib/registrations';
+import { OpportunityStatus } from '@/types';
+import { calculateEventHours, calculateSessionHours } from './calculate';
+import { creditOpportunityHours, listHoursByEmail } from './ledger';
+import type { HoursEntry, VolunteerHoursSummary } from './types';
+
+/**
+ * Credit hours for an opportunity if it has been marked completed
+ * Returns the credited entries (empty when the opportunity is not completed)
+ */
+export async function creditHoursIfCompleted(opportunityId: string): Promise<HoursEntry[]> {
+  const opportunity = await getOpportunityById(opportunityId);
+  if (!opportunity || opportunity.status !== OpportunityStatus.COMPLETED) {
+    return [];
+  }
+
+  // On recurring opportunities, registrations earn one session's hours per session
+  // attended: their own session, or each session a whole-series ticket was checked in to
+  const recurring = !!getScheduleRule(opportunity);
+  const eventHours = calculateEventHours(opportunity);
+  const sessionHours = calculateSessionHours(opportunity);
+  const calculateHours = (registration: StoredRegistration): number | null => {
+    if (!recurring) return eventHours;
+    if (sessionHours === null) return null;
+    if (registration.occurrenceDate) return sessionHours;
+    return sessionHours * getAttendedSessions(registration).length;
+  };
+
+  const registrations = await getRegistrationStore().listByOpportunity(opportunityId);
+  const credited = await creditOpportunityHours(opportunity, registrations, calculateHours);
+
+  console.log(`[Hours] Credited ${credited.length} volunteers for ${opportunity.title}`);
+  return credited;
+}
+
+/**
+ * A volunteer's credited hours and cumulative total
+ */
+export async function getVolunteerHours(email: string): Promise<VolunteerHoursSummary> {
+  const entries = await listHoursByEmail(email);
+
+  return {
+    entries,
+    totalHours: entries.reduce((total, e) => total + e.hours, 0),
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Volunteer Hours Types
+ * Type definitions for the volunteer hours ledger
+ */
+
+/**
+ * Hours credited to one volunteer for one completed opportunity
+ */
+export interface HoursEntry {
+  /** `${registrationId}-${participantIndex}` (0 is the group lead) */
+  entryId: string;
+  registrationId: string;
+
+  // Opportunity info (copied so certificates survive CMS changes)
+  opportunityId: string;
+  opportunityTitle: string;
+  opportunitySlug: string;
+  organizerName: string;
+  eventDate: string;
+
+  // Volunteer info
+  volunteerName: string;
+  email: string; // Normalized
+
+  // Hours
+  /** Hours credited (override when set, otherwise calculated) */
+  hours: number;
+  /** Hours derived from start/end time, null when times are missing */
+  calculatedHours: number | null;
+  /** Organizer override for this volunteer */
+  overrideHours?: number;
+
+  // Metadata
+  creditedAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Organizer overrides for an opportunity
+ */
+export interface EventHoursOverride {
+  /** Hours credited to every volunteer without a personal override */
+  hours: number;
+  updatedAt: string;
+}
+
+/**
+ * Volunteer's ledger with cumulative total
+ */
+export interface VolunteerHoursSummary {
+  entries: HoursEntry[];
+  totalHours: number;
+}
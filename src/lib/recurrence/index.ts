@@ -0,0 +1,29 @@
+/**
+ * Recurrence
+ * Central export for recurring opportunity rules and occurrence expansion
+ */
+
+export {
+  WEEKDAYS,
+  MAX_OCCURRENCES,
+  MAX_SERIES_DAYS,
+  parseRecurrenceRule,
+  serializeRecurrenceRule,
+  validateRecurrenceRule,
+  formatRecurrenceShort,
+  describeRecurrence,
+} from './rules';
+export {
+  today,
+  expandOccurrences,
+  getSeriesEndDate,
+  getScheduleRule,
+  getOccurrences,
+  getNextOccurrence,
+  getUpcomingOccurrences,
+  isOccurrenceOf,
+  toNextOccurrence,
+} from './occurrences';
+
+export type { ExpandOptions } from './occurrences';
+export type { RecurrenceFrequency, RecurrenceRule, RecurringSchedule, Weekday } from './types';
@@ -0,0 +1,55 @@
+/**
+ * Recurrence Occurrences Tests
+ * Run with the Node test runner: npm test
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { expandOccurrences, isOccurrenceOf } from './occurrences';
+import { parseRecurrenceRule } from './rules';
+
+const weeklyTuesdays = {
+  startDate: '2026-12-01',
+  recurrencePattern: 'FREQ=WEEKLY;BYDAY=TU;COUNT=5',
+};
+
+describe('isOccurrenceOf', () => {
+  it('accepts dates in the series', () => {
+    assert.equal(isOccurrenceOf(weeklyTuesdays, '2026-12-01'), true);
+    assert.equal(isOccurrenceOf(weeklyTuesdays, '2026-12-15'), true);
+    assert.equal(isOccurrenceOf(weeklyTuesdays, '2026-12-29'), true);
+  });
+
+  it('rejects dates before the series starts', () => {
+    assert.equal(isOccurrenceOf(weeklyTuesdays, '2026-11-20'), false);
+    assert.equal(isOccurrenceOf(weeklyTuesdays, '2026-11-24'), false);
+  });
+
+  it('rejects dates between and after occurrences', () => {
+    assert.equal(isOccurrenceOf(weeklyTuesdays, '2026-12-02'), false);
+    assert.equal(isOccurrenceOf(weeklyTuesdays, '2027-01-05'), false);
+  });
+
+  it('rejects days inside a multi-day one-off event other than its start', () => {
+    const oneOff = { startDate: '2026-12-01', endDate: '2026-12-03' };
+    assert.equal(isOccurrenceOf(oneOff, '2026-12-01'), true);
+    assert.equal(isOccurrenceOf(oneOff, '2026-12-02'), false);
+  });
+});
+
+describe('expandOccurrences', () => {
+  it('leaves out the start date when it is past the range', () => {
+    const rule = parseRecurrenceRule(weeklyTuesdays.recurrencePattern)!;
+    assert.deepEqual(expandOccurrences(rule, weeklyTuesdays.startDate, { to: '2026-11-30' }), []);
+  });
+
+  it('counts the start date toward COUNT when it is outside the range', () => {
+    const rule = parseRecurrenceRule(weeklyTuesdays.recurrencePattern)!;
+    assert.deepEqual(expandOccurrences(rule, weeklyTuesdays.startDate, { from: '2026-12-02' }), [
+      '2026-12-08',
+      '2026-12-15',
+      '2026-12-22',
+      '2026-12-29',
+    ]);
+  });
+});
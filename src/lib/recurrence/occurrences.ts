@@ -0,0 +1,215 @@
+/**
+ * Recurrence Occurrences
+ * Expands recurrence rules into occurrence dates (YYYY-MM-DD, UTC)
+ */
+
+import { MAX_OCCURRENCES, MAX_SERIES_DAYS, WEEKDAYS, parseRecurrenceRule } from './rules';
+import type { RecurrenceRule, RecurringSchedule } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Upper bound on generated periods, guards against runaway rules
+ */
+const MAX_PERIODS = 1000;
+
+export interface ExpandOptions {
+  /** Earliest occurrence to return (inclusive) */
+  from?: string;
+  /** Latest occurrence to return (inclusive) */
+  to?: string;
+  /** Most occurrences to return */
+  limit?: number;
+}
+
+function toDate(value: string): Date {
+  return new Date(`${value.slice(0, 10)}T00:00:00Z`);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+/**
+ * Today as YYYY-MM-DD (UTC)
+ */
+export function today(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+/**
+ * Monday-first index (0-6) of a date's weekday
+ */
+function weekdayIndex(date: Date): number {
+  return (date.getUTCDay() + 6) % 7;
+}
+
+/**
+ * Nth (or last, for -1) given weekday of a month
+ */
+function nthWeekdayOfMonth(year: number, month: number, weekday: number, nth: number): Date | null {
+  if (nth > 0) {
+    const first = new Date(Date.UTC(year, month, 1));
+    const offset = (weekday - weekdayIndex(first) + 7) % 7;
+    const date = addDays(first, offset + (nth - 1) * 7);
+    return date.getUTCMonth() === month ? date : null;
+  }
+
+  const last = new Date(Date.UTC(year, month + 1, 0));
+  const offset = (weekdayIndex(last) - weekday + 7) % 7;
+  const date = addDays(last, -offset + (nth + 1) * 7);
+  return date.getUTCMonth() === month ? date : null;
+}
+
+/**
+ * Candidate dates for the Nth period of the rule, in order
+ */
+function datesForPeriod(rule: RecurrenceRule, start: Date, period: number): Date[] {
+  switch (rule.frequency) {
+    case 'DAILY':
+      return [addDays(start, period * rule.interval)];
+
+    case 'WEEKLY': {
+      const weekStart = addDays(start, -weekdayIndex(start) + period * rule.interval * 7);
+      const days = rule.byDay && rule.byDay.length > 0
+        ? WEEKDAYS.map((day, index) => (rule.byDay!.includes(day) ? index : -1)).filter((index) => index >= 0)
+        : [weekdayIndex(start)];
+      return days.map((index) => addDays(weekStart, index));
+    }
+
+    case 'MONTHLY': {
+      const monthIndex = start.getUTCMonth() + period * rule.interval;
+      const year = start.getUTCFullYear() + Math.floor(monthIndex / 12);
+      const month = monthIndex % 12;
+
+      if (rule.weekOfMonth && rule.byDay?.length) {
+        const date = nthWeekdayOfMonth(year, month, WEEKDAYS.indexOf(rule.byDay[0]), rule.weekOfMonth);
+        return date ? [date] : [];
+      }
+
+      // Months without the day (e.g. the 31st) are skipped, as in RFC 5545
+      const day = rule.byMonthDay || start.getUTCDate();
+      const date = new Date(Date.UTC(year, month, day));
+      return date.getUTCMonth() === month ? [date] : [];
+    }
+  }
+}
+
+/**
+ * Expand a rule into occurrence dates
+ * The start date is always the first occurrence. Rules without COUNT or UNTIL
+ * are expanded up to MAX_SERIES_DAYS past the start.
+ */
+export function expandOccurrences(
+  rule: RecurrenceRule,
+  startDate: string,
+  options: ExpandOptions = {}
+): string[] {
+  const start = toDate(startDate);
+  if (isNaN(start.getTime())) return [];
+
+  const horizon = formatDate(addDays(start, MAX_SERIES_DAYS));
+  const until = rule.until && rule.until < horizon ? rule.until : horizon;
+  const last = options.to && options.to < until ? options.to : until;
+  const maxCount = Math.min(rule.count || MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const limit = options.limit ?? Infinity;
+
+  const results: string[] = [];
+  let seen = 0;
+
+  const accept = (date: string): boolean => {
+    seen++;
+    if ((!options.from || date >= options.from) && (!options.to || date <= options.to)) {
+      results.push(date);
+    }
+    return seen < maxCount && results.length < limit;
+  };
+
+  const first = startDate.slice(0, 10);
+  if (options.to && first > options.to) return results;
+  if (!accept(first)) return results;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const candidate of datesForPeriod(rule, start, period)) {
+      const date = formatDate(candidate);
+      if (date <= first) continue;
+      if (date > last) return results;
+      if (!accept(date)) return results;
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Last occurrence of a series, or undefined if it has no end
+ */
+export function getSeriesEndDate(rule: RecurrenceRule, startDate: string): string | undefined {
+  if (!rule.count && !rule.until) return undefined;
+  const occurrences = expandOccurrences(rule, startDate);
+  return occurrences[occurrences.length - 1];
+}
+
+/**
+ * Parsed rule for a schedule, or null if it does not repeat
+ */
+export function getScheduleRule(schedule: RecurringSchedule): RecurrenceRule | null {
+  return parseRecurrenceRule(schedule.recurrencePattern);
+}
+
+/**
+ * Occurrence dates of a schedule within an optional range
+ * Non-recurring schedules have a single occurrence on their start date
+ */
+export function getOccurrences(schedule: RecurringSchedule, options: ExpandOptions = {}): string[] {
+  const rule = getScheduleRule(schedule);
+  if (!rule) {
+    const date = schedule.startDate.slice(0, 10);
+    const inRange = (!options.from || (schedule.endDate || date) >= options.from) &&
+      (!options.to || date <= options.to);
+    return inRange ? [date] : [];
+  }
+  return expandOccurrences(rule, schedule.startDate, options);
+}
+
+/**
+ * Next occurrence on or after a date (default today), or null once the series is over
+ */
+export function getNextOccurrence(schedule: RecurringSchedule, from: string = today()): string | null {
+  return getOccurrences(schedule, { from, limit: 1 })[0] ?? null;
+}
+
+/**
+ * Upcoming occurrences from today
+ */
+export function getUpcomingOccurrences(schedule: RecurringSchedule, limit: number): string[] {
+  return getOccurrences(schedule, { from: today(), limit });
+}
+
+/**
+ * Whether a date is exactly one of the schedule's occurrences
+ */
+export function isOccurrenceOf(schedule: RecurringSchedule, date: string): boolean {
+  const day = date.slice(0, 10);
+  return getOccurrences(schedule, { from: day, to: day, limit: 1 })[0] === day;
+}
+
+/**
+ * Re-date a recurring item to its first occurrence within a range
+ * Returns non-recurring items unchanged and null when no occurrence falls in range,
+ * so listings can show a series once, at its next session
+ */
+export function toNextOccurrence<T extends RecurringSchedule>(
+  item: T,
+  range: { from?: string; to?: string } = {}
+): T | null {
+  const rule = getScheduleRule(item);
+  if (!rule) return item;
+
+  const [next] = expandOccurrences(rule, item.startDate, { ...range, limit: 1 });
+  return next ? { ...item, startDate: next, endDate: next } : null;
+}
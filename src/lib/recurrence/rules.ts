@@ -0,0 +1,222 @@
+/**
+ * Recurrence Rules
+ * Parses, validates and describes RRULE strings such as
+ * "FREQ=WEEKLY;INTERVAL=1;BYDAY=TU,TH;UNTIL=20261231" or "FREQ=MONTHLY;BYDAY=1SA;COUNT=12"
+ */
+
+import type { RecurrenceFrequency, RecurrenceRule, Weekday } from './types';
+
+export const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  MO: 'Monday',
+  TU: 'Tuesday',
+  WE: 'Wednesday',
+  TH: 'Thursday',
+  FR: 'Friday',
+  SA: 'Saturday',
+  SU: 'Sunday',
+};
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY'];
+
+const ORDINALS: Record<number, string> = {
+  1: 'first',
+  2: 'second',
+  3: 'third',
+  4: 'fourth',
+  [-1]: 'last',
+};
+
+/**
+ * Largest number of occurrences a series may have
+ */
+export const MAX_OCCURRENCES = 104;
+
+/**
+ * Furthest a series may run past its start date
+ */
+export const MAX_SERIES_DAYS = 730;
+
+const MAX_INTERVAL = 12;
+
+/**
+ * "20261231" or "20261231T235959Z" to "2026-12-31"
+ */
+function parseUntil(value: string): string | null {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+/**
+ * Parse an RRULE string (with or without the "RRULE:" prefix)
+ * Returns null for empty or unsupported rules
+ */
+export function parseRecurrenceRule(value: string | null | undefined): RecurrenceRule | null {
+  if (!value || !value.trim()) return null;
+
+  const parts: Record<string, string> = {};
+  for (const part of value.trim().replace(/^RRULE:/i, '').split(';')) {
+    const [key, partValue] = part.split('=');
+    if (key && partValue) parts[key.trim().toUpperCase()] = partValue.trim().toUpperCase();
+  }
+
+  const frequency = parts.FREQ as RecurrenceFrequency;
+  if (!FREQUENCIES.includes(frequency)) return null;
+
+  const interval = parts.INTERVAL ? parseInt(parts.INTERVAL, 10) : 1;
+  if (!Number.isInteger(interval) || interval < 1) return null;
+
+  const rule: RecurrenceRule = { frequency, interval };
+
+  if (parts.BYDAY) {
+    const days: Weekday[] = [];
+    for (const token of parts.BYDAY.split(',')) {
+      const match = /^([+-]?\d)?(MO|TU|WE|TH|FR|SA|SU)$/.exec(token.trim());
+      if (!match) return null;
+      if (match[1]) rule.weekOfMonth = parseInt(match[1], 10);
+      days.push(match[2] as Weekday);
+    }
+    rule.byDay = days;
+  }
+
+  if (parts.BYSETPOS && rule.byDay?.length === 1) {
+    rule.weekOfMonth = parseInt(parts.BYSETPOS, 10);
+  }
+
+  if (parts.BYMONTHDAY) {
+    const day = parseInt(parts.BYMONTHDAY, 10);
+    if (!Number.isInteger(day) || day < 1 || day > 31) return null;
+    rule.byMonthDay = day;
+  }
+
+  if (parts.COUNT) {
+    const count = parseInt(parts.COUNT, 10);
+    if (!Number.isInteger(count) || count < 1) return null;
+    rule.count = count;
+  }
+
+  if (parts.UNTIL) {
+    const until = parseUntil(parts.UNTIL);
+    if (!until) return null;
+    rule.until = until;
+  }
+
+  return rule;
+}
+
+/**
+ * Serialize a rule back to an RRULE string (without the "RRULE:" prefix)
+ */
+export function serializeRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency}`, `INTERVAL=${rule.interval}`];
+
+  if (rule.byDay && rule.byDay.length > 0) {
+    const prefix = rule.frequency === 'MONTHLY' && rule.weekOfMonth ? String(rule.weekOfMonth) : '';
+    parts.push(`BYDAY=${rule.byDay.map((day) => `${prefix}${day}`).join(',')}`);
+  }
+  if (rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+
+  return parts.join(';');
+}
+
+/**
+ * Validate a rule for a series starting on the given date
+ * Submitted series must end (by count or date) so they can be listed in full
+ */
+export function validateRecurrenceRule(rule: RecurrenceRule, startDate: string): string[] {
+  const errors: string[] = [];
+
+  if (rule.interval > MAX_INTERVAL) {
+    errors.push(`Repeat interval can be at most ${MAX_INTERVAL}`);
+  }
+  if (rule.frequency === 'WEEKLY' && (!rule.byDay || rule.byDay.length === 0)) {
+    errors.push('Choose at least one day of the week to repeat on');
+  }
+  if (rule.frequency === 'MONTHLY' && rule.weekOfMonth !== undefined && !ORDINALS[rule.weekOfMonth]) {
+    errors.push('Monthly repeats must use the first to fourth, or last, weekday of the month');
+  }
+
+  if (!rule.count && !rule.until) {
+    errors.push('Repeating events need an end date or a number of occurrences');
+  }
+  if (rule.count !== undefined && (rule.count < 2 || rule.count > MAX_OCCURRENCES)) {
+    errors.push(`Number of occurrences must be between 2 and ${MAX_OCCURRENCES}`);
+  }
+  if (rule.until) {
+    const days = (Date.parse(rule.until) - Date.parse(startDate)) / (24 * 60 * 60 * 1000);
+    if (isNaN(days) || days <= 0) {
+      errors.push('Repeat end date must be after the start date');
+    } else if (days > MAX_SERIES_DAYS) {
+      errors.push('Repeating events can run for at most two years');
+    }
+  }
+
+  return errors;
+}
+
+function formatUntil(until: string): string {
+  return new Date(`${until}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+function listDays(days: Weekday[]): string {
+  const names = WEEKDAYS.filter((day) => days.includes(day)).map((day) => WEEKDAY_NAMES[day]);
+  if (names.length <= 1) return names.join('');
+  return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+}
+
+/**
+ * Short label for cards, e.g. "Weekly" or "Every 2 weeks"
+ */
+export function formatRecurrenceShort(rule: RecurrenceRule): string {
+  const units: Record<RecurrenceFrequency, [string, string]> = {
+    DAILY: ['Daily', 'days'],
+    WEEKLY: ['Weekly', 'weeks'],
+    MONTHLY: ['Monthly', 'months'],
+  };
+  const [single, plural] = units[rule.frequency];
+  return rule.interval === 1 ? single : `Every ${rule.interval} ${plural}`;
+}
+
+/**
+ * Full sentence for detail pages and emails,
+ * e.g. "Every week on Tuesday and Thursday, until Dec 31, 2026"
+ */
+export function describeRecurrence(rule: RecurrenceRule, startDate?: string): string {
+  let text: string;
+
+  switch (rule.frequency) {
+    case 'DAILY':
+      text = rule.interval === 1 ? 'Every day' : `Every ${rule.interval} days`;
+      break;
+    case 'WEEKLY':
+      text = rule.interval === 1 ? 'Every week' : `Every ${rule.interval} weeks`;
+      if (rule.byDay && rule.byDay.length > 0) text += ` on ${listDays(rule.byDay)}`;
+      break;
+    case 'MONTHLY': {
+      text = rule.interval === 1 ? 'Every month' : `Every ${rule.interval} months`;
+      if (rule.weekOfMonth && rule.byDay?.length) {
+        text += ` on the ${ORDINALS[rule.weekOfMonth] || rule.weekOfMonth} ${WEEKDAY_NAMES[rule.byDay[0]]}`;
+      } else {
+        const day = rule.byMonthDay || (startDate ? new Date(startDate).getUTCDate() : undefined);
+        if (day) text += ` on day ${day}`;
+      }
+      break;
+    }
+  }
+
+  if (rule.until) {
+    text += `, until ${formatUntil(rule.until)}`;
+  } else if (rule.count) {
+    text += `, ${rule.count} times`;
+  }
+
+  return text;
+}
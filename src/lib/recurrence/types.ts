@@ -0,0 +1,43 @@
+/**
+ * Recurrence Types
+ * Structured form of the RRULE subset stored on recurring opportunities
+ */
+
+/**
+ * How often a series repeats
+ */
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+/**
+ * RRULE weekday codes, Monday first
+ */
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+/**
+ * Parsed recurrence rule
+ * Dates are YYYY-MM-DD; the opportunity's start date is the first occurrence
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  /** Repeat every N days, weeks or months */
+  interval: number;
+  /** Weekly: days of the week. Monthly: the weekday used with `weekOfMonth` */
+  byDay?: Weekday[];
+  /** Monthly: which weekday of the month (1-4, or -1 for the last) */
+  weekOfMonth?: number;
+  /** Monthly: day of the month (1-31) */
+  byMonthDay?: number;
+  /** Total number of occurrences */
+  count?: number;
+  /** Last possible occurrence date (inclusive) */
+  until?: string;
+}
+
+/**
+ * Anything with a start date that may repeat (opportunities and summaries)
+ */
+export interface RecurringSchedule {
+  startDate: string;
+  endDate?: string;
+  recurrencePattern?: string;
+}
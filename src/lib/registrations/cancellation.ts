@@ -0,0 +1,53 @@
+/**
+ * Registration Cancellation Links
+ * Signed, expiring links that let participants withdraw from an event
+ */
+
+import { getAppUrl } from '@/lib/config';
+import { createSignedToken, daysFromNow, verifySignedToken } from '@/lib/tokens';
+import type { TokenVerification } from '@/lib/tokens';
+
+export const CANCELLATION_TOKEN_PURPOSE = 'cancel_registration';
+
+/**
+ * Fallback lifetime when the event date is unknown or already past
+ */
+const DEFAULT_TTL_DAYS = 30;
+
+/**
+ * Cancellation links stay valid until the end of the event's start day (UTC)
+ */
+export function getCancellationExpiry(eventDate?: string): Date {
+  if (eventDate) {
+    const date = new Date(eventDate);
+    if (!isNaN(date.getTime())) {
+      const endOfDay = new Date(Date.UTC(
+        date.getUTCFullYear(),
+        date.getUTCMonth(),
+        date.getUTCDate(),
+        23, 59, 59
+      ));
+      if (endOfDay.getTime() > Date.now()) {
+        return endOfDay;
+      }
+    }
+  }
+  return daysFromNow(DEFAULT_TTL_DAYS);
+}
+
+/**
+ * Build the cancellation URL included in confirmation emails
+ */
+export function createCancellationUrl(registrationId: string, eventDate?: string): string {
+  const token = createSignedToken(CANCELLATION_TOKEN_PURPOSE, registrationId, {
+    expiresAt: getCancellationExpiry(eventDate),
+  });
+  return `${getAppUrl()}/cancel-registration?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Verify a cancellation token
+ */
+export function verifyCancellationToken(token: string): TokenVerification {
+  return verifySignedToken(token, CANCELLATION_TOKEN_PURPOSE);
+}
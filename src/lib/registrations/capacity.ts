@@ -0,0 +1,83 @@
+/**
+ * Registration Capacity
+ * Computes remaining spots from stored registrations
+ */
+
+import { getNextOccurrence, today } from '@/lib/recurrence';
+import type { OpportunityShift } from '@/types';
+import { getRegistrationStore } from './store';
+import { withShiftSpots } from './shifts';
+
+/**
+ * Remaining spots given a capacity and confirmed count
+ * Returns undefined for opportunities without a capacity
+ */
+export function calculateRemainingSpots(
+  spotsAvailable: number | undefined,
+  confirmed: number
+): number | undefined {
+  if (spotsAvailable === undefined || spotsAvailable === null) return undefined;
+  return Math.max(0, spotsAvailable - confirmed);
+}
+
+/**
+ * Spots left across the shifts still to come
+ * Undefined when any of them is unlimited
+ */
+function sumShiftSpots(shifts: OpportunityShift[]): number | undefined {
+  const upcoming = shifts.filter((shift) => shift.date >= today());
+  if (upcoming.some((shift) => shift.spotsRemaining === undefined)) return undefined;
+  return upcoming.reduce((total, shift) => total + (shift.spotsRemaining || 0), 0);
+}
+
+/**
+ * Attach `spotsRemaining` to a list of opportunities
+ * Recurring opportunities report the spots left in their next session
+ * (listings date them to that session already); opportunities with shifts
+ * get per-shift counts and report the spots left across upcoming shifts
+ * Store failures are logged and leave the list unchanged
+ */
+export async function withRemainingSpots<
+  T extends {
+    uid: string;
+    spotsAvailable?: number;
+    startDate?: string;
+    recurrencePattern?: string;
+    shifts?: OpportunityShift[];
+  }
+>(
+  opportunities: T[]
+): Promise<Array<T & { spotsRemaining?: number }>> {
+  if (opportunities.length === 0) return opportunities;
+
+  try {
+    const store = getRegistrationStore();
+    const occurrenceDates: Record<string, string> = {};
+    for (const opp of opportunities) {
+      if (!opp.startDate || !opp.recurrencePattern) continue;
+      const from = opp.startDate > today() ? opp.startDate : today();
+      const next = getNextOccurrence({ startDate: opp.startDate, recurrencePattern: opp.recurrencePattern }, from);
+      if (next) occurrenceDates[opp.uid] = next;
+    }
+
+    const counts = await store.countConfirmed(
+      opportunities.map((opp) => opp.uid),
+      occurrenceDates
+    );
+
+    return await Promise.all(opportunities.map(async (opp) => {
+      if (opp.shifts?.length) {
+        const shifts = withShiftSpots(opp.shifts, await store.listByOpportunity(opp.uid), opp.uid);
+        return { ...opp, shifts, spotsRemaining: sumShiftSpots(shifts) };
+      }
+
+      return {
+        ...opp,
+        spotsRemaining: calculateRemainingSpots(opp.spotsAvailable, counts[opp.uid] || 0),
+      };
+    }));
+  } catch (error) {
+    console.error('[Registrations] Failed to count registrations:', error);
+    return opportunities;
+  }
+}
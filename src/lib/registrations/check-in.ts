@@ -0,0 +1,71 @@
+/**
+ * Event Check-In
+ * Organizer-scoped check-in links and attendance counts
+ */
+
+import { getAppUrl } from '@/lib/config';
+import { createSignedToken, verifySignedToken } from '@/lib/tokens';
+import type { TokenVerification } from '@/lib/tokens';
+import { getPartySize } from './group';
+import { attendedSession, sharesSession } from './sessions';
+import { getRegistrationStore } from './store';
+import { getEventAccessExpiry } from './tickets';
+
+export const CHECK_IN_TOKEN_PURPOSE = 'organizer_check_in';
+
+/**
+ * Checked-in vs registered participants for an opportunity
+ */
+export interface CheckInCounts {
+  /** Confirmed participants (group members included) */
+  registered: number;
+  /** Participants that have checked in */
+  checkedIn: number;
+}
+
+/**
+ * Build the organizer's check-in link for one opportunity
+ */
+export function createCheckInUrl(
+  opportunityId: string,
+  organizerEmail: string,
+  eventEndDate?: string
+): string {
+  const token = createSignedToken(CHECK_IN_TOKEN_PURPOSE, opportunityId, {
+    expiresAt: getEventAccessExpiry(eventEndDate),
+    data: { email: organizerEmail.toLowerCase() },
+  });
+  return `${getAppUrl()}/check-in?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Verify a check-in token (the subject is the opportunity ID)
+ */
+export function verifyCheckInToken(token: string): TokenVerification {
+  return verifySignedToken(token, CHECK_IN_TOKEN_PURPOSE);
+}
+
+/**
+ * Count confirmed and checked-in participants
+ * For a recurring opportunity, pass the session to count registrations and check-ins for
+ */
+export async function getCheckInCounts(
+  opportunityId: string,
+  sessionDate?: string
+): Promise<CheckInCounts> {
+  const registrations = await getRegistrationStore().listByOpportunity(opportunityId);
+
+  return registrations
+    .filter((r) => r.status === 'confirmed')
+    .filter((r) => !sessionDate || sharesSession(r, { occurrenceDate: sessionDate }))
+    .reduce(
+      (counts, r) => {
+        const checkedIn = sessionDate ? attendedSession(r, sessionDate) : !!r.checkedInAt;
+        return {
+          registered: counts.registered + getPartySize(r),
+          checkedIn: counts.checkedIn + (checkedIn ? getPartySize(r) : 0),
+        };
+      },
+      { registered: 0, checkedIn: 0 }
+    );
+}
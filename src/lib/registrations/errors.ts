@@ -0,0 +1,34 @@
+/**
+ * Registration Store Errors
+ */
+
+import type { StoredRegistration } from './types';
+
+/**
+ * Reason a registration store operation was refused
+ */
+export type RegistrationStoreErrorCode =
+  | 'capacity_reached'
+  | 'already_registered'
+  | 'group_too_large'
+  | 'shift_full'
+  | 'not_confirmed';
+
+/**
+ * Registration Store Error
+ */
+export class RegistrationStoreError extends Error {
+  constructor(
+    message: string,
+    public code: RegistrationStoreErrorCode,
+    /** Existing registration that caused an `already_registered` error */
+    public existing?: StoredRegistration,
+    /** Email that matched the existing registration */
+    public email?: string,
+    /** Chosen shifts without room left (`shift_full` and `group_too_large`) */
+    public shiftIds?: string[]
+  ) {
+    super(message);
+    this.name = 'RegistrationStoreError';
+  }
+}
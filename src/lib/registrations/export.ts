@@ -0,0 +1,179 @@
+/**
+ * Registrant Export
+ * Builds organizer downloads of an event's registrants (CSV and JSON)
+ *
+ * CSV has one row per participant so group members can be ticked off a
+ * printed list; JSON keeps one record per registration with members nested.
+ */
+
+import type { Opportunity } from '@/types';
+import { getScheduleRule } from '@/lib/recurrence';
+import { getShiftsById } from '@/lib/shifts';
+import { toCsvCell } from '@/lib/utils/csv';
+import { formatAnswer } from './questions';
+import { getPartySize } from './group';
+import type { RegistrantWithPosition } from './service';
+
+/**
+ * Supported export formats
+ */
+export type RegistrantExportFormat = 'csv' | 'json';
+
+/**
+ * One registration in the JSON export
+ */
+export interface RegistrantExportRecord {
+  registrationId: string;
+  status: RegistrantWithPosition['status'];
+  waitlistPosition: number | null;
+  name: string;
+  email: string;
+  phone: string | null;
+  message: string | null;
+  answers: Array<{ questionId: string; question: string; answer: string }>;
+  partySize: number;
+  groupName: string | null;
+  members: Array<{ name: string; email: string | null }>;
+  shifts: string[];
+  session: string | null; // Session date (YYYY-MM-DD) of a recurring opportunity; null for the whole series
+  registeredAt: string;
+  promotedAt: string | null;
+  cancelledAt: string | null;
+  attendance: 'checked_in' | 'not_checked_in';
+  checkedInAt: string | null;
+}
+
+/**
+ * Attendance state of a registration (groups check in together)
+ */
+function getAttendance(registration: RegistrantWithPosition): RegistrantExportRecord['attendance'] {
+  return registration.checkedInAt ? 'checked_in' : 'not_checked_in';
+}
+
+/**
+ * Build the JSON export records
+ */
+export function buildRegistrantExport(
+  opportunity: Opportunity,
+  registrants: RegistrantWithPosition[]
+): RegistrantExportRecord[] {
+  const questions = opportunity.registrationQuestions ?? [];
+
+  return registrants.map((r) => ({
+    registrationId: r.registrationId,
+    status: r.status,
+    waitlistPosition: r.waitlistPosition,
+    name: r.name,
+    email: r.email,
+    phone: r.phone || null,
+    message: r.message || null,
+    answers: questions.map((q) => ({
+      questionId: q.id,
+      question: q.label,
+      answer: formatAnswer(r.answers?.[q.id]),
+    })),
+    partySize: getPartySize(r),
+    groupName: r.groupName || null,
+    members: (r.members || []).map((m) => ({ name: m.name, email: m.email || null })),
+    shifts: getShiftsById(opportunity.shifts, r.shiftIds).map((shift) => shift.label),
+    session: r.occurrenceDate || null,
+    registeredAt: r.registeredAt,
+    promotedAt: r.promotedAt || null,
+    cancelledAt: r.cancelledAt || null,
+    attendance: getAttendance(r),
+    checkedInAt: r.checkedInAt || null,
+  }));
+}
+
+/**
+ * Build the CSV export (one row per participant)
+ */
+export function buildRegistrantCsv(
+  opportunity: Opportunity,
+  registrants: RegistrantWithPosition[]
+): string {
+  const questions = opportunity.registrationQuestions ?? [];
+  const hasShifts = Boolean(opportunity.shifts?.length);
+  const recurring = Boolean(getScheduleRule(opportunity));
+  const records = buildRegistrantExport(opportunity, registrants);
+
+  const header = [
+    'Registration ID',
+    'Status',
+    'Waitlist Position',
+    'Participant',
+    'Name',
+    'Email',
+    'Phone',
+    'Message',
+    'Group Name',
+    'Party Size',
+    ...(hasShifts ? ['Shifts'] : []),
+    ...(recurring ? ['Session'] : []),
+    ...questions.map((q) => q.label),
+    'Registered At',
+    'Cancelled At',
+    'Attendance',
+    'Checked In At',
+  ];
+
+  const rows = records.flatMap((record) => {
+    const shared = {
+      registration: [record.registrationId, record.status, record.waitlistPosition],
+      group: [
+        record.groupName,
+        record.partySize,
+        ...(hasShifts ? [record.shifts.join('; ')] : []),
+        ...(recurring ? [record.session || 'All sessions'] : []),
+      ],
+      timing: [
+        record.registeredAt,
+        record.cancelledAt,
+        record.attendance === 'checked_in' ? 'Checked in' : 'Not checked in',
+        record.checkedInAt,
+      ],
+    };
+
+    const lead = [
+      ...shared.registration,
+      record.members.length > 0 ? 'Group lead' : 'Individual',
+      record.name,
+      record.email,
+      record.phone,
+      record.message,
+      ...shared.group,
+      ...record.answers.map((a) => a.answer),
+      ...shared.timing,
+    ];
+
+    // Members only have a name and optional email; answers belong to the lead
+    const members = record.members.map((member) => [
+      ...shared.registration,
+      'Group member',
+      member.name,
+      member.email,
+      null,
+      null,
+      ...shared.group,
+      ...questions.map(() => null),
+      ...shared.timing,
+    ]);
+
+    return [lead, ...members];
+  });
+
+  return [header, ...rows]
+    .map((row) => row.map(toCsvCell).join(','))
+    .join('\r\n') + '\r\n';
+}
+
+/**
+ * Download filename for an export
+ */
+export function getRegistrantExportFilename(
+  opportunity: Opportunity,
+  format: RegistrantExportFormat
+): string {
+  const date = new Date().toISOString().slice(0, 10);
+  return `registrants-${opportunity.slug || opportunity.uid}-${date}.${format}`;
+}
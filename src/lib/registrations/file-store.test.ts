@@ -0,0 +1,189 @@
+/**
+ * File Registration Store Tests
+ * Capacity, waitlist and promotion rules, against a registrations file in a temp directory
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, beforeEach, describe, it } from 'node:test';
+import { FileRegistrationStore } from './file-store';
+import type { NewRegistration } from './types';
+
+const dataDir = mkdtempSync(path.join(tmpdir(), 'registrations-test-'));
+let store: FileRegistrationStore;
+let fileCount = 0;
+
+beforeEach(() => {
+  fileCount += 1;
+  store = new FileRegistrationStore(path.join(dataDir, `registrations-${fileCount}.json`));
+});
+
+after(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+/**
+ * A registration for opportunity "opp-1", registered in ID order
+ */
+function newRegistration(id: string, overrides: Partial<NewRegistration> = {}): NewRegistration {
+  const registeredAt = new Date(Date.UTC(2026, 0, 1, 0, 0, Number(id.replace(/\D/g, '')) || 0)).toISOString();
+  return {
+    registrationId: id,
+    opportunityId: 'opp-1',
+    opportunityTitle: 'Beach Cleanup',
+    opportunitySlug: 'beach-cleanup',
+    name: `Volunteer ${id}`,
+    email: `${id}@example.com`,
+    registeredAt,
+    updatedAt: registeredAt,
+    ...overrides,
+  };
+}
+
+describe('create', () => {
+  it('confirms until the capacity is reached, then waitlists when allowed', async () => {
+    const first = await store.create(newRegistration('r1'), { capacity: 2 });
+    const second = await store.create(newRegistration('r2'), { capacity: 2 });
+    const third = await store.create(newRegistration('r3'), { capacity: 2, allowWaitlist: true });
+
+    assert.equal(first.status, 'confirmed');
+    assert.equal(second.status, 'confirmed');
+    assert.equal(third.status, 'waitlisted');
+  });
+
+  it('rejects a full opportunity when the waitlist is not allowed', async () => {
+    await store.create(newRegistration('r1'), { capacity: 1 });
+
+    await assert.rejects(
+      store.create(newRegistration('r2'), { capacity: 1 }),
+      { code: 'capacity_reached' }
+    );
+  });
+
+  it('waitlists a group as a whole when it does not fit', async () => {
+    await store.create(newRegistration('r1'), { capacity: 3 });
+    const group = await store.create(
+      newRegistration('r2', { members: [{ name: 'Member A' }, { name: 'Member B' }] }),
+      { capacity: 3, allowWaitlist: true }
+    );
+
+    assert.equal(group.status, 'waitlisted');
+  });
+
+  it('rejects a group larger than the capacity itself', async () => {
+    await assert.rejects(
+      store.create(
+        newRegistration('r1', { members: [{ name: 'Member A' }, { name: 'Member B' }] }),
+        { capacity: 2, allowWaitlist: true }
+      ),
+      { code: 'group_too_large' }
+    );
+  });
+
+  it('rejects an email that is already registered, including as a group member', async () => {
+    await store.create(newRegistration('r1', { members: [{ name: 'Member', email: 'Member@Example.com' }] }));
+
+    await assert.rejects(
+      store.create(newRegistration('r2', { email: 'member@example.com' })),
+      { code: 'already_registered' }
+    );
+  });
+
+  it('counts capacity per session on recurring opportunities', async () => {
+    await store.create(newRegistration('r1', { occurrenceDate: '2026-12-01' }), { capacity: 1 });
+    const otherSession = await store.create(
+      newRegistration('r2', { occurrenceDate: '2026-12-08' }),
+      { capacity: 1 }
+    );
+    const series = await store.create(newRegistration('r3'), { capacity: 1, allowWaitlist: true });
+
+    assert.equal(otherSession.status, 'confirmed');
+    assert.equal(series.status, 'waitlisted');
+  });
+
+  it('waitlists when a chosen shift is full, even if others have room', async () => {
+    const shiftCapacities = { morning: 1, afternoon: 5 };
+    await store.create(newRegistration('r1', { shiftIds: ['morning'] }), { shiftCapacities });
+
+    await assert.rejects(
+      store.create(newRegistration('r2', { shiftIds: ['morning', 'afternoon'] }), { shiftCapacities }),
+      { code: 'shift_full' }
+    );
+    const afternoon = await store.create(newRegistration('r3', { shiftIds: ['afternoon'] }), { shiftCapacities });
+    assert.equal(afternoon.status, 'confirmed');
+  });
+});
+
+describe('cancel', () => {
+  it('promotes the oldest waitlisted registration into the freed spot', async () => {
+    await store.create(newRegistration('r1'), { capacity: 1 });
+    await store.create(newRegistration('r2'), { capacity: 1, allowWaitlist: true });
+    await store.create(newRegistration('r3'), { capacity: 1, allowWaitlist: true });
+
+    const result = await store.cancel('r1', 1);
+
+    assert.equal(result?.cancelled.status, 'cancelled');
+    assert.deepEqual(result?.promoted.map((r) => r.registrationId), ['r2']);
+    assert.ok(result?.promoted[0].promotedAt);
+    assert.equal((await store.getById('r3'))?.status, 'waitlisted');
+  });
+
+  it('stops at the first group that does not fit so nobody jumps the queue', async () => {
+    await store.create(newRegistration('r1'), { capacity: 3 });
+    await store.create(newRegistration('r2', { members: [{ name: 'Member A' }] }), { capacity: 3 });
+    await store.create(
+      newRegistration('r3', { members: [{ name: 'Member B' }, { name: 'Member C' }] }),
+      { capacity: 3, allowWaitlist: true }
+    );
+    await store.create(newRegistration('r4'), { capacity: 3, allowWaitlist: true });
+
+    const result = await store.cancel('r1', 3);
+
+    assert.deepEqual(result?.promoted, []);
+    assert.equal((await store.getById('r4'))?.status, 'waitlisted');
+  });
+
+  it('promotes only into the session that was freed', async () => {
+    await store.create(newRegistration('r1', { occurrenceDate: '2026-12-01' }), { capacity: 1 });
+    await store.create(newRegistration('r2', { occurrenceDate: '2026-12-08' }), { capacity: 1 });
+    await store.create(
+      newRegistration('r3', { occurrenceDate: '2026-12-08' }),
+      { capacity: 1, allowWaitlist: true }
+    );
+    await store.create(
+      newRegistration('r4', { occurrenceDate: '2026-12-01' }),
+      { capacity: 1, allowWaitlist: true }
+    );
+
+    const result = await store.cancel('r1', 1);
+
+    assert.deepEqual(result?.promoted.map((r) => r.registrationId), ['r4']);
+    assert.equal((await store.getById('r3'))?.status, 'waitlisted');
+  });
+
+  it('promotes into a freed shift using per-shift capacities', async () => {
+    const shiftCapacities = { morning: 1 };
+    await store.create(newRegistration('r1', { shiftIds: ['morning'] }), { shiftCapacities });
+    await store.create(
+      newRegistration('r2', { shiftIds: ['morning'] }),
+      { shiftCapacities, allowWaitlist: true }
+    );
+
+    const result = await store.cancel('r1', undefined, shiftCapacities);
+
+    assert.deepEqual(result?.promoted.map((r) => r.registrationId), ['r2']);
+  });
+
+  it('promotes nobody when a waitlisted registration cancels', async () => {
+    await store.create(newRegistration('r1'), { capacity: 1 });
+    await store.create(newRegistration('r2'), { capacity: 1, allowWaitlist: true });
+    await store.create(newRegistration('r3'), { capacity: 1, allowWaitlist: true });
+
+    const result = await store.cancel('r2', 1);
+
+    assert.deepEqual(result?.promoted, []);
+    assert.equal((await store.getById('r3'))?.status, 'waitlisted');
+  });
+});
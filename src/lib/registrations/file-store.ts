@@ -0,0 +1,263 @@
+/**
+ * File Registration Store
+ * Local JSON file implementation of the registration store adapter
+ */
+
+import { getDataFilePath, readJsonFile, updateJsonFile } from '@/lib/storage';
+import { RegistrationStoreError } from './errors';
+import { getParticipantEmails, getPartySize } from './group';
+import { normalizeEmail } from './normalize';
+import { countConfirmedForSession, sharesSession } from './sessions';
+import { getShiftsWithoutRoom, sharesShift } from './shifts';
+import { getWaitlist } from './waitlist';
+import type {
+  CancelRegistrationResult,
+  CheckInResult,
+  CreateRegistrationOptions,
+  NewRegistration,
+  RegistrationStoreAdapter,
+  StoredRegistration,
+} from './types';
+
+/**
+ * On-disk file shape
+ */
+interface RegistrationFile {
+  registrations: StoredRegistration[];
+}
+
+const EMPTY_FILE: RegistrationFile = { registrations: [] };
+
+/**
+ * Registration store backed by a JSON file
+ */
+export class FileRegistrationStore implements RegistrationStoreAdapter {
+  constructor(private readonly filePath: string = getDataFilePath('registrations.json')) {}
+
+  private async read(): Promise<StoredRegistration[]> {
+    const file = await readJsonFile<RegistrationFile>(this.filePath, EMPTY_FILE);
+    return file.registrations || [];
+  }
+
+  async getById(registrationId: string): Promise<StoredRegistration | null> {
+    const registrations = await this.read();
+    return registrations.find((r) => r.registrationId === registrationId) || null;
+  }
+
+  async listByOpportunity(opportunityId: string): Promise<StoredRegistration[]> {
+    const registrations = await this.read();
+    return registrations.filter((r) => r.opportunityId === opportunityId);
+  }
+
+  async listByEmail(email: string): Promise<StoredRegistration[]> {
+    const registrations = await this.read();
+    const normalized = normalizeEmail(email);
+    return registrations.filter((r) => getParticipantEmails(r).includes(normalized));
+  }
+
+  async countConfirmed(
+    opportunityIds: string[],
+    occurrenceDates: Record<string, string> = {}
+  ): Promise<Record<string, number>> {
+    const registrations = await this.read();
+    const counts: Record<string, number> = {};
+
+    opportunityIds.forEach((id) => {
+      counts[id] = countConfirmedForSession(registrations, id, occurrenceDates[id]);
+    });
+
+    return counts;
+  }
+
+  async create(
+    registration: NewRegistration,
+    options: CreateRegistrationOptions = {}
+  ): Promise<StoredRegistration> {
+    const { capacity, shiftCapacities = {}, allowWaitlist = false } = options;
+
+    return updateJsonFile<RegistrationFile, StoredRegistration>(
+      this.filePath,
+      EMPTY_FILE,
+      (file) => {
+        const registrations = file.registrations || [];
+
+        const members = registration.members?.map((m) => ({
+          ...m,
+          email: m.email ? normalizeEmail(m.email) : undefined,
+        }));
+        const incoming = { ...registration, email: normalizeEmail(registration.email), members };
+        const incomingEmails = getParticipantEmails(incoming);
+
+        for (const r of registrations) {
+          if (r.opportunityId !== registration.opportunityId || r.status === 'cancelled') continue;
+          if (!sharesSession(r, registration) || !sharesShift(r, registration)) continue;
+
+          const match = getParticipantEmails(r).find((e) => incomingEmails.includes(e));
+          if (match) {
+            throw new RegistrationStoreError(
+              'This email is already registered for this opportunity.',
+              'already_registered',
+              r,
+              match
+            );
+          }
+        }
+
+        const partySize = getPartySize(incoming);
+        if (capacity !== undefined && partySize > capacity) {
+          throw new RegistrationStoreError(
+            'This group is larger than the opportunity capacity.',
+            'group_too_large'
+          );
+        }
+
+        const tooSmall = getShiftsWithoutRoom([], incoming, partySize, shiftCapacities);
+        if (tooSmall.length > 0) {
+          throw new RegistrationStoreError(
+            'This group is larger than the shift capacity.',
+            'group_too_large',
+            undefined,
+            undefined,
+            tooSmall
+          );
+        }
+
+        // The whole group must fit (in every chosen shift), otherwise it is waitlisted together
+        const isFull =
+          capacity !== undefined &&
+          countConfirmedForSession(registrations, registration.opportunityId, registration.occurrenceDate) +
+            partySize >
+            capacity;
+        const fullShifts = getShiftsWithoutRoom(registrations, incoming, partySize, shiftCapacities);
+
+        if (isFull && !allowWaitlist) {
+          throw new RegistrationStoreError('This opportunity is full.', 'capacity_reached');
+        }
+        if (fullShifts.length > 0 && !allowWaitlist) {
+          throw new RegistrationStoreError(
+            'A chosen shift is full.',
+            'shift_full',
+            undefined,
+            undefined,
+            fullShifts
+          );
+        }
+
+        const stored: StoredRegistration = {
+          ...incoming,
+          status: isFull || fullShifts.length > 0 ? 'waitlisted' : 'confirmed',
+        };
+
+        return {
+          data: { registrations: [...registrations, stored] },
+          result: stored,
+        };
+      }
+    );
+  }
+
+  async cancel(
+    registrationId: string,
+    capacity?: number,
+    shiftCapacities: Record<string, number> = {}
+  ): Promise<CancelRegistrationResult | null> {
+    return updateJsonFile<RegistrationFile, CancelRegistrationResult | null>(
+      this.filePath,
+      EMPTY_FILE,
+      (file) => {
+        const registrations = [...(file.registrations || [])];
+        const index = registrations.findIndex((r) => r.registrationId === registrationId);
+
+        if (index === -1) {
+          return { data: file, result: null };
+        }
+
+        const existing = registrations[index];
+        if (existing.status === 'cancelled') {
+          return { data: file, result: { cancelled: existing, promoted: [] } };
+        }
+
+        const now = new Date().toISOString();
+        const cancelled: StoredRegistration = {
+          ...existing,
+          status: 'cancelled',
+          cancelledAt: now,
+          updatedAt: now,
+        };
+        registrations[index] = cancelled;
+
+        // Promote waitlisted registrations into the freed spots in order,
+        // stopping at the first group that does not fit so nobody jumps the queue
+        const promoted: StoredRegistration[] = [];
+
+        if (existing.status === 'confirmed') {
+          for (const next of getWaitlist(registrations, existing.opportunityId, existing)) {
+            const hasRoom =
+              (capacity === undefined ||
+                countConfirmedForSession(registrations, existing.opportunityId, next.occurrenceDate) +
+                  getPartySize(next) <=
+                  capacity) &&
+              getShiftsWithoutRoom(registrations, next, getPartySize(next), shiftCapacities).length === 0;
+            if (!hasRoom) break;
+
+            const promotedRegistration: StoredRegistration = {
+              ...next,
+              status: 'confirmed',
+              promotedAt: now,
+              updatedAt: now,
+            };
+            const nextIndex = registrations.findIndex((r) => r.registrationId === next.registrationId);
+            registrations[nextIndex] = promotedRegistration;
+            promoted.push(promotedRegistration);
+          }
+        }
+
+        return {
+          data: { registrations },
+          result: { cancelled, promoted },
+        };
+      }
+    );
+  }
+
+  async checkIn(registrationId: string, sessionDate?: string): Promise<CheckInResult | null> {
+    return updateJsonFile<RegistrationFile, CheckInResult | null>(
+      this.filePath,
+      EMPTY_FILE,
+      (file) => {
+        const registrations = [...(file.registrations || [])];
+        const index = registrations.findIndex((r) => r.registrationId === registrationId);
+
+        if (index === -1) {
+          return { data: file, result: null };
+        }
+
+        const existing = registrations[index];
+        if (existing.status !== 'confirmed') {
+          throw new RegistrationStoreError(
+            `This registration is ${existing.status}, not confirmed.`,
+            'not_confirmed',
+            existing
+          );
+        }
+
+        const attended = existing.attendedSessions || [];
+        if (sessionDate ? attended.includes(sessionDate) : existing.checkedInAt) {
+          return { data: file, result: { registration: existing, alreadyCheckedIn: true } };
+        }
+
+        const now = new Date().toISOString();
+        const checkedIn: StoredRegistration = { ...existing, checkedInAt: now, updatedAt: now };
+        if (sessionDate) {
+          checkedIn.attendedSessions = [...attended, sessionDate].sort();
+        }
+        registrations[index] = checkedIn;
+
+        return {
+          data: { registrations },
+          result: { registration: checkedIn, alreadyCheckedIn: false },
+        };
+      }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Group Registrations
+ * Helpers for registrations that cover several participants
+ *
+ * Safe to import from client components (no server dependencies).
+ */
+
+import type { GroupMember } from '@/types';
+import { normalizeEmail } from './normalize';
+
+/**
+ * Maximum participants in one submission, including the group lead
+ */
+export const MAX_GROUP_SIZE = 20;
+
+/**
+ * Number of spots a registration takes (lead plus members)
+ */
+export function getPartySize(registration: { members?: GroupMember[] }): number {
+  return 1 + (registration.members?.length ?? 0);
+}
+
+/**
+ * Normalized emails of everyone in a registration
+ */
+export function getParticipantEmails(registration: {
+  email: string;
+  members?: GroupMember[];
+}): string[] {
+  const memberEmails = (registration.members || [])
+    .map((m) => m.email)
+    .filter((email): email is string => !!email);
+
+  return [registration.email, ...memberEmails].map(normalizeEmail);
+}
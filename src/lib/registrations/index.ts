@@ -0,0 +1,90 @@
+/**
+ * Registrations
+ * Central export for the server-side registration store
+ */
+
+export { getRegistrationStore } from './store';
+export { FileRegistrationStore } from './file-store';
+export { RegistrationStoreError } from './errors';
+export { calculateRemainingSpots, withRemainingSpots } from './capacity';
+export { getWaitlist, getWaitlistPosition } from './waitlist';
+export {
+  sharesSession,
+  countConfirmedForSession,
+  getAttendedSessions,
+  attendedSession,
+  getRegistrationDate,
+  getRegistrationEndDate,
+} from './sessions';
+export {
+  sharesShift,
+  countConfirmedForShift,
+  getShiftsWithoutRoom,
+  getShiftCoverage,
+  withShiftSpots,
+} from './shifts';
+export { normalizeEmail } from './normalize';
+export { MAX_GROUP_SIZE, getPartySize, getParticipantEmails } from './group';
+export {
+  parseRegistrationQuestions,
+  validateRegistrationAnswers,
+  formatAnswer,
+  formatAnswers,
+} from './questions';
+export {
+  CANCELLATION_TOKEN_PURPOSE,
+  createCancellationUrl,
+  verifyCancellationToken,
+} from './cancellation';
+export {
+  TICKET_TOKEN_PURPOSE,
+  getEventAccessExpiry,
+  createTicketCode,
+  verifyTicketCode,
+  resolveTicketCode,
+  getTicketUrl,
+  getTicketQrImageUrl,
+  renderTicketQrPng,
+  createTicketAttachment,
+} from './tickets';
+export {
+  CHECK_IN_TOKEN_PURPOSE,
+  createCheckInUrl,
+  verifyCheckInToken,
+  getCheckInCounts,
+} from './check-in';
+export {
+  cancelRegistration,
+  resendConfirmation,
+  removeRegistrant,
+  messageRegistrants,
+  notifyRegistrantsOfUpdate,
+  notifyRegistrantsOfCancellation,
+  getRegistrantsWithPositions,
+  getOpportunityLocation,
+} from './service';
+
+export { getRegistrationStats, getRegistrationTimeline } from './stats';
+export {
+  buildRegistrantExport,
+  buildRegistrantCsv,
+  getRegistrantExportFilename,
+} from './export';
+
+export type { RegistrantWithPosition } from './service';
+export type { RegistrantExportFormat, RegistrantExportRecord } from './export';
+
+export type { RegistrationStoreErrorCode } from './errors';
+export type { QuestionError } from './questions';
+export type { CheckInCounts } from './check-in';
+export type { ShiftCoverage } from './shifts';
+export type { RegistrationStats, RegistrationTimelinePoint } from './stats';
+export type {
+  RegistrationStatus,
+  StoredRegistration,
+  NewRegistration,
+  CreateRegistrationOptions,
+  CancelRegistrationResult,
+  CheckInResult,
+  RegistrationStoreAdapter,
+} from './types';
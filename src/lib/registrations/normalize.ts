@@ -0,0 +1,11 @@
+/**
+ * Registration Normalization
+ */
+
+/**
+ * Normalize an email address for duplicate detection
+ * Trims whitespace and lowercases the whole address
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
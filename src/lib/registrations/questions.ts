@@ -0,0 +1,186 @@
+/**
+ * Registration Questions
+ * Parsing and validation for per-opportunity custom questions
+ *
+ * Safe to import from client components (no server dependencies).
+ */
+
+import type {
+  RegistrationAnswers,
+  RegistrationAnswerValue,
+  RegistrationQuestion,
+  RegistrationQuestionType,
+} from '@/types';
+
+const QUESTION_TYPES: RegistrationQuestionType[] = ['text', 'select', 'checkbox', 'number'];
+
+/**
+ * Maximum length of a text answer
+ */
+const MAX_TEXT_LENGTH = 500;
+
+/**
+ * Validation error for a single question
+ */
+export interface QuestionError {
+  questionId: string;
+  message: string;
+}
+
+/**
+ * Parse the `registration_questions_json` field
+ * Invalid entries are dropped rather than failing the whole opportunity
+ */
+export function parseRegistrationQuestions(json?: string): RegistrationQuestion[] {
+  if (!json) return [];
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return [];
+  }
+
+  if (!Array.isArray(raw)) return [];
+
+  const seen = new Set<string>();
+
+  return raw.flatMap((item): RegistrationQuestion[] => {
+    if (!item || typeof item !== 'object') return [];
+    const q = item as Record<string, unknown>;
+
+    const id = typeof q.id === 'string' ? q.id.trim() : '';
+    const label = typeof q.label === 'string' ? q.label.trim() : '';
+    const type = q.type as RegistrationQuestionType;
+
+    if (!id || !label || !QUESTION_TYPES.includes(type) || seen.has(id)) return [];
+
+    const options = Array.isArray(q.options)
+      ? q.options.filter((o): o is string => typeof o === 'string' && o.trim() !== '')
+      : undefined;
+
+    // Select questions need something to choose from
+    if (type === 'select' && (!options || options.length === 0)) return [];
+
+    seen.add(id);
+
+    return [{
+      id,
+      label,
+      type,
+      required: q.required === true,
+      helpText: typeof q.helpText === 'string' ? q.helpText : undefined,
+      options: options && options.length > 0 ? options : undefined,
+      min: typeof q.min === 'number' ? q.min : undefined,
+      max: typeof q.max === 'number' ? q.max : undefined,
+    }];
+  });
+}
+
+/**
+ * Whether an answer counts as provided
+ */
+function isAnswered(value: RegistrationAnswerValue | undefined): boolean {
+  if (value === undefined || value === null) return false;
+  if (typeof value === 'string') return value.trim() !== '';
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'boolean') return value;
+  return !isNaN(value);
+}
+
+/**
+ * Validate answers against the questions
+ * Returns errors plus the sanitized answers (unknown keys are dropped)
+ */
+export function validateRegistrationAnswers(
+  questions: RegistrationQuestion[],
+  answers: Record<string, unknown> = {}
+): { errors: QuestionError[]; answers: RegistrationAnswers } {
+  const errors: QuestionError[] = [];
+  const sanitized: RegistrationAnswers = {};
+
+  questions.forEach((question) => {
+    const raw = answers[question.id];
+
+    switch (question.type) {
+      case 'text': {
+        const value = typeof raw === 'string' ? raw.trim().slice(0, MAX_TEXT_LENGTH) : '';
+        if (value) sanitized[question.id] = value;
+        break;
+      }
+
+      case 'select': {
+        const value = typeof raw === 'string' ? raw : '';
+        if (value && !question.options?.includes(value)) {
+          errors.push({ questionId: question.id, message: 'Please choose one of the listed options' });
+          return;
+        }
+        if (value) sanitized[question.id] = value;
+        break;
+      }
+
+      case 'checkbox': {
+        if (question.options) {
+          const values = Array.isArray(raw) ? raw.filter((v): v is string => typeof v === 'string') : [];
+          if (values.some((v) => !question.options!.includes(v))) {
+            errors.push({ questionId: question.id, message: 'Please choose from the listed options' });
+            return;
+          }
+          if (values.length > 0) sanitized[question.id] = values;
+        } else {
+          sanitized[question.id] = raw === true;
+        }
+        break;
+      }
+
+      case 'number': {
+        if (raw === undefined || raw === null || raw === '') break;
+        const value = typeof raw === 'number' ? raw : Number(raw);
+        if (isNaN(value)) {
+          errors.push({ questionId: question.id, message: 'Please enter a number' });
+          return;
+        }
+        if (question.min !== undefined && value < question.min) {
+          errors.push({ questionId: question.id, message: `Must be at least ${question.min}` });
+          return;
+        }
+        if (question.max !== undefined && value > question.max) {
+          errors.push({ questionId: question.id, message: `Must be at most ${question.max}` });
+          return;
+        }
+        sanitized[question.id] = value;
+        break;
+      }
+    }
+
+    if (question.required && !isAnswered(sanitized[question.id])) {
+      errors.push({ questionId: question.id, message: `${question.label} is required` });
+    }
+  });
+
+  return { errors, answers: sanitized };
+}
+
+/**
+ * Human-readable answer for emails and exports
+ */
+export function formatAnswer(value: RegistrationAnswerValue | undefined): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+}
+
+/**
+ * Question/answer pairs in question order, for emails and exports
+ */
+export function formatAnswers(
+  questions: RegistrationQuestion[],
+  answers: RegistrationAnswers = {}
+): Array<{ questionId: string; question: string; answer: string }> {
+  return questions.map((question) => ({
+    questionId: question.id,
+    question: question.label,
+    answer: formatAnswer(answers[question.id]),
+  }));
+}
@@ -0,0 +1,411 @@
+/**
+ * Registration Service
+ * Higher-level registration workflows built on the store
+ */
+
+import type { Opportunity } from '@/types';
+import { getOpportunityById } from '@/lib/contentstack';
+import { getShiftCapacities, getShiftsById } from '@/lib/shifts';
+import {
+  sendEventCancelledNotice,
+  sendEventUpdatedNotice,
+  sendOrganizerMessage,
+  sendParticipantConfirmation,
+  sendRegistrationRemovedNotice,
+  sendWaitlistPromotion,
+} from '@/lib/email';
+import type { EmailResult, EventUpdatedEmail, TicketAttachment } from '@/lib/email';
+import { createCancellationUrl } from './cancellation';
+import { createTicketAttachment } from './tickets';
+import { getRegistrationDate, getRegistrationEndDate } from './sessions';
+import { getRegistrationStore } from './store';
+import { getWaitlistPosition } from './waitlist';
+import type { CancelRegistrationResult, StoredRegistration } from './types';
+
+/**
+ * Registration with its current waitlist position (null when not waitlisted)
+ */
+export type RegistrantWithPosition = StoredRegistration & {
+  waitlistPosition: number | null;
+};
+
+/**
+ * Location string used in registration emails
+ */
+export function getOpportunityLocation(opportunity: Opportunity): string {
+  if (opportunity.isVirtual) return 'Virtual / Online';
+  return [opportunity.city, opportunity.state, opportunity.country].filter(Boolean).join(', ')
+    || 'Location TBD';
+}
+
+/**
+ * Everyone in a registration that can be emailed (group lead first)
+ */
+function getRecipients(
+  registration: StoredRegistration
+): Array<{ name: string; email: string; isLead: boolean }> {
+  return [
+    { name: registration.name, email: registration.email, isLead: true },
+    ...(registration.members || [])
+      .filter((m) => m.email)
+      .map((m) => ({ name: m.name, email: m.email as string, isLead: false })),
+  ];
+}
+
+/**
+ * Email everyone in a registration that was moved off the waitlist
+ * Only the group lead gets the cancellation link (it cancels the whole group)
+ */
+async function notifyPromotion(
+  registration: StoredRegistration,
+  opportunity: Opportunity
+): Promise<void> {
+  const recipients = getRecipients(registration);
+
+  // Shift and single-session tickets expire after their last day, like at registration
+  const lastShift = getShiftsById(opportunity.shifts, registration.shiftIds).pop();
+  const ticket = await createTicketAttachment(
+    registration.registrationId,
+    registration.occurrenceDate || lastShift?.date || opportunity.endDate || opportunity.startDate
+  );
+
+  for (const recipient of recipients) {
+    await notifyPromotedParticipant(registration, opportunity, recipient, ticket);
+  }
+}
+
+/**
+ * Email one participant who was moved off the waitlist
+ */
+async function notifyPromotedParticipant(
+  registration: StoredRegistration,
+  opportunity: Opportunity,
+  recipient: { name: string; email: string; isLead: boolean },
+  ticket: TicketAttachment
+): Promise<void> {
+  const result = await sendWaitlistPromotion({
+    recipient: {
+      name: recipient.name,
+      email: recipient.email,
+    },
+    opportunity: {
+      id: opportunity.uid,
+      title: opportunity.title,
+      slug: opportunity.slug,
+      date: getRegistrationDate(registration, opportunity),
+      time: opportunity.startTime,
+      location: getOpportunityLocation(opportunity),
+      isVirtual: opportunity.isVirtual || false,
+    },
+    organizer: {
+      name: opportunity.organizerName || 'Organizer',
+      email: opportunity.organizerEmail,
+    },
+    registrationId: registration.registrationId,
+    promotedAt: registration.promotedAt || new Date().toISOString(),
+    cancelUrl: recipient.isLead
+      ? createCancellationUrl(
+        registration.registrationId,
+        getRegistrationEndDate(registration, opportunity)
+      )
+      : undefined,
+    ticket,
+  });
+
+  if (!result.success) {
+    console.error('[Registrations] Promotion email failed:', result.error);
+  }
+}
+
+/**
+ * Email a registration's lead their confirmation again (registration ID, cancel link and,
+ * once confirmed, the ticket)
+ * Used when someone registers again from a device that does not have the registration saved
+ */
+export async function resendConfirmation(
+  registration: StoredRegistration,
+  opportunity: Opportunity
+): Promise<boolean> {
+  const lastShift = getShiftsById(opportunity.shifts, registration.shiftIds).pop();
+  const ticket = registration.status === 'confirmed'
+    ? await createTicketAttachment(
+      registration.registrationId,
+      registration.occurrenceDate || lastShift?.date || opportunity.endDate || opportunity.startDate
+    )
+    : undefined;
+
+  const result = await sendParticipantConfirmation({
+    recipient: {
+      name: registration.name,
+      email: registration.email,
+    },
+    opportunity: {
+      id: opportunity.uid,
+      title: opportunity.title,
+      slug: opportunity.slug,
+      date: getRegistrationDate(registration, opportunity),
+      time: opportunity.startTime,
+      location: getOpportunityLocation(opportunity),
+      isVirtual: opportunity.isVirtual || false,
+    },
+    organizer: {
+      name: opportunity.organizerName || 'Organizer',
+      email: opportunity.organizerEmail,
+    },
+    registrationId: registration.registrationId,
+    submittedAt: registration.registeredAt,
+    cancelUrl: createCancellationUrl(
+      registration.registrationId,
+      getRegistrationEndDate(registration, opportunity)
+    ),
+    ticket,
+  });
+
+  if (!result.success) {
+    console.error('[Registrations] Confirmation resend failed:', result.error);
+  }
+  return result.success;
+}
+
+/**
+ * Cancel a registration, promoting waitlisted participants into the freed spots
+ * Returns null when the registration does not exist
+ */
+export async function cancelRegistration(
+  registrationId: string
+): Promise<CancelRegistrationResult | null> {
+  const store = getRegistrationStore();
+
+  const existing = await store.getById(registrationId);
+  if (!existing) return null;
+
+  const opportunity = await getOpportunityById(existing.opportunityId);
+
+  // Without the opportunity there is nothing to promote into;
+  // with shifts, each shift's capacity replaces the opportunity-wide one
+  const hasShifts = Boolean(opportunity?.shifts?.length);
+  const capacity = opportunity ? (hasShifts ? undefined : opportunity.spotsAvailable) : 0;
+  const result = await store.cancel(registrationId, capacity, getShiftCapacities(opportunity?.shifts));
+
+  if (result && opportunity) {
+    for (const promoted of result.promoted) {
+      await notifyPromotion(promoted, opportunity);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Organizer removal of a registrant
+ * Cancels the registration (promoting from the waitlist) and tells everyone in it
+ */
+export async function removeRegistrant(
+  registration: StoredRegistration,
+  opportunity: Opportunity,
+  reason?: string
+): Promise<CancelRegistrationResult | null> {
+  const result = await cancelRegistration(registration.registrationId);
+  if (!result) return null;
+
+  const removedAt = result.cancelled.cancelledAt || new Date().toISOString();
+
+  for (const recipient of getRecipients(registration)) {
+    const sent = await sendRegistrationRemovedNotice({
+      recipient: { name: recipient.name, email: recipient.email },
+      opportunity: {
+        id: opportunity.uid,
+        title: opportunity.title,
+        slug: opportunity.slug,
+        date: getRegistrationDate(registration, opportunity),
+      },
+      organizer: {
+        name: opportunity.organizerName || 'Organizer',
+        email: opportunity.organizerEmail,
+      },
+      registrationId: registration.registrationId,
+      reason,
+      removedAt,
+    });
+
+    if (!sent.success) {
+      console.error('[Registrations] Removal notice failed:', sent.error);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Send one email per address across the given registrations
+ * Each address is emailed once even if it appears in several registrations
+ */
+async function emailRegistrants(
+  registrations: StoredRegistration[],
+  send: (
+    registration: StoredRegistration,
+    recipient: { name: string; email: string }
+  ) => Promise<EmailResult>,
+  description: string
+): Promise<{ sent: number; failed: number }> {
+  const seen = new Set<string>();
+  let sent = 0;
+  let failed = 0;
+
+  for (const registration of registrations) {
+    for (const recipient of getRecipients(registration)) {
+      const key = recipient.email.toLowerCase();
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const result = await send(registration, { name: recipient.name, email: recipient.email });
+
+      if (result.success) {
+        sent += 1;
+      } else {
+        failed += 1;
+        console.error(`[Registrations] ${description} failed:`, result.error);
+      }
+    }
+  }
+
+  return { sent, failed };
+}
+
+/**
+ * Registrations that still hold a spot or a waitlist place
+ */
+async function listActiveRegistrations(opportunityId: string): Promise<StoredRegistration[]> {
+  return (await getRegistrationStore().listByOpportunity(opportunityId))
+    .filter((r) => r.status !== 'cancelled');
+}
+
+/**
+ * Email an organizer's message to everyone in the given registrations
+ */
+export async function messageRegistrants(
+  opportunity: Opportunity,
+  registrations: StoredRegistration[],
+  content: { subject: string; message: string }
+): Promise<{ sent: number; failed: number }> {
+  const sentAt = new Date().toISOString();
+
+  return emailRegistrants(
+    registrations,
+    (registration, recipient) => sendOrganizerMessage({
+      recipient,
+      opportunity: {
+        id: opportunity.uid,
+        title: opportunity.title,
+        slug: opportunity.slug,
+        date: getRegistrationDate(registration, opportunity),
+      },
+      organizer: {
+        name: opportunity.organizerName || 'Organizer',
+        email: opportunity.organizerEmail,
+      },
+      registrationId: registration.registrationId,
+      subject: content.subject,
+      message: content.message,
+      sentAt,
+    }),
+    'Organizer message'
+  );
+}
+
+/**
+ * Email everyone still registered (confirmed or waitlisted) about changed event details
+ * The opportunity should already hold the new values
+ */
+export async function notifyRegistrantsOfUpdate(
+  opportunity: Opportunity,
+  changes: EventUpdatedEmail['changes']
+): Promise<{ sent: number; failed: number }> {
+  const registrations = await listActiveRegistrations(opportunity.uid);
+  const updatedAt = new Date().toISOString();
+
+  return emailRegistrants(
+    registrations,
+    (registration, recipient) => sendEventUpdatedNotice({
+      recipient,
+      opportunity: {
+        id: opportunity.uid,
+        title: opportunity.title,
+        slug: opportunity.slug,
+        date: getRegistrationDate(registration, opportunity),
+        time: opportunity.startTime,
+        location: getOpportunityLocation(opportunity),
+        isVirtual: opportunity.isVirtual || false,
+      },
+      organizer: {
+        name: opportunity.organizerName || 'Organizer',
+        email: opportunity.organizerEmail,
+      },
+      registrationId: registration.registrationId,
+      changes,
+      updatedAt,
+    }),
+    'Event update notice'
+  );
+}
+
+/**
+ * Email everyone still registered (confirmed or waitlisted) that the event was cancelled
+ */
+export async function notifyRegistrantsOfCancellation(
+  opportunity: Opportunity,
+  reason: string,
+  cancelledAt: string
+): Promise<{ sent: number; failed: number }> {
+  const registrations = await listActiveRegistrations(opportunity.uid);
+
+  return emailRegistrants(
+    registrations,
+    (registration, recipient) => sendEventCancelledNotice({
+      recipient,
+      opportunity: {
+        id: opportunity.uid,
+        title: opportunity.title,
+        slug: opportunity.slug,
+        date: getRegistrationDate(registration, opportunity),
+      },
+      organizer: {
+        name: opportunity.organizerName || 'Organizer',
+        email: opportunity.organizerEmail,
+      },
+      registrationId: registration.registrationId,
+      reason,
+      cancelledAt,
+    }),
+    'Event cancellation notice'
+  );
+}
+
+/**
+ * All registrants for an opportunity with waitlist positions
+ * Confirmed registrants come first, then the waitlist in order
+ */
+export async function getRegistrantsWithPositions(
+  opportunityId: string
+): Promise<RegistrantWithPosition[]> {
+  const registrations = await getRegistrationStore().listByOpportunity(opportunityId);
+
+  const withPositions = registrations.map((r) => ({
+    ...r,
+    waitlistPosition: getWaitlistPosition(registrations, r.registrationId),
+  }));
+
+  const statusOrder: Record<StoredRegistration['status'], number> = {
+    confirmed: 0,
+    waitlisted: 1,
+    cancelled: 2,
+  };
+
+  return withPositions.sort((a, b) => {
+    if (a.status !== b.status) return statusOrder[a.status] - statusOrder[b.status];
+    if (a.waitlistPosition !== null && b.waitlistPosition !== null) {
+      return a.waitlistPosition - b.waitlistPosition;
+    }
+    return a.registeredAt.localeCompare(b.registeredAt);
+  });
+}
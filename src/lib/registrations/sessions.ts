@@ -0,0 +1,103 @@
+/**
+ * Recurring Sessions
+ * Capacity, attendance and date helpers for registrations on recurring opportunities
+ *
+ * A registration with an `occurrenceDate` holds a spot in that one session;
+ * one without holds a spot in every session (the whole series, or a one-off event).
+ */
+
+import type { Opportunity } from '@/types';
+import { getScheduleRule } from '@/lib/recurrence';
+import { getShiftsById } from '@/lib/shifts';
+import { getPartySize } from './group';
+import type { StoredRegistration } from './types';
+
+/**
+ * Whether two registrations compete for the same spots
+ */
+export function sharesSession(
+  a: Pick<StoredRegistration, 'occurrenceDate'>,
+  b: Pick<StoredRegistration, 'occurrenceDate'>
+): boolean {
+  return !a.occurrenceDate || !b.occurrenceDate || a.occurrenceDate === b.occurrenceDate;
+}
+
+/**
+ * Confirmed participants holding a spot in a session
+ * Without a date, returns the load on the busiest session, which is what
+ * a whole-series registration has to fit into
+ */
+export function countConfirmedForSession(
+  registrations: StoredRegistration[],
+  opportunityId: string,
+  occurrenceDate?: string
+): number {
+  let series = 0;
+  const perSession: Record<string, number> = {};
+
+  for (const r of registrations) {
+    if (r.opportunityId !== opportunityId || r.status !== 'confirmed') continue;
+
+    if (r.occurrenceDate) {
+      perSession[r.occurrenceDate] = (perSession[r.occurrenceDate] || 0) + getPartySize(r);
+    } else {
+      series += getPartySize(r);
+    }
+  }
+
+  if (occurrenceDate) {
+    return series + (perSession[occurrenceDate] || 0);
+  }
+  return series + Math.max(0, ...Object.values(perSession));
+}
+
+/**
+ * Sessions a whole-series registration attended
+ * Series check-ins made before attendance was recorded per session count as one
+ * session, on the day of the check-in
+ */
+export function getAttendedSessions(
+  registration: Pick<StoredRegistration, 'checkedInAt' | 'attendedSessions'>
+): string[] {
+  if (registration.attendedSessions) return registration.attendedSessions;
+  return registration.checkedInAt ? [registration.checkedInAt.slice(0, 10)] : [];
+}
+
+/**
+ * Whether a registration was checked in to a session
+ * Single-session registrations only attend their own session
+ */
+export function attendedSession(
+  registration: Pick<StoredRegistration, 'occurrenceDate' | 'checkedInAt' | 'attendedSessions'>,
+  sessionDate: string
+): boolean {
+  if (registration.occurrenceDate) {
+    return registration.occurrenceDate === sessionDate && !!registration.checkedInAt;
+  }
+  return getAttendedSessions(registration).includes(sessionDate);
+}
+
+/**
+ * Date a registration's emails lead with: its session or first shift, else the opportunity's start
+ */
+export function getRegistrationDate(
+  registration: Pick<StoredRegistration, 'occurrenceDate' | 'shiftIds'>,
+  opportunity: Pick<Opportunity, 'startDate' | 'shifts'>
+): string {
+  const shifts = getShiftsById(opportunity.shifts, registration.shiftIds);
+  return registration.occurrenceDate || shifts[0]?.date || opportunity.startDate;
+}
+
+/**
+ * Last day a registration covers, which is when its cancellation link expires
+ * Shift registrations run until their last shift, whole-series ones until the series ends
+ */
+export function getRegistrationEndDate(
+  registration: Pick<StoredRegistration, 'occurrenceDate' | 'shiftIds'>,
+  opportunity: Pick<Opportunity, 'startDate' | 'endDate' | 'recurrencePattern' | 'shifts'>
+): string | undefined {
+  const shifts = getShiftsById(opportunity.shifts, registration.shiftIds);
+  if (registration.occurrenceDate) return registration.occurrenceDate;
+  if (shifts.length > 0) return shifts[shifts.length - 1].date;
+  return getScheduleRule(opportunity) ? opportunity.endDate : opportunity.startDate;
+}
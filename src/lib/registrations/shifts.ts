@@ -0,0 +1,124 @@
+/**
+ * Shift Capacity
+ * Capacity and coverage helpers for registrations on opportunities with shifts
+ *
+ * A registration with `shiftIds` holds one spot per participant in each of those
+ * shifts; one without holds a spot in every shift.
+ */
+
+import type { OpportunityShift } from '@/types';
+import { getPartySize } from './group';
+import type { StoredRegistration } from './types';
+
+/**
+ * Participant counts for one shift
+ */
+export interface ShiftCoverage {
+  shiftId: string;
+  label: string;
+  date: string;
+  startTime: string | null;
+  endTime: string | null;
+  spots: number | null;
+  confirmed: number;
+  waitlisted: number;
+  checkedIn: number;
+  spotsRemaining: number | null;
+}
+
+function remaining(spots: number | undefined, confirmed: number): number | undefined {
+  return spots === undefined ? undefined : Math.max(0, spots - confirmed);
+}
+
+function holdsShift(registration: Pick<StoredRegistration, 'shiftIds'>, shiftId: string): boolean {
+  return !registration.shiftIds?.length || registration.shiftIds.includes(shiftId);
+}
+
+/**
+ * Whether two registrations compete for the same shift spots
+ */
+export function sharesShift(
+  a: Pick<StoredRegistration, 'shiftIds'>,
+  b: Pick<StoredRegistration, 'shiftIds'>
+): boolean {
+  if (!a.shiftIds?.length || !b.shiftIds?.length) return true;
+  return a.shiftIds.some((id) => b.shiftIds!.includes(id));
+}
+
+/**
+ * Confirmed participants holding a spot in a shift
+ */
+export function countConfirmedForShift(
+  registrations: StoredRegistration[],
+  opportunityId: string,
+  shiftId: string
+): number {
+  return registrations
+    .filter((r) => r.opportunityId === opportunityId && r.status === 'confirmed' && holdsShift(r, shiftId))
+    .reduce((total, r) => total + getPartySize(r), 0);
+}
+
+/**
+ * Shifts a registration asks for that cannot take `partySize` more participants
+ */
+export function getShiftsWithoutRoom(
+  registrations: StoredRegistration[],
+  registration: Pick<StoredRegistration, 'opportunityId' | 'shiftIds'>,
+  partySize: number,
+  capacities: Record<string, number>
+): string[] {
+  const shiftIds = registration.shiftIds?.length ? registration.shiftIds : Object.keys(capacities);
+
+  return shiftIds.filter((id) =>
+    capacities[id] !== undefined &&
+    countConfirmedForShift(registrations, registration.opportunityId, id) + partySize > capacities[id]
+  );
+}
+
+/**
+ * Per-shift participant counts for the organizer view, in schedule order
+ */
+export function getShiftCoverage(
+  shifts: OpportunityShift[],
+  registrations: StoredRegistration[]
+): ShiftCoverage[] {
+  return shifts.map((shift) => {
+    const totals = { confirmed: 0, waitlisted: 0, checkedIn: 0 };
+
+    for (const r of registrations) {
+      if (!holdsShift(r, shift.id)) continue;
+      const size = getPartySize(r);
+      if (r.status === 'confirmed') {
+        totals.confirmed += size;
+        if (r.checkedInAt) totals.checkedIn += size;
+      } else if (r.status === 'waitlisted') {
+        totals.waitlisted += size;
+      }
+    }
+
+    return {
+      shiftId: shift.id,
+      label: shift.label,
+      date: shift.date,
+      startTime: shift.startTime || null,
+      endTime: shift.endTime || null,
+      spots: shift.spots ?? null,
+      ...totals,
+      spotsRemaining: remaining(shift.spots, totals.confirmed) ?? null,
+    };
+  });
+}
+
+/**
+ * Shifts with `spotsRemaining` filled in
+ */
+export function withShiftSpots(
+  shifts: OpportunityShift[],
+  registrations: StoredRegistration[],
+  opportunityId: string
+): OpportunityShift[] {
+  return shifts.map((shift) => ({
+    ...shift,
+    spotsRemaining: remaining(shift.spots, countConfirmedForShift(registrations, opportunityId, shift.id)),
+  }));
+}
@@ -0,0 +1,126 @@
+/**
+ * Registration Stats
+ * Aggregates for the organizer dashboard (capacity, waitlist, check-in, trend)
+ */
+
+import { calculateRemainingSpots } from './capacity';
+import { getPartySize } from './group';
+import type { StoredRegistration } from './types';
+
+/**
+ * Participant counts for one opportunity (group members included)
+ */
+export interface RegistrationStats {
+  capacity: number | null;
+  confirmed: number;
+  waitlisted: number;
+  checkedIn: number;
+  cancelled: number;
+  spotsRemaining: number | null;
+  /** Active registrations (a group counts once) */
+  registrations: number;
+}
+
+/**
+ * One day of registration activity
+ */
+export interface RegistrationTimelinePoint {
+  /** Day in YYYY-MM-DD (UTC) */
+  date: string;
+  /** Participants who registered that day */
+  registered: number;
+  /** Participants who cancelled that day */
+  cancelled: number;
+  /** Active participants (confirmed + waitlisted) at the end of the day */
+  total: number;
+}
+
+/**
+ * Longest timeline returned, in days (older activity is folded into the first day)
+ */
+const MAX_TIMELINE_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Count participants by status for one opportunity
+ */
+export function getRegistrationStats(
+  registrations: StoredRegistration[],
+  capacity?: number
+): RegistrationStats {
+  const stats = registrations.reduce(
+    (totals, r) => {
+      const size = getPartySize(r);
+      if (r.status === 'confirmed') {
+        totals.confirmed += size;
+        totals.registrations += 1;
+        if (r.checkedInAt) totals.checkedIn += size;
+      } else if (r.status === 'waitlisted') {
+        totals.waitlisted += size;
+        totals.registrations += 1;
+      } else {
+        totals.cancelled += size;
+      }
+      return totals;
+    },
+    { confirmed: 0, waitlisted: 0, checkedIn: 0, cancelled: 0, registrations: 0 }
+  );
+
+  return {
+    ...stats,
+    capacity: capacity ?? null,
+    spotsRemaining: calculateRemainingSpots(capacity, stats.confirmed) ?? null,
+  };
+}
+
+function toDay(iso: string): string {
+  return new Date(iso).toISOString().slice(0, 10);
+}
+
+/**
+ * Daily registrations and cancellations, with the running total
+ * Covers every day from the first registration to today (no gaps)
+ */
+export function getRegistrationTimeline(
+  registrations: StoredRegistration[],
+  now: Date = new Date()
+): RegistrationTimelinePoint[] {
+  const valid = registrations.filter((r) => !isNaN(new Date(r.registeredAt).getTime()));
+  if (valid.length === 0) return [];
+
+  const registered = new Map<string, number>();
+  const cancelled = new Map<string, number>();
+  const add = (map: Map<string, number>, day: string, count: number) =>
+    map.set(day, (map.get(day) || 0) + count);
+
+  valid.forEach((r) => {
+    add(registered, toDay(r.registeredAt), getPartySize(r));
+    if (r.status === 'cancelled' && r.cancelledAt) {
+      add(cancelled, toDay(r.cancelledAt), getPartySize(r));
+    }
+  });
+
+  const firstDay = Array.from(registered.keys()).sort()[0];
+  const start = Math.max(
+    new Date(`${firstDay}T00:00:00Z`).getTime(),
+    new Date(`${toDay(now.toISOString())}T00:00:00Z`).getTime() - (MAX_TIMELINE_DAYS - 1) * DAY_MS
+  );
+  const startDay = toDay(new Date(start).toISOString());
+
+  // Activity before the window counts towards the opening total
+  let total = 0;
+  registered.forEach((count, day) => { if (day < startDay) total += count; });
+  cancelled.forEach((count, day) => { if (day < startDay) total -= count; });
+
+  const points: RegistrationTimelinePoint[] = [];
+  for (let time = start; time <= now.getTime(); time += DAY_MS) {
+    const date = toDay(new Date(time).toISOString());
+    const dayRegistered = registered.get(date) || 0;
+    const dayCancelled = cancelled.get(date) || 0;
+    total += dayRegistered - dayCancelled;
+    points.push({ date, registered: dayRegistered, cancelled: dayCancelled, total });
+  }
+
+  return points;
+}
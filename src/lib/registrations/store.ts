@@ -0,0 +1,36 @@
+/**
+ * Registration Store
+ * Resolves the configured storage adapter for registrations
+ *
+ * REGISTRATION_STORE selects the adapter (default: "file").
+ * New adapters implement RegistrationStoreAdapter and are added below.
+ */
+
+import { FileRegistrationStore } from './file-store';
+import type { RegistrationStoreAdapter } from './types';
+
+let store: RegistrationStoreAdapter | null = null;
+
+/**
+ * Create the adapter named by the environment
+ */
+function createStore(): RegistrationStoreAdapter {
+  const adapter = process.env.REGISTRATION_STORE || 'file';
+
+  switch (adapter) {
+    case 'file':
+      return new FileRegistrationStore();
+    default:
+      throw new Error(`Unknown REGISTRATION_STORE adapter: ${adapter}`);
+  }
+}
+
+/**
+ * Get the shared registration store instance
+ */
+export function getRegistrationStore(): RegistrationStoreAdapter {
+  if (!store) {
+    store = createStore();
+  }
+  return store;
+}
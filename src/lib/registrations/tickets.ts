@@ -0,0 +1,122 @@
+/**
+ * Registration Tickets
+ * Signed ticket codes rendered as QR codes for event check-in
+ */
+
+import QRCode from 'qrcode';
+import { getAppUrl } from '@/lib/config';
+import type { TicketAttachment } from '@/lib/email';
+import { createSignedToken, daysFromNow, verifySignedToken } from '@/lib/tokens';
+import type { TokenVerification } from '@/lib/tokens';
+
+export const TICKET_TOKEN_PURPOSE = 'registration_ticket';
+
+/**
+ * Fallback lifetime when the event date is unknown
+ */
+const DEFAULT_TTL_DAYS = 365;
+
+/**
+ * Tickets and check-in links stay valid until a day after the event ends (UTC)
+ */
+export function getEventAccessExpiry(eventEndDate?: string): Date {
+  if (eventEndDate) {
+    const date = new Date(eventEndDate);
+    if (!isNaN(date.getTime())) {
+      const dayAfter = new Date(Date.UTC(
+        date.getUTCFullYear(),
+        date.getUTCMonth(),
+        date.getUTCDate() + 1,
+        23, 59, 59
+      ));
+      if (dayAfter.getTime() > Date.now()) {
+        return dayAfter;
+      }
+    }
+  }
+  return daysFromNow(DEFAULT_TTL_DAYS);
+}
+
+/**
+ * Create the signed code encoded in a ticket's QR code
+ */
+export function createTicketCode(registrationId: string, eventEndDate?: string): string {
+  return createSignedToken(TICKET_TOKEN_PURPOSE, registrationId, {
+    expiresAt: getEventAccessExpiry(eventEndDate),
+  });
+}
+
+/**
+ * Verify a signed ticket code (the subject is the registration ID)
+ */
+export function verifyTicketCode(code: string): TokenVerification {
+  return verifySignedToken(code, TICKET_TOKEN_PURPOSE);
+}
+
+/**
+ * Resolve a scanned or pasted code to a registration ID
+ * Accepts a signed ticket code or a ticket URL; bare registration IDs are not
+ * signed, so anyone could guess or reuse one and are rejected
+ */
+export function resolveTicketCode(input: string): string | null {
+  const value = (input || '').trim();
+  if (!value) return null;
+
+  // Scanning the QR code with a phone camera app yields the ticket URL
+  let code = value;
+  try {
+    const url = new URL(value);
+    code = url.searchParams.get('code') || value;
+  } catch {
+    // Not a URL - treat as a raw code
+  }
+
+  const verification = verifyTicketCode(code);
+  return verification.valid ? verification.payload.sub : null;
+}
+
+/**
+ * Public page showing the ticket
+ */
+export function getTicketUrl(code: string): string {
+  return `${getAppUrl()}/ticket?code=${encodeURIComponent(code)}`;
+}
+
+/**
+ * PNG image of the ticket's QR code
+ */
+export function getTicketQrImageUrl(code: string): string {
+  return `${getAppUrl()}/api/tickets/qr?code=${encodeURIComponent(code)}`;
+}
+
+/**
+ * Render a QR code as PNG
+ * Encodes the ticket URL so phone camera apps open the ticket page
+ */
+export function renderTicketQrPng(code: string): Promise<Buffer> {
+  return QRCode.toBuffer(getTicketUrl(code), {
+    type: 'png',
+    width: 320,
+    margin: 2,
+    errorCorrectionLevel: 'M',
+  });
+}
+
+/**
+ * Build the ticket section of a confirmation email
+ */
+export async function createTicketAttachment(
+  registrationId: string,
+  eventEndDate?: string
+): Promise<TicketAttachment> {
+  const code = createTicketCode(registrationId, eventEndDate);
+  const png = await renderTicketQrPng(code);
+
+  return {
+    code,
+    url: getTicketUrl(code),
+    qrImageUrl: getTicketQrImageUrl(code),
+    qrPngBase64: png.toString('base64'),
+    filename: `ticket-${registrationId}.png`,
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * Registration Store Types
+ * Type definitions for server-side registration records
+ */
+
+import type { GroupMember, RegistrationAnswers } from '@/types';
+
+/**
+ * Lifecycle status of a stored registration
+ */
+export type RegistrationStatus = 'confirmed' | 'waitlisted' | 'cancelled';
+
+/**
+ * Registration record persisted on the server
+ */
+export interface StoredRegistration {
+  registrationId: string;
+  status: RegistrationStatus;
+
+  // Opportunity info
+  opportunityId: string;
+  opportunityTitle: string;
+  opportunitySlug: string;
+  occurrenceDate?: string; // Session (YYYY-MM-DD) of a recurring opportunity; unset for the whole series
+  shiftIds?: string[]; // Shifts signed up for; unset when the opportunity has none
+
+  // Participant info
+  name: string;
+  email: string; // Normalized (see normalizeEmail)
+  phone?: string;
+  message?: string;
+  answers?: RegistrationAnswers; // Custom question answers keyed by question ID
+
+  // Group registration (the participant above is the group lead)
+  groupName?: string;
+  members?: GroupMember[]; // Member emails are normalized
+
+  // Metadata
+  registeredAt: string;
+  updatedAt: string;
+  promotedAt?: string; // Set when moved from the waitlist to confirmed
+  cancelledAt?: string;
+  checkedInAt?: string; // Set when the ticket is scanned at the event (covers the whole group)
+  attendedSessions?: string[]; // Sessions (YYYY-MM-DD) checked in to on a whole-series registration
+}
+
+/**
+ * Registration data supplied by callers (status is decided by the store)
+ */
+export type NewRegistration = Omit<
+  StoredRegistration,
+  'status' | 'promotedAt' | 'cancelledAt' | 'checkedInAt' | 'attendedSessions'
+>;
+
+/**
+ * Options for creating a registration
+ */
+export interface CreateRegistrationOptions {
+  /** Maximum confirmed participants (unlimited when undefined) */
+  capacity?: number;
+  /** Maximum confirmed participants per shift, keyed by shift ID (shifts not listed are unlimited) */
+  shiftCapacities?: Record<string, number>;
+  /** Place the registration on the waitlist instead of rejecting when full */
+  allowWaitlist?: boolean;
+}
+
+/**
+ * Result of cancelling a registration
+ */
+export interface CancelRegistrationResult {
+  cancelled: StoredRegistration;
+  /** Waitlisted registrations moved into the freed spots, in promotion order */
+  promoted: StoredRegistration[];
+}
+
+/**
+ * Result of checking in a registration
+ */
+export interface CheckInResult {
+  registration: StoredRegistration;
+  /** True when the registration had already been checked in */
+  alreadyCheckedIn: boolean;
+}
+
+/**
+ * Storage adapter for registrations
+ * Implementations must make `create` and `cancel` atomic with respect to capacity
+ */
+export interface RegistrationStoreAdapter {
+  /** Find a registration by its ID */
+  getById(registrationId: string): Promise<StoredRegistration | null>;
+
+  /** List every registration for an opportunity */
+  listByOpportunity(opportunityId: string): Promise<StoredRegistration[]>;
+
+  /** List every registration an email takes part in, as lead or group member */
+  listByEmail(email: string): Promise<StoredRegistration[]>;
+
+  /**
+   * Count confirmed participants (group members included) for each of the given opportunities
+   * For recurring opportunities, pass the session to count in `occurrenceDates` (keyed by opportunity ID);
+   * otherwise the busiest session is counted
+   */
+  countConfirmed(
+    opportunityIds: string[],
+    occurrenceDates?: Record<string, string>
+  ): Promise<Record<string, number>>;
+
+  /**
+   * Store a new registration as confirmed, or waitlisted when full and allowed
+   * A group takes one spot per participant and is confirmed or waitlisted as a whole
+   * Throws RegistrationStoreError('already_registered') when any of its emails
+   * already holds an active registration for the opportunity (or the same session or shift),
+   * RegistrationStoreError('capacity_reached') when full and the waitlist
+   * is not allowed, RegistrationStoreError('shift_full') when a chosen shift is full
+   * and the waitlist is not allowed, and RegistrationStoreError('group_too_large')
+   * when the group is larger than the capacity itself
+   */
+  create(registration: NewRegistration, options?: CreateRegistrationOptions): Promise<StoredRegistration>;
+
+  /**
+   * Cancel a registration and promote waitlisted registrations for the freed
+   * session(s) or shift(s), oldest first, while the freed spots can hold them
+   * Returns null when the registration does not exist
+   */
+  cancel(
+    registrationId: string,
+    capacity?: number,
+    shiftCapacities?: Record<string, number>
+  ): Promise<CancelRegistrationResult | null>;
+
+  /**
+   * Mark a confirmed registration as attended
+   * Pass the session for a whole-series registration on a recurring opportunity;
+   * attendance is then recorded per session in `attendedSessions`
+   * Checking in twice (to the same session) keeps the original time and reports alreadyCheckedIn
+   * Throws RegistrationStoreError('not_confirmed') for waitlisted or cancelled registrations
+   * Returns null when the registration does not exist
+   */
+  checkIn(registrationId: string, sessionDate?: string): Promise<CheckInResult | null>;
+}
@@ -0,0 +1,39 @@
+/**
+ * Waitlist Helpers
+ * Ordering and position lookups for waitlisted registrations
+ */
+
+import { sharesSession } from './sessions';
+import { sharesShift } from './shifts';
+import type { StoredRegistration } from './types';
+
+/**
+ * Waitlisted registrations for an opportunity in promotion order (oldest first)
+ * Pass `session` to keep only those competing for the same spots (recurring sessions or shifts)
+ */
+export function getWaitlist(
+  registrations: StoredRegistration[],
+  opportunityId: string,
+  session?: Pick<StoredRegistration, 'occurrenceDate' | 'shiftIds'>
+): StoredRegistration[] {
+  return registrations
+    .filter((r) => r.opportunityId === opportunityId && r.status === 'waitlisted')
+    .filter((r) => !session || (sharesSession(r, session) && sharesShift(r, session)))
+    .sort((a, b) => a.registeredAt.localeCompare(b.registeredAt));
+}
+
+/**
+ * 1-based waitlist position of a registration, or null if it is not waitlisted
+ */
+export function getWaitlistPosition(
+  registrations: StoredRegistration[],
+  registrationId: string
+): number | null {
+  const registration = registrations.find((r) => r.registrationId === registrationId);
+  if (!registration || registration.status !== 'waitlisted') return null;
+
+  const index = getWaitlist(registrations, registration.opportunityId, registration).findIndex(
+    (r) => r.registrationId === registrationId
+  );
+  return index === -1 ? null : index + 1;
+}
@@ -0,0 +1,18 @@
+/**
+ * Shifts
+ * Central export for opportunity shift parsing and display helpers
+ */
+
+export {
+  MAX_SHIFTS,
+  createShiftId,
+  parseShiftInput,
+  shiftsFromEntry,
+  shiftsToEntry,
+  getShiftCapacities,
+  formatShiftTime,
+  describeShift,
+  getShiftsById,
+} from './shifts';
+
+export type { ShiftInput, ShiftEntry } from './shifts';
@@ -0,0 +1,211 @@
+/**
+ * Opportunity Shifts
+ * Parsing, validation and display helpers for shifts (time slots or roles
+ * with their own capacity)
+ *
+ * Safe to import from client components (no server dependencies).
+ */
+
+import type { OpportunityShift } from '@/types';
+import { formatDisplayDate, formatTime } from '@/lib/utils';
+
+/**
+ * Most shifts an opportunity may have
+ */
+export const MAX_SHIFTS = 20;
+
+const MAX_LABEL_LENGTH = 100;
+
+/**
+ * Shift as posted by the event form
+ */
+export interface ShiftInput {
+  id?: string;
+  label?: string;
+  date?: string;
+  startTime?: string;
+  endTime?: string;
+  spots?: number | string | null;
+}
+
+/**
+ * Shift as stored in the opportunity's `shifts` group field
+ */
+export interface ShiftEntry {
+  shift_id: string;
+  label: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+  spots: number | null;
+}
+
+function sanitize(value: unknown, maxLength = 1000): string {
+  return typeof value === 'string' ? value.trim().slice(0, maxLength) : '';
+}
+
+function toSpots(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  const spots = Number(value);
+  return Number.isFinite(spots) ? spots : undefined;
+}
+
+/**
+ * Date, then start time
+ */
+function compareShifts(a: OpportunityShift, b: OpportunityShift): number {
+  return a.date.localeCompare(b.date) || (a.startTime || '').localeCompare(b.startTime || '');
+}
+
+/**
+ * URL-safe ID from the label and date, unique among `taken`
+ */
+export function createShiftId(shift: Pick<OpportunityShift, 'label' | 'date'>, taken: Set<string>): string {
+  const base = `${shift.label}-${shift.date}`
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'shift';
+
+  let id = base;
+  for (let n = 2; taken.has(id); n++) {
+    id = `${base}-${n}`;
+  }
+  return id;
+}
+
+/**
+ * Sanitize and validate shifts posted by the event form
+ * Existing shifts keep their IDs so registrations stay attached; new ones get one
+ * Returns errors in the same wording style as /api/submit-event
+ */
+export function parseShiftInput(
+  input: unknown,
+  event: { startDate?: string; endDate?: string }
+): { shifts: OpportunityShift[]; errors: string[] } {
+  const raw = Array.isArray(input) ? (input as ShiftInput[]) : [];
+  const errors: string[] = [];
+
+  if (raw.length > MAX_SHIFTS) {
+    return { shifts: [], errors: [`An event can have at most ${MAX_SHIFTS} shifts`] };
+  }
+
+  const taken = new Set<string>();
+  const shifts = raw.map((item, index): OpportunityShift => {
+    const name = `Shift ${index + 1}`;
+    const label = sanitize(item?.label, MAX_LABEL_LENGTH);
+    const date = sanitize(item?.date).slice(0, 10) || event.startDate || '';
+    const startTime = sanitize(item?.startTime) || undefined;
+    const endTime = sanitize(item?.endTime) || undefined;
+    const spots = toSpots(item?.spots);
+
+    if (label.length < 2) {
+      errors.push(`${name}: a label is required`);
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      errors.push(`${name}: a date is required`);
+    } else if (
+      (event.startDate && date < event.startDate) ||
+      (event.endDate && date > event.endDate)
+    ) {
+      errors.push(`${name}: the date must fall within the event dates`);
+    }
+    if (startTime && endTime && endTime <= startTime) {
+      errors.push(`${name}: the end time must be after the start time`);
+    }
+    if (spots !== undefined && (!Number.isInteger(spots) || spots < 1)) {
+      errors.push(`${name}: spots must be a whole number of at least 1`);
+    }
+
+    const existingId = sanitize(item?.id, 80);
+    const id = existingId && !taken.has(existingId) ? existingId : createShiftId({ label, date }, taken);
+    taken.add(id);
+
+    return { id, label, date, startTime, endTime, spots };
+  });
+
+  return { shifts: shifts.sort(compareShifts), errors };
+}
+
+/**
+ * Parse the `shifts` group field of an opportunity entry
+ * Entries without a label are dropped; missing IDs are derived from the label and date
+ */
+export function shiftsFromEntry(value: unknown, fallbackDate: string): OpportunityShift[] {
+  if (!Array.isArray(value)) return [];
+
+  const taken = new Set<string>();
+
+  return value
+    .flatMap((item): OpportunityShift[] => {
+      if (!item || typeof item !== 'object') return [];
+      const entry = item as Partial<ShiftEntry>;
+
+      const label = sanitize(entry.label, MAX_LABEL_LENGTH);
+      if (!label) return [];
+
+      const date = sanitize(entry.date).slice(0, 10) || fallbackDate;
+      const existingId = sanitize(entry.shift_id, 80);
+      const id = existingId && !taken.has(existingId) ? existingId : createShiftId({ label, date }, taken);
+      taken.add(id);
+
+      const spots = toSpots(entry.spots);
+
+      return [{
+        id,
+        label,
+        date,
+        startTime: sanitize(entry.start_time) || undefined,
+        endTime: sanitize(entry.end_time) || undefined,
+        spots: spots !== undefined && spots > 0 ? spots : undefined,
+      }];
+    })
+    .sort(compareShifts);
+}
+
+/**
+ * Shifts in the `shifts` group field format (Management API writes)
+ */
+export function shiftsToEntry(shifts: OpportunityShift[]): ShiftEntry[] {
+  return shifts.map((shift) => ({
+    shift_id: shift.id,
+    label: shift.label,
+    date: shift.date,
+    start_time: shift.startTime || '',
+    end_time: shift.endTime || '',
+    spots: shift.spots ?? null,
+  }));
+}
+
+/**
+ * Capacity of each shift that has one, keyed by shift ID
+ */
+export function getShiftCapacities(shifts: OpportunityShift[] = []): Record<string, number> {
+  const capacities: Record<string, number> = {};
+  for (const shift of shifts) {
+    if (shift.spots !== undefined) capacities[shift.id] = shift.spots;
+  }
+  return capacities;
+}
+
+/**
+ * "Sat, Oct 5 · 7:00 AM – 11:00 AM"
+ */
+export function formatShiftTime(shift: Pick<OpportunityShift, 'date' | 'startTime' | 'endTime'>): string {
+  const times = [formatTime(shift.startTime), formatTime(shift.endTime)].filter(Boolean).join(' – ');
+  return [formatDisplayDate(shift.date), times].filter(Boolean).join(' · ');
+}
+
+/**
+ * "Water station 3 (Sat, Oct 5 · 7:00 AM – 11:00 AM)"
+ */
+export function describeShift(shift: OpportunityShift): string {
+  return `${shift.label} (${formatShiftTime(shift)})`;
+}
+
+/**
+ * Shifts by ID, in schedule order; unknown IDs are skipped
+ */
+export function getShiftsById(shifts: OpportunityShift[] = [], ids: string[] = []): OpportunityShift[] {
+  return shifts.filter((shift) => ids.includes(shift.id));
+}
@@ -0,0 +1,15 @@
+/**
+ * Storage
+ * Central export for server-side persistence helpers
+ */
+
+export {
+  getDataDir,
+  getDataFilePath,
+  readJsonFile,
+  writeJsonFile,
+  withFileLock,
+  updateJsonFile,
+  appendJsonLines,
+  readJsonLines,
+} from './json-file';
@@ -0,0 +1,130 @@
+/**
+ * JSON File Storage
+ * Minimal local persistence for server-side data (registrations, etc.)
+ *
+ * Files live under DATA_DIR (default: .data/ in the project root).
+ * Writes are serialized per file and replaced atomically via rename.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Pending operations per file, used as a simple in-process mutex
+ */
+const fileLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Resolve the directory used for local data files
+ */
+export function getDataDir(): string {
+  return process.env.DATA_DIR || path.join(process.cwd(), '.data');
+}
+
+/**
+ * Resolve the full path of a data file
+ */
+export function getDataFilePath(filename: string): string {
+  return path.join(getDataDir(), filename);
+}
+
+/**
+ * Read and parse a JSON file, returning the fallback if it does not exist
+ */
+export async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(filePath, 'utf-8');
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write data as JSON, replacing the file atomically
+ */
+export async function writeJsonFile<T>(filePath: string, data: T): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+  await fs.rename(tempPath, filePath);
+}
+
+/**
+ * Run an operation while holding the lock for a file
+ * Operations on the same file run one after another
+ */
+export async function withFileLock<T>(filePath: string, operation: () => Promise<T>): Promise<T> {
+  const previous = fileLocks.get(filePath) || Promise.resolve();
+  const current = previous.catch(() => undefined).then(operation);
+
+  fileLocks.set(filePath, current);
+
+  try {
+    return await current;
+  } finally {
+    if (fileLocks.get(filePath) === current) {
+      fileLocks.delete(filePath);
+    }
+  }
+}
+
+/**
+ * Read, modify and write a JSON file as one locked step
+ */
+export async function updateJsonFile<T, R>(
+  filePath: string,
+  fallback: T,
+  update: (data: T) => { data: T; result: R } | Promise<{ data: T; result: R }>
+): Promise<R> {
+  return withFileLock(filePath, async () => {
+    const current = await readJsonFile<T>(filePath, fallback);
+    const { data, result } = await update(current);
+    await writeJsonFile(filePath, data);
+    return result;
+  });
+}
+
+/**
+ * Append records to a JSON Lines file (one JSON object per line)
+ * Existing lines are never rewritten, so the file works as an append-only log
+ */
+export async function appendJsonLines<T>(filePath: string, records: T[]): Promise<void> {
+  if (records.length === 0) return;
+
+  await withFileLock(filePath, async () => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const lines = records.map((record) => `${JSON.stringify(record)}\n`).join('');
+    await fs.appendFile(filePath, lines, 'utf-8');
+  });
+}
+
+/**
+ * Read every record from a JSON Lines file, oldest first
+ * A partially written last line (e.g. after a crash) is skipped
+ */
+export async function readJsonLines<T>(filePath: string): Promise<T[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const records: T[] = [];
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line) as T);
+    } catch {
+      console.warn(`[Storage] Skipping unreadable line in ${path.basename(filePath)}`);
+    }
+  }
+  return records;
+}
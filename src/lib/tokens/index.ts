@@ -0,0 +1,7 @@
+/**
+ * Tokens
+ * Central export for signed link tokens
+ */
+
+export { createSignedToken, verifySignedToken, daysFromNow } from './signed-token';
+export type { TokenPayload, TokenError, TokenVerification } from './signed-token';
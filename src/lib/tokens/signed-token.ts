@@ -0,0 +1,119 @@
+/**
+ * Signed Tokens
+ * Compact HMAC-SHA256 signed tokens for links sent by email
+ *
+ * Format: base64url(JSON payload) + "." + base64url(signature)
+ * Tokens are bound to a purpose so a token issued for one action
+ * cannot be replayed against another.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Claims carried by a signed token
+ */
+export interface TokenPayload {
+  /** What the token may be used for (e.g. "cancel_registration") */
+  purpose: string;
+  /** Subject the token refers to (e.g. a registration ID) */
+  sub: string;
+  /** Expiry as a Unix timestamp in seconds */
+  exp: number;
+  /** Optional extra claims */
+  data?: Record<string, string | number | boolean>;
+}
+
+/**
+ * Why a token was rejected
+ */
+export type TokenError = 'malformed' | 'invalid_signature' | 'expired' | 'wrong_purpose';
+
+/**
+ * Result of verifying a token
+ */
+export type TokenVerification =
+  | { valid: true; payload: TokenPayload }
+  | { valid: false; error: TokenError };
+
+/**
+ * Get the signing secret from environment
+ */
+function getSigningSecret(): string {
+  const secret = process.env.APP_SIGNING_SECRET;
+
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('APP_SIGNING_SECRET environment variable is required');
+    }
+    console.warn('[Tokens] APP_SIGNING_SECRET not configured, using development secret');
+    return 'impactconnect-development-secret';
+  }
+
+  return secret;
+}
+
+function sign(value: string): string {
+  return createHmac('sha256', getSigningSecret()).update(value).digest('base64url');
+}
+
+/**
+ * Create a signed token
+ */
+export function createSignedToken(
+  purpose: string,
+  subject: string,
+  options: {
+    expiresAt: Date;
+    data?: TokenPayload['data'];
+  }
+): string {
+  const payload: TokenPayload = {
+    purpose,
+    sub: subject,
+    exp: Math.floor(options.expiresAt.getTime() / 1000),
+    ...(options.data ? { data: options.data } : {}),
+  };
+
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded)}`;
+}
+
+/**
+ * Verify a signed token for the expected purpose
+ */
+export function verifySignedToken(token: string, purpose: string): TokenVerification {
+  const [encoded, signature, ...rest] = (token || '').split('.');
+  if (!encoded || !signature || rest.length > 0) {
+    return { valid: false, error: 'malformed' };
+  }
+
+  const expected = Buffer.from(sign(encoded));
+  const provided = Buffer.from(signature);
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return { valid: false, error: 'invalid_signature' };
+  }
+
+  let payload: TokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf-8'));
+  } catch {
+    return { valid: false, error: 'malformed' };
+  }
+
+  if (payload.purpose !== purpose) {
+    return { valid: false, error: 'wrong_purpose' };
+  }
+
+  if (!payload.exp || payload.exp * 1000 < Date.now()) {
+    return { valid: false, error: 'expired' };
+  }
+
+  return { valid: true, payload };
+}
+
+/**
+ * Add days to a date
+ */
+export function daysFromNow(days: number): Date {
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+}
@@ -9,15 +9,20 @@ export {
   setUserName,
   getRegistrations,
   addRegistration,
+  removeRegistration,
   getRegistrationsByEmail,
   isRegisteredForOpportunity,
   getCreatedEvents,
   addCreatedEvent,
   getCreatedEventsByEmail,
   updateEventStatus,
+  getEventDrafts,
+  getEventDraft,
+  saveEventDraft,
+  removeEventDraft,
   clearUserData,
   getPrimaryCause,
   getUserCausesByFrequency,
 } from './storage';
 
-export type { Registration, CreatedEvent } from './storage';
+export type { Registration, CreatedEvent, EventDraft } from './storage';
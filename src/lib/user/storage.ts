@@ -5,13 +5,17 @@
  * - User email
  * - Registrations
  * - Created events
+ * - Event drafts (autosaved create-event form)
  */
 
+import type { GroupMember } from '@/types';
+
 const STORAGE_KEYS = {
   USER_EMAIL: 'impactconnect_user_email',
   USER_NAME: 'impactconnect_user_name',
   REGISTRATIONS: 'impactconnect_registrations',
   CREATED_EVENTS: 'impactconnect_created_events',
+  EVENT_DRAFTS: 'impactconnect_event_drafts',
 } as const;
 
 export interface Registration {
@@ -19,12 +23,20 @@ export interface Registration {
   opportunityId: string;
   opportunityTitle: string;
   opportunitySlug: string;
-  opportunityDate: string;
+  opportunityDate: string; // The session attended (next session for whole-series registrations)
   opportunityLocation: string;
+  recurrence?: string; // Schedule description when registered for every session of a recurring opportunity
+  shifts?: string[]; // Labels of the shifts signed up for
   causeSlugs?: string[]; // Causes associated with this opportunity
   registeredAt: string;
   name: string;
   email: string;
+  registrationId?: string; // Server-side registration ID (REG-...)
+  status?: 'confirmed' | 'waitlisted';
+  waitlistPosition?: number;
+  groupName?: string;
+  members?: GroupMember[]; // Other participants registered in the same submission
+  ticketCode?: string; // Signed code shown as a QR ticket at check-in
 }
 
 export interface CreatedEvent {
@@ -36,6 +48,13 @@ export interface CreatedEvent {
   organizerEmail: string;
 }
 
+export interface EventDraft {
+  id: string; // draft_... (shared with the server copy)
+  title: string;
+  fields: Record<string, unknown>; // Create-event form state, including the uploaded cover image UID
+  updatedAt: string;
+}
+
 /**
  * Check if localStorage is available
  */
@@ -121,6 +140,19 @@ export function addRegistration(registration: Omit<Registration, 'id' | 'registe
   return newRegistration;
 }
 
+/**
+ * Remove a registration from storage (e.g. after it was cancelled)
+ * Matches either the local ID or the server-side registration ID
+ */
+export function removeRegistration(registrationId: string): void {
+  if (!isStorageAvailable()) return;
+
+  const registrations = getRegistrations().filter(
+    r => r.id !== registrationId && r.registrationId !== registrationId
+  );
+  localStorage.setItem(STORAGE_KEYS.REGISTRATIONS, JSON.stringify(registrations));
+}
+
 /**
  * Get registrations for a specific email
  */
@@ -199,6 +231,56 @@ export function updateEventStatus(eventId: string, status: CreatedEvent['status'
   }
 }
 
+/**
+ * Get all event drafts from storage (most recently saved first)
+ */
+export function getEventDrafts(): EventDraft[] {
+  if (!isStorageAvailable()) return [];
+  try {
+    const data = localStorage.getItem(STORAGE_KEYS.EVENT_DRAFTS);
+    const drafts: EventDraft[] = data ? JSON.parse(data) : [];
+    return drafts.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Get a single event draft by ID
+ */
+export function getEventDraft(draftId: string): EventDraft | null {
+  return getEventDrafts().find(d => d.id === draftId) || null;
+}
+
+/**
+ * Create or replace an event draft in storage
+ */
+export function saveEventDraft(draft: Omit<EventDraft, 'updatedAt'> & { updatedAt?: string }): EventDraft {
+  if (!isStorageAvailable()) {
+    throw new Error('Storage not available');
+  }
+
+  const saved: EventDraft = {
+    ...draft,
+    updatedAt: draft.updatedAt || new Date().toISOString(),
+  };
+  const drafts = getEventDrafts().filter(d => d.id !== draft.id);
+  drafts.push(saved);
+  localStorage.setItem(STORAGE_KEYS.EVENT_DRAFTS, JSON.stringify(drafts));
+
+  return saved;
+}
+
+/**
+ * Remove an event draft from storage (e.g. after it was submitted)
+ */
+export function removeEventDraft(draftId: string): void {
+  if (!isStorageAvailable()) return;
+
+  const drafts = getEventDrafts().filter(d => d.id !== draftId);
+  localStorage.setItem(STORAGE_KEYS.EVENT_DRAFTS, JSON.stringify(drafts));
+}
+
 /**
  * Clear all user data
  */
@@ -0,0 +1,35 @@
+/**
+ * CSV Utilities Tests
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { toCsvCell } from './csv';
+
+describe('toCsvCell', () => {
+  it('writes empty cells for missing values', () => {
+    assert.equal(toCsvCell(null), '');
+    assert.equal(toCsvCell(undefined), '');
+    assert.equal(toCsvCell(0), '0');
+  });
+
+  it('quotes cells with commas, quotes or line breaks', () => {
+    assert.equal(toCsvCell('Delhi, India'), '"Delhi, India"');
+    assert.equal(toCsvCell('The "Green" Team'), '"The ""Green"" Team"');
+    assert.equal(toCsvCell('line one\nline two'), '"line one\nline two"');
+  });
+
+  it('neutralises values spreadsheets would run as formulas', () => {
+    assert.equal(toCsvCell('=HYPERLINK("http://evil.example","Click")'), '"\'=HYPERLINK(""http://evil.example"",""Click"")"');
+    assert.equal(toCsvCell('+1 555 0100'), "'+1 555 0100");
+    assert.equal(toCsvCell('-2+3'), "'-2+3");
+    assert.equal(toCsvCell('@SUM(A1:A2)'), "'@SUM(A1:A2)");
+    assert.equal(toCsvCell('\t=1+1'), "'\t=1+1");
+    assert.equal(toCsvCell('\r=1+1'), '"\'\r=1+1"');
+  });
+
+  it('leaves ordinary text alone', () => {
+    assert.equal(toCsvCell('Jane Doe'), 'Jane Doe');
+    assert.equal(toCsvCell('jane@example.com'), 'jane@example.com');
+  });
+});
@@ -0,0 +1,15 @@
+/**
+ * CSV Utilities
+ * Shared helpers for CSV downloads
+ */
+
+/**
+ * Quote a CSV cell, neutralising values spreadsheets would run as formulas
+ */
+export function toCsvCell(value: string | number | null | undefined): string {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -24,6 +24,8 @@ export {
 
 export type { ParsedQuery } from './search';
 
+export { toCsvCell } from './csv';
+
 /**
  * Combine class names (simple cn utility)
  */
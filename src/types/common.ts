@@ -39,7 +39,7 @@ export interface ImageAsset {
  * Contact information for organizers
  */
 export interface ContactInfo {
-  email: string;
+  email?: string;
   phone?: string;
   website?: string;
   socialLinks?: SocialLinks;
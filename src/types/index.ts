@@ -16,6 +16,8 @@ export {
 export type {
   ImageAsset,
   LocationReference,
+  ContactInfo,
+  SocialLinks,
 } from './common';
 
 // Taxonomy Types (Cause only)
@@ -26,11 +28,28 @@ export type {
 } from './taxonomy';
 export { CauseSlugs } from './taxonomy';
 
+// Organizer Types
+export type {
+  Organizer,
+  OrganizerReference,
+  OrganizerVerificationStatus,
+} from './organizer';
+
 // Opportunity Types
 export type {
   Opportunity,
   OpportunitySummary,
+  OpportunityShift,
   OpportunityFilters,
   OpportunitySortOption,
   OpportunityListResponse,
 } from './opportunity';
+
+// Registration Types
+export type {
+  RegistrationQuestion,
+  RegistrationQuestionType,
+  RegistrationAnswerValue,
+  RegistrationAnswers,
+  GroupMember,
+} from './registration';
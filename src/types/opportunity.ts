@@ -5,6 +5,8 @@
 
 import type { ContributionType, OpportunityStatus } from './enums';
 import type { ImageAsset } from './common';
+import type { OrganizerReference } from './organizer';
+import type { RegistrationQuestion } from './registration';
 
 /**
  * Opportunity - the central browsable entity
@@ -34,23 +36,46 @@ export interface Opportunity {
   endDate?: string;
   startTime?: string;
   endTime?: string;
+  isRecurring?: boolean;
+  recurrencePattern?: string; // RRULE; startDate is the first session, endDate the last
+  shifts?: OpportunityShift[]; // Time slots or roles with their own capacity
 
-  // Organizer (stored directly, no separate model)
+  // Organizer (profile reference when linked; name and email are always stored)
+  organizer?: OrganizerReference;
   organizerName?: string;
   organizerEmail?: string;
 
   // Capacity & Requirements
   spotsAvailable?: number;
+  spotsRemaining?: number; // Computed from the registration store
   requirements?: string;
 
+  // Custom registration questions
+  registrationQuestions?: RegistrationQuestion[];
+
   // Status
   status?: OpportunityStatus;
+  cancellationReason?: string;
 
   // Metadata
   createdAt?: string;
   updatedAt?: string;
 }
 
+/**
+ * A time slot or role within an opportunity (e.g. "Water station 3, 7-11am")
+ * Shifts replace the opportunity-wide capacity: each one fills up on its own
+ */
+export interface OpportunityShift {
+  id: string; // Stable key stored on registrations
+  label: string;
+  date: string;
+  startTime?: string;
+  endTime?: string;
+  spots?: number; // Unlimited when unset
+  spotsRemaining?: number; // Computed from the registration store
+}
+
 /**
  * Opportunity card for list/grid views
  */
@@ -69,8 +94,13 @@ export interface OpportunitySummary {
   startDate: string;
   endDate?: string;
   startTime?: string;
+  isRecurring?: boolean;
+  recurrencePattern?: string;
+  shifts?: OpportunityShift[];
+  organizer?: OrganizerReference;
   organizerName?: string;
   spotsAvailable?: number;
+  spotsRemaining?: number;
   status?: OpportunityStatus;
 }
 
@@ -0,0 +1,41 @@
+/**
+ * ImpactConnect - Organizer Types
+ * NGOs, individuals and community groups that host opportunities
+ */
+
+import type { OrganizerType } from './enums';
+import type { ContactInfo, ImageAsset } from './common';
+
+/**
+ * Verification state set by admins in the CMS
+ */
+export type OrganizerVerificationStatus = 'pending' | 'verified';
+
+/**
+ * Organizer profile
+ */
+export interface Organizer {
+  uid: string;
+  name: string;
+  slug: string;
+  type?: OrganizerType;
+  tagline?: string;
+  description?: string;
+  logo?: ImageAsset;
+  verificationStatus: OrganizerVerificationStatus;
+  isVerified: boolean;
+  foundedYear?: number;
+  focusAreas?: string[];
+  contact?: ContactInfo;
+}
+
+/**
+ * Lightweight organizer reference embedded in opportunities
+ */
+export interface OrganizerReference {
+  uid: string;
+  name: string;
+  slug: string;
+  logo?: ImageAsset;
+  isVerified: boolean;
+}
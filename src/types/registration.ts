@@ -0,0 +1,46 @@
+/**
+ * ImpactConnect - Registration Types
+ * Custom registration questions defined per opportunity
+ */
+
+/**
+ * Supported question input types
+ */
+export type RegistrationQuestionType = 'text' | 'select' | 'checkbox' | 'number';
+
+/**
+ * A custom question asked when registering for an opportunity
+ */
+export interface RegistrationQuestion {
+  /** Stable key used for answers (e.g. "tshirt_size") */
+  id: string;
+  label: string;
+  type: RegistrationQuestionType;
+  required?: boolean;
+  helpText?: string;
+  /** Choices for select questions, or for multi-choice checkbox questions */
+  options?: string[];
+  /** Bounds for number questions */
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Additional participant in a group registration
+ * The person submitting the form is the group lead and is not listed here
+ */
+export interface GroupMember {
+  name: string;
+  email?: string;
+}
+
+/**
+ * Answer value: text/select -> string, number -> number,
+ * single checkbox -> boolean, checkbox with options -> string[]
+ */
+export type RegistrationAnswerValue = string | number | boolean | string[];
+
+/**
+ * Answers keyed by question ID
+ */
+export type RegistrationAnswers = Record<string, RegistrationAnswerValue>;